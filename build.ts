@@ -2,6 +2,7 @@ import { readdirSync, copyFileSync, mkdirSync } from 'fs'
 import { join, basename } from 'path'
 import postcss from 'postcss'
 import postcssLoadConfig from 'postcss-load-config'
+import { buildWebManifest } from './src/config/branding'
 
 const isProd = process.env.NODE_ENV === 'production'
 
@@ -49,11 +50,38 @@ console.log(`Built ${cssFilename}`)
 
 // Copy public assets to dist
 const publicDir = './public'
-for (const file of readdirSync(publicDir)) {
+const publicFiles = readdirSync(publicDir)
+for (const file of publicFiles) {
 	copyFileSync(join(publicDir, file), join('./dist', file))
 }
 console.log('Copied public assets')
 
+// Web app manifest for installing the explorer as a PWA, from the bundled config.json
+// branding. The app swaps in one generated from the runtime config when it loads.
+const appConfig = await Bun.file(join(publicDir, 'config.json')).json().catch(() => ({}))
+const manifest = buildWebManifest({
+	appName: appConfig.appName || 'Republic Explorer',
+	appNameShort: appConfig.appNameShort || 'Explorer',
+	faviconUrl: appConfig.branding?.faviconUrl || undefined,
+	colors: appConfig.branding?.colors,
+})
+await Bun.write('./dist/manifest.webmanifest', JSON.stringify(manifest, null, 2))
+console.log('Built manifest.webmanifest')
+
+// Service worker precaches the app shell and every hashed bundle of this build;
+// the version changes with the bundle names, so a new build installs a fresh cache
+const precacheUrls = [
+	'/index.html',
+	'/manifest.webmanifest',
+	`/${cssFilename}`,
+	...result.outputs.filter(o => o.path.endsWith('.js')).map(o => `/${basename(o.path)}`),
+	...publicFiles.filter(f => f !== 'sw.js' && !f.endsWith('.example')).map(f => `/${f}`),
+]
+const swVersion = new Bun.CryptoHasher('md5').update(precacheUrls.join('\n')).digest('hex').slice(0, 8)
+const sw = await Bun.file('./public/sw.js').text()
+await Bun.write('./dist/sw.js', sw.replace('self.__PRECACHE_MANIFEST', JSON.stringify({ version: swVersion, urls: precacheUrls })))
+console.log(`Built sw.js (${precacheUrls.length} precached files)`)
+
 // Generate index.html referencing hashed filenames
 const html = `<!doctype html>
 <html lang="en">
@@ -61,7 +89,9 @@ const html = `<!doctype html>
     <meta charset="UTF-8" />
     <meta name="viewport" content="width=device-width, initial-scale=1.0" />
     <title>Republic AI Block Explorer</title>
+    <meta name="theme-color" content="${manifest.theme_color}" />
     <link rel="icon" type="image/svg+xml" href="/favicon.svg" />
+    <link rel="manifest" href="/manifest.webmanifest" />
     <link rel="stylesheet" href="/${cssFilename}" />
   </head>
   <body>
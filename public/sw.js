@@ -0,0 +1,72 @@
+/**
+ * Explorer service worker
+ * Precaches the hashed bundles of the current build and serves them cache-first.
+ * Navigations and config.json are network-first with the cached copy as the
+ * offline fallback. Indexer API responses are not cached here; the app persists
+ * those in its query cache.
+ */
+
+// build.ts injects this build's { version, urls } in place of the manifest token below
+const PRECACHE = self.__PRECACHE_MANIFEST || { version: 'dev', urls: [] }
+const CACHE_PREFIX = 'yaci-explorer-'
+const CACHE_NAME = `${CACHE_PREFIX}${PRECACHE.version}`
+const SHELL_URL = '/index.html'
+const NETWORK_FIRST_URLS = ['/config.json', '/manifest.webmanifest']
+
+self.addEventListener('install', (event) => {
+	event.waitUntil(
+		caches
+			.open(CACHE_NAME)
+			.then((cache) => cache.addAll(PRECACHE.urls))
+			.then(() => self.skipWaiting())
+	)
+})
+
+self.addEventListener('activate', (event) => {
+	event.waitUntil(
+		caches
+			.keys()
+			.then((keys) =>
+				Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key)))
+			)
+			.then(() => self.clients.claim())
+	)
+})
+
+async function networkFirst(request, cacheKey) {
+	const cache = await caches.open(CACHE_NAME)
+	try {
+		const response = await fetch(request)
+		if (response.ok) cache.put(cacheKey, response.clone())
+		return response
+	} catch (error) {
+		const cached = await cache.match(cacheKey)
+		if (cached) return cached
+		throw error
+	}
+}
+
+async function cacheFirst(request) {
+	const cache = await caches.open(CACHE_NAME)
+	const cached = await cache.match(request)
+	if (cached) return cached
+	const response = await fetch(request)
+	if (response.ok) cache.put(request, response.clone())
+	return response
+}
+
+self.addEventListener('fetch', (event) => {
+	const { request } = event
+	const url = new URL(request.url)
+	// Everything else, including the indexer API and chain endpoints, goes to the network
+	if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+	if (request.mode === 'navigate') {
+		// Every route, network-prefixed or not, renders the same app shell
+		event.respondWith(networkFirst(request, SHELL_URL))
+	} else if (NETWORK_FIRST_URLS.includes(url.pathname)) {
+		event.respondWith(networkFirst(request, url.pathname))
+	} else if (PRECACHE.urls.includes(url.pathname)) {
+		event.respondWith(cacheFirst(request))
+	}
+})
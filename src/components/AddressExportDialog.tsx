@@ -0,0 +1,213 @@
+/**
+ * Address Export Dialog
+ * Exports an address's full transaction history to CSV or JSON
+ */
+
+import { useRef, useState } from 'react'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+	DialogDescription,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useDenom } from '@/contexts/DenomContext'
+import {
+	downloadBlob,
+	type ExportFormat,
+	type ExportProgress,
+	type ExportRange,
+	exportAddressHistory,
+} from '@/lib/address-export'
+import { css } from '@/styled-system/css'
+
+interface AddressExportDialogProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	address: string
+	altAddress: string | null
+}
+
+export function AddressExportDialog({ open, onOpenChange, address, altAddress }: AddressExportDialogProps) {
+	const { getDenomDisplay } = useDenom()
+	const [format, setFormat] = useState<ExportFormat>('csv')
+	const [fromDate, setFromDate] = useState('')
+	const [toDate, setToDate] = useState('')
+	const [minHeight, setMinHeight] = useState('')
+	const [maxHeight, setMaxHeight] = useState('')
+	const [progress, setProgress] = useState<ExportProgress | null>(null)
+	const [isExporting, setIsExporting] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+	const abortRef = useRef<AbortController | null>(null)
+
+	const handleExport = async (e: React.FormEvent) => {
+		e.preventDefault()
+		const range: ExportRange = {
+			fromDate: fromDate || undefined,
+			toDate: toDate || undefined,
+			minHeight: minHeight ? Number(minHeight) : undefined,
+			maxHeight: maxHeight ? Number(maxHeight) : undefined,
+		}
+
+		const controller = new AbortController()
+		abortRef.current = controller
+		setIsExporting(true)
+		setError(null)
+		setProgress(null)
+
+		try {
+			const blob = await exportAddressHistory({
+				address,
+				altAddress,
+				format,
+				range,
+				getDenomDisplay,
+				onProgress: setProgress,
+				signal: controller.signal,
+			})
+			downloadBlob(blob, `${address}-transactions.${format}`)
+			onOpenChange(false)
+		} catch (err) {
+			if (!controller.signal.aborted) {
+				setError(err instanceof Error ? err.message : 'Export failed')
+			}
+		} finally {
+			abortRef.current = null
+			setIsExporting(false)
+		}
+	}
+
+	const handleOpenChange = (nextOpen: boolean) => {
+		if (!nextOpen) abortRef.current?.abort()
+		onOpenChange(nextOpen)
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Export Transactions</DialogTitle>
+					<DialogDescription>
+						Download the full transaction history for this address, including fees and resolved amounts.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleExport}>
+					<div className={styles.formGroup}>
+						<Label>Format</Label>
+						<div className={styles.formatRow}>
+							{(['csv', 'json'] as const).map((f) => (
+								<Button
+									key={f}
+									type="button"
+									size="sm"
+									variant={format === f ? 'default' : 'outline'}
+									onClick={() => setFormat(f)}
+									disabled={isExporting}
+								>
+									{f.toUpperCase()}
+								</Button>
+							))}
+						</div>
+					</div>
+
+					<div className={styles.rangeGrid}>
+						<div className={styles.formGroup}>
+							<Label htmlFor="export-from-date">From date</Label>
+							<Input id="export-from-date" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} disabled={isExporting} />
+						</div>
+						<div className={styles.formGroup}>
+							<Label htmlFor="export-to-date">To date</Label>
+							<Input id="export-to-date" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} disabled={isExporting} />
+						</div>
+						<div className={styles.formGroup}>
+							<Label htmlFor="export-min-height">From height</Label>
+							<Input id="export-min-height" type="number" min="1" placeholder="Any" value={minHeight} onChange={(e) => setMinHeight(e.target.value)} disabled={isExporting} />
+						</div>
+						<div className={styles.formGroup}>
+							<Label htmlFor="export-max-height">To height</Label>
+							<Input id="export-max-height" type="number" min="1" placeholder="Any" value={maxHeight} onChange={(e) => setMaxHeight(e.target.value)} disabled={isExporting} />
+						</div>
+					</div>
+
+					{isExporting && (
+						<div className={styles.progress}>
+							<Loader2 className={styles.spinner} />
+							<span>
+								{progress
+									? `Fetched ${progress.fetched.toLocaleString()}${progress.total ? ` of ${progress.total.toLocaleString()}` : ''} transactions, ${progress.exported.toLocaleString()} in range`
+									: 'Starting export...'}
+							</span>
+						</div>
+					)}
+
+					{error && (
+						<div className={styles.error}>
+							<AlertCircle className={styles.errorIcon} />
+							<span>{error}</span>
+						</div>
+					)}
+
+					<DialogFooter className={styles.footer}>
+						<Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isExporting}>
+							{isExporting ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+const styles = {
+	formGroup: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '2',
+		mb: '4',
+	}),
+	formatRow: css({
+		display: 'flex',
+		gap: '2',
+	}),
+	rangeGrid: css({
+		display: 'grid',
+		gridTemplateColumns: '1fr 1fr',
+		columnGap: '3',
+	}),
+	progress: css({
+		display: 'flex',
+		alignItems: 'center',
+		gap: '2',
+		fontSize: 'sm',
+		color: 'fg.muted',
+	}),
+	spinner: css({
+		w: '4',
+		h: '4',
+		animation: 'spin 1s linear infinite',
+	}),
+	error: css({
+		display: 'flex',
+		alignItems: 'center',
+		gap: '2',
+		fontSize: 'sm',
+		color: 'red.500',
+	}),
+	errorIcon: css({
+		w: '4',
+		h: '4',
+		flexShrink: 0,
+	}),
+	footer: css({
+		mt: '4',
+	}),
+}
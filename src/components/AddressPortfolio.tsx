@@ -0,0 +1,353 @@
+/**
+ * Address Portfolio
+ * Current holdings (liquid, staked, unbonding, rewards) and reconstructed balance history
+ */
+
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import ReactECharts from 'echarts-for-react'
+import { AlertCircle, PieChart } from 'lucide-react'
+import { formatUnits } from 'viem'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useDenom } from '@/contexts/DenomContext'
+import { api } from '@/lib/api'
+import { getChainInfo } from '@/lib/chain-info'
+import { getChartTheme } from '@/lib/chart-theme'
+import { formatDenomAmount, getDenomMetadata } from '@/lib/denom'
+import { buildPortfolio } from '@/lib/portfolio'
+import { css } from '@/styled-system/css'
+
+const TOTAL_VIEW = '__total__'
+
+function toDisplay(amount: bigint, denom: string): number {
+	return Number(formatUnits(amount, getDenomMetadata(denom).decimals))
+}
+
+interface AddressPortfolioProps {
+	/** bech32 account address */
+	address: string
+}
+
+export function AddressPortfolio({ address }: AddressPortfolioProps) {
+	const { getDenomDisplay } = useDenom()
+	const [view, setView] = useState(TOTAL_VIEW)
+
+	const { data: chainInfo } = useQuery({
+		queryKey: ['chain-info'],
+		queryFn: () => getChainInfo(api),
+		staleTime: Infinity,
+	})
+	const nativeDenom = chainInfo?.baseDenom
+
+	const { data: portfolio, isLoading, error } = useQuery({
+		queryKey: ['address-portfolio', address, nativeDenom],
+		queryFn: () => buildPortfolio(address, nativeDenom as string),
+		enabled: !!nativeDenom,
+		staleTime: 60000,
+	})
+
+	const denoms = useMemo(() => {
+		if (!portfolio) return []
+		const all = new Set<string>()
+		for (const point of portfolio.history) {
+			for (const denom of Object.keys(point.balances)) all.add(denom)
+		}
+		all.delete(portfolio.nativeDenom)
+		return Array.from(all).sort()
+	}, [portfolio])
+
+	if (isLoading || !portfolio) {
+		if (error) {
+			return (
+				<Card>
+					<CardContent className={styles.errorState}>
+						<AlertCircle className={styles.errorIcon} />
+						<span>Failed to load portfolio: {error instanceof Error ? error.message : 'unknown error'}</span>
+					</CardContent>
+				</Card>
+			)
+		}
+		return (
+			<div className={styles.container}>
+				<div className={styles.statsGrid}>
+					{Array.from({ length: 5 }).map((_, i) => (
+						<Skeleton key={i} className={styles.statSkeleton} />
+					))}
+				</div>
+				<Skeleton className={styles.chartSkeleton} />
+			</div>
+		)
+	}
+
+	const native = portfolio.nativeDenom
+	const symbol = getDenomDisplay(native)
+	const liquidNative = portfolio.liquid[native] ?? 0n
+	const rewardsNative = portfolio.rewards[native] ?? 0n
+	const total = liquidNative + portfolio.staked + portfolio.unbonding + rewardsNative
+	const formatNative = (amount: bigint) => `${formatDenomAmount(amount.toString(), native, { maxDecimals: 4 })} ${symbol}`
+
+	const summary = [
+		{ label: 'Total', value: total, highlight: true },
+		{ label: 'Available', value: liquidNative },
+		{ label: 'Staked', value: portfolio.staked },
+		{ label: 'Unbonding', value: portfolio.unbonding },
+		{ label: 'Rewards', value: rewardsNative },
+	]
+
+	const otherHoldings = Object.entries(portfolio.liquid).filter(([denom, amount]) => denom !== native && amount > 0n)
+
+	const isTotalView = view === TOTAL_VIEW
+	const times = portfolio.history.map((p) => p.time)
+	const chart = getChartTheme()
+	const baseAxis = {
+		axisLabel: { color: chart.axisLabel, fontSize: 11 },
+		axisLine: { show: false },
+		splitLine: { lineStyle: { color: chart.border, type: 'dashed' } },
+	}
+
+	const option = {
+		tooltip: {
+			trigger: 'axis',
+			...chart.tooltip,
+			valueFormatter: (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 4 }),
+		},
+		legend: {
+			textStyle: { color: chart.axisLabel, fontSize: 11 },
+			right: 10,
+			top: 0,
+		},
+		grid: { left: '3%', right: '4%', bottom: '8%', top: '15%', containLabel: true },
+		xAxis: {
+			type: 'time',
+			axisLabel: { color: chart.axisLabel, fontSize: 11 },
+			axisLine: { lineStyle: { color: chart.border } },
+			splitLine: { show: false },
+		},
+		yAxis: { type: 'value', name: isTotalView ? symbol : getDenomDisplay(view), nameTextStyle: { color: chart.axisLabel }, ...baseAxis },
+		series: isTotalView
+			? [
+					{
+						name: 'Available',
+						type: 'line',
+						step: 'end',
+						stack: 'total',
+						symbol: 'none',
+						areaStyle: { opacity: 0.3 },
+						itemStyle: { color: chart.accent[7] },
+						data: portfolio.history.map((p, i) => [times[i], toDisplay(p.balances[native] ?? 0n, native)]),
+					},
+					{
+						name: 'Staked',
+						type: 'line',
+						step: 'end',
+						stack: 'total',
+						symbol: 'none',
+						areaStyle: { opacity: 0.3 },
+						itemStyle: { color: chart.accent[4] },
+						data: portfolio.history.map((p, i) => [times[i], toDisplay(p.staked, native)]),
+					},
+				]
+			: [
+					{
+						name: getDenomDisplay(view),
+						type: 'line',
+						step: 'end',
+						symbol: 'none',
+						areaStyle: { opacity: 0.2 },
+						itemStyle: { color: chart.accent[7] },
+						data: portfolio.history.map((p, i) => [times[i], toDisplay(p.balances[view] ?? 0n, view)]),
+					},
+				],
+	}
+
+	return (
+		<div className={styles.container}>
+			<div className={styles.statsGrid}>
+				{summary.map((item) => (
+					<Card key={item.label}>
+						<CardContent className={styles.statCard}>
+							<span className={styles.statLabel}>{item.label}</span>
+							<span className={item.highlight ? styles.statValueHighlight : styles.statValue}>
+								{formatNative(item.value)}
+							</span>
+						</CardContent>
+					</Card>
+				))}
+			</div>
+
+			<Card>
+				<CardHeader>
+					<div className={styles.chartHeader}>
+						<div>
+							<CardTitle className={styles.titleFlex}>
+								<PieChart className={styles.icon} />
+								Balance History
+							</CardTitle>
+							<CardDescription>
+								Reconstructed from {portfolio.txsScanned.toLocaleString()} indexed transactions
+								{portfolio.truncated ? ' (older activity not included)' : ''}
+							</CardDescription>
+						</div>
+						<div className={styles.denomButtons}>
+							<Button size="sm" variant={isTotalView ? 'default' : 'outline'} onClick={() => setView(TOTAL_VIEW)}>
+								{symbol} (total)
+							</Button>
+							{denoms.map((denom) => (
+								<Button
+									key={denom}
+									size="sm"
+									variant={view === denom ? 'default' : 'outline'}
+									onClick={() => setView(denom)}
+									title={denom}
+								>
+									{getDenomDisplay(denom).length > 12 ? `${getDenomDisplay(denom).slice(0, 12)}...` : getDenomDisplay(denom)}
+								</Button>
+							))}
+						</div>
+					</div>
+				</CardHeader>
+				<CardContent>
+					{portfolio.history.length < 2 ? (
+						<div className={styles.emptyChart}>No balance changes found for this address</div>
+					) : (
+						<ReactECharts option={option} style={{ height: '320px' }} opts={{ renderer: 'canvas' }} notMerge={true} />
+					)}
+				</CardContent>
+			</Card>
+
+			{otherHoldings.length > 0 && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Other Holdings</CardTitle>
+					</CardHeader>
+					<CardContent>
+						<div className={styles.holdingsList}>
+							{otherHoldings.map(([denom, amount]) => (
+								<div key={denom} className={styles.holdingRow}>
+									<span className={styles.holdingDenom} title={denom}>{getDenomDisplay(denom)}</span>
+									<span className={styles.holdingAmount}>
+										{formatDenomAmount(amount.toString(), denom, { maxDecimals: 6 })}
+									</span>
+								</div>
+							))}
+						</div>
+					</CardContent>
+				</Card>
+			)}
+		</div>
+	)
+}
+
+const styles = {
+	container: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '6',
+	}),
+	statsGrid: css({
+		display: 'grid',
+		gridTemplateColumns: { base: 'repeat(2, 1fr)', md: 'repeat(5, 1fr)' },
+		gap: '4',
+	}),
+	statSkeleton: css({
+		h: '20',
+		w: 'full',
+	}),
+	chartSkeleton: css({
+		h: '80',
+		w: 'full',
+	}),
+	statCard: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '1',
+		py: '4',
+	}),
+	statLabel: css({
+		fontSize: 'xs',
+		fontWeight: 'medium',
+		color: 'fg.muted',
+		textTransform: 'uppercase',
+		letterSpacing: 'wider',
+	}),
+	statValue: css({
+		fontSize: 'lg',
+		fontWeight: 'bold',
+		fontFamily: 'mono',
+	}),
+	statValueHighlight: css({
+		fontSize: 'lg',
+		fontWeight: 'bold',
+		fontFamily: 'mono',
+		color: 'republicGreen.default',
+	}),
+	chartHeader: css({
+		display: 'flex',
+		alignItems: 'flex-start',
+		justifyContent: 'space-between',
+		flexWrap: 'wrap',
+		gap: '3',
+	}),
+	titleFlex: css({
+		display: 'flex',
+		alignItems: 'center',
+		gap: '2',
+	}),
+	icon: css({
+		w: '5',
+		h: '5',
+	}),
+	denomButtons: css({
+		display: 'flex',
+		flexWrap: 'wrap',
+		gap: '2',
+	}),
+	emptyChart: css({
+		h: '200px',
+		display: 'flex',
+		alignItems: 'center',
+		justifyContent: 'center',
+		color: 'fg.muted',
+	}),
+	holdingsList: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '2',
+	}),
+	holdingRow: css({
+		display: 'flex',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: '4',
+		py: '2',
+		borderBottom: '1px solid',
+		borderColor: 'border.default',
+		_last: { borderBottom: 'none' },
+	}),
+	holdingDenom: css({
+		fontSize: 'sm',
+		fontWeight: 'medium',
+		overflow: 'hidden',
+		textOverflow: 'ellipsis',
+		whiteSpace: 'nowrap',
+	}),
+	holdingAmount: css({
+		fontFamily: 'mono',
+		fontSize: 'sm',
+	}),
+	errorState: css({
+		display: 'flex',
+		alignItems: 'center',
+		gap: '2',
+		py: '6',
+		color: 'red.500',
+		fontSize: 'sm',
+	}),
+	errorIcon: css({
+		w: '4',
+		h: '4',
+		flexShrink: 0,
+	}),
+}
@@ -0,0 +1,262 @@
+import { Link } from "react-router"
+import { AlertTriangle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ValidatorAvatar } from "@/components/ValidatorAvatar"
+import type { BlockCommitSignature, BlockEvidenceItem, BlockValidator, CommitVoteStatus } from "@/lib/api"
+import { formatAddress, formatNumber, formatTimeAgo } from "@/lib/utils"
+import { css, cx } from "@/styled-system/css"
+
+const STATUS_LABELS: Record<CommitVoteStatus, string> = {
+	commit: "Signed",
+	nil: "Nil",
+	absent: "Absent",
+}
+
+function ValidatorName({ validator, address }: { validator: BlockValidator | null; address: string | null }) {
+	if (validator) {
+		return (
+			<Link to={`/validators/${validator.operator_address}`} className={styles.validatorLink}>
+				{validator.moniker || formatAddress(validator.operator_address, 8)}
+			</Link>
+		)
+	}
+	return <span className={styles.unknown}>{address ? formatAddress(address, 6) : "Unknown validator"}</span>
+}
+
+interface BlockProposerCardProps {
+	proposer: BlockValidator | null
+	/** Consensus address as uppercase hex */
+	address: string | null
+	isLoading?: boolean
+}
+
+/**
+ * Proposer of the block, resolved from its consensus address to the validator list
+ */
+export function BlockProposerCard({ proposer, address, isLoading }: BlockProposerCardProps) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Proposer</CardTitle>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<p className={styles.muted}>Resolving proposer...</p>
+				) : proposer ? (
+					<div className={styles.proposer}>
+						<div className={styles.proposerHeader}>
+							<ValidatorAvatar identity={proposer.identity} moniker={proposer.moniker} size={40} />
+							<div className={styles.proposerName}>
+								<ValidatorName validator={proposer} address={address} />
+								<span className={styles.mono}>{formatAddress(proposer.operator_address, 10)}</span>
+							</div>
+						</div>
+						<div className={styles.proposerStats}>
+							<span className={styles.muted}>Voting power</span>
+							<span>{proposer.voting_power_pct.toFixed(2)}%</span>
+						</div>
+						{proposer.jailed && <Badge variant="destructive">Jailed</Badge>}
+					</div>
+				) : (
+					<p className={styles.muted}>No validator matches this proposer address</p>
+				)}
+				{address && <p className={cx(styles.mono, styles.consensusAddress)}>{address}</p>}
+			</CardContent>
+		</Card>
+	)
+}
+
+interface BlockSignaturesCardProps {
+	signatures: BlockCommitSignature[]
+	/** Height the commit signs (the previous block) */
+	commitHeight: number | null
+	commitRound: number | null
+	isLoading?: boolean
+}
+
+/**
+ * Grid of the block's last commit votes with each validator's status and voting power share.
+ * Shares come from current stake, so they approximate the power at the signed height.
+ */
+export function BlockSignaturesCard({ signatures, commitHeight, commitRound, isLoading }: BlockSignaturesCardProps) {
+	const counts = { commit: 0, nil: 0, absent: 0 }
+	let signedShare = 0
+	for (const sig of signatures) {
+		counts[sig.status]++
+		if (sig.status === "commit") signedShare += sig.voting_power_share ?? 0
+	}
+	const sorted = [...signatures].sort((a, b) => (b.voting_power_share ?? -1) - (a.voting_power_share ?? -1))
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Commit Signatures ({signatures.length})</CardTitle>
+				<CardDescription>
+					{commitHeight ? (
+						<>
+							Votes for <Link to={`/blocks/${commitHeight}`} className={styles.inlineLink}>block #{formatNumber(commitHeight)}</Link>
+							{commitRound ? ` committed in round ${commitRound}` : ""}. Voting power shares use current stake.
+						</>
+					) : (
+						"Votes committing the previous block. Voting power shares use current stake."
+					)}
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<p className={styles.muted}>Resolving validators...</p>
+				) : signatures.length === 0 ? (
+					<p className={styles.muted}>This block carries no commit signatures</p>
+				) : (
+					<>
+						<div className={styles.summary}>
+							<span>
+								<span className={cx(styles.dot, styles.dotCommit)} />
+								{counts.commit} signed
+							</span>
+							<span>
+								<span className={cx(styles.dot, styles.dotNil)} />
+								{counts.nil} nil
+							</span>
+							<span>
+								<span className={cx(styles.dot, styles.dotAbsent)} />
+								{counts.absent} absent
+							</span>
+							{signedShare > 0 && <span className={styles.muted}>{signedShare.toFixed(2)}% of power signed</span>}
+						</div>
+						<div className={styles.grid}>
+							{sorted.map((sig, i) => (
+								<div
+									key={sig.address ?? `absent-${i}`}
+									className={cx(styles.tile, sig.status !== "commit" && styles.tileMissed)}
+									title={sig.timestamp ? `Signed ${formatTimeAgo(sig.timestamp)}` : undefined}
+								>
+									<div className={styles.tileHeader}>
+										<span
+											className={cx(
+												styles.dot,
+												sig.status === "commit" ? styles.dotCommit : sig.status === "nil" ? styles.dotNil : styles.dotAbsent
+											)}
+										/>
+										<ValidatorName validator={sig.validator} address={sig.address} />
+									</div>
+									<div className={styles.tileMeta}>
+										<span>{STATUS_LABELS[sig.status]}</span>
+										<span>{sig.voting_power_share != null ? `${sig.voting_power_share.toFixed(2)}%` : "-"}</span>
+									</div>
+								</div>
+							))}
+						</div>
+					</>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
+
+/**
+ * Duplicate-vote and light-client-attack evidence included in the block
+ */
+export function BlockEvidenceCard({ evidence }: { evidence: BlockEvidenceItem[] }) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className={styles.evidenceTitle}>
+					<AlertTriangle className={styles.evidenceIcon} />
+					Evidence ({evidence.length})
+				</CardTitle>
+				<CardDescription>Misbehaviour submitted in this block; offending validators are slashed and jailed</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<div className={styles.evidenceList}>
+					{evidence.map((item, i) => (
+						<div key={`${item.type}-${i}`} className={styles.evidenceItem}>
+							<div className={styles.evidenceHeader}>
+								<Badge variant="destructive">
+									{item.type === "duplicate_vote" ? "Duplicate Vote" : "Light Client Attack"}
+								</Badge>
+								{item.height && (
+									<Link to={`/blocks/${item.height}`} className={styles.inlineLink}>
+										at #{formatNumber(item.height)}
+									</Link>
+								)}
+								{item.timestamp && <span className={styles.muted}>{formatTimeAgo(item.timestamp)}</span>}
+							</div>
+							{item.offenders.map((offender, j) => (
+								<div key={offender.address ?? j} className={styles.offender}>
+									<ValidatorName validator={offender.validator} address={offender.address} />
+									{offender.voting_power != null && (
+										<span className={styles.muted}>
+											power {formatNumber(offender.voting_power, 0)}
+											{item.total_voting_power
+												? ` (${((offender.voting_power / item.total_voting_power) * 100).toFixed(2)}%)`
+												: ""}
+										</span>
+									)}
+								</div>
+							))}
+						</div>
+					))}
+				</div>
+			</CardContent>
+		</Card>
+	)
+}
+
+const styles = {
+	muted: css({ fontSize: "sm", color: "fg.muted" }),
+	mono: css({ fontFamily: "mono", fontSize: "xs", color: "fg.muted" }),
+	unknown: css({ fontFamily: "mono", fontSize: "sm", color: "fg.muted" }),
+	validatorLink: css({
+		fontSize: "sm",
+		fontWeight: "medium",
+		overflow: "hidden",
+		textOverflow: "ellipsis",
+		whiteSpace: "nowrap",
+		_hover: { color: "accent.default" },
+	}),
+	inlineLink: css({ color: "accent.default", _hover: { textDecoration: "underline" } }),
+	proposer: css({ display: "flex", flexDirection: "column", gap: "3" }),
+	proposerHeader: css({ display: "flex", alignItems: "center", gap: "3" }),
+	proposerName: css({ display: "flex", flexDirection: "column", gap: "0.5", minW: "0" }),
+	proposerStats: css({ display: "flex", justifyContent: "space-between", fontSize: "sm" }),
+	consensusAddress: css({ mt: "3", wordBreak: "break-all" }),
+	summary: css({ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "4", mb: "4", fontSize: "sm" }),
+	dot: css({ display: "inline-block", h: "2", w: "2", rounded: "full", mr: "1.5", flexShrink: 0 }),
+	dotCommit: css({ bg: "republicGreen.default" }),
+	dotNil: css({ bg: "yellow.500" }),
+	dotAbsent: css({ bg: "red.500" }),
+	grid: css({
+		display: "grid",
+		gridTemplateColumns: { base: "repeat(2, 1fr)", md: "repeat(3, 1fr)", xl: "repeat(4, 1fr)" },
+		gap: "2",
+	}),
+	tile: css({
+		display: "flex",
+		flexDirection: "column",
+		gap: "1",
+		p: "2",
+		rounded: "md",
+		borderWidth: "1px",
+		borderColor: "border.default",
+		minW: "0",
+	}),
+	tileMissed: css({ bg: "bg.subtle" }),
+	tileHeader: css({ display: "flex", alignItems: "center", minW: "0" }),
+	tileMeta: css({ display: "flex", justifyContent: "space-between", fontSize: "xs", color: "fg.muted" }),
+	evidenceTitle: css({ display: "flex", alignItems: "center", gap: "2" }),
+	evidenceIcon: css({ h: "5", w: "5", color: "red.500" }),
+	evidenceList: css({ display: "flex", flexDirection: "column", gap: "3" }),
+	evidenceItem: css({
+		display: "flex",
+		flexDirection: "column",
+		gap: "2",
+		p: "3",
+		rounded: "md",
+		borderWidth: "1px",
+		borderColor: "border.default",
+	}),
+	evidenceHeader: css({ display: "flex", alignItems: "center", gap: "3", fontSize: "sm" }),
+	offender: css({ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "2" }),
+}
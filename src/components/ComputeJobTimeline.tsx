@@ -0,0 +1,193 @@
+import { useMemo } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Link } from "react-router"
+import { CheckCircle2, Circle, Clock, XCircle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { api, type ComputeJob } from "@/lib/api"
+import { validatorToCosmosAddress } from "@/lib/address"
+import { formatTimeAgo } from "@/lib/utils"
+import { css, cx } from "@/styled-system/css"
+
+type StepState = "done" | "pending" | "failed" | "missing"
+
+interface TimelineStep {
+	label: string
+	description: string
+	state: StepState
+	txHash?: string | null
+	height?: number | null
+	time?: string | null
+}
+
+interface ComputeJobTimelineProps {
+	job: ComputeJob
+}
+
+function StepIcon({ state }: { state: StepState }) {
+	switch (state) {
+		case "done":
+			return <CheckCircle2 className={cx(styles.stepIcon, styles.iconDone)} />
+		case "failed":
+			return <XCircle className={cx(styles.stepIcon, styles.iconFailed)} />
+		case "pending":
+			return <Clock className={cx(styles.stepIcon, styles.iconPending)} />
+		default:
+			return <Circle className={cx(styles.stepIcon, styles.iconMissing)} />
+	}
+}
+
+/**
+ * Lifecycle of a compute job: submitted, committee assigned, seed submitted,
+ * result posted and verified/failed. Each observed step links to its transaction.
+ */
+export function ComputeJobTimeline({ job }: ComputeJobTimelineProps) {
+	const validatorAccount = useMemo(() => {
+		try {
+			return validatorToCosmosAddress(job.target_validator)
+		} catch {
+			return null
+		}
+	}, [job.target_validator])
+
+	const { data: lifecycle, isLoading } = useQuery({
+		queryKey: ["compute-job-lifecycle", job.job_id, job.result_height],
+		queryFn: () => api.getComputeJobLifecycle(job, validatorAccount),
+		enabled: job.submit_height != null,
+		staleTime: 30000,
+		retry: 1,
+	})
+
+	const resolved = job.status !== "PENDING"
+	// Committee and seed steps are inferred; once the job resolved, an unseen step is "not observed" rather than pending
+	const inferredState = (found: boolean): StepState => (found ? "done" : resolved ? "missing" : "pending")
+
+	const steps: TimelineStep[] = [
+		{
+			label: "Submitted",
+			description: "Job submitted on chain",
+			state: "done",
+			txHash: job.submit_tx_hash,
+			height: job.submit_height,
+			time: job.submit_time,
+		},
+		{
+			label: "Committee Assigned",
+			description: lifecycle?.committee
+				? "Earliest committee proposal weighting the target validator (approximate, not linked to the job on chain)"
+				: isLoading
+					? "Looking up committee proposal..."
+					: resolved
+						? "No committee proposal observed"
+						: "Awaiting committee proposal",
+			state: inferredState(!!lifecycle?.committee),
+			txHash: lifecycle?.committee?.tx_hash,
+			height: lifecycle?.committee?.height,
+			time: lifecycle?.committee?.timestamp,
+		},
+		{
+			label: "Seed Submitted",
+			description: lifecycle?.seed
+				? "Target validator submitted its seed"
+				: isLoading
+					? "Looking up seed submission..."
+					: resolved
+						? "No seed from the target validator observed"
+						: "Awaiting seed from the target validator",
+			state: inferredState(!!lifecycle?.seed),
+			txHash: lifecycle?.seed?.tx_hash,
+			height: lifecycle?.seed?.height,
+			time: lifecycle?.seed?.timestamp,
+		},
+		{
+			label: "Result Posted",
+			description: job.result_tx_hash ? "Result hash posted by the validator" : "Awaiting result",
+			state: job.result_tx_hash ? "done" : job.status === "FAILED" ? "missing" : "pending",
+			txHash: job.result_tx_hash,
+			height: job.result_height,
+			time: job.result_time,
+		},
+		{
+			label: job.status === "FAILED" ? "Failed" : "Verified",
+			description:
+				job.status === "COMPLETED"
+					? "Result accepted by verification"
+					: job.status === "FAILED"
+						? "Job failed verification or timed out"
+						: "Awaiting verification",
+			state: job.status === "COMPLETED" ? "done" : job.status === "FAILED" ? "failed" : "pending",
+			txHash: resolved ? job.result_tx_hash : null,
+			height: resolved ? job.result_height : null,
+			time: resolved ? (job.result_time ?? job.updated_at) : null,
+		},
+	]
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Lifecycle</CardTitle>
+				<CardDescription>
+					Committee and seed steps are matched by block height between submission and result
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<ol className={styles.timeline}>
+					{steps.map((step, i) => (
+						<li key={step.label} className={styles.step}>
+							<div className={styles.marker}>
+								<StepIcon state={step.state} />
+								{i < steps.length - 1 && (
+									<span className={cx(styles.connector, step.state === "done" && styles.connectorDone)} />
+								)}
+							</div>
+							<div className={styles.stepBody}>
+								<span className={step.state === "missing" ? styles.stepLabelMuted : styles.stepLabel}>
+									{step.label}
+								</span>
+								<span className={styles.stepDescription}>{step.description}</span>
+								{(step.txHash || step.height) && (
+									<div className={styles.stepMeta}>
+										{step.txHash && (
+											<Link to={`/tx/${step.txHash}`} className={styles.txLink}>
+												{step.txHash.slice(0, 10)}...
+											</Link>
+										)}
+										{step.height && (
+											<Link to={`/blocks/${step.height}`} className={styles.txLink}>
+												#{step.height.toLocaleString()}
+											</Link>
+										)}
+										{step.time && <span>{formatTimeAgo(step.time)}</span>}
+									</div>
+								)}
+							</div>
+						</li>
+					))}
+				</ol>
+			</CardContent>
+		</Card>
+	)
+}
+
+const styles = {
+	timeline: css({ display: "flex", flexDirection: "column" }),
+	step: css({ display: "flex", gap: "3" }),
+	marker: css({ display: "flex", flexDirection: "column", alignItems: "center" }),
+	stepIcon: css({ h: "5", w: "5", flexShrink: 0 }),
+	iconDone: css({ color: "republicGreen.default" }),
+	iconFailed: css({ color: "red.500" }),
+	iconPending: css({ color: "yellow.500" }),
+	iconMissing: css({ color: "fg.subtle" }),
+	connector: css({ flex: "1", w: "2px", minH: "6", my: "1", bg: "border.default" }),
+	connectorDone: css({ bg: "republicGreen.default" }),
+	stepBody: css({ display: "flex", flexDirection: "column", gap: "1", pb: "5" }),
+	stepLabel: css({ fontSize: "sm", fontWeight: "semibold" }),
+	stepLabelMuted: css({ fontSize: "sm", fontWeight: "semibold", color: "fg.muted" }),
+	stepDescription: css({ fontSize: "sm", color: "fg.muted" }),
+	stepMeta: css({ display: "flex", alignItems: "center", gap: "3", fontSize: "xs", color: "fg.muted" }),
+	txLink: css({
+		fontFamily: "mono",
+		fontSize: "xs",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	}),
+}
@@ -0,0 +1,118 @@
+import { useQuery } from "@tanstack/react-query"
+import { AlertCircle, CheckCircle2, Loader2, RefreshCw, XCircle } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { isFetchableEndpoint, verifyResultArtifact } from "@/lib/compute-verify"
+import { css } from "@/styled-system/css"
+
+interface ComputeResultVerificationProps {
+	jobId: number
+	resultHash: string
+	fetchEndpoint: string | null
+}
+
+/**
+ * Fetches a job's result artifact and checks its SHA-256 against the on-chain result hash
+ */
+export function ComputeResultVerification({ jobId, resultHash, fetchEndpoint }: ComputeResultVerificationProps) {
+	const fetchable = isFetchableEndpoint(fetchEndpoint)
+
+	const { data: result, isFetching, error, refetch } = useQuery({
+		queryKey: ["compute-result-verification", jobId, fetchEndpoint, resultHash],
+		queryFn: ({ signal }) => verifyResultArtifact(fetchEndpoint as string, resultHash, signal),
+		enabled: fetchable,
+		staleTime: Infinity,
+		retry: false,
+	})
+
+	return (
+		<Card>
+			<CardHeader>
+				<div className={styles.header}>
+					<CardTitle>Result Verification</CardTitle>
+					{fetchable && (
+						<Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+							<RefreshCw className={styles.buttonIcon} />
+							Re-check
+						</Button>
+					)}
+				</div>
+			</CardHeader>
+			<CardContent>
+				{!fetchable ? (
+					<div className={styles.statusRow}>
+						<AlertCircle className={styles.mutedIcon} />
+						<span className={styles.mutedText}>
+							{fetchEndpoint
+								? "The result fetch endpoint cannot be requested from this page (non-HTTP URL or insecure endpoint on an HTTPS page)."
+								: "This job has no result fetch endpoint."}
+						</span>
+					</div>
+				) : isFetching ? (
+					<div className={styles.statusRow}>
+						<Loader2 className={styles.spinner} />
+						<span className={styles.mutedText}>Downloading artifact and hashing...</span>
+					</div>
+				) : error ? (
+					<div className={styles.statusRow}>
+						<AlertCircle className={styles.warningIcon} />
+						<span className={styles.mutedText}>
+							{error instanceof Error ? error.message : "Verification failed"}
+						</span>
+					</div>
+				) : result ? (
+					<div className={styles.fields}>
+						<div className={styles.statusRow}>
+							{result.status === "match" ? (
+								<CheckCircle2 className={styles.successIcon} />
+							) : result.status === "mismatch" ? (
+								<XCircle className={styles.errorIcon} />
+							) : (
+								<AlertCircle className={styles.warningIcon} />
+							)}
+							<span className={result.status === "mismatch" ? styles.errorText : styles.statusText}>
+								{result.message}
+							</span>
+						</div>
+						{result.computedHash && (
+							<div className={styles.field}>
+								<label className={styles.fieldLabel}>Computed SHA-256</label>
+								<p className={styles.monoValueSmall}>{result.computedHash}</p>
+							</div>
+						)}
+						{result.bytes != null && (
+							<div className={styles.field}>
+								<label className={styles.fieldLabel}>Artifact Size</label>
+								<p className={styles.statusText}>{result.bytes.toLocaleString()} bytes</p>
+							</div>
+						)}
+					</div>
+				) : null}
+			</CardContent>
+		</Card>
+	)
+}
+
+const styles = {
+	header: css({ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "2" }),
+	buttonIcon: css({ h: "3.5", w: "3.5", mr: "1" }),
+	fields: css({ display: "flex", flexDirection: "column", gap: "3" }),
+	field: css({ display: "flex", flexDirection: "column", gap: "1" }),
+	fieldLabel: css({
+		fontSize: "xs",
+		fontWeight: "medium",
+		color: "fg.muted",
+		textTransform: "uppercase",
+		letterSpacing: "wider",
+	}),
+	monoValueSmall: css({ fontSize: "xs", fontFamily: "mono", wordBreak: "break-all" }),
+	statusRow: css({ display: "flex", alignItems: "flex-start", gap: "2" }),
+	statusText: css({ fontSize: "sm" }),
+	mutedText: css({ fontSize: "sm", color: "fg.muted" }),
+	errorText: css({ fontSize: "sm", color: "red.500", fontWeight: "medium" }),
+	successIcon: css({ h: "5", w: "5", flexShrink: 0, color: "republicGreen.default" }),
+	errorIcon: css({ h: "5", w: "5", flexShrink: 0, color: "red.500" }),
+	warningIcon: css({ h: "5", w: "5", flexShrink: 0, color: "yellow.500" }),
+	mutedIcon: css({ h: "5", w: "5", flexShrink: 0, color: "fg.muted" }),
+	spinner: css({ h: "5", w: "5", flexShrink: 0, animation: "spin 1s linear infinite" }),
+}
@@ -3,6 +3,7 @@
  * Shows detailed information about an EVM smart contract
  */
 
+import { useMemo } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { Link } from 'react-router'
 import { FileCode, User, Hash, Clock, Activity, CheckCircle, XCircle, } from 'lucide-react'
@@ -11,7 +12,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { DataTable } from '@/components/ui/data-table'
+import { ContractInteraction } from '@/components/ContractInteraction'
 import { api } from '@/lib/api'
+import { parseAbi } from '@/lib/evm-abi'
 import { formatHash, formatNumber, } from '@/lib/utils'
 import { extractSelector, extractFunctionName, COMMON_SIGNATURES } from '@/lib/4byte'
 import { css } from '@/styled-system/css'
@@ -134,6 +137,8 @@ export function ContractDetails({ address }: ContractDetailsProps) {
 		staleTime: 15000,
 	})
 
+	const abi = useMemo(() => parseAbi(contract?.abi ?? null), [contract?.abi])
+
 	if (contractLoading) {
 		return (
 			<div className={css({ display: 'flex', flexDirection: 'column', gap: '4' })}>
@@ -245,6 +250,9 @@ export function ContractDetails({ address }: ContractDetailsProps) {
 				</CardContent>
 			</Card>
 
+			{/* Read/Write Contract */}
+			{abi && <ContractInteraction address={address} abi={abi} />}
+
 			{/* Function Call Statistics */}
 			<Card>
 				<CardHeader>
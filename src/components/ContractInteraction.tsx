@@ -0,0 +1,337 @@
+/**
+ * Contract Interaction Component
+ * Read and Write tabs generated from a contract's ABI
+ */
+
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router'
+import type { Abi, AbiFunction, Hex } from 'viem'
+import { AlertCircle, BookOpen, Check, Clock, Loader2, PenLine, Wallet } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { DecodedParams } from '@/components/DecodedParams'
+import { useWallet } from '@/contexts/WalletContext'
+import { type TokenMetadata, useContractMetadata } from '@/hooks/useContractMetadata'
+import { REPUBLIC_CHAIN_CONFIG } from '@/lib/chain-config'
+import type { DecodedParam } from '@/lib/evm-abi'
+import {
+	formatContractError,
+	getReadFunctions,
+	getWriteFunctions,
+	parseArgument,
+	readContractFunction,
+	type WriteResult,
+	writeContractFunction,
+} from '@/lib/evm-contract'
+import { formatHash } from '@/lib/utils'
+import { css } from '@/styled-system/css'
+import { hstack } from '@/styled-system/patterns'
+
+interface ContractInteractionProps {
+	address: string
+	abi: Abi
+}
+
+type CallState =
+	| { status: 'idle' }
+	| { status: 'pending' }
+	| { status: 'submitted'; hash: Hex }
+	| { status: 'read'; outputs: DecodedParam[] }
+	| { status: 'written'; result: WriteResult }
+	| { status: 'error'; error: string }
+
+interface FunctionFormProps {
+	fn: AbiFunction
+	mode: 'read' | 'write'
+	onSubmit: (args: unknown[], value: string | undefined, onProgress: (state: CallState) => void) => Promise<CallState>
+	disabled?: boolean
+	token?: TokenMetadata | null
+}
+
+function FunctionForm({ fn, mode, onSubmit, disabled, token }: FunctionFormProps) {
+	const [inputs, setInputs] = useState<string[]>(() => fn.inputs.map(() => ''))
+	const [value, setValue] = useState('')
+	const [state, setState] = useState<CallState>({ status: 'idle' })
+	const isPayable = fn.stateMutability === 'payable'
+	const isBusy = state.status === 'pending' || state.status === 'submitted'
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+		let args: unknown[]
+		try {
+			args = fn.inputs.map((param, i) => parseArgument(param, inputs[i] ?? ''))
+		} catch (err) {
+			setState({ status: 'error', error: formatContractError(err) })
+			return
+		}
+		setState({ status: 'pending' })
+		setState(await onSubmit(args, isPayable ? value : undefined, setState))
+	}
+
+	return (
+		<form onSubmit={handleSubmit} className={styles.functionForm}>
+			<div className={hstack({ justify: 'space-between', gap: '2' })}>
+				<span className={styles.functionName}>{fn.name}</span>
+				{isPayable && <Badge variant="outline">payable</Badge>}
+			</div>
+
+			{isPayable && (
+				<div className={styles.field}>
+					<Label htmlFor={`${fn.name}-value`}>Value ({REPUBLIC_CHAIN_CONFIG.nativeCurrency.symbol})</Label>
+					<Input
+						id={`${fn.name}-value`}
+						type="number"
+						step="0.000000000000000001"
+						min="0"
+						placeholder="0.0"
+						value={value}
+						onChange={(e) => setValue(e.target.value)}
+					/>
+				</div>
+			)}
+
+			{fn.inputs.map((param, i) => (
+				<div key={`${param.name}-${i}`} className={styles.field}>
+					<Label htmlFor={`${fn.name}-${i}`}>
+						{param.name || `arg${i}`} <span className={styles.paramType}>({param.type})</span>
+					</Label>
+					<Input
+						id={`${fn.name}-${i}`}
+						placeholder={param.type.endsWith(']') || param.type === 'tuple' ? 'JSON, e.g. ["0x…", "1"]' : param.type}
+						value={inputs[i] ?? ''}
+						onChange={(e) => setInputs((prev) => prev.map((v, j) => (j === i ? e.target.value : v)))}
+					/>
+				</div>
+			))}
+
+			<div>
+				<Button type="submit" size="sm" variant={mode === 'read' ? 'outline' : 'default'} disabled={disabled || isBusy}>
+					{isBusy ? (
+						<>
+							<Loader2 className={styles.spinner} />
+							{mode === 'read' ? 'Querying...' : state.status === 'submitted' ? 'Waiting for receipt...' : 'Waiting for confirmation...'}
+						</>
+					) : mode === 'read' ? 'Query' : 'Write'}
+				</Button>
+			</div>
+
+			{state.status === 'error' && (
+				<div className={styles.errorRow}>
+					<AlertCircle className={styles.icon} />
+					<span>{state.error}</span>
+				</div>
+			)}
+
+			{state.status === 'read' && (
+				<div className={styles.result}>
+					<DecodedParams params={state.outputs} token={token} />
+				</div>
+			)}
+
+			{state.status === 'submitted' && (
+				<div className={styles.result}>
+					<div className={hstack({ gap: '2' })}>
+						<Badge variant="outline">Submitted</Badge>
+						<Link to={`/tx/${state.hash}`} className={styles.link}>
+							{formatHash(state.hash, 8)}
+						</Link>
+					</div>
+				</div>
+			)}
+
+			{state.status === 'written' && (
+				<div className={styles.result}>
+					<div className={hstack({ gap: '2', mb: '2' })}>
+						{state.result.receipt === null ? (
+							<Badge variant="outline" className={hstack({ gap: '1' })}>
+								<Clock className={styles.icon} />
+								Pending
+							</Badge>
+						) : state.result.receipt.status === 'success' ? (
+							<Badge variant="success" className={hstack({ gap: '1' })}>
+								<Check className={styles.icon} />
+								Confirmed
+							</Badge>
+						) : (
+							<Badge variant="destructive">Reverted</Badge>
+						)}
+						<Link to={`/tx/${state.result.hash}`} className={styles.link}>
+							{formatHash(state.result.hash, 8)}
+						</Link>
+					</div>
+					{state.result.receipt === null && (
+						<div className={styles.notice}>
+							Broadcast, but the receipt could not be fetched. Check the transaction page for its final status.
+						</div>
+					)}
+					{state.result.outputs.length > 0 && (
+						<div className={css({ mb: '2' })}>
+							<div className={styles.sectionLabel}>Return Values</div>
+							<DecodedParams params={state.result.outputs} token={token} />
+						</div>
+					)}
+					{state.result.events.map((event, i) =>
+						event ? (
+							<div key={`${event.eventName}-${i}`} className={css({ mb: '2' })}>
+								<div className={styles.sectionLabel}>{event.eventName}</div>
+								<DecodedParams params={event.params} token={token} />
+							</div>
+						) : null
+					)}
+				</div>
+			)}
+		</form>
+	)
+}
+
+export function ContractInteraction({ address, abi }: ContractInteractionProps) {
+	const { walletType, evmAddress, walletClient, connectEvm, isConnecting } = useWallet()
+	const readFunctions = useMemo(() => getReadFunctions(abi), [abi])
+	const writeFunctions = useMemo(() => getWriteFunctions(abi), [abi])
+	const { metadata } = useContractMetadata([address])
+	const token = metadata.get(address.toLowerCase())?.token
+	const canWrite = walletType === 'evm' && !!evmAddress && !!walletClient
+
+	const handleRead = async (fn: AbiFunction, args: unknown[]): Promise<CallState> => {
+		try {
+			return { status: 'read', outputs: await readContractFunction(address, abi, fn, args) }
+		} catch (err) {
+			return { status: 'error', error: formatContractError(err) }
+		}
+	}
+
+	const handleWrite = async (
+		fn: AbiFunction,
+		args: unknown[],
+		value: string | undefined,
+		onProgress: (state: CallState) => void
+	): Promise<CallState> => {
+		if (!walletClient || !evmAddress) {
+			return { status: 'error', error: 'Connect an EVM wallet to write to this contract' }
+		}
+		try {
+			const result = await writeContractFunction({
+				walletClient,
+				account: evmAddress,
+				address,
+				abi,
+				fn,
+				args,
+				value,
+				onSubmitted: (hash) => onProgress({ status: 'submitted', hash }),
+			})
+			return { status: 'written', result }
+		} catch (err) {
+			return { status: 'error', error: formatContractError(err) }
+		}
+	}
+
+	if (readFunctions.length === 0 && writeFunctions.length === 0) {
+		return null
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Interact with Contract</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<Tabs defaultValue={readFunctions.length > 0 ? 'read' : 'write'}>
+					<TabsList>
+						<TabsTrigger value="read" disabled={readFunctions.length === 0}>
+							<BookOpen className={styles.tabIcon} />
+							Read Contract ({readFunctions.length})
+						</TabsTrigger>
+						<TabsTrigger value="write" disabled={writeFunctions.length === 0}>
+							<PenLine className={styles.tabIcon} />
+							Write Contract ({writeFunctions.length})
+						</TabsTrigger>
+					</TabsList>
+
+					<TabsContent value="read">
+						<div className={styles.functionList}>
+							{readFunctions.map((fn, i) => (
+								<FunctionForm
+									key={`${fn.name}-${i}`}
+									fn={fn}
+									mode="read"
+									token={token}
+									onSubmit={(args) => handleRead(fn, args)}
+								/>
+							))}
+						</div>
+					</TabsContent>
+
+					<TabsContent value="write">
+						{!canWrite && (
+							<div className={styles.walletNotice}>
+								<Wallet className={styles.icon} />
+								<span className={css({ flex: '1' })}>
+									{walletType === 'keplr'
+										? 'Write calls are signed with an EVM wallet. Disconnect Keplr and connect MetaMask to continue.'
+										: 'Connect an EVM wallet to write to this contract.'}
+								</span>
+								{walletType !== 'keplr' && (
+									<Button size="sm" onClick={connectEvm} disabled={isConnecting}>
+										{isConnecting ? 'Connecting...' : 'Connect Wallet'}
+									</Button>
+								)}
+							</div>
+						)}
+						<div className={styles.functionList}>
+							{writeFunctions.map((fn, i) => (
+								<FunctionForm
+									key={`${fn.name}-${i}`}
+									fn={fn}
+									mode="write"
+									token={token}
+									disabled={!canWrite}
+									onSubmit={(args, value, onProgress) => handleWrite(fn, args, value, onProgress)}
+								/>
+							))}
+						</div>
+					</TabsContent>
+				</Tabs>
+			</CardContent>
+		</Card>
+	)
+}
+
+const styles = {
+	functionList: css({ display: 'flex', flexDirection: 'column', gap: '3', mt: '2' }),
+	functionForm: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '3',
+		p: '3',
+		bg: 'bg.subtle',
+		borderRadius: 'lg',
+		border: '1px solid',
+		borderColor: 'border.default',
+	}),
+	functionName: css({ fontFamily: 'mono', fontSize: 'sm', fontWeight: 'semibold' }),
+	field: css({ display: 'flex', flexDirection: 'column', gap: '1' }),
+	paramType: css({ fontFamily: 'mono', fontSize: 'xs', color: 'fg.muted' }),
+	result: css({ p: '3', bg: 'bg.default', borderRadius: 'md', border: '1px solid', borderColor: 'border.default' }),
+	notice: css({ fontSize: 'xs', color: 'fg.muted', mb: '2' }),
+	sectionLabel: css({ fontSize: 'xs', fontWeight: 'semibold', color: 'fg.muted', mb: '1' }),
+	errorRow: css({ display: 'flex', alignItems: 'flex-start', gap: '2', fontSize: 'sm', color: 'red.500', wordBreak: 'break-word' }),
+	walletNotice: css({
+		display: 'flex',
+		alignItems: 'center',
+		gap: '3',
+		p: '3',
+		mt: '2',
+		fontSize: 'sm',
+		bg: 'bg.muted',
+		borderRadius: 'lg',
+	}),
+	link: css({ fontFamily: 'mono', fontSize: 'sm', color: 'chart.secondary', _hover: { color: 'accent.default' } }),
+	icon: css({ w: '4', h: '4', flexShrink: '0' }),
+	tabIcon: css({ w: '4', h: '4', mr: '1.5' }),
+	spinner: css({ w: '4', h: '4', mr: '2', animation: 'spin 1s linear infinite' }),
+}
@@ -0,0 +1,93 @@
+import { formatUnits } from 'viem'
+import { Badge } from '@/components/ui/badge'
+import { AddressChip } from '@/components/AddressChip'
+import type { TokenMetadata } from '@/hooks/useContractMetadata'
+import { type DecodedParam, formatDecodedValue } from '@/lib/evm-abi'
+import { css } from '@/styled-system/css'
+
+interface DecodedParamsProps {
+	params: DecodedParam[]
+	/** Token metadata of the contract, used to format amount-like uint parameters */
+	token?: TokenMetadata | null
+}
+
+// Parameter names that carry token amounts in ERC-20/1155 and most DeFi ABIs
+const AMOUNT_PARAM_RE = /^_?(value|values|amount|amounts|wad|amountIn|amountOut|amountInMax|amountOutMin)$/i
+
+/**
+ * Format a uint value using token decimals when it looks like a token amount
+ */
+function formatTokenAmount(value: bigint, param: DecodedParam, token?: TokenMetadata | null): string | null {
+	if (!token || token.decimals === null || token.decimals === undefined) return null
+	if (!param.type.startsWith('uint') || !AMOUNT_PARAM_RE.test(param.name)) return null
+	return `${formatUnits(value, token.decimals)}${token.symbol ? ` ${token.symbol}` : ''}`
+}
+
+function ParamValue({ param, token }: { param: DecodedParam; token?: TokenMetadata | null }) {
+	const { value, type } = param
+
+	if (type === 'address' && typeof value === 'string') {
+		return <AddressChip address={value} truncate={false} />
+	}
+
+	if (type === 'address[]' && Array.isArray(value)) {
+		return (
+			<div className={css({ display: 'flex', flexDir: 'column', gap: '1' })}>
+				{value.map((addr, i) => (
+					<AddressChip key={`${addr}-${i}`} address={String(addr)} truncate={false} />
+				))}
+			</div>
+		)
+	}
+
+	if (typeof value === 'bigint') {
+		const amount = formatTokenAmount(value, param, token)
+		if (amount) {
+			return (
+				<span>
+					<span className={css({ fontWeight: 'medium' })}>{amount}</span>
+					<span className={css({ fontSize: 'xs', color: 'fg.muted', ml: '1' })}>({value.toString()})</span>
+				</span>
+			)
+		}
+	}
+
+	if (Array.isArray(value) && typeof value[0] === 'bigint' && AMOUNT_PARAM_RE.test(param.name) && token?.decimals != null) {
+		return (
+			<span>
+				[{value.map((v) => formatUnits(v as bigint, token.decimals as number)).join(', ')}]
+				{token.symbol && <span className={css({ ml: '1' })}>{token.symbol}</span>}
+			</span>
+		)
+	}
+
+	return <span className={css({ wordBreak: 'break-all' })}>{formatDecodedValue(value)}</span>
+}
+
+export function DecodedParams({ params, token }: DecodedParamsProps) {
+	if (params.length === 0) {
+		return <div className={css({ fontSize: 'xs', color: 'fg.muted' })}>No parameters</div>
+	}
+
+	return (
+		<div className={css({ display: 'flex', flexDir: 'column', gap: '2' })}>
+			{params.map((param, i) => (
+				<div
+					key={`${param.name}-${i}`}
+					className={css({ display: 'grid', gridTemplateColumns: { base: '1fr', md: '180px 1fr' }, gap: '2', fontSize: 'xs', alignItems: 'start' })}
+				>
+					<div className={css({ display: 'flex', alignItems: 'center', gap: '1', flexWrap: 'wrap' })}>
+						<span className={css({ fontFamily: 'mono', fontWeight: 'medium' })}>{param.name}</span>
+						<span className={css({ color: 'fg.muted', fontFamily: 'mono' })}>{param.type}</span>
+						{param.indexed && (
+							<Badge variant="outline" className={css({ fontSize: '2xs' })}>indexed</Badge>
+						)}
+					</div>
+					<div className={css({ fontFamily: 'mono' })}>
+						<ParamValue param={param} token={token} />
+					</div>
+				</div>
+			))}
+		</div>
+	)
+}
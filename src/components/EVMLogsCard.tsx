@@ -6,6 +6,9 @@ import { Button } from '@/components/ui/button'
 import { useState } from 'react'
 import { css } from '@/styled-system/css'
 import type { EvmLog } from '@/lib/api'
+import { DecodedParams } from '@/components/DecodedParams'
+import { useContractMetadata } from '@/hooks/useContractMetadata'
+import { ABI_SOURCE_LABELS, decodeLog } from '@/lib/evm-abi'
 
 interface EVMLogsCardProps {
 	logs: EvmLog[]
@@ -29,6 +32,7 @@ function formatAddress(addr: string): string {
 export function EVMLogsCard({ logs }: EVMLogsCardProps) {
 	const [copied, setCopied] = useState<string | null>(null)
 	const [expandedLogs, setExpandedLogs] = useState<Record<number, boolean>>({})
+	const { metadata } = useContractMetadata(logs.map((log) => log.address))
 
 	const copyToClipboard = (text: string, field: string) => {
 		navigator.clipboard.writeText(text)
@@ -63,7 +67,11 @@ export function EVMLogsCard({ logs }: EVMLogsCardProps) {
 			<CardContent className={css({ display: 'flex', flexDir: 'column', gap: '2' })}>
 				{logs.map((log, idx) => {
 					const isExpanded = expandedLogs[idx]
-					const eventName = log.topics.length > 0 ? getEventName(log.topics[0]) : 'No Topics'
+					const contract = metadata.get(log.address.toLowerCase())
+					const decoded = decodeLog(log, contract?.abi)
+					const eventName = decoded
+						? decoded.eventName
+						: log.topics.length > 0 ? getEventName(log.topics[0]) : 'No Topics'
 
 					return (
 						<Collapsible
@@ -86,9 +94,15 @@ export function EVMLogsCard({ logs }: EVMLogsCardProps) {
 														#{log.logIndex}
 													</Badge>
 													<span className={css({ fontSize: 'sm', fontWeight: 'medium' })}>{eventName}</span>
+													{decoded && (
+														<Badge variant="secondary" className={css({ fontSize: 'xs' })}>
+															{ABI_SOURCE_LABELS[decoded.source]}
+														</Badge>
+													)}
 												</div>
 												<div className={css({ fontSize: 'xs', color: 'fg.muted', mt: '1' })}>
 													Contract: {formatAddress(log.address)}
+													{contract?.token?.symbol && ` (${contract.token.symbol})`}
 												</div>
 											</div>
 										</div>
@@ -109,6 +123,19 @@ export function EVMLogsCard({ logs }: EVMLogsCardProps) {
 											</div>
 										</div>
 
+										{/* Decoded Event */}
+										{decoded && (
+											<div>
+												<label className={css({ fontSize: 'xs', fontWeight: 'medium', color: 'fg.muted' })}>Decoded Event</label>
+												<div className={css({ fontSize: 'xs', fontFamily: 'mono', color: 'fg.muted', mt: '1', mb: '2', wordBreak: 'break-all' })}>
+													{decoded.signature}
+												</div>
+												<div className={css({ bg: 'bg.muted/50', p: '3', rounded: 'md' })}>
+													<DecodedParams params={decoded.params} token={contract?.token} />
+												</div>
+											</div>
+										)}
+
 										{/* Topics */}
 										{log.topics.length > 0 && (
 											<div>
@@ -8,11 +8,16 @@ import { Link } from 'react-router'
 import type { EvmData } from '@/lib/api'
 import { css } from '@/styled-system/css'
 import { formatTimeAgo } from '@/lib/utils'
+import { DecodedParams } from '@/components/DecodedParams'
+import { useContractMetadata } from '@/hooks/useContractMetadata'
+import { ABI_SOURCE_LABELS, type DecodedCall, decodeCalldata, decodeRevertReason } from '@/lib/evm-abi'
 
 interface EVMTransactionCardProps {
   evmData: EvmData
   blockHeight?: number
   timestamp?: string
+  /** Cosmos tx error text, used to extract the revert reason of failed calls */
+  error?: string | null
 }
 
 // Format wei to native token with appropriate decimals
@@ -57,7 +62,7 @@ function getTxTypeLabel(type: number): string {
 }
 
 // Determine transaction action based on input data and decoded info
-function getTransactionAction(evmData: EvmData): { label: string; description: string } {
+function getTransactionAction(evmData: EvmData, decoded: DecodedCall | null): { label: string; description: string } {
   // No input data = native transfer
   if (!evmData.data || evmData.data === '0x') {
     return {
@@ -74,9 +79,9 @@ function getTransactionAction(evmData: EvmData): { label: string; description: s
     }
   }
 
-  // Decoded method from 4byte.directory
-  if (evmData.functionName) {
-    const method = evmData.functionName
+  // Decoded method from the contract ABI, falling back to 4byte.directory
+  const method = decoded?.functionName || evmData.functionName
+  if (method) {
     if (method === 'transfer') {
       return {
         label: 'Token Transfer',
@@ -101,9 +106,13 @@ function getTransactionAction(evmData: EvmData): { label: string; description: s
   }
 }
 
-export function EVMTransactionCard({ evmData, blockHeight, timestamp }: EVMTransactionCardProps) {
+export function EVMTransactionCard({ evmData, blockHeight, timestamp, error }: EVMTransactionCardProps) {
   const [copied, setCopied] = useState<string | null>(null)
   const [inputExpanded, setInputExpanded] = useState(false)
+  const { metadata } = useContractMetadata([evmData.to])
+  const contract = evmData.to ? metadata.get(evmData.to.toLowerCase()) : undefined
+  const decodedCall = decodeCalldata(evmData.data, contract?.abi)
+  const revertReason = evmData.status !== 1 ? decodeRevertReason(error, contract?.abi) : null
 
   const copyToClipboard = (text: string, field: string) => {
     navigator.clipboard.writeText(text)
@@ -151,7 +160,7 @@ export function EVMTransactionCard({ evmData, blockHeight, timestamp }: EVMTrans
     )
   }
 
-  const action = getTransactionAction(evmData)
+  const action = getTransactionAction(evmData, decodedCall)
 
   return (
     <Card>
@@ -181,6 +190,14 @@ export function EVMTransactionCard({ evmData, blockHeight, timestamp }: EVMTrans
             </div>
           </div>
         </div>
+        {/* Revert Reason */}
+        {revertReason && (
+          <div className={css({ p: '3', rounded: 'md', borderWidth: '1px', borderColor: 'red.500/30', bg: 'red.500/10', fontSize: 'sm' })}>
+            <span className={css({ color: 'red.500', fontWeight: 'medium' })}>Reverted: </span>
+            <span className={css({ fontFamily: 'mono', wordBreak: 'break-all' })}>{revertReason}</span>
+          </div>
+        )}
+
         {/* Transaction Hash */}
         <div className={css({ display: 'grid', gridTemplateColumns: '120px 1fr', gap: '2', fontSize: 'sm' })}>
           <span className={css({ color: 'fg.muted' })}>EVM Hash:</span>
@@ -334,7 +351,23 @@ export function EVMTransactionCard({ evmData, blockHeight, timestamp }: EVMTrans
             <CollapsibleContent className={css({ mt: '2' })}>
               <div className={css({ display: 'flex', flexDir: 'column', gap: '3' })}>
                 {/* Decoded function call */}
-                {evmData.functionName && (
+                {decodedCall ? (
+                  <div className={css({ bg: 'bg.muted/50', p: '3', rounded: 'md', fontSize: 'sm', display: 'flex', flexDir: 'column', gap: '3' })}>
+                    <div className={css({ display: 'flex', alignItems: 'center', gap: '2', flexWrap: 'wrap' })}>
+                      <span className={css({ color: 'fg.muted' })}>Function:</span>
+                      <Badge variant="secondary">
+                        {decodedCall.functionName}
+                      </Badge>
+                      <Badge variant="outline" className={css({ fontSize: 'xs' })}>
+                        {ABI_SOURCE_LABELS[decodedCall.source]}
+                      </Badge>
+                    </div>
+                    <div className={css({ fontSize: 'xs', color: 'fg.muted', fontFamily: 'mono', wordBreak: 'break-all' })}>
+                      {decodedCall.signature}
+                    </div>
+                    <DecodedParams params={decodedCall.params} token={contract?.token} />
+                  </div>
+                ) : evmData.functionName && (
                   <div className={css({ bg: 'bg.muted', opacity: '0.5', p: '3', rounded: 'md', fontSize: 'sm', display: 'flex', flexDir: 'column', gap: '2' })}>
                     <div className={css({ display: 'flex', alignItems: 'center', gap: '2' })}>
                       <span className={css({ color: 'fg.muted' })}>Function:</span>
@@ -0,0 +1,318 @@
+import { useQuery } from "@tanstack/react-query"
+import { Link } from "react-router"
+import { Cpu, ShieldAlert } from "lucide-react"
+import { type ColumnDef, createColumnHelper } from "@tanstack/react-table"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable } from "@/components/ui/data-table"
+import { AddressChip } from "@/components/AddressChip"
+import { ComputeSuccessChart } from "@/components/analytics/ComputeSuccessChart"
+import { api, type ComputeBenchmark, type ComputeJob } from "@/lib/api"
+import { formatAddress, formatTimeAgo } from "@/lib/utils"
+import { css } from "@/styled-system/css"
+
+interface ValidatorComputeProfileProps {
+	operatorAddress: string
+	/** Account address of the validator; evidence may reference either form */
+	accountAddress?: string | null
+}
+
+function statusBadge(status: string) {
+	switch (status) {
+		case "COMPLETED":
+			return <Badge variant="success">{status}</Badge>
+		case "FAILED":
+			return <Badge variant="destructive">{status}</Badge>
+		default:
+			return <Badge variant="outline">{status}</Badge>
+	}
+}
+
+const jobHelper = createColumnHelper<ComputeJob>()
+
+const jobColumns: ColumnDef<ComputeJob, any>[] = [
+	jobHelper.accessor("job_id", {
+		header: "Job ID",
+		enableSorting: false,
+		cell: ({ row }) => (
+			<Link to={`/compute/${row.original.job_id}`} className={styles.idLink}>
+				#{row.original.job_id}
+			</Link>
+		),
+	}),
+	jobHelper.accessor("creator", {
+		header: "Creator",
+		enableSorting: false,
+		cell: ({ row }) => <AddressChip address={row.original.creator} />,
+	}),
+	jobHelper.accessor("status", {
+		header: "Status",
+		enableSorting: false,
+		cell: ({ row }) => statusBadge(row.original.status),
+	}),
+	jobHelper.display({
+		id: "duration",
+		header: "Blocks to Result",
+		cell: ({ row }) => {
+			const { submit_height, result_height } = row.original
+			return submit_height != null && result_height != null
+				? (result_height - submit_height).toLocaleString()
+				: <span className={styles.mutedText}>-</span>
+		},
+	}),
+	jobHelper.accessor("submit_time", {
+		header: "Submitted",
+		enableSorting: false,
+		cell: ({ row }) => (
+			<span className={styles.mutedText}>
+				{row.original.submit_time ? formatTimeAgo(row.original.submit_time) : "-"}
+			</span>
+		),
+	}),
+]
+
+const benchHelper = createColumnHelper<ComputeBenchmark>()
+
+const benchmarkColumns: ColumnDef<ComputeBenchmark, any>[] = [
+	benchHelper.accessor("benchmark_id", {
+		header: "ID",
+		enableSorting: false,
+		cell: ({ row }) => <span className={styles.monoText}>#{row.original.benchmark_id}</span>,
+	}),
+	benchHelper.accessor("benchmark_type", {
+		header: "Type",
+		enableSorting: false,
+		cell: ({ row }) => row.original.benchmark_type || <span className={styles.mutedText}>-</span>,
+	}),
+	benchHelper.accessor("status", {
+		header: "Status",
+		enableSorting: false,
+		cell: ({ row }) => statusBadge(row.original.status),
+	}),
+	benchHelper.accessor("result_height", {
+		header: "Result Height",
+		enableSorting: false,
+		cell: ({ row }) =>
+			row.original.result_height ? (
+				<Link to={`/blocks/${row.original.result_height}`} className={styles.idLink}>
+					{row.original.result_height.toLocaleString()}
+				</Link>
+			) : (
+				<span className={styles.mutedText}>-</span>
+			),
+	}),
+	benchHelper.accessor("result_time", {
+		header: "Time",
+		enableSorting: false,
+		cell: ({ row }) => (
+			<span className={styles.mutedText}>
+				{row.original.result_time ? formatTimeAgo(row.original.result_time) : "-"}
+			</span>
+		),
+	}),
+]
+
+/**
+ * Compute track record for a validator: assigned jobs, reported benchmarks,
+ * success rate over time and compute-misconduct evidence.
+ */
+export function ValidatorComputeProfile({ operatorAddress, accountAddress }: ValidatorComputeProfileProps) {
+	const { data: profile, isLoading } = useQuery({
+		queryKey: ["validator-compute-profile", operatorAddress, accountAddress],
+		queryFn: () => api.getValidatorComputeProfile(operatorAddress, accountAddress),
+		staleTime: 60000,
+		retry: 1,
+	})
+
+	if (isLoading) {
+		return (
+			<div className={styles.container}>
+				<div className={styles.statsGrid}>
+					{Array.from({ length: 4 }).map((_, i) => (
+						<Skeleton key={i} className={styles.statSkeleton} />
+					))}
+				</div>
+				<Skeleton className={styles.chartSkeleton} />
+			</div>
+		)
+	}
+
+	if (!profile || (profile.total_jobs === 0 && profile.benchmarks.length === 0 && profile.evidence.length === 0)) {
+		return (
+			<Card>
+				<CardContent>
+					<div className={styles.emptyState}>
+						<Cpu className={styles.emptyIcon} />
+						<h3 className={styles.emptyTitle}>No Compute Activity</h3>
+						<p className={styles.emptyText}>This validator has not been assigned any compute jobs yet.</p>
+					</div>
+				</CardContent>
+			</Card>
+		)
+	}
+
+	return (
+		<div className={styles.container}>
+			<div className={styles.statsGrid}>
+				<Card>
+					<CardContent className={styles.statCard}>
+						<span className={styles.statLabel}>Jobs</span>
+						<span className={styles.statValue}>{profile.total_jobs.toLocaleString()}</span>
+						<span className={styles.statSub}>
+							{profile.completed_jobs} completed · {profile.failed_jobs} failed · {profile.pending_jobs} pending
+						</span>
+					</CardContent>
+				</Card>
+				<Card>
+					<CardContent className={styles.statCard}>
+						<span className={styles.statLabel}>Success Rate</span>
+						<span className={styles.statValueSuccess}>
+							{profile.success_rate != null ? `${profile.success_rate.toFixed(1)}%` : "-"}
+						</span>
+					</CardContent>
+				</Card>
+				<Card>
+					<CardContent className={styles.statCard}>
+						<span className={styles.statLabel}>Avg Time to Result</span>
+						<span className={styles.statValue}>
+							{profile.avg_completion_blocks != null ? profile.avg_completion_blocks.toFixed(1) : "-"}
+						</span>
+						<span className={styles.statSub}>blocks from submit to result</span>
+					</CardContent>
+				</Card>
+				<Card>
+					<CardContent className={styles.statCard}>
+						<span className={styles.statLabel}>Misconduct Evidence</span>
+						<span className={profile.evidence.length > 0 ? styles.statValueDanger : styles.statValue}>
+							{profile.evidence.length}
+						</span>
+					</CardContent>
+				</Card>
+			</div>
+
+			<ComputeSuccessChart daily={profile.daily} />
+
+			{profile.evidence.length > 0 && (
+				<Card>
+					<CardHeader>
+						<CardTitle className={styles.titleFlex}>
+							<ShieldAlert className={styles.dangerIcon} />
+							Compute Misconduct Evidence
+						</CardTitle>
+						<CardDescription>Slashing-plus evidence submitted against this validator</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<div className={styles.evidenceList}>
+							{profile.evidence.map((item, i) => (
+								<div key={`${item.tx_hash}-${i}`} className={styles.evidenceItem}>
+									<div className={styles.evidenceHeader}>
+										<Link to={`/tx/${item.tx_hash}`} className={styles.idLink}>
+											{formatAddress(item.tx_hash, 8)}
+										</Link>
+										<span className={styles.mutedText}>
+											Block{" "}
+											<Link to={`/blocks/${item.height}`} className={styles.idLink}>
+												#{item.height.toLocaleString()}
+											</Link>{" "}
+											· {formatTimeAgo(item.timestamp)}
+										</span>
+									</div>
+									{item.submitter && (
+										<div className={styles.evidenceRow}>
+											<span className={styles.statLabel}>Submitter</span>
+											<AddressChip address={item.submitter} />
+										</div>
+									)}
+									{item.evidence && <pre className={styles.evidenceJson}>{JSON.stringify(item.evidence, null, 2)}</pre>}
+								</div>
+							))}
+						</div>
+					</CardContent>
+				</Card>
+			)}
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Compute Jobs</CardTitle>
+					<CardDescription>{profile.total_jobs.toLocaleString()} jobs targeting this validator</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<DataTable
+						columns={jobColumns}
+						data={profile.jobs}
+						getRowId={(row) => String(row.job_id)}
+						pageSize={10}
+						maxHeight="none"
+					/>
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Benchmarks</CardTitle>
+					<CardDescription>Benchmark results reported by this validator</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{profile.benchmarks.length === 0 ? (
+						<p className={styles.mutedText}>No benchmark results from this validator</p>
+					) : (
+						<DataTable
+							columns={benchmarkColumns}
+							data={profile.benchmarks}
+							getRowId={(row) => String(row.benchmark_id)}
+							pageSize={10}
+							maxHeight="none"
+						/>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
+
+const styles = {
+	container: css({ display: "flex", flexDirection: "column", gap: "6" }),
+	statsGrid: css({
+		display: "grid",
+		gridTemplateColumns: { base: "repeat(2, 1fr)", md: "repeat(4, 1fr)" },
+		gap: "4",
+	}),
+	statSkeleton: css({ height: "20", width: "full" }),
+	chartSkeleton: css({ height: "80", width: "full" }),
+	statCard: css({ display: "flex", flexDirection: "column", gap: "1", py: "4" }),
+	statLabel: css({
+		fontSize: "xs",
+		fontWeight: "medium",
+		color: "fg.muted",
+		textTransform: "uppercase",
+		letterSpacing: "wider",
+	}),
+	statValue: css({ fontSize: "2xl", fontWeight: "bold" }),
+	statValueSuccess: css({ fontSize: "2xl", fontWeight: "bold", color: "republicGreen.default" }),
+	statValueDanger: css({ fontSize: "2xl", fontWeight: "bold", color: "red.500" }),
+	statSub: css({ fontSize: "xs", color: "fg.muted" }),
+	titleFlex: css({ display: "flex", alignItems: "center", gap: "2" }),
+	dangerIcon: css({ h: "5", w: "5", color: "red.500" }),
+	idLink: css({ fontFamily: "mono", fontSize: "sm", color: "accent.default", _hover: { textDecoration: "underline" } }),
+	monoText: css({ fontFamily: "mono", fontSize: "sm" }),
+	mutedText: css({ fontSize: "sm", color: "fg.muted" }),
+	evidenceList: css({ display: "flex", flexDirection: "column", gap: "3" }),
+	evidenceItem: css({
+		display: "flex",
+		flexDirection: "column",
+		gap: "2",
+		p: "3",
+		bg: "red.500/10",
+		rounded: "lg",
+		borderWidth: "1px",
+		borderColor: "red.500/20",
+	}),
+	evidenceHeader: css({ display: "flex", alignItems: "center", justifyContent: "space-between", flexWrap: "wrap", gap: "2" }),
+	evidenceRow: css({ display: "flex", alignItems: "center", gap: "2" }),
+	evidenceJson: css({ fontSize: "xs", fontFamily: "mono", overflow: "auto", maxH: "32" }),
+	emptyState: css({ textAlign: "center", py: "12", color: "fg.muted" }),
+	emptyIcon: css({ height: "12", width: "12", margin: "0 auto", marginBottom: "4", opacity: "0.5" }),
+	emptyTitle: css({ fontSize: "lg", fontWeight: "semibold", mb: "2" }),
+	emptyText: css({ fontSize: "sm" }),
+}
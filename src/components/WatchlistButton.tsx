@@ -0,0 +1,37 @@
+import { Star } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useWatchlist } from '@/contexts/WatchlistContext'
+import type { WatchKind } from '@/lib/watchlist'
+import { css, cx } from '@/styled-system/css'
+
+interface WatchlistButtonProps {
+	address: string
+	altAddress?: string | null
+	kind: WatchKind
+	label?: string | null
+}
+
+/**
+ * Star toggle that adds or removes an address, validator or contract from the watchlist
+ */
+export function WatchlistButton({ address, altAddress = null, kind, label = null }: WatchlistButtonProps) {
+	const { isWatched, add, remove } = useWatchlist()
+	const watched = isWatched(address)
+
+	return (
+		<Button
+			variant="outline"
+			size="sm"
+			onClick={() => (watched ? remove(address) : add({ address, altAddress, kind, label }))}
+			title={watched ? 'Remove from watchlist' : 'Add to watchlist'}
+		>
+			<Star className={cx(styles.icon, watched && styles.iconActive)} />
+			{watched ? 'Watching' : 'Watch'}
+		</Button>
+	)
+}
+
+const styles = {
+	icon: css({ w: '4', h: '4', mr: '1' }),
+	iconActive: css({ fill: 'yellow.500', color: 'yellow.500' }),
+}
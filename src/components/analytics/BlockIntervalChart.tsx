@@ -2,8 +2,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import ReactECharts from 'echarts-for-react'
 import { useQuery } from '@tanstack/react-query'
 import { appConfig } from '@/config/app'
+import { getChartTheme, withAlpha } from '@/lib/chart-theme'
 import { css } from '@/styled-system/css'
-import { token } from '@/styled-system/tokens'
 import { getConfig } from '@/lib/env'
 
 interface BlockTimeData {
@@ -68,21 +68,20 @@ export function BlockIntervalChart() {
   const minBlockTime = Math.min(...data.map((d) => d.time))
   const maxBlockTime = Math.max(...data.map((d) => d.time))
 
+  const chart = getChartTheme()
   const option = {
     tooltip: {
       trigger: 'axis',
-      backgroundColor: token('colors.bg.muted'),
-      borderColor: token('colors.border.accent'),
-      textStyle: { color: token('colors.fg.default') },
+      ...chart.tooltip,
       axisPointer: {
         type: 'line',
-        lineStyle: { color: token('colors.republicGreen.7'), width: 1 }
+        lineStyle: { color: chart.accent[7], width: 1 }
       },
       formatter: (params: any) => {
         const point = params[0]
         return `<div style="font-size: 13px;">
           <strong>Block ${Number(point.name).toLocaleString()}</strong><br/>
-          Interval: <span style="color: ${token('colors.republicGreen.7')}; font-weight: 600;">${point.value.toFixed(2)}s</span>
+          Interval: <span style="color: ${chart.accent[7]}; font-weight: 600;">${point.value.toFixed(2)}s</span>
         </div>`
       },
     },
@@ -97,24 +96,24 @@ export function BlockIntervalChart() {
       type: 'category',
       data: data.map((d) => d.height),
       axisLabel: {
-        color: '#707B92',
+        color: chart.axisLabel,
         fontSize: 11,
         rotate: 0,
         interval: Math.floor(data.length / 6),
         formatter: (value: number) => value.toLocaleString(),
       },
-      axisLine: { lineStyle: { color: token('colors.border.default') } },
+      axisLine: { lineStyle: { color: chart.border } },
       splitLine: { show: false },
     },
     yAxis: {
       type: 'value',
       axisLabel: {
-        color: '#707B92',
+        color: chart.axisLabel,
         fontSize: 11,
         formatter: '{value}s',
       },
       axisLine: { show: false },
-      splitLine: { lineStyle: { color: token('colors.border.default'), type: 'dashed' } },
+      splitLine: { lineStyle: { color: chart.border, type: 'dashed' } },
     },
     series: [{
       name: 'Block Interval',
@@ -123,24 +122,24 @@ export function BlockIntervalChart() {
       smooth: true,
       symbol: 'circle',
       symbolSize: 6,
-      itemStyle: { color: token('colors.republicGreen.5') },
-      lineStyle: { width: 3, color: token('colors.republicGreen.5') },
+      itemStyle: { color: chart.accent[5] },
+      lineStyle: { width: 3, color: chart.accent[5] },
       areaStyle: {
         color: {
           type: 'linear',
           x: 0, y: 0, x2: 0, y2: 1,
           colorStops: [
-            { offset: 0, color: 'rgba(124, 255, 181, 0.4)' },
-            { offset: 1, color: 'rgba(124, 255, 181, 0.05)' },
+            { offset: 0, color: withAlpha(chart.accent[5], 0.4) },
+            { offset: 1, color: withAlpha(chart.accent[5], 0.05) },
           ],
         },
       },
       markLine: {
         silent: true,
         symbol: 'none',
-        lineStyle: { type: 'dashed', color: token('colors.republicGreen.7'), width: 2 },
+        lineStyle: { type: 'dashed', color: chart.accent[7], width: 2 },
         label: {
-          color: token('colors.republicGreen.5'),
+          color: chart.accent[5],
           fontSize: 12,
           fontWeight: 'bold',
           formatter: `Avg: ${avgBlockTime.toFixed(2)}s`,
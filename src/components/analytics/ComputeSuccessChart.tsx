@@ -0,0 +1,120 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import ReactECharts from 'echarts-for-react'
+import { TrendingUp } from 'lucide-react'
+import type { ValidatorComputeDay } from '@/lib/api'
+import { getChartTheme } from '@/lib/chart-theme'
+import { css } from '@/styled-system/css'
+
+interface ComputeSuccessChartProps {
+  daily: ValidatorComputeDay[]
+}
+
+/**
+ * Daily resolved compute jobs (stacked completed/failed) with the success rate overlaid
+ */
+export function ComputeSuccessChart({ daily }: ComputeSuccessChartProps) {
+  const chart = getChartTheme()
+  const option = {
+    tooltip: {
+      trigger: 'axis',
+      ...chart.tooltip,
+    },
+    legend: {
+      data: ['Completed', 'Failed', 'Success Rate'],
+      textStyle: { color: chart.axisLabel, fontSize: 11 },
+      right: 10,
+      top: 0
+    },
+    grid: {
+      left: '3%',
+      right: '4%',
+      bottom: '8%',
+      top: '15%',
+      containLabel: true
+    },
+    xAxis: {
+      type: 'category',
+      data: daily.map(d => d.date.substring(5)),
+      axisLabel: { color: chart.axisLabel, fontSize: 11 },
+      axisLine: { lineStyle: { color: chart.border } }
+    },
+    yAxis: [
+      {
+        type: 'value',
+        name: 'Jobs',
+        minInterval: 1,
+        nameTextStyle: { color: chart.axisLabel, fontSize: 11 },
+        axisLabel: { color: chart.axisLabel, fontSize: 11 },
+        axisLine: { show: false },
+        splitLine: { lineStyle: { color: chart.border, type: 'dashed' } }
+      },
+      {
+        type: 'value',
+        name: 'Success',
+        min: 0,
+        max: 100,
+        nameTextStyle: { color: chart.axisLabel, fontSize: 11 },
+        axisLabel: { color: chart.axisLabel, fontSize: 11, formatter: '{value}%' },
+        axisLine: { show: false },
+        splitLine: { show: false }
+      }
+    ],
+    series: [
+      {
+        name: 'Completed',
+        type: 'bar',
+        stack: 'jobs',
+        barMaxWidth: 24,
+        itemStyle: { color: chart.accent[7] },
+        data: daily.map(d => d.completed)
+      },
+      {
+        name: 'Failed',
+        type: 'bar',
+        stack: 'jobs',
+        barMaxWidth: 24,
+        itemStyle: { color: chart.danger },
+        data: daily.map(d => d.failed)
+      },
+      {
+        name: 'Success Rate',
+        type: 'line',
+        yAxisIndex: 1,
+        smooth: true,
+        symbol: 'circle',
+        symbolSize: 6,
+        connectNulls: true,
+        itemStyle: { color: chart.accent[4] },
+        lineStyle: { width: 2, color: chart.accent[4] },
+        tooltip: { valueFormatter: (value: number | null) => (value == null ? '-' : `${value.toFixed(1)}%`) },
+        data: daily.map(d => d.success_rate)
+      }
+    ]
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className={styles.titleFlex}>
+          <TrendingUp className={styles.icon} />
+          Success Rate Over Time
+        </CardTitle>
+        <CardDescription>Resolved jobs per day by result time</CardDescription>
+      </CardHeader>
+      <CardContent className={styles.content}>
+        {daily.length === 0 ? (
+          <div className={styles.loadingContainer}>No resolved jobs yet</div>
+        ) : (
+          <ReactECharts option={option} style={{ height: '280px' }} opts={{ renderer: 'canvas' }} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+const styles = {
+  titleFlex: css({ display: 'flex', alignItems: 'center', gap: '2' }),
+  icon: css({ h: '5', w: '5' }),
+  content: css({ p: '4' }),
+  loadingContainer: css({ h: '200px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'fg.muted' }),
+}
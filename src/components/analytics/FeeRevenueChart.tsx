@@ -2,8 +2,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import ReactECharts from 'echarts-for-react'
 import { useQuery } from '@tanstack/react-query'
 import { api } from '@/lib/api'
+import { getChartTheme } from '@/lib/chart-theme'
 import { css } from '@/styled-system/css'
-import { token } from '@/styled-system/tokens'
 
 export function FeeRevenueChart() {
   const { data, isLoading } = useQuery({
@@ -44,12 +44,11 @@ export function FeeRevenueChart() {
     .map((d) => `${formatAmount(d.total_amount, d.denom).toFixed(2)} ${formatDenom(d.denom)}`)
     .join(' + ')
 
+  const chart = getChartTheme()
   const option = {
     tooltip: {
       trigger: 'item',
-      backgroundColor: token('colors.bg.muted'),
-      borderColor: token('colors.border.accent'),
-      textStyle: { color: token('colors.fg.default') },
+      ...chart.tooltip,
       formatter: (params: any) => {
         const denom = data[params.dataIndex].denom
         const amount = formatAmount(data[params.dataIndex].total_amount, denom)
@@ -59,7 +58,7 @@ export function FeeRevenueChart() {
     legend: {
       data: data.map((d) => formatDenom(d.denom)),
       top: 'bottom',
-      textStyle: { color: '#707B92' }
+      textStyle: { color: chart.axisLabel }
     },
     grid: {
       left: '3%',
@@ -73,18 +72,18 @@ export function FeeRevenueChart() {
       data: data.map((d) => formatDenom(d.denom)),
       axisLabel: {
         rotate: 45,
-        color: '#707B92'
+        color: chart.axisLabel
       },
-      axisLine: { lineStyle: { color: token('colors.border.default') } }
+      axisLine: { lineStyle: { color: chart.border } }
     },
     yAxis: {
       type: 'value',
       name: 'Fee Revenue',
       nameLocation: 'middle',
       nameGap: 60,
-      nameTextStyle: { color: '#707B92' },
+      nameTextStyle: { color: chart.axisLabel },
       axisLabel: {
-        color: '#707B92',
+        color: chart.axisLabel,
         formatter: (value: number) => {
           if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`
           if (value >= 1000) return `${(value / 1000).toFixed(1)}K`
@@ -92,7 +91,7 @@ export function FeeRevenueChart() {
         },
       },
       axisLine: { show: false },
-      splitLine: { lineStyle: { color: token('colors.border.default'), type: 'dashed' } }
+      splitLine: { lineStyle: { color: chart.border, type: 'dashed' } }
     },
     series: [
       {
@@ -107,14 +106,14 @@ export function FeeRevenueChart() {
             x2: 0,
             y2: 1,
             colorStops: [
-              { offset: 0, color: token('colors.republicGreen.7') },
-              { offset: 1, color: token('colors.republicGreen.5') },
+              { offset: 0, color: chart.accent[7] },
+              { offset: 1, color: chart.accent[5] },
             ],
           },
         },
         emphasis: {
           itemStyle: {
-            color: token('colors.republicGreen.1'),
+            color: chart.accent[1],
           },
         },
       },
@@ -2,8 +2,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import ReactECharts from 'echarts-for-react'
 import { useQuery } from '@tanstack/react-query'
 import { api } from '@/lib/api'
+import { getChartTheme } from '@/lib/chart-theme'
 import { css } from '@/styled-system/css'
-import { token } from '@/styled-system/tokens'
 
 export function GasEfficiencyChart() {
   const { data: distribution, isLoading: loadingDist } = useQuery({
@@ -34,12 +34,11 @@ export function GasEfficiencyChart() {
     )
   }
 
+  const chart = getChartTheme()
   const option = {
     tooltip: {
       trigger: 'axis',
-      backgroundColor: token('colors.bg.muted'),
-      borderColor: token('colors.border.accent'),
-      textStyle: { color: token('colors.fg.default') },
+      ...chart.tooltip,
       axisPointer: {
         type: 'shadow',
       },
@@ -65,29 +64,29 @@ export function GasEfficiencyChart() {
       data: distribution.map((d) => d.gas_range),
       axisLabel: {
         rotate: 45,
-        color: '#707B92'
+        color: chart.axisLabel
       },
       name: 'Gas Used Range',
       nameLocation: 'middle',
       nameGap: 60,
-      nameTextStyle: { color: '#707B92' },
-      axisLine: { lineStyle: { color: token('colors.border.default') } }
+      nameTextStyle: { color: chart.axisLabel },
+      axisLine: { lineStyle: { color: chart.border } }
     },
     yAxis: {
       type: 'value',
       name: 'Number of Transactions',
       nameLocation: 'middle',
       nameGap: 50,
-      nameTextStyle: { color: '#707B92' },
+      nameTextStyle: { color: chart.axisLabel },
       axisLabel: {
-        color: '#707B92',
+        color: chart.axisLabel,
         formatter: (value: number) => {
           if (value >= 1000) return `${(value / 1000).toFixed(1)}K`
           return value.toString()
         },
       },
       axisLine: { show: false },
-      splitLine: { lineStyle: { color: token('colors.border.default'), type: 'dashed' } }
+      splitLine: { lineStyle: { color: chart.border, type: 'dashed' } }
     },
     series: [
       {
@@ -102,14 +101,14 @@ export function GasEfficiencyChart() {
             x2: 0,
             y2: 1,
             colorStops: [
-              { offset: 0, color: token('colors.republicGreen.7') },
-              { offset: 1, color: token('colors.republicGreen.1') },
+              { offset: 0, color: chart.accent[7] },
+              { offset: 1, color: chart.accent[1] },
             ],
           },
         },
         emphasis: {
           itemStyle: {
-            color: token('colors.republicGreen.5'),
+            color: chart.accent[5],
           },
         },
       },
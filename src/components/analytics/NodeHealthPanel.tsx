@@ -0,0 +1,316 @@
+import { useState } from 'react'
+import ReactECharts from 'echarts-for-react'
+import { AlertCircle, Cpu, Gauge, Layers, Network, Server, ShieldAlert } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { type NodeHealthSample, useNodeHealth } from '@/hooks/useNodeHealth'
+import { ABCI_TIMED_METHODS, type ABCITiming } from '@/lib/api/prometheus'
+import { getConfig } from '@/lib/env'
+import { type ChartTheme, getChartTheme } from '@/lib/chart-theme'
+import { css, cx } from '@/styled-system/css'
+
+interface SeriesSpec {
+  name: string
+  key: keyof NodeHealthSample
+  color: string
+  type?: 'line' | 'bar'
+}
+
+/**
+ * Line/bar chart option over the in-memory sample history
+ */
+function historyOption(chart: ChartTheme, history: NodeHealthSample[], series: SeriesSpec[]) {
+  return {
+    tooltip: {
+      trigger: 'axis',
+      ...chart.tooltip,
+    },
+    legend: {
+      data: series.map(s => s.name),
+      textStyle: { color: chart.axisLabel, fontSize: 11 },
+      right: 10,
+      top: 0
+    },
+    grid: {
+      left: '3%',
+      right: '4%',
+      bottom: '8%',
+      top: '15%',
+      containLabel: true
+    },
+    xAxis: {
+      type: 'category',
+      boundaryGap: series.some(s => s.type === 'bar'),
+      data: history.map(s => new Date(s.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })),
+      axisLabel: { color: chart.axisLabel, fontSize: 11 },
+      axisLine: { lineStyle: { color: chart.border } },
+      splitLine: { show: false }
+    },
+    yAxis: {
+      type: 'value',
+      minInterval: 1,
+      axisLabel: { color: chart.axisLabel, fontSize: 11 },
+      axisLine: { show: false },
+      splitLine: { lineStyle: { color: chart.border, type: 'dashed' } }
+    },
+    series: series.map(s => ({
+      name: s.name,
+      type: s.type ?? 'line',
+      step: s.type === 'bar' ? undefined : 'end',
+      symbol: 'none',
+      barMaxWidth: 8,
+      itemStyle: { color: s.color },
+      lineStyle: { width: 2, color: s.color },
+      data: history.map(sample => sample[s.key])
+    }))
+  }
+}
+
+/**
+ * Grouped bars of per-bucket call share for each ABCI method.
+ * Prometheus buckets are cumulative, so each bar is the difference to the previous bucket.
+ */
+function abciTimingOption(chart: ChartTheme, timing: ABCITiming) {
+  const methodColors: Record<(typeof ABCI_TIMED_METHODS)[number], string> = {
+    check_tx: chart.accent[7],
+    finalize_block: chart.accent[4],
+    commit: '#7CCFFF',
+  }
+  const reference = ABCI_TIMED_METHODS.map(m => timing[m]).find(b => b && b.length > 0) ?? []
+  const labels = reference.map(b => (b.le === '+Inf' ? '> max' : `≤ ${formatSeconds(parseFloat(b.le))}`))
+
+  return {
+    tooltip: {
+      trigger: 'axis',
+      ...chart.tooltip,
+      valueFormatter: (value: number) => `${value.toFixed(1)}%`
+    },
+    legend: {
+      data: [...ABCI_TIMED_METHODS],
+      textStyle: { color: chart.axisLabel, fontSize: 11 },
+      right: 10,
+      top: 0
+    },
+    grid: {
+      left: '3%',
+      right: '4%',
+      bottom: '8%',
+      top: '15%',
+      containLabel: true
+    },
+    xAxis: {
+      type: 'category',
+      data: labels,
+      axisLabel: { color: chart.axisLabel, fontSize: 11 },
+      axisLine: { lineStyle: { color: chart.border } }
+    },
+    yAxis: {
+      type: 'value',
+      axisLabel: { color: chart.axisLabel, fontSize: 11, formatter: '{value}%' },
+      axisLine: { show: false },
+      splitLine: { lineStyle: { color: chart.border, type: 'dashed' } }
+    },
+    series: ABCI_TIMED_METHODS.map(method => {
+      const buckets = timing[method] ?? []
+      const total = buckets[buckets.length - 1]?.count || 0
+      return {
+        name: method,
+        type: 'bar',
+        itemStyle: { color: methodColors[method] },
+        data: buckets.map((b, i) => (total ? ((b.count - (buckets[i - 1]?.count ?? 0)) / total) * 100 : 0))
+      }
+    })
+  }
+}
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 1) return `${(seconds * 1000).toFixed(seconds < 0.01 ? 1 : 0)}ms`
+  return `${seconds}s`
+}
+
+function ChartCard({ icon: Icon, title, description, option }: {
+  icon: typeof Gauge
+  title: string
+  description: string
+  option: object
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className={styles.titleFlex}>
+          <Icon className={styles.icon} />
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className={styles.content}>
+        <ReactECharts option={option} style={{ height: '240px' }} opts={{ renderer: 'canvas' }} notMerge={true} lazyUpdate={true} />
+      </CardContent>
+    </Card>
+  )
+}
+
+function NodeHealthPanel({ endpoint }: { endpoint: string }) {
+  const { current, abciTiming, history, error, isLoading } = useNodeHealth(endpoint)
+
+  if (error && !current) {
+    return (
+      <div className={styles.errorBox}>
+        <AlertCircle className={styles.icon} />
+        <span>Unable to scrape {endpoint}: {error instanceof Error ? error.message : 'unknown error'}</span>
+      </div>
+    )
+  }
+
+  if (isLoading || !current) {
+    return <div className={styles.loadingContainer}>Loading node metrics...</div>
+  }
+
+  const stats = [
+    { label: 'Height', value: current.height.toLocaleString() },
+    { label: 'Round', value: current.rounds.toLocaleString() },
+    { label: 'Validators', value: current.validators.toLocaleString() },
+    { label: 'Missing', value: current.missingValidators.toLocaleString(), alert: current.missingValidators > 0 },
+    { label: 'Byzantine', value: current.byzantineValidators.toLocaleString(), alert: current.byzantineValidators > 0 },
+    { label: 'Mempool', value: current.mempoolSize.toLocaleString() },
+    { label: 'Peers', value: current.peers.toLocaleString(), alert: current.peers === 0 },
+  ]
+  const chart = getChartTheme()
+
+  return (
+    <div className={styles.panel}>
+      {error && (
+        <div className={styles.errorBox}>
+          <AlertCircle className={styles.icon} />
+          <span>Latest scrape failed; showing last known values.</span>
+        </div>
+      )}
+
+      <div className={styles.statsGrid}>
+        {stats.map(stat => (
+          <div key={stat.label} className={cx(styles.statCard, stat.alert && styles.statCardAlert)}>
+            <span className={styles.statLabel}>{stat.label}</span>
+            <span className={styles.statValue}>{stat.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className={styles.chartsGrid}>
+        <ChartCard
+          icon={Layers}
+          title="Consensus Rounds"
+          description="Rounds above 0 mean a proposal failed and consensus retried"
+          option={historyOption(chart, history, [
+            { name: 'Round', key: 'rounds', color: chart.accent[7] },
+          ])}
+        />
+        <ChartCard
+          icon={ShieldAlert}
+          title="Missing / Byzantine Validators"
+          description="Validators absent from or equivocating in the last commit"
+          option={historyOption(chart, history, [
+            { name: 'Missing', key: 'missingValidators', color: chart.warning },
+            { name: 'Byzantine', key: 'byzantineValidators', color: chart.danger },
+          ])}
+        />
+        <ChartCard
+          icon={Cpu}
+          title="Mempool"
+          description="Pending transactions, with evictions and failed CheckTx per interval"
+          option={historyOption(chart, history, [
+            { name: 'Size', key: 'mempoolSize', color: chart.accent[7] },
+            { name: 'Evicted', key: 'evictedDelta', color: chart.warning, type: 'bar' },
+            { name: 'Failed', key: 'failedDelta', color: chart.danger, type: 'bar' },
+          ])}
+        />
+        <ChartCard
+          icon={Network}
+          title="Peers"
+          description="Connected P2P peers"
+          option={historyOption(chart, history, [
+            { name: 'Peers', key: 'peers', color: chart.accent[7] },
+          ])}
+        />
+      </div>
+
+      {abciTiming && Object.values(abciTiming).some(b => b && b.length > 0) && (
+        <ChartCard
+          icon={Gauge}
+          title="ABCI Timing"
+          description="Share of calls per latency bucket since node start"
+          option={abciTimingOption(chart, abciTiming)}
+        />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Node Health section - live CometBFT metrics from configured Prometheus exporters
+ */
+export function NodeHealthSection() {
+  const endpoints = getConfig().nodeHealth?.endpoints ?? []
+  const [selected, setSelected] = useState(0)
+
+  if (endpoints.length === 0) return null
+
+  const active = endpoints[Math.min(selected, endpoints.length - 1)]
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionHeader}>
+        <h2 className={styles.sectionTitle}>
+          <Server className={styles.icon} />
+          Node Health
+        </h2>
+        {endpoints.length > 1 && (
+          <div className={styles.endpointTabs}>
+            {endpoints.map((ep, i) => (
+              <Button
+                key={ep.url}
+                size="sm"
+                variant={ep.url === active.url ? 'default' : 'outline'}
+                onClick={() => setSelected(i)}
+              >
+                {ep.name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+      <NodeHealthPanel key={active.url} endpoint={active.url} />
+    </div>
+  )
+}
+
+const styles = {
+  section: css({ display: 'flex', flexDirection: 'column', gap: '4' }),
+  sectionHeader: css({ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: '3' }),
+  sectionTitle: css({ display: 'flex', alignItems: 'center', gap: '2', fontSize: 'xl', fontWeight: 'semibold', color: 'white' }),
+  endpointTabs: css({ display: 'flex', gap: '2', flexWrap: 'wrap' }),
+  panel: css({ display: 'flex', flexDirection: 'column', gap: '6' }),
+  statsGrid: css({
+    display: 'grid',
+    gap: '3',
+    gridTemplateColumns: { base: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)', xl: 'repeat(7, 1fr)' },
+  }),
+  statCard: css({
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '1',
+    p: '4',
+    bg: 'bg.subtle',
+    border: '1px solid',
+    borderColor: 'border.default',
+    borderRadius: 'lg',
+  }),
+  statCardAlert: css({ borderColor: 'red.500/50', bg: 'red.500/10' }),
+  statLabel: css({ fontSize: 'xs', fontWeight: 'medium', color: 'fg.muted', textTransform: 'uppercase', letterSpacing: '0.05em' }),
+  statValue: css({ fontSize: 'xl', fontWeight: 'bold', fontFamily: 'mono' }),
+  chartsGrid: css({ display: 'grid', gap: '6', gridTemplateColumns: { base: '1fr', lg: 'repeat(2, 1fr)' } }),
+  titleFlex: css({ display: 'flex', alignItems: 'center', gap: '2' }),
+  icon: css({ h: '5', w: '5', flexShrink: 0 }),
+  loadingContainer: css({ h: '200px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'fg.muted' }),
+  errorBox: css({ display: 'flex', alignItems: 'center', gap: '2', p: '4', fontSize: 'sm', color: 'red.400', bg: 'red.500/10', borderRadius: 'lg' }),
+  content: css({ p: '4' }),
+}
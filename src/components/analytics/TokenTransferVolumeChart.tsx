@@ -0,0 +1,173 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import ReactECharts from 'echarts-for-react'
+import { useQuery } from '@tanstack/react-query'
+import { BarChart3 } from 'lucide-react'
+import { formatUnits } from 'viem'
+import { api } from '@/lib/api'
+import { getChartTheme } from '@/lib/chart-theme'
+import { css } from '@/styled-system/css'
+
+interface TokenTransferVolumeChartProps {
+  address: string
+  decimals: number | null
+  symbol: string | null
+  /** NFT transfer values are token IDs, so only transfer counts are charted */
+  isNft?: boolean
+  days?: number
+}
+
+interface DailyVolume {
+  date: string
+  count: number
+  volume: number
+}
+
+async function getDailyVolume(address: string, days: number, decimals: number): Promise<DailyVolume[]> {
+  const daily = await api.getEvmTokenDailyVolume(address, days)
+  const volumeMap = new Map(daily.map(d => [d.date, d]))
+
+  // Fill in all days, including those without transfers
+  const result: DailyVolume[] = []
+  const now = new Date()
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000).toISOString().substring(0, 10)
+    const day = volumeMap.get(date)
+    result.push({
+      date,
+      count: day?.count ?? 0,
+      volume: day ? Number(formatUnits(BigInt(day.volume), decimals)) : 0
+    })
+  }
+
+  return result
+}
+
+export function TokenTransferVolumeChart({ address, decimals, symbol, isNft = false, days = 30 }: TokenTransferVolumeChartProps) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['evm-token-daily-volume', address, days, decimals],
+    queryFn: () => getDailyVolume(address, days, decimals ?? 0),
+    staleTime: 60000,
+  })
+  const unit = symbol || 'tokens'
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className={styles.titleFlex}>
+            <BarChart3 className={styles.icon} />
+            Daily Transfer Volume
+          </CardTitle>
+          <CardDescription>Last {days} days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className={styles.loadingContainer}>
+            Loading chart data...
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const totalTransfers = data.reduce((sum, d) => sum + d.count, 0)
+  const totalVolume = data.reduce((sum, d) => sum + d.volume, 0)
+
+  const chart = getChartTheme()
+  const option = {
+    tooltip: {
+      trigger: 'axis',
+      ...chart.tooltip,
+      formatter: (params: any) => {
+        const dateStr = new Date(params[0].axisValue).toLocaleDateString([], { month: 'short', day: 'numeric' })
+        const transfers = params.find((p: any) => p.seriesName === 'Transfers')?.value ?? 0
+        const volume = params.find((p: any) => p.seriesName === 'Volume')?.value
+        return `<div style="font-size: 13px;">
+          <strong>${dateStr}</strong><br/>
+          Transfers: <span style="color: ${chart.accent[7]}; font-weight: 600;">${transfers}</span>
+          ${volume === undefined ? '' : `<br/>Volume: <span style="color: ${chart.accent[4]}; font-weight: 600;">${volume.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${unit}</span>`}
+        </div>`
+      }
+    },
+    grid: {
+      left: '3%',
+      right: '4%',
+      bottom: '8%',
+      top: '8%',
+      containLabel: true
+    },
+    xAxis: {
+      type: 'category',
+      data: data.map(d => d.date),
+      axisLabel: {
+        color: chart.axisLabel,
+        fontSize: 11,
+        formatter: (value: string) => new Date(value).toLocaleDateString([], { month: 'short', day: 'numeric' }),
+        interval: Math.floor(data.length / 8)
+      },
+      axisLine: { lineStyle: { color: chart.border } },
+      splitLine: { show: false }
+    },
+    yAxis: [
+      {
+        type: 'value',
+        minInterval: 1,
+        axisLabel: { color: chart.axisLabel, fontSize: 11 },
+        axisLine: { show: false },
+        splitLine: { lineStyle: { color: chart.border, type: 'dashed' } }
+      },
+      {
+        type: 'value',
+        axisLabel: { color: chart.axisLabel, fontSize: 11 },
+        axisLine: { show: false },
+        splitLine: { show: false }
+      }
+    ],
+    series: [
+      {
+        name: 'Transfers',
+        type: 'bar',
+        barMaxWidth: 16,
+        itemStyle: { color: chart.accent[7], borderRadius: [3, 3, 0, 0] },
+        data: data.map(d => d.count)
+      },
+      ...(isNft ? [] : [
+        {
+          name: 'Volume',
+          type: 'line',
+          yAxisIndex: 1,
+          smooth: true,
+          symbol: 'circle',
+          symbolSize: 5,
+          itemStyle: { color: chart.accent[4] },
+          lineStyle: { width: 2, color: chart.accent[4] },
+          data: data.map(d => d.volume)
+        }
+      ])
+    ]
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className={styles.titleFlex}>
+          <BarChart3 className={styles.icon} />
+          Daily Transfer Volume
+        </CardTitle>
+        <CardDescription>
+          Last {days} days * {totalTransfers.toLocaleString()} transfers
+          {!isNft && ` * ${totalVolume.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${unit} moved`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className={styles.content}>
+        <ReactECharts option={option} style={{ height: '300px' }} opts={{ renderer: 'canvas' }} notMerge={true} lazyUpdate={true} />
+      </CardContent>
+    </Card>
+  )
+}
+
+const styles = {
+  titleFlex: css({ display: 'flex', alignItems: 'center', gap: '2' }),
+  icon: css({ h: '5', w: '5' }),
+  loadingContainer: css({ h: '300px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'fg.muted' }),
+  content: css({ p: '4' }),
+}
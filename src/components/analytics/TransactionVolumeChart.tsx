@@ -4,8 +4,8 @@ import { useQuery } from '@tanstack/react-query'
 import { TrendingUp } from 'lucide-react'
 import { api } from '@/lib/api'
 import { appConfig } from '@/config/app'
+import { getChartTheme, withAlpha } from '@/lib/chart-theme'
 import { css } from '@/styled-system/css'
-import { token } from '@/styled-system/tokens'
 
 interface VolumeData {
   time: string
@@ -68,15 +68,14 @@ export function TransactionVolumeChart() {
   const avgTxPerHour = Math.round(totalTx / data.length)
   const peakHour = data.reduce((max, d) => d.count > max.count ? d : max, data[0])
 
+  const chart = getChartTheme()
   const option = {
     tooltip: {
       trigger: 'axis',
-      backgroundColor: token('colors.bg.muted'),
-      borderColor: token('colors.border.accent'),
-      textStyle: { color: token('colors.fg.default') },
+      ...chart.tooltip,
       axisPointer: {
         type: 'line',
-        lineStyle: { color: token('colors.republicGreen.7'), width: 1 }
+        lineStyle: { color: chart.accent[7], width: 1 }
       },
       formatter: (params: any) => {
         const date = new Date(params[0].axisValue)
@@ -84,7 +83,7 @@ export function TransactionVolumeChart() {
         const dateStr = date.toLocaleDateString([], { month: 'short', day: 'numeric' })
         return `<div style="font-size: 13px;">
           <strong>${dateStr} ${timeStr}</strong><br/>
-          Transactions: <span style="color: ${token('colors.republicGreen.7')}; font-weight: 600;">${params[0].value}</span>
+          Transactions: <span style="color: ${chart.accent[7]}; font-weight: 600;">${params[0].value}</span>
         </div>`
       }
     },
@@ -100,7 +99,7 @@ export function TransactionVolumeChart() {
       boundaryGap: false,
       data: data.map(d => d.time),
       axisLabel: {
-        color: '#707B92',
+        color: chart.axisLabel,
         fontSize: 11,
         formatter: (value: string) => {
           const date = new Date(value)
@@ -108,18 +107,18 @@ export function TransactionVolumeChart() {
         },
         interval: Math.floor(data.length / 8)
       },
-      axisLine: { lineStyle: { color: token('colors.border.default') } },
+      axisLine: { lineStyle: { color: chart.border } },
       splitLine: { show: false }
     },
     yAxis: {
       type: 'value',
       axisLabel: {
-        color: '#707B92',
+        color: chart.axisLabel,
         fontSize: 11,
         formatter: '{value}'
       },
       axisLine: { show: false },
-      splitLine: { lineStyle: { color: token('colors.border.default'), type: 'dashed' } }
+      splitLine: { lineStyle: { color: chart.border, type: 'dashed' } }
     },
     series: [{
       name: 'Transactions',
@@ -128,15 +127,15 @@ export function TransactionVolumeChart() {
       symbol: 'circle',
       symbolSize: 6,
       sampling: 'average',
-      itemStyle: { color: token('colors.republicGreen.7') },
-      lineStyle: { width: 3, color: token('colors.republicGreen.7') },
+      itemStyle: { color: chart.accent[7] },
+      lineStyle: { width: 3, color: chart.accent[7] },
       areaStyle: {
         color: {
           type: 'linear',
           x: 0, y: 0, x2: 0, y2: 1,
           colorStops: [
-            { offset: 0, color: 'rgba(48, 255, 110, 0.4)' },
-            { offset: 1, color: 'rgba(48, 255, 110, 0.05)' }
+            { offset: 0, color: withAlpha(chart.accent[7], 0.4) },
+            { offset: 1, color: withAlpha(chart.accent[7], 0.05) }
           ]
         }
       },
@@ -0,0 +1,119 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import ReactECharts from 'echarts-for-react'
+import { formatUnits } from 'viem'
+import { getChartTheme } from '@/lib/chart-theme'
+import type { QueueDay } from '@/lib/unbonding-queue'
+import { css } from '@/styled-system/css'
+
+interface UnbondingScheduleChartProps {
+  daily: QueueDay[]
+  decimals: number
+  symbol: string
+}
+
+/**
+ * Stacked daily bars of stake leaving the unbonding and redelegation queues
+ */
+export function UnbondingScheduleChart({ daily, decimals, symbol }: UnbondingScheduleChartProps) {
+  if (daily.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Unlock Schedule</CardTitle>
+          <CardDescription>Stake completing unbonding or redelegation per day</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className={styles.emptyContainer}>Nothing is unbonding right now</div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const toDisplay = (value: bigint) => Number(formatUnits(value, decimals))
+  const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+  const chart = getChartTheme()
+  const option = {
+    tooltip: {
+      trigger: 'axis',
+      axisPointer: { type: 'shadow' },
+      ...chart.tooltip,
+      formatter: (params: any) => {
+        const day = daily[params[0].dataIndex]
+        return [
+          `<strong>${day.date}</strong>`,
+          `Unbonding: ${formatValue(toDisplay(day.unbonding))} ${symbol}`,
+          `Redelegating: ${formatValue(toDisplay(day.redelegating))} ${symbol}`,
+          `Entries: ${day.entries}`,
+        ].join('<br/>')
+      },
+    },
+    legend: {
+      data: ['Unbonding', 'Redelegating'],
+      top: 'bottom',
+      textStyle: { color: chart.axisLabel },
+    },
+    grid: {
+      left: '3%',
+      right: '4%',
+      bottom: '12%',
+      top: '5%',
+      containLabel: true,
+    },
+    xAxis: {
+      type: 'category',
+      data: daily.map((d) => d.date.slice(5)),
+      axisLabel: { color: chart.axisLabel },
+      axisLine: { lineStyle: { color: chart.border } },
+    },
+    yAxis: {
+      type: 'value',
+      name: symbol,
+      nameTextStyle: { color: chart.axisLabel },
+      axisLabel: {
+        color: chart.axisLabel,
+        formatter: (value: number) => {
+          if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`
+          if (value >= 1000) return `${(value / 1000).toFixed(1)}K`
+          return value.toFixed(0)
+        },
+      },
+      axisLine: { show: false },
+      splitLine: { lineStyle: { color: chart.border, type: 'dashed' } },
+    },
+    series: [
+      {
+        name: 'Unbonding',
+        type: 'bar',
+        stack: 'unlocks',
+        data: daily.map((d) => toDisplay(d.unbonding)),
+        itemStyle: { color: chart.accent[7] },
+      },
+      {
+        name: 'Redelegating',
+        type: 'bar',
+        stack: 'unlocks',
+        data: daily.map((d) => toDisplay(d.redelegating)),
+        itemStyle: { color: chart.series[1] },
+      },
+    ],
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Unlock Schedule</CardTitle>
+        <CardDescription>
+          Stake completing unbonding or redelegation per day (UTC). Unbonded stake becomes liquid; redelegated stake stays bonded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ReactECharts option={option} style={{ height: '320px' }} opts={{ renderer: 'canvas' }} notMerge={true} lazyUpdate={true} />
+      </CardContent>
+    </Card>
+  )
+}
+
+const styles = {
+  emptyContainer: css({ h: '320px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'fg.muted' }),
+}
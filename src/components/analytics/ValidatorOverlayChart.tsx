@@ -0,0 +1,123 @@
+import type { ReactNode } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import ReactECharts from 'echarts-for-react'
+import { getChartTheme } from '@/lib/chart-theme'
+import { css } from '@/styled-system/css'
+
+export interface OverlaySeries {
+  name: string
+  color: string
+  /** [x, y] points, x being a timestamp or block height depending on xType */
+  data: Array<[string | number, number | null]>
+}
+
+interface ValidatorOverlayChartProps {
+  title: string
+  description: string
+  icon: ReactNode
+  series: OverlaySeries[]
+  xType: 'time' | 'value'
+  xName?: string
+  yName?: string
+  /** Fixes the y axis to 0-100 and formats values as percentages */
+  percent?: boolean
+  emptyText?: string
+}
+
+/**
+ * One line per validator on a shared axis, for side-by-side comparisons
+ */
+export function ValidatorOverlayChart({
+  title,
+  description,
+  icon,
+  series,
+  xType,
+  xName,
+  yName,
+  percent = false,
+  emptyText = 'No data available',
+}: ValidatorOverlayChartProps) {
+  const hasData = series.some(s => s.data.length > 0)
+  const formatValue = (value: number | null) => {
+    if (value == null) return '-'
+    return percent ? `${value.toFixed(1)}%` : value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+  }
+
+  const chart = getChartTheme()
+  const option = {
+    tooltip: {
+      trigger: 'axis',
+      ...chart.tooltip,
+      valueFormatter: formatValue,
+    },
+    legend: {
+      data: series.map(s => s.name),
+      textStyle: { color: chart.axisLabel, fontSize: 11 },
+      right: 10,
+      top: 0,
+      type: 'scroll'
+    },
+    grid: {
+      left: '3%',
+      right: '4%',
+      bottom: '8%',
+      top: '15%',
+      containLabel: true
+    },
+    xAxis: {
+      type: xType,
+      name: xName,
+      nameTextStyle: { color: chart.axisLabel, fontSize: 11 },
+      scale: xType === 'value',
+      axisLabel: { color: chart.axisLabel, fontSize: 11 },
+      axisLine: { lineStyle: { color: chart.border } },
+      splitLine: { show: false }
+    },
+    yAxis: {
+      type: 'value',
+      name: yName,
+      min: percent ? 0 : undefined,
+      max: percent ? 100 : undefined,
+      nameTextStyle: { color: chart.axisLabel, fontSize: 11 },
+      axisLabel: { color: chart.axisLabel, fontSize: 11, formatter: percent ? '{value}%' : undefined },
+      axisLine: { show: false },
+      splitLine: { lineStyle: { color: chart.border, type: 'dashed' } }
+    },
+    series: series.map(s => ({
+      name: s.name,
+      type: 'line',
+      smooth: true,
+      symbol: 'none',
+      connectNulls: true,
+      itemStyle: { color: s.color },
+      lineStyle: { width: 2, color: s.color },
+      data: s.data
+    }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className={styles.titleFlex}>
+          {icon}
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className={styles.content}>
+        {hasData ? (
+          <ReactECharts option={option} style={{ height: '280px' }} opts={{ renderer: 'canvas' }} notMerge={true} />
+        ) : (
+          <div className={styles.emptyContainer}>{emptyText}</div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+const styles = {
+  titleFlex: css({ display: 'flex', alignItems: 'center', gap: '2' }),
+  content: css({ p: '4' }),
+  emptyContainer: css({ h: '200px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'fg.muted' }),
+}
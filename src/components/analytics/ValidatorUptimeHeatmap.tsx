@@ -0,0 +1,442 @@
+import { useMemo, useState } from "react"
+import { Link } from "react-router"
+import { useQuery } from "@tanstack/react-query"
+import ReactECharts from "echarts-for-react"
+import { AlertTriangle, Grid3x3 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { api, getSlashingParams, getValidatorSigningInfoLive } from "@/lib/api"
+import { consensusHexToBech32 } from "@/lib/address"
+import { getChainInfo } from "@/lib/chain-info"
+import { getChartTheme } from "@/lib/chart-theme"
+import { formatAddress, formatTimeAgo } from "@/lib/utils"
+import { css, cx } from "@/styled-system/css"
+
+/** Most cells drawn; larger windows group several blocks per cell */
+const MAX_CELLS = 10_000
+const GRID_COLUMNS = 100
+/** Fallback when slashing params are unavailable (Cosmos SDK default) */
+const DEFAULT_WINDOW = 10_000
+
+/** Share of the allowed misses at which the warning turns amber, then red */
+const WARN_RATIO = 0.5
+const DANGER_RATIO = 0.8
+
+interface ValidatorUptimeHeatmapProps {
+	consensusAddress: string | null | undefined
+}
+
+/**
+ * Signing-window heatmap for a validator: every block of the slashing window as a
+ * cell (signed, missed or not indexed), the live missed-block counter against the
+ * jailing threshold, and a drilldown showing who proposed a missed block and in
+ * which round it was committed.
+ */
+export function ValidatorUptimeHeatmap({ consensusAddress }: ValidatorUptimeHeatmapProps) {
+	const [selectedCell, setSelectedCell] = useState<number | null>(null)
+	const [selectedHeight, setSelectedHeight] = useState<number | null>(null)
+
+	const { data: chainInfo } = useQuery({
+		queryKey: ["chain-info"],
+		queryFn: () => getChainInfo(api),
+		staleTime: Infinity,
+	})
+
+	const { data: slashingParams, isFetched: slashingParamsFetched } = useQuery({
+		queryKey: ["slashing-params"],
+		queryFn: () => getSlashingParams(),
+		staleTime: 300000,
+	})
+
+	const windowSize = Number(slashingParams?.signed_blocks_window) || DEFAULT_WINDOW
+	const minSigned = Number(slashingParams?.min_signed_per_window)
+	// Misses allowed in the window before the validator is jailed for downtime
+	const maxMissed = Number.isFinite(minSigned) && slashingParams ? Math.floor(windowSize * (1 - minSigned)) : null
+
+	const valconsAddress = useMemo(() => {
+		if (!consensusAddress || !chainInfo?.bech32Prefix) return null
+		try {
+			return consensusHexToBech32(consensusAddress, chainInfo.bech32Prefix)
+		} catch {
+			return null
+		}
+	}, [consensusAddress, chainInfo?.bech32Prefix])
+
+	const { data: signingInfo } = useQuery({
+		queryKey: ["validator-signing-info", valconsAddress],
+		queryFn: () => getValidatorSigningInfoLive(valconsAddress as string),
+		enabled: !!valconsAddress,
+		staleTime: 30000,
+	})
+
+	const { data: signingWindow, isLoading, error } = useQuery({
+		queryKey: ["validator-signing-window", consensusAddress, windowSize],
+		queryFn: async () => {
+			const latest = await api.getLatestBlock()
+			const end = latest?.id ?? 0
+			const start = Math.max(1, end - windowSize + 1)
+			const [missed, firstIndexed] = await Promise.all([
+				api.getValidatorMissedHeights(consensusAddress as string, start),
+				api.getValidatorFirstSignatureHeight(consensusAddress as string, start),
+			])
+			return { start, end, missed: missed.filter((h) => h <= end), firstIndexed }
+		},
+		// Wait for the slashing params so the window size is known
+		enabled: !!consensusAddress && slashingParamsFetched,
+		staleTime: 30000,
+		refetchInterval: 60000,
+	})
+
+	const { data: missedDetail, isLoading: detailLoading } = useQuery({
+		queryKey: ["missed-block-detail", selectedHeight],
+		queryFn: () => api.getMissedBlockDetail(selectedHeight as number),
+		enabled: selectedHeight !== null,
+		staleTime: Infinity,
+	})
+
+	const grid = useMemo(() => {
+		if (!signingWindow) return null
+		const { start, end, missed, firstIndexed } = signingWindow
+		const blocks = end - start + 1
+		const blocksPerCell = Math.max(1, Math.ceil(blocks / MAX_CELLS))
+		const cellCount = Math.ceil(blocks / blocksPerCell)
+		const rows = Math.ceil(cellCount / GRID_COLUMNS)
+
+		const missedByCell = new Map<number, number[]>()
+		for (const height of missed) {
+			const cell = Math.floor((height - start) / blocksPerCell)
+			const list = missedByCell.get(cell) ?? []
+			list.push(height)
+			missedByCell.set(cell, list)
+		}
+
+		const data: Array<[number, number, number]> = []
+		for (let cell = 0; cell < cellCount; cell++) {
+			const cellEnd = Math.min(end, start + (cell + 1) * blocksPerCell - 1)
+			const notIndexed = firstIndexed === null || cellEnd < firstIndexed
+			// Rows run top to bottom, oldest first
+			data.push([cell % GRID_COLUMNS, rows - 1 - Math.floor(cell / GRID_COLUMNS), notIndexed ? -1 : (missedByCell.get(cell)?.length ?? 0)])
+		}
+
+		return { start, end, blocksPerCell, cellCount, rows, data, missedByCell }
+	}, [signingWindow])
+
+	if (!consensusAddress) return null
+
+	const indexedMissed = signingWindow?.missed.length ?? 0
+	const liveMissed = signingInfo ? Number(signingInfo.missed_blocks_counter) : null
+	const missedCount = liveMissed ?? indexedMissed
+	const ratio = maxMissed ? missedCount / maxMissed : 0
+	const level = ratio >= DANGER_RATIO ? "danger" : ratio >= WARN_RATIO ? "warning" : "ok"
+
+	const cellRange = (cell: number) => {
+		if (!grid) return { from: 0, to: 0 }
+		const from = grid.start + cell * grid.blocksPerCell
+		return { from, to: Math.min(grid.end, from + grid.blocksPerCell - 1) }
+	}
+
+	const selectedMissed = selectedCell !== null ? (grid?.missedByCell.get(selectedCell) ?? []) : []
+
+	const chart = getChartTheme()
+	const option = grid && {
+		tooltip: {
+			...chart.tooltip,
+			formatter: (params: { value: [number, number, number] }) => {
+				const [x, y, value] = params.value
+				const cell = (grid.rows - 1 - y) * GRID_COLUMNS + x
+				const { from, to } = cellRange(cell)
+				const label = from === to ? `Block #${from.toLocaleString()}` : `Blocks #${from.toLocaleString()} - #${to.toLocaleString()}`
+				const state = value < 0 ? "Not indexed" : value === 0 ? "Signed" : `${value} missed`
+				return `${label}<br/>${state}`
+			},
+		},
+		grid: { left: 0, right: 0, top: 0, bottom: 40 },
+		xAxis: { type: "category", data: Array.from({ length: GRID_COLUMNS }, (_, i) => i), show: false },
+		yAxis: { type: "category", data: Array.from({ length: grid.rows }, (_, i) => i), show: false },
+		visualMap: {
+			type: "piecewise",
+			dimension: 2,
+			orient: "horizontal",
+			left: "center",
+			bottom: 0,
+			textStyle: { color: chart.axisLabel, fontSize: 11 },
+			pieces: [
+				{ value: -1, label: "Not indexed", color: chart.border },
+				{ value: 0, label: "Signed", color: chart.accent[7] },
+				{ gte: 1, label: "Missed", color: chart.danger },
+			],
+		},
+		series: [
+			{
+				type: "heatmap",
+				data: grid.data,
+				itemStyle: { borderColor: chart.background, borderWidth: 1 },
+				emphasis: { itemStyle: { borderColor: chart.foreground, borderWidth: 1 } },
+				progressive: 0,
+				animation: false,
+			},
+		],
+	}
+
+	const handleClick = (params: { value?: [number, number, number] }) => {
+		if (!grid || !params.value) return
+		const [x, y, value] = params.value
+		if (value < 1) return
+		const cell = (grid.rows - 1 - y) * GRID_COLUMNS + x
+		setSelectedCell(cell)
+		setSelectedHeight(grid.missedByCell.get(cell)?.[0] ?? null)
+	}
+
+	return (
+		<Card className={styles.card}>
+			<CardHeader>
+				<CardTitle className={styles.titleFlex}>
+					<Grid3x3 className={styles.icon} />
+					Signing Window
+				</CardTitle>
+				<CardDescription>
+					{grid
+						? `Blocks #${grid.start.toLocaleString()} - #${grid.end.toLocaleString()} (${windowSize.toLocaleString()}-block slashing window${grid.blocksPerCell > 1 ? `, ${grid.blocksPerCell} blocks per cell` : ""}). Click a missed block for details.`
+						: "Every block of the current slashing window"}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className={styles.content}>
+				{/* Missed counter against the jailing threshold */}
+				<div className={styles.thresholdRow}>
+					<div className={styles.thresholdText}>
+						<span className={styles.thresholdLabel}>Missed in window</span>
+						<span className={cx(styles.thresholdValue, level === "warning" && styles.warning, level === "danger" && styles.danger)}>
+							{missedCount.toLocaleString()}
+							{maxMissed !== null && <span className={styles.thresholdMax}> / {maxMissed.toLocaleString()} allowed</span>}
+						</span>
+						<span className={styles.thresholdSource}>
+							{liveMissed !== null ? "Live slashing counter" : "Counted from indexed signatures"}
+						</span>
+					</div>
+					{maxMissed !== null && maxMissed > 0 && (
+						<div className={styles.progressTrack}>
+							<div
+								className={styles.progressBar}
+								style={{
+									width: `${Math.min(100, ratio * 100)}%`,
+									background:
+										level === "danger" ? chart.danger : level === "warning" ? chart.warning : chart.accent[7],
+								}}
+							/>
+						</div>
+					)}
+				</div>
+				{level !== "ok" && maxMissed !== null && (
+					<div className={cx(styles.alert, level === "danger" ? styles.alertDanger : styles.alertWarning)}>
+						<AlertTriangle className={styles.alertIcon} />
+						<span>
+							{maxMissed - missedCount > 0
+								? `${(maxMissed - missedCount).toLocaleString()} more missed blocks in this window will jail this validator for downtime.`
+								: "Missed blocks have reached the downtime jailing threshold."}
+						</span>
+					</div>
+				)}
+
+				{isLoading ? (
+					<Skeleton className={styles.skeleton} />
+				) : error || !grid || !option ? (
+					<div className={styles.message}>Failed to load signing window</div>
+				) : (
+					<ReactECharts
+						option={option}
+						style={{ height: `${Math.max(120, grid.rows * 8 + 40)}px` }}
+						opts={{ renderer: "canvas" }}
+						onEvents={{ click: handleClick }}
+						notMerge={true}
+					/>
+				)}
+
+				{/* Missed block drilldown */}
+				{selectedCell !== null && selectedMissed.length > 0 && (
+					<div className={styles.drilldown}>
+						{selectedMissed.length > 1 && (
+							<div className={styles.heightList}>
+								{selectedMissed.map((height) => (
+									<button
+										key={height}
+										type="button"
+										className={cx(styles.heightButton, height === selectedHeight && styles.heightButtonActive)}
+										onClick={() => setSelectedHeight(height)}
+									>
+										#{height.toLocaleString()}
+									</button>
+								))}
+							</div>
+						)}
+						{detailLoading || !missedDetail ? (
+							<Skeleton className={styles.detailSkeleton} />
+						) : (
+							<div className={styles.detailGrid}>
+								<div className={styles.detailField}>
+									<span className={styles.detailLabel}>Missed Block</span>
+									<Link to={`/blocks/${missedDetail.height}`} className={styles.detailLink}>
+										#{missedDetail.height.toLocaleString()}
+									</Link>
+								</div>
+								<div className={styles.detailField}>
+									<span className={styles.detailLabel}>Proposer</span>
+									{missedDetail.proposer_operator_address ? (
+										<Link to={`/validators/${missedDetail.proposer_operator_address}`} className={styles.detailLink}>
+											{missedDetail.proposer_moniker || formatAddress(missedDetail.proposer_operator_address, 8)}
+										</Link>
+									) : (
+										<span className={styles.detailMono}>
+											{missedDetail.proposer_address ? formatAddress(missedDetail.proposer_address, 8) : "-"}
+										</span>
+									)}
+								</div>
+								<div className={styles.detailField}>
+									<span className={styles.detailLabel}>Round</span>
+									<span className={cx(styles.detailMono, (missedDetail.round ?? 0) > 0 && styles.warning)}>
+										{missedDetail.round ?? "-"}
+									</span>
+								</div>
+								<div className={styles.detailField}>
+									<span className={styles.detailLabel}>Time</span>
+									<span className={styles.detailValue}>{missedDetail.time ? formatTimeAgo(missedDetail.time) : "-"}</span>
+								</div>
+							</div>
+						)}
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
+
+const styles = {
+	card: css({ border: "1px solid", borderColor: "border.default" }),
+	titleFlex: css({ display: "flex", alignItems: "center", gap: "2" }),
+	icon: css({ h: "5", w: "5" }),
+	content: css({ p: "4", display: "flex", flexDirection: "column", gap: "4" }),
+	message: css({ py: "8", textAlign: "center", color: "fg.muted" }),
+	skeleton: css({ h: "200px", w: "full" }),
+	thresholdRow: css({
+		display: "flex",
+		flexDirection: "column",
+		gap: "2",
+	}),
+	thresholdText: css({
+		display: "flex",
+		alignItems: "baseline",
+		flexWrap: "wrap",
+		gap: "2",
+	}),
+	thresholdLabel: css({
+		fontSize: "xs",
+		fontWeight: "medium",
+		color: "fg.muted",
+		textTransform: "uppercase",
+		letterSpacing: "wider",
+	}),
+	thresholdValue: css({
+		fontFamily: "mono",
+		fontSize: "lg",
+		fontWeight: "bold",
+	}),
+	thresholdMax: css({
+		fontSize: "sm",
+		fontWeight: "normal",
+		color: "fg.muted",
+	}),
+	thresholdSource: css({
+		fontSize: "xs",
+		color: "fg.muted",
+		ml: "auto",
+	}),
+	warning: css({ color: "yellow.500" }),
+	danger: css({ color: "red.500" }),
+	progressTrack: css({
+		h: "2",
+		w: "full",
+		bg: "bg.muted",
+		rounded: "full",
+		overflow: "hidden",
+	}),
+	progressBar: css({
+		h: "full",
+		rounded: "full",
+		transition: "width 0.3s ease",
+	}),
+	alert: css({
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+		p: "3",
+		rounded: "md",
+		fontSize: "sm",
+		border: "1px solid",
+	}),
+	alertWarning: css({
+		color: "yellow.500",
+		borderColor: "yellow.500",
+		bg: "yellow.500/10",
+	}),
+	alertDanger: css({
+		color: "red.500",
+		borderColor: "red.500",
+		bg: "red.500/10",
+	}),
+	alertIcon: css({ h: "4", w: "4", flexShrink: 0 }),
+	drilldown: css({
+		display: "flex",
+		flexDirection: "column",
+		gap: "3",
+		p: "3",
+		rounded: "md",
+		bg: "bg.muted",
+	}),
+	heightList: css({
+		display: "flex",
+		flexWrap: "wrap",
+		gap: "1",
+	}),
+	heightButton: css({
+		fontFamily: "mono",
+		fontSize: "xs",
+		px: "2",
+		py: "0.5",
+		rounded: "sm",
+		border: "1px solid",
+		borderColor: "border.default",
+		cursor: "pointer",
+		_hover: { borderColor: "accent.default" },
+	}),
+	heightButtonActive: css({
+		borderColor: "accent.default",
+		color: "accent.default",
+	}),
+	detailSkeleton: css({ h: "12", w: "full" }),
+	detailGrid: css({
+		display: "grid",
+		gridTemplateColumns: { base: "repeat(2, 1fr)", md: "repeat(4, 1fr)" },
+		gap: "4",
+	}),
+	detailField: css({
+		display: "flex",
+		flexDirection: "column",
+		gap: "1",
+	}),
+	detailLabel: css({
+		fontSize: "xs",
+		color: "fg.muted",
+	}),
+	detailLink: css({
+		fontFamily: "mono",
+		fontSize: "sm",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	}),
+	detailMono: css({
+		fontFamily: "mono",
+		fontSize: "sm",
+	}),
+	detailValue: css({
+		fontSize: "sm",
+	}),
+}
@@ -8,9 +8,11 @@ import { getOverviewMetrics } from '@/lib/metrics'
 import { css } from '@/styled-system/css'
 import { grid, hstack } from '@/styled-system/patterns'
 import { ValidatorIcon } from '@/components/icons/icons'
+import { useLiveUpdates } from '@/contexts/LiveUpdatesContext'
 
 export function DashboardMetrics() {
 	const [mounted, setMounted] = useState(false)
+	const { isLive } = useLiveUpdates()
 
 	useEffect(() => {
 		setMounted(true)
@@ -19,7 +21,8 @@ export function DashboardMetrics() {
 	const { data: stats, isLoading: statsLoading } = useQuery({
 		queryKey: ['overview-metrics'],
 		queryFn: getOverviewMetrics,
-		refetchInterval: 10000,
+		// Latest block is streamed while live, so the aggregate stats can refresh less often
+		refetchInterval: isLive ? 60000 : 10000,
 		enabled: mounted,
 	})
 
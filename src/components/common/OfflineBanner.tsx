@@ -0,0 +1,55 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { CloudOff } from 'lucide-react'
+import { getBackendUnreachableSince, subscribeBackendStatus } from '@/lib/backend-status'
+import { css } from '@/styled-system/css'
+
+/**
+ * Shown while the indexer API is unreachable: pages render from the persisted
+ * query cache, so everything on screen may be out of date. Queries that failed
+ * meanwhile are retried once the backend answers again.
+ */
+export function OfflineBanner() {
+	const queryClient = useQueryClient()
+	const since = useSyncExternalStore(subscribeBackendStatus, getBackendUnreachableSince)
+	const wasUnreachable = useRef(false)
+
+	useEffect(() => {
+		if (since !== null) {
+			wasUnreachable.current = true
+			return
+		}
+		if (!wasUnreachable.current) return
+		wasUnreachable.current = false
+		queryClient.refetchQueries({ type: 'active', predicate: (query) => query.state.status === 'error' })
+	}, [since, queryClient])
+
+	if (since === null) return null
+
+	return (
+		<div aria-live="polite" className={styles.banner}>
+			<CloudOff className={styles.icon} />
+			<span>
+				<strong>Showing cached data.</strong> The indexer API has been unreachable since{' '}
+				{new Date(since).toLocaleTimeString()}, so pages you visited before are shown as last saved and may be
+				stale. They refresh automatically once it is back.
+			</span>
+		</div>
+	)
+}
+
+const styles = {
+	banner: css({
+		display: 'flex',
+		alignItems: 'center',
+		gap: '2',
+		px: { base: '4', md: '6', lg: '8' },
+		py: '2',
+		fontSize: 'sm',
+		bg: 'warning.bg',
+		color: 'warning.default',
+		borderBottomWidth: '1px',
+		borderColor: 'warning.border',
+	}),
+	icon: css({ h: '4', w: '4', flexShrink: 0 }),
+}
@@ -1,3 +1,4 @@
+import { getBrandingConfig } from '@/config/branding'
 import { css } from '@/styled-system/css'
 import { RepublicLogo, XIcon, GitHubIcon, DiscordIcon, DocumentIcon } from '@/components/icons/icons'
 
@@ -33,13 +34,19 @@ const socialLinks = [
 ]
 
 export function Footer() {
+  const branding = getBrandingConfig()
+
   return (
     <footer className={styles.footer}>
       <div className={styles.container}>
         <div className={styles.top}>
           <div className={styles.brand}>
-            <RepublicLogo className={styles.logo} />
-            <p className={styles.tagline}>Layer 1 blockchain backed by compute.</p>
+            {branding.logoUrl ? (
+              <img src={branding.logoUrl} alt={branding.appName} className={styles.logo} />
+            ) : (
+              <RepublicLogo className={styles.logo} />
+            )}
+            <p className={styles.tagline}>{branding.footerText || 'Layer 1 blockchain backed by compute.'}</p>
             <div className={styles.socialLinks}>
               {socialLinks.map((link) => {
                 const Icon = link.icon
@@ -164,7 +171,7 @@ const styles = {
     _hover: {
       bg: 'accent.default',
       color: '#050607',
-      boxShadow: '0px 0px 20px rgba(48, 255, 110, 0.3)',
+      boxShadow: '0px 0px 20px color-mix(in srgb, var(--colors-accent-default) 30%, transparent)',
     },
   }),
   socialIcon: css({
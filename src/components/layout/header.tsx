@@ -1,6 +1,7 @@
 import { Link, useLocation } from 'react-router'
 import { useQuery } from '@tanstack/react-query'
 import { useState, useEffect } from 'react'
+import { Star } from 'lucide-react'
 import { SearchBar } from '@/components/common/search-bar'
 import { WalletButton } from '@/components/wallet/WalletButton'
 import { WalletErrorBoundary } from '@/components/wallet/WalletErrorBoundary'
@@ -8,14 +9,19 @@ import { getBrandingConfig } from '@/config/branding'
 import { css, cx } from '@/styled-system/css'
 import { RepublicLogo } from '@/components/icons/icons'
 import { api } from '@/lib/api'
+import { useLiveUpdates } from '@/contexts/LiveUpdatesContext'
+import { useWatchlist } from '@/contexts/WatchlistContext'
+import { getActiveNetwork, getConfig, getNetworks, switchNetwork, type AppConfig } from '@/lib/env'
 
-const navigation = [
+const navigation: Array<{ name: string; href: string; enabled?: (config: AppConfig) => boolean }> = [
   { name: 'Dashboard', href: '/' },
   { name: 'Blocks', href: '/blocks' },
   { name: 'Transactions', href: '/tx' },
   { name: 'Validators', href: '/validators' },
   { name: 'Analytics', href: '/analytics' },
   { name: 'Compute', href: '/compute' },
+  { name: 'Governance', href: '/gov' },
+  { name: 'IBC', href: '/ibc', enabled: (config) => config.ibcEnabled !== false },
   { name: 'EVM', href: '/evm/contracts' },
 ]
 
@@ -51,6 +57,7 @@ function computeSyncLag(blockTime: string): { label: string; severity: 'warning'
 /** Pulsing sync status indicator shown when the indexer is behind chain tip. */
 function SyncIndicator() {
   const [now, setNow] = useState(Date.now())
+  const { latestHeight } = useLiveUpdates()
 
   // Tick every 10s to re-evaluate lag against wall clock
   useEffect(() => {
@@ -94,7 +101,9 @@ function SyncIndicator() {
         borderColor: isCritical ? 'rgba(239, 68, 68, 0.3)' : 'rgba(245, 158, 11, 0.3)',
         flexShrink: 0,
       })}
-      title={`Latest indexed block: ${latestBlock.id?.toLocaleString()} (${blockTime})`}
+      title={`Latest indexed block: ${latestBlock.id?.toLocaleString()} (${blockTime})${
+        latestHeight ? `, chain tip: ${latestHeight.toLocaleString()}` : ''
+      }`}
     >
       <span
         className={css({
@@ -111,10 +120,91 @@ function SyncIndicator() {
   )
 }
 
+/** Shown while blocks and transactions are streamed over the CometBFT websocket. */
+function LiveIndicator() {
+  const { isLive } = useLiveUpdates()
+  if (!isLive) return null
+
+  return (
+    <div
+      className={css({
+        display: 'flex',
+        alignItems: 'center',
+        gap: '1.5',
+        px: '2.5',
+        py: '1',
+        rounded: 'full',
+        fontSize: 'xs',
+        fontWeight: 'semibold',
+        whiteSpace: 'nowrap',
+        bg: 'rgba(34, 197, 94, 0.12)',
+        color: '#86efac',
+        border: '1px solid',
+        borderColor: 'rgba(34, 197, 94, 0.3)',
+        flexShrink: 0,
+      })}
+      title="Streaming new blocks and transactions from the chain"
+    >
+      <span
+        className={css({
+          w: '2',
+          h: '2',
+          rounded: 'full',
+          bg: '#22c55e',
+          animation: 'pulse 2s ease-in-out infinite',
+          flexShrink: 0,
+        })}
+      />
+      Live
+    </div>
+  )
+}
+
+/** Watchlist shortcut with a count of unread alerts */
+function WatchlistLink({ active }: { active: boolean }) {
+  const { unreadCount } = useWatchlist()
+
+  return (
+    <Link
+      to="/watchlist"
+      className={cx(styles.watchlistLink, active ? styles.navLinkActive : styles.navLinkInactive)}
+      title={unreadCount > 0 ? `Watchlist (${unreadCount} unread alerts)` : 'Watchlist'}
+    >
+      <Star className={styles.watchlistIcon} />
+      {unreadCount > 0 && (
+        <span className={styles.watchlistBadge}>{unreadCount > 99 ? '99+' : unreadCount}</span>
+      )}
+    </Link>
+  )
+}
+
+/** Network picker for deployments that serve several indexers */
+function NetworkSwitcher() {
+  const networks = getNetworks()
+  const active = getActiveNetwork()
+  if (networks.length < 2 || !active) return null
+
+  return (
+    <select
+      value={active.id}
+      onChange={(e) => switchNetwork(e.target.value)}
+      className={styles.networkSelect}
+      aria-label="Network"
+    >
+      {networks.map((network) => (
+        <option key={network.id} value={network.id}>
+          {network.name}
+        </option>
+      ))}
+    </select>
+  )
+}
+
 export function Header() {
   const location = useLocation()
   const pathname = location.pathname
   const branding = getBrandingConfig()
+  const config = getConfig()
 
   return (
     <header className={styles.header}>
@@ -132,7 +222,7 @@ export function Header() {
             </Link>
 
             <nav className={styles.nav}>
-              {navigation.map((item) => {
+              {navigation.filter((item) => !item.enabled || item.enabled(config)).map((item) => {
                 const isActive = pathname === item.href ||
                   (item.href !== '/' && pathname.startsWith(item.href))
                 return (
@@ -149,8 +239,11 @@ export function Header() {
           </div>
 
           <SyncIndicator />
+          <LiveIndicator />
 
           <div className={styles.right}>
+            <NetworkSwitcher />
+            <WatchlistLink active={pathname.startsWith('/watchlist')} />
             <SearchBar />
             <WalletErrorBoundary>
               <WalletButton />
@@ -230,6 +323,45 @@ const styles = {
     fontSize: 'sm',
     fontWeight: 'medium',
   }),
+  networkSelect: css({
+    fontSize: 'sm',
+    fontWeight: 'medium',
+    bg: 'bg.muted',
+    color: 'fg.default',
+    border: '1px solid',
+    borderColor: 'border.default',
+    rounded: 'md',
+    px: '2',
+    py: '1.5',
+    cursor: 'pointer',
+    outline: 'none',
+    _focus: { borderColor: 'accent.default' },
+  }),
+  watchlistLink: css({
+    position: 'relative',
+    display: 'flex',
+    alignItems: 'center',
+    transition: 'colors',
+  }),
+  watchlistIcon: css({
+    h: '5',
+    w: '5',
+  }),
+  watchlistBadge: css({
+    position: 'absolute',
+    top: '-1.5',
+    right: '-2',
+    minW: '4',
+    h: '4',
+    px: '1',
+    rounded: 'full',
+    bg: 'red.500',
+    color: 'white',
+    fontSize: '2xs',
+    fontWeight: 'bold',
+    lineHeight: '4',
+    textAlign: 'center',
+  }),
   navLink: css({
     display: 'flex',
     alignItems: 'center',
@@ -0,0 +1,288 @@
+/**
+ * Cancel Unbonding Modal Component
+ * Modal for cancelling all or part of an unbonding entry, returning it to the validator
+ */
+
+import { useState, useEffect } from 'react'
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+	DialogDescription,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { TransactionStatus } from './TransactionStatus'
+import { FeeEstimateDisplay } from './FeeEstimateDisplay'
+import { useStaking } from '@/hooks/useStaking'
+import { useFeeEstimate } from '@/hooks/useFeeEstimate'
+import { useWallet } from '@/contexts/WalletContext'
+import { formatAddress, formatTimestamp, formatTimeUntil } from '@/lib/utils'
+import { css, cx } from '@/styled-system/css'
+
+export interface UnbondingEntryOption {
+	validatorAddress: string
+	validatorMoniker?: string
+	creationHeight: string
+	completionTime: string
+	/** Remaining balance in display units */
+	balance: string
+}
+
+interface CancelUnbondingModalProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	entries: UnbondingEntryOption[]
+	/** Entry to preselect, as `${validatorAddress}-${creationHeight}` */
+	initialEntryKey?: string
+}
+
+function entryKey(entry: UnbondingEntryOption): string {
+	return `${entry.validatorAddress}-${entry.creationHeight}`
+}
+
+export function CancelUnbondingModal({
+	open,
+	onOpenChange,
+	entries,
+	initialEntryKey,
+}: CancelUnbondingModalProps) {
+	const [selectedKey, setSelectedKey] = useState<string | null>(null)
+	const [amount, setAmount] = useState('')
+	const { isConnected, walletType } = useWallet()
+	const { cancelUnbonding, status, error, txHash, reset, isReady } = useStaking()
+
+	const selected = entries.find((e) => entryKey(e) === selectedKey) ?? null
+	const feeEstimate = useFeeEstimate(
+		open && selected && amount
+			? {
+					type: 'cancelUnbonding',
+					validatorAddress: selected.validatorAddress,
+					amount,
+					creationHeight: selected.creationHeight,
+				}
+			: null
+	)
+
+	useEffect(() => {
+		if (!open) {
+			setSelectedKey(null)
+			setAmount('')
+			reset()
+		} else {
+			// Preselect the requested entry, or the only one available
+			const initial = entries.find((e) => entryKey(e) === initialEntryKey) ?? (entries.length === 1 ? entries[0] : null)
+			setSelectedKey(initial ? entryKey(initial) : null)
+			setAmount(initial?.balance ?? '')
+		}
+	}, [open, reset, entries, initialEntryKey])
+
+	const handleSelect = (entry: UnbondingEntryOption) => {
+		setSelectedKey(entryKey(entry))
+		setAmount(entry.balance)
+	}
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+		if (!selected || !amount || parseFloat(amount) <= 0) return
+
+		await cancelUnbonding(selected.validatorAddress, amount, BigInt(selected.creationHeight), feeEstimate.fee)
+	}
+
+	const isLoading = status === 'pending'
+	const exceedsBalance = !!selected && parseFloat(amount) > parseFloat(selected.balance)
+	const canSubmit = isReady && selected && amount && parseFloat(amount) > 0 && !exceedsBalance && feeEstimate.canSign && !isLoading
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Cancel Unbonding</DialogTitle>
+					<DialogDescription>
+						Return unbonding tokens to the validator they are unbonding from
+					</DialogDescription>
+				</DialogHeader>
+
+				{!isConnected ? (
+					<div className={styles.notConnected}>
+						<p>Please connect your wallet to cancel unbonding.</p>
+					</div>
+				) : entries.length === 0 ? (
+					<div className={styles.notConnected}>
+						<p>No unbonding entries to cancel.</p>
+					</div>
+				) : (
+					<form onSubmit={handleSubmit}>
+						<div className={styles.formGroup}>
+							<Label>Unbonding Entry</Label>
+							<div className={styles.entryList}>
+								{entries.map((entry) => {
+									const key = entryKey(entry)
+									return (
+										<button
+											key={key}
+											type="button"
+											onClick={() => handleSelect(entry)}
+											disabled={isLoading}
+											className={cx(styles.entryRow, key === selectedKey && styles.entryRowSelected)}
+										>
+											<div className={styles.entryMain}>
+												<span className={styles.entryName}>
+													{entry.validatorMoniker || formatAddress(entry.validatorAddress, 8)}
+												</span>
+												<span className={styles.entryAmount}>{entry.balance} RAI</span>
+											</div>
+											<div className={styles.entryMeta}>
+												<span>Created at #{Number(entry.creationHeight).toLocaleString()}</span>
+												<span title={formatTimestamp(entry.completionTime)}>
+													{formatTimeUntil(entry.completionTime) ?? 'Complete'}
+												</span>
+											</div>
+										</button>
+									)
+								})}
+							</div>
+						</div>
+
+						{selected && (
+							<div className={styles.formGroup}>
+								<div className={styles.labelRow}>
+									<Label htmlFor="amount">Amount (RAI)</Label>
+									<button type="button" onClick={() => setAmount(selected.balance)} className={styles.maxButton}>
+										Max: {selected.balance}
+									</button>
+								</div>
+								<Input
+									id="amount"
+									type="number"
+									step="0.000000000000000001"
+									min="0"
+									placeholder="0.0"
+									value={amount}
+									onChange={(e) => setAmount(e.target.value)}
+									disabled={isLoading}
+								/>
+								{exceedsBalance ? (
+									<p className={styles.errorHint}>Amount exceeds the entry balance</p>
+								) : (
+									<p className={styles.hint}>
+										Connected via {walletType === 'keplr' ? 'Keplr' : 'EVM wallet'}
+									</p>
+								)}
+							</div>
+						)}
+
+						{(status === 'idle' || status === 'error') && selected && amount && parseFloat(amount) > 0 && !exceedsBalance && (
+							<FeeEstimateDisplay
+								estimate={feeEstimate.data}
+								supported={feeEstimate.supported}
+								isPending={feeEstimate.isPending}
+								error={feeEstimate.error}
+							/>
+						)}
+
+						<TransactionStatus status={status} txHash={txHash} error={error} />
+
+						<DialogFooter className={styles.footer}>
+							<Button
+								type="button"
+								variant="outline"
+								onClick={() => onOpenChange(false)}
+								disabled={isLoading}
+							>
+								Close
+							</Button>
+							<Button type="submit" disabled={!canSubmit}>
+								{isLoading ? 'Cancelling...' : 'Cancel Unbonding'}
+							</Button>
+						</DialogFooter>
+					</form>
+				)}
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+const styles = {
+	notConnected: css({
+		py: '6',
+		textAlign: 'center',
+		color: 'fg.muted',
+	}),
+	formGroup: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '2',
+		mb: '4',
+	}),
+	entryList: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '2',
+		maxHeight: '240px',
+		overflowY: 'auto',
+	}),
+	entryRow: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '1',
+		p: '3',
+		rounded: 'md',
+		borderWidth: '1px',
+		borderColor: 'border.default',
+		textAlign: 'left',
+		cursor: 'pointer',
+		_hover: { bg: 'bg.subtle' },
+		_disabled: { cursor: 'not-allowed', opacity: 0.6 },
+	}),
+	entryRowSelected: css({
+		borderColor: 'accent.default',
+		bg: 'accent.subtle',
+		_hover: { bg: 'accent.subtle' },
+	}),
+	entryMain: css({
+		display: 'flex',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: '2',
+	}),
+	entryName: css({
+		fontSize: 'sm',
+		fontWeight: 'medium',
+	}),
+	entryAmount: css({
+		fontSize: 'sm',
+		fontFamily: 'mono',
+	}),
+	entryMeta: css({
+		display: 'flex',
+		justifyContent: 'space-between',
+		fontSize: 'xs',
+		color: 'fg.muted',
+	}),
+	labelRow: css({
+		display: 'flex',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+	}),
+	maxButton: css({
+		fontSize: 'xs',
+		color: 'accent.default',
+		cursor: 'pointer',
+		_hover: { textDecoration: 'underline' },
+	}),
+	hint: css({
+		fontSize: 'xs',
+		color: 'fg.muted',
+	}),
+	errorHint: css({
+		fontSize: 'xs',
+		color: 'red.500',
+	}),
+	footer: css({
+		mt: '4',
+	}),
+}
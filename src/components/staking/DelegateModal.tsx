@@ -16,7 +16,10 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { TransactionStatus } from './TransactionStatus'
+import { FeeEstimateDisplay } from './FeeEstimateDisplay'
+import { RewardProjection } from './RewardProjection'
 import { useStaking } from '@/hooks/useStaking'
+import { useFeeEstimate } from '@/hooks/useFeeEstimate'
 import { useWallet } from '@/contexts/WalletContext'
 import { css } from '@/styled-system/css'
 
@@ -36,6 +39,7 @@ export function DelegateModal({
 	const [amount, setAmount] = useState('')
 	const { isConnected, walletType, balance, isLoadingBalance, refreshBalance } = useWallet()
 	const { delegate, status, error, txHash, reset, isReady } = useStaking()
+	const feeEstimate = useFeeEstimate(open && amount ? { type: 'delegate', validatorAddress, amount } : null)
 
 	// Reset form when modal opens/closes, refresh balance when opening
 	useEffect(() => {
@@ -51,11 +55,11 @@ export function DelegateModal({
 		e.preventDefault()
 		if (!amount || parseFloat(amount) <= 0) return
 
-		await delegate(validatorAddress, amount)
+		await delegate(validatorAddress, amount, feeEstimate.fee)
 	}
 
 	const isLoading = status === 'pending'
-	const canSubmit = isReady && amount && parseFloat(amount) > 0 && !isLoading
+	const canSubmit = isReady && amount && parseFloat(amount) > 0 && feeEstimate.canSign && !isLoading
 
 	return (
 		<Dialog open={open} onOpenChange={onOpenChange}>
@@ -107,6 +111,19 @@ export function DelegateModal({
 							</p>
 						</div>
 
+						{status === 'idle' && (
+							<RewardProjection validatorAddress={validatorAddress} amount={amount} />
+						)}
+
+						{(status === 'idle' || status === 'error') && amount && parseFloat(amount) > 0 && (
+							<FeeEstimateDisplay
+								estimate={feeEstimate.data}
+								supported={feeEstimate.supported}
+								isPending={feeEstimate.isPending}
+								error={feeEstimate.error}
+							/>
+						)}
+
 						<TransactionStatus status={status} txHash={txHash} error={error} />
 
 						<DialogFooter className={styles.footer}>
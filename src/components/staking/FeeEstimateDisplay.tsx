@@ -0,0 +1,119 @@
+/**
+ * Fee Estimate Display Component
+ * Shows the simulated network fee for a staking transaction before signing
+ */
+
+import { Loader2 } from 'lucide-react'
+import { formatUnits } from 'viem'
+import { REPUBLIC_CHAIN_CONFIG } from '@/lib/chain-config'
+import type { FeeEstimate } from '@/lib/cosmos-staking'
+import { css } from '@/styled-system/css'
+
+interface FeeEstimateDisplayProps {
+	estimate: FeeEstimate | undefined
+	supported: boolean
+	isPending: boolean
+	error: Error | null
+}
+
+export function FeeEstimateDisplay({ estimate, supported, isPending, error }: FeeEstimateDisplayProps) {
+	const { symbol, decimals } = REPUBLIC_CHAIN_CONFIG.nativeCurrency
+
+	if (!supported) {
+		return (
+			<div className={styles.row}>
+				<span className={styles.label}>Network fee</span>
+				<span className={styles.muted}>Estimated by your wallet</span>
+			</div>
+		)
+	}
+
+	if (isPending) {
+		return (
+			<div className={styles.row}>
+				<span className={styles.label}>Network fee</span>
+				<span className={styles.pending}>
+					<Loader2 className={styles.spinningIcon} />
+					Simulating...
+				</span>
+			</div>
+		)
+	}
+
+	if (error) {
+		return (
+			<div className={styles.row}>
+				<span className={styles.label}>Network fee</span>
+				<span className={styles.error}>{error.message}</span>
+			</div>
+		)
+	}
+
+	if (!estimate) return null
+
+	const feeAmount = estimate.fee.amount[0]?.amount || '0'
+
+	return (
+		<div className={styles.row}>
+			<span className={styles.label}>Network fee</span>
+			<div className={styles.value}>
+				<span className={styles.amount}>
+					~{formatUnits(BigInt(feeAmount), decimals)} {symbol}
+				</span>
+				<span className={styles.muted}>
+					{estimate.simulated
+						? `${Number(estimate.fee.gas).toLocaleString()} gas (simulated ${estimate.gasUsed?.toLocaleString()})`
+						: `${Number(estimate.fee.gas).toLocaleString()} gas (default, simulation unavailable)`}
+				</span>
+			</div>
+		</div>
+	)
+}
+
+const styles = {
+	row: css({
+		display: 'flex',
+		justifyContent: 'space-between',
+		alignItems: 'flex-start',
+		gap: '4',
+		p: '3',
+		mb: '4',
+		rounded: 'md',
+		bg: 'bg.subtle',
+		fontSize: 'sm',
+	}),
+	label: css({
+		color: 'fg.muted',
+		flexShrink: 0,
+	}),
+	value: css({
+		display: 'flex',
+		flexDirection: 'column',
+		alignItems: 'flex-end',
+		gap: '0.5',
+	}),
+	amount: css({
+		fontFamily: 'mono',
+		fontWeight: 'medium',
+	}),
+	muted: css({
+		fontSize: 'xs',
+		color: 'fg.muted',
+	}),
+	pending: css({
+		display: 'flex',
+		alignItems: 'center',
+		gap: '1.5',
+		color: 'fg.muted',
+	}),
+	spinningIcon: css({
+		w: '3.5',
+		h: '3.5',
+		animation: 'spin',
+	}),
+	error: css({
+		fontSize: 'xs',
+		color: 'red.500',
+		textAlign: 'right',
+	}),
+}
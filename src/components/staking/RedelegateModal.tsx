@@ -16,7 +16,9 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { TransactionStatus } from './TransactionStatus'
+import { FeeEstimateDisplay } from './FeeEstimateDisplay'
 import { useStaking } from '@/hooks/useStaking'
+import { useFeeEstimate } from '@/hooks/useFeeEstimate'
 import { useWallet } from '@/contexts/WalletContext'
 import { css } from '@/styled-system/css'
 
@@ -25,8 +27,10 @@ interface RedelegateModalProps {
 	onOpenChange: (open: boolean) => void
 	srcValidatorAddress: string
 	srcValidatorMoniker?: string
-	dstValidatorAddress: string
+	/** Fixed destination; when omitted the user picks one from validatorOptions */
+	dstValidatorAddress?: string
 	dstValidatorMoniker?: string
+	validatorOptions?: Array<{ address: string; moniker?: string }>
 	currentDelegation?: string
 }
 
@@ -37,24 +41,27 @@ export function RedelegateModal({
 	srcValidatorMoniker,
 	dstValidatorAddress,
 	dstValidatorMoniker,
+	validatorOptions,
 	currentDelegation,
 }: RedelegateModalProps) {
 	const [amount, setAmount] = useState('')
+	const [selectedDst, setSelectedDst] = useState('')
 	const { isConnected } = useWallet()
 	const { redelegate, status, error, txHash, reset, isReady } = useStaking()
 
 	useEffect(() => {
 		if (!open) {
 			setAmount('')
+			setSelectedDst('')
 			reset()
 		}
 	}, [open, reset])
 
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault()
-		if (!amount || parseFloat(amount) <= 0) return
+		if (!amount || parseFloat(amount) <= 0 || !dstAddress) return
 
-		await redelegate(srcValidatorAddress, dstValidatorAddress, amount)
+		await redelegate(srcValidatorAddress, dstAddress, amount, feeEstimate.fee)
 	}
 
 	const handleMax = () => {
@@ -63,8 +70,14 @@ export function RedelegateModal({
 		}
 	}
 
+	const dstAddress = dstValidatorAddress || selectedDst
+	const feeEstimate = useFeeEstimate(open && dstAddress && amount ? { type: 'redelegate', srcValidatorAddress, dstValidatorAddress: dstAddress, amount } : null)
+	const dstMoniker = dstValidatorAddress
+		? dstValidatorMoniker
+		: validatorOptions?.find((v) => v.address === selectedDst)?.moniker
+
 	const isLoading = status === 'pending'
-	const canSubmit = isReady && amount && parseFloat(amount) > 0 && !isLoading
+	const canSubmit = isReady && !!dstAddress && amount && parseFloat(amount) > 0 && feeEstimate.canSign && !isLoading
 
 	return (
 		<Dialog open={open} onOpenChange={onOpenChange}>
@@ -72,8 +85,8 @@ export function RedelegateModal({
 				<DialogHeader>
 					<DialogTitle>Redelegate RAI</DialogTitle>
 					<DialogDescription>
-						Move stake from {srcValidatorMoniker || srcValidatorAddress} to{' '}
-						{dstValidatorMoniker || dstValidatorAddress}
+						Move stake from {srcValidatorMoniker || srcValidatorAddress}
+						{dstAddress && ` to ${dstMoniker || dstAddress}`}
 					</DialogDescription>
 				</DialogHeader>
 
@@ -88,12 +101,36 @@ export function RedelegateModal({
 								<span className={styles.infoLabel}>From:</span>
 								<span>{srcValidatorMoniker || srcValidatorAddress}</span>
 							</div>
-							<div className={styles.infoRow}>
-								<span className={styles.infoLabel}>To:</span>
-								<span>{dstValidatorMoniker || dstValidatorAddress}</span>
-							</div>
+							{dstValidatorAddress && (
+								<div className={styles.infoRow}>
+									<span className={styles.infoLabel}>To:</span>
+									<span>{dstValidatorMoniker || dstValidatorAddress}</span>
+								</div>
+							)}
 						</div>
 
+						{!dstValidatorAddress && (
+							<div className={styles.formGroup}>
+								<Label htmlFor="dstValidator">Destination Validator</Label>
+								<select
+									id="dstValidator"
+									value={selectedDst}
+									onChange={(e) => setSelectedDst(e.target.value)}
+									disabled={isLoading}
+									className={styles.select}
+								>
+									<option value="">Select a validator</option>
+									{(validatorOptions ?? [])
+										.filter((v) => v.address !== srcValidatorAddress)
+										.map((v) => (
+											<option key={v.address} value={v.address}>
+												{v.moniker || v.address}
+											</option>
+										))}
+								</select>
+							</div>
+						)}
+
 						<div className={styles.formGroup}>
 							<div className={styles.labelRow}>
 								<Label htmlFor="amount">Amount (RAI)</Label>
@@ -118,6 +155,15 @@ export function RedelegateModal({
 							</p>
 						</div>
 
+						{(status === 'idle' || status === 'error') && amount && parseFloat(amount) > 0 && (
+							<FeeEstimateDisplay
+								estimate={feeEstimate.data}
+								supported={feeEstimate.supported}
+								isPending={feeEstimate.isPending}
+								error={feeEstimate.error}
+							/>
+						)}
+
 						<TransactionStatus status={status} txHash={txHash} error={error} />
 
 						<DialogFooter className={styles.footer}>
@@ -179,6 +225,16 @@ const styles = {
 		cursor: 'pointer',
 		_hover: { textDecoration: 'underline' },
 	}),
+	select: css({
+		fontSize: 'sm',
+		bg: 'bg.muted',
+		border: '1px solid',
+		borderColor: 'border.default',
+		rounded: 'md',
+		px: '3',
+		py: '2',
+		color: 'fg.default',
+	}),
 	hint: css({
 		fontSize: 'xs',
 		color: 'fg.muted',
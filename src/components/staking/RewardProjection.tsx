@@ -0,0 +1,138 @@
+/**
+ * Reward Projection Component
+ * Shows expected APR/APY for a validator and projected rewards on the entered amount
+ */
+
+import { Loader2 } from 'lucide-react'
+import { useStakingYield } from '@/hooks/useStakingYield'
+import { REPUBLIC_CHAIN_CONFIG } from '@/lib/chain-config'
+import { formatYield, projectRewards } from '@/lib/staking-yield'
+import { css } from '@/styled-system/css'
+
+interface RewardProjectionProps {
+	validatorAddress: string
+	/** Amount in display units as entered in the form */
+	amount: string
+}
+
+function formatReward(value: number): string {
+	return value.toLocaleString(undefined, { maximumFractionDigits: value < 1 ? 6 : 2 })
+}
+
+export function RewardProjection({ validatorAddress, amount }: RewardProjectionProps) {
+	const { symbol } = REPUBLIC_CHAIN_CONFIG.nativeCurrency
+	const { estimate, isLoading } = useStakingYield(validatorAddress)
+
+	if (isLoading) {
+		return (
+			<div className={styles.container}>
+				<span className={styles.pending}>
+					<Loader2 className={styles.spinningIcon} />
+					Estimating rewards...
+				</span>
+			</div>
+		)
+	}
+
+	// Chain REST endpoint not configured or mint/distribution queries unavailable
+	if (!estimate) return null
+
+	const value = parseFloat(amount)
+	const projections = value > 0 ? projectRewards(value, estimate.apr) : []
+
+	return (
+		<div className={styles.container}>
+			<div className={styles.rateRow}>
+				<span className={styles.label}>Estimated yield</span>
+				<span className={styles.rates}>
+					<span className={styles.rate}>{formatYield(estimate.apr)} APR</span>
+					<span className={styles.muted}>{formatYield(estimate.apy)} APY</span>
+				</span>
+			</div>
+			{projections.length > 0 && (
+				<div className={styles.projectionGrid}>
+					{projections.map((p) => (
+						<div key={p.days} className={styles.projection}>
+							<span className={styles.muted}>{p.days} days</span>
+							<span className={styles.amount}>
+								+{formatReward(p.simple)} {symbol}
+							</span>
+							<span className={styles.muted} title="Restaking rewards daily">
+								{formatReward(p.compounded)} compounded
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+			<p className={styles.footnote}>
+				Based on current inflation, bonded ratio, commission and uptime. Actual rewards vary.
+			</p>
+		</div>
+	)
+}
+
+const styles = {
+	container: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '3',
+		p: '3',
+		mb: '4',
+		rounded: 'md',
+		bg: 'bg.subtle',
+		fontSize: 'sm',
+	}),
+	rateRow: css({
+		display: 'flex',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: '4',
+	}),
+	label: css({
+		color: 'fg.muted',
+		flexShrink: 0,
+	}),
+	rates: css({
+		display: 'flex',
+		alignItems: 'baseline',
+		gap: '2',
+	}),
+	rate: css({
+		fontFamily: 'mono',
+		fontWeight: 'semibold',
+		color: 'republicGreen.default',
+	}),
+	projectionGrid: css({
+		display: 'grid',
+		gridTemplateColumns: 'repeat(3, 1fr)',
+		gap: '2',
+	}),
+	projection: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '0.5',
+	}),
+	amount: css({
+		fontFamily: 'mono',
+		fontWeight: 'medium',
+	}),
+	muted: css({
+		fontSize: 'xs',
+		color: 'fg.muted',
+	}),
+	footnote: css({
+		fontSize: 'xs',
+		color: 'fg.muted',
+	}),
+	pending: css({
+		display: 'flex',
+		alignItems: 'center',
+		gap: '1.5',
+		color: 'fg.muted',
+	}),
+	spinningIcon: css({
+		w: '3.5',
+		h: '3.5',
+		animation: 'spin',
+	}),
+}
@@ -0,0 +1,143 @@
+/**
+ * Staking Yield Card Component
+ * Expected APR/APY for a validator with the chain parameters behind the estimate
+ */
+
+import { Percent } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useStakingYield } from '@/hooks/useStakingYield'
+import { formatYield } from '@/lib/staking-yield'
+import { css } from '@/styled-system/css'
+
+interface StakingYieldCardProps {
+	validatorAddress: string
+}
+
+export function StakingYieldCard({ validatorAddress }: StakingYieldCardProps) {
+	const { estimate, params, isLoading } = useStakingYield(validatorAddress)
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className={styles.title}>
+					<Percent className={styles.icon} />
+					Estimated Yield
+				</CardTitle>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<Skeleton className={styles.skeleton} />
+				) : !estimate || !params ? (
+					<p className={styles.muted}>Yield parameters are unavailable from the chain</p>
+				) : (
+					<div className={styles.content}>
+						<div className={styles.headline}>
+							<div className={styles.headlineItem}>
+								<span className={styles.label}>APR</span>
+								<span className={styles.primary}>{formatYield(estimate.apr)}</span>
+							</div>
+							<div className={styles.headlineItem}>
+								<span className={styles.label}>APY</span>
+								<span className={styles.secondary}>{formatYield(estimate.apy)}</span>
+							</div>
+						</div>
+						<div className={styles.rows}>
+							<div className={styles.row}>
+								<span className={styles.label}>Inflation</span>
+								<span className={styles.value}>{formatYield(params.inflation)}</span>
+							</div>
+							<div className={styles.row}>
+								<span className={styles.label}>Bonded Ratio</span>
+								<span className={styles.value}>{formatYield(params.bonded_ratio)}</span>
+							</div>
+							<div className={styles.row}>
+								<span className={styles.label}>Community Tax</span>
+								<span className={styles.value}>{formatYield(params.community_tax)}</span>
+							</div>
+							<div className={styles.row}>
+								<span className={styles.label}>Network APR</span>
+								<span className={styles.value}>{formatYield(estimate.networkApr)}</span>
+							</div>
+							<div className={styles.row}>
+								<span className={styles.label}>Commission</span>
+								<span className={styles.value}>-{formatYield(estimate.commission)}</span>
+							</div>
+							<div className={styles.row}>
+								<span className={styles.label}>Uptime</span>
+								<span className={styles.value}>{formatYield(estimate.uptime)}</span>
+							</div>
+						</div>
+						<p className={styles.muted}>
+							APY assumes rewards are restaked daily. Fee rewards are not included.
+						</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
+
+const styles = {
+	title: css({
+		display: 'flex',
+		alignItems: 'center',
+		gap: '2',
+	}),
+	icon: css({
+		w: '5',
+		h: '5',
+	}),
+	skeleton: css({
+		h: '24',
+		w: 'full',
+	}),
+	content: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '4',
+	}),
+	headline: css({
+		display: 'grid',
+		gridTemplateColumns: 'repeat(2, 1fr)',
+		gap: '4',
+	}),
+	headlineItem: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '1',
+	}),
+	primary: css({
+		fontSize: '2xl',
+		fontWeight: 'bold',
+		fontFamily: 'mono',
+		color: 'republicGreen.default',
+	}),
+	secondary: css({
+		fontSize: '2xl',
+		fontWeight: 'bold',
+		fontFamily: 'mono',
+	}),
+	rows: css({
+		display: 'flex',
+		flexDirection: 'column',
+		gap: '2',
+	}),
+	row: css({
+		display: 'flex',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+	}),
+	label: css({
+		fontSize: 'sm',
+		color: 'fg.muted',
+	}),
+	value: css({
+		fontSize: 'sm',
+		fontFamily: 'mono',
+	}),
+	muted: css({
+		fontSize: 'xs',
+		color: 'fg.muted',
+	}),
+}
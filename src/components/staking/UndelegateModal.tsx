@@ -16,7 +16,9 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { TransactionStatus } from './TransactionStatus'
+import { FeeEstimateDisplay } from './FeeEstimateDisplay'
 import { useStaking } from '@/hooks/useStaking'
+import { useFeeEstimate } from '@/hooks/useFeeEstimate'
 import { useWallet } from '@/contexts/WalletContext'
 import { REPUBLIC_CHAIN_CONFIG } from '@/lib/chain-config'
 import { css } from '@/styled-system/css'
@@ -39,6 +41,7 @@ export function UndelegateModal({
 	const [amount, setAmount] = useState('')
 	const { isConnected, walletType } = useWallet()
 	const { undelegate, status, error, txHash, reset, isReady } = useStaking()
+	const feeEstimate = useFeeEstimate(open && amount ? { type: 'undelegate', validatorAddress, amount } : null)
 
 	useEffect(() => {
 		if (!open) {
@@ -51,7 +54,7 @@ export function UndelegateModal({
 		e.preventDefault()
 		if (!amount || parseFloat(amount) <= 0) return
 
-		await undelegate(validatorAddress, amount)
+		await undelegate(validatorAddress, amount, feeEstimate.fee)
 	}
 
 	const handleMax = () => {
@@ -61,7 +64,7 @@ export function UndelegateModal({
 	}
 
 	const isLoading = status === 'pending'
-	const canSubmit = isReady && amount && parseFloat(amount) > 0 && !isLoading
+	const canSubmit = isReady && amount && parseFloat(amount) > 0 && feeEstimate.canSign && !isLoading
 
 	const unbondingDays = REPUBLIC_CHAIN_CONFIG.staking.unbondingPeriodDays
 
@@ -110,6 +113,15 @@ export function UndelegateModal({
 							</p>
 						</div>
 
+						{(status === 'idle' || status === 'error') && amount && parseFloat(amount) > 0 && (
+							<FeeEstimateDisplay
+								estimate={feeEstimate.data}
+								supported={feeEstimate.supported}
+								isPending={feeEstimate.isPending}
+								error={feeEstimate.error}
+							/>
+						)}
+
 						<TransactionStatus status={status} txHash={txHash} error={error} />
 
 						<DialogFooter className={styles.footer}>
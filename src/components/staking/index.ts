@@ -6,6 +6,10 @@
 export { DelegateModal } from './DelegateModal'
 export { UndelegateModal } from './UndelegateModal'
 export { RedelegateModal } from './RedelegateModal'
+export { CancelUnbondingModal } from './CancelUnbondingModal'
 export { ClaimRewardsModal } from './ClaimRewardsModal'
 export { SetWithdrawAddressModal } from './SetWithdrawAddressModal'
 export { TransactionStatus } from './TransactionStatus'
+export { FeeEstimateDisplay } from './FeeEstimateDisplay'
+export { RewardProjection } from './RewardProjection'
+export { StakingYieldCard } from './StakingYieldCard'
@@ -15,7 +15,8 @@ import {
 	ExternalLink,
 	Coins,
 	Users,
-	Loader2
+	Loader2,
+	Layers
 } from 'lucide-react'
 import { useWallet } from '@/contexts/WalletContext'
 import { ConnectWalletModal } from './ConnectWalletModal'
@@ -271,6 +272,15 @@ export function WalletButton() {
 
 					{/* Actions */}
 					<div className={styles.actionsSection}>
+						<Link
+							to="/staking"
+							className={styles.menuItem}
+							onClick={() => setIsMenuOpen(false)}
+						>
+							<Layers size={14} />
+							<span>My Staking</span>
+						</Link>
+
 						{evmAddress && (
 							<Link
 								to={`/addr/${evmAddress}`}
@@ -11,6 +11,8 @@ export function getAppConfig() {
     queries: {
       staleTimeMs: config.queries?.staleTimeMs ?? 10_000,
       gcTimeMs: config.queries?.gcTimeMs ?? 300_000,
+      persistMaxAgeMs: config.queries?.persistMaxAgeMs ?? 86_400_000,
+      persistMaxAgeByKey: config.queries?.persistMaxAgeByKey ?? {},
     },
     dashboard: {
       refetchIntervalMs: config.dashboard?.refetchIntervalMs ?? 6_000,
@@ -14,12 +14,22 @@ export interface BrandingConfig {
   logoUrl?: string
   /** Favicon URL */
   faviconUrl?: string
-  /** Primary brand color (HSL format: "222.2 47.4% 11.2%") */
+  /** Primary brand color as hex ("#30FF6E"); drives the whole accent palette */
   primaryColor?: string
-  /** Accent color for highlights */
+  /** Secondary highlight color as hex, used for secondary chart series */
   accentColor?: string
   /** Footer text/credits */
   footerText?: string
+  /** Overrides for any color token, keyed by token path ("bg.default", "fg.muted") */
+  colors?: Record<string, string>
+  /** Custom fonts */
+  fonts?: {
+    body?: string
+    mono?: string
+    stylesheetUrl?: string
+  }
+  /** Series colors for multi-series charts */
+  chartPalette?: string[]
   /** External links */
   links?: {
     website?: string
@@ -39,11 +49,14 @@ export function getBrandingConfig(): BrandingConfig {
   return {
     appName: config.appName || 'Republic Explorer',
     appNameShort: config.appNameShort || 'Explorer',
-    logoUrl: config.branding?.logoUrl,
-    faviconUrl: config.branding?.faviconUrl,
-    primaryColor: config.branding?.primaryColor,
-    accentColor: config.branding?.accentColor,
+    logoUrl: config.branding?.logoUrl || undefined,
+    faviconUrl: config.branding?.faviconUrl || undefined,
+    primaryColor: config.branding?.primaryColor || undefined,
+    accentColor: config.branding?.accentColor || undefined,
     footerText: config.branding?.footerText,
+    colors: config.branding?.colors,
+    fonts: config.branding?.fonts,
+    chartPalette: config.branding?.chartPalette,
     links: {
       website: config.links?.website,
       docs: config.links?.docs,
@@ -54,31 +67,197 @@ export function getBrandingConfig(): BrandingConfig {
   }
 }
 
+/** Browser chrome and splash color when branding does not override bg.default */
+const DEFAULT_THEME_COLOR = '#09090b'
+
+/**
+ * Web app manifest for a brand. URLs are resolved against `origin` so the
+ * manifest still works when served from a blob: URL.
+ */
+export function buildWebManifest(
+  config: Pick<BrandingConfig, 'appName' | 'appNameShort' | 'faviconUrl' | 'colors'>,
+  origin = ''
+) {
+  const resolve = (path: string) => (origin ? new URL(path, origin).href : path)
+  const themeColor = config.colors?.['bg.default'] || DEFAULT_THEME_COLOR
+  const icon = config.faviconUrl
+    ? { src: resolve(config.faviconUrl), sizes: 'any', purpose: 'any' }
+    : { src: resolve('/favicon.svg'), sizes: 'any', type: 'image/svg+xml', purpose: 'any' }
+  return {
+    name: config.appName,
+    short_name: config.appNameShort,
+    start_url: resolve('/'),
+    display: 'standalone',
+    background_color: themeColor,
+    theme_color: themeColor,
+    icons: [icon],
+  }
+}
+
+/** Blob URL of the manifest generated for the current brand */
+let manifestUrl: string | null = null
+
+type Rgb = [number, number, number]
+
+function parseHex(color: string): Rgb | null {
+  const match = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (!match) return null
+  const hex = match[1].length === 3 ? match[1].replace(/./g, (c) => c + c) : match[1]
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as Rgb
+}
+
+function toHex(rgb: Rgb): string {
+  return `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`.toUpperCase()
+}
+
+/** Blend `color` towards `target` by `amount` (0-1) */
+function mix(color: Rgb, target: Rgb, amount: number): Rgb {
+  return color.map((c, i) => c + (target[i] - c) * amount) as Rgb
+}
+
+function rgba(color: Rgb, alpha: number): string {
+  return `rgba(${color.join(', ')}, ${alpha})`
+}
+
+const WHITE: Rgb = [255, 255, 255]
+const BLACK: Rgb = [0, 0, 0]
+/** Page background the accent tint is blended into */
+const PAGE_BG: Rgb = [5, 6, 7]
+
+/**
+ * 12-step scale around the brand color, matching the built-in republicGreen layout:
+ * pale tints in 1-6, the brand color at 7, darker shades in 8-12
+ */
+function accentScale(primary: Rgb): string[] {
+  const tints = [0.78, 0.7, 0.62, 0.54, 0.46, 0.3].map((t) => toHex(mix(primary, WHITE, t)))
+  const shades = [0.1, 0.2, 0.3, 0.4, 0.5].map((t) => toHex(mix(primary, BLACK, t)))
+  return [...tints, toHex(primary), ...shades]
+}
+
+/** CSS variable Panda generates for a color token path ("republicGreen.7" -> --colors-republic-green-7) */
+function colorVar(path: string): string {
+  return `--colors-${path.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/\./g, '-').toLowerCase()}`
+}
+
+/** Variables set by the last applyBrandingTheme call, cleared before the next one */
+let appliedProperties: string[] = []
+
 /**
- * Apply branding theme colors to CSS variables
+ * Apply branding to the document at runtime: Panda color and font variables,
+ * document title and favicon. Inline variables on <html> take precedence over
+ * the build-time theme, so switching networks can re-apply a different brand.
  */
 export function applyBrandingTheme(config: BrandingConfig) {
   const root = document.documentElement
+  for (const property of appliedProperties) root.style.removeProperty(property)
+  appliedProperties = []
+
+  const vars: Record<string, string> = {}
+  const primary = config.primaryColor ? parseHex(config.primaryColor) : null
+  if (config.primaryColor && !primary) {
+    console.warn(`Ignoring branding.primaryColor "${config.primaryColor}": expected a hex color`)
+  }
+  if (primary) {
+    const scale = accentScale(primary)
+    scale.forEach((value, i) => {
+      vars[colorVar(`republicGreen.${i + 1}`)] = value
+    })
+    const brand = toHex(primary)
+    const tint = toHex(mix(primary, PAGE_BG, 0.92))
+    Object.assign(vars, {
+      [colorVar('republicGreen.default')]: brand,
+      [colorVar('republicGreen.emphasized')]: scale[7],
+      [colorVar('republicGreen.text')]: brand,
+      [colorVar('republic.green.primary')]: brand,
+      [colorVar('republic.green.light')]: scale[4],
+      [colorVar('republic.green.pale')]: scale[0],
+      [colorVar('republic.green.darkBgTint')]: tint,
+      [colorVar('republic.border.accent')]: rgba(primary, 0.25),
+      [colorVar('accent.default')]: brand,
+      [colorVar('accent.emphasized')]: scale[7],
+      [colorVar('accent.text')]: brand,
+      [colorVar('fg.accent')]: brand,
+      [colorVar('bg.accent')]: tint,
+      [colorVar('border.accent')]: rgba(primary, 0.25),
+      [colorVar('chart.transactions')]: brand,
+      [colorVar('chart.gas')]: scale[4],
+      [colorVar('glow.subtle')]: `0px 0px 15px ${rgba(primary, 0.08)}`,
+      [colorVar('glow.medium')]: `0px 0px 20px ${rgba(primary, 0.2)}`,
+      [colorVar('glow.strong')]: `0px 0px 20px ${rgba(primary, 0.4)}`,
+    })
+  }
+
+  const accent = config.accentColor ? parseHex(config.accentColor) : null
+  if (accent) {
+    vars[colorVar('chart.gas')] = toHex(accent)
+    vars[colorVar('chart.secondary')] = toHex(accent)
+  }
+
+  for (const [path, value] of Object.entries(config.colors ?? {})) {
+    vars[colorVar(path)] = value
+  }
+
+  config.chartPalette?.forEach((value, i) => {
+    vars[colorVar(`chart.series.${i}`)] = value
+  })
+
+  if (config.fonts?.body) {
+    vars['--global-font-body'] = config.fonts.body
+    vars['--fonts-sans'] = config.fonts.body
+  }
+  if (config.fonts?.mono) {
+    vars['--global-font-mono'] = config.fonts.mono
+    vars['--fonts-mono'] = config.fonts.mono
+    vars['--fonts-code'] = config.fonts.mono
+  }
 
-  if (config.primaryColor) {
-    root.style.setProperty('--primary', config.primaryColor)
+  for (const [property, value] of Object.entries(vars)) {
+    root.style.setProperty(property, value)
+    appliedProperties.push(property)
   }
 
-  if (config.accentColor) {
-    root.style.setProperty('--accent', config.accentColor)
+  // Font stylesheet, replaced when the brand changes
+  const fontLink = document.getElementById('branding-fonts')
+  if (config.fonts?.stylesheetUrl) {
+    const link = (fontLink as HTMLLinkElement | null) ?? document.createElement('link')
+    link.id = 'branding-fonts'
+    link.rel = 'stylesheet'
+    link.href = config.fonts.stylesheetUrl
+    document.head.appendChild(link)
+  } else {
+    fontLink?.remove()
   }
 
   // Update document title
   document.title = config.appName
 
-  // Update favicon if provided
+  // Update favicon if provided, remembering the built-in one to restore later
+  const icon: HTMLLinkElement =
+    document.querySelector("link[rel*='icon']") ||
+    document.createElement('link')
+  icon.dataset.defaultHref ??= icon.getAttribute('href') ?? ''
+  icon.rel = 'icon'
   if (config.faviconUrl) {
-    const link: HTMLLinkElement =
-      document.querySelector("link[rel*='icon']") ||
-      document.createElement('link')
-    link.type = 'image/x-icon'
-    link.rel = 'shortcut icon'
-    link.href = config.faviconUrl
-    document.getElementsByTagName('head')[0].appendChild(link)
+    icon.removeAttribute('type')
+    icon.href = config.faviconUrl
+  } else if (icon.dataset.defaultHref) {
+    icon.href = icon.dataset.defaultHref
+  }
+  document.head.appendChild(icon)
+
+  // Install name and colors follow the brand, so swap in a manifest generated from it
+  const manifest = buildWebManifest(config, window.location.origin)
+  const themeMeta: HTMLMetaElement =
+    document.querySelector("meta[name='theme-color']") ||
+    document.createElement('meta')
+  themeMeta.name = 'theme-color'
+  themeMeta.content = manifest.theme_color
+  document.head.appendChild(themeMeta)
+
+  const manifestLink = document.querySelector<HTMLLinkElement>("link[rel='manifest']")
+  if (manifestLink) {
+    if (manifestUrl) URL.revokeObjectURL(manifestUrl)
+    manifestUrl = URL.createObjectURL(new Blob([JSON.stringify(manifest)], { type: 'application/manifest+json' }))
+    manifestLink.href = manifestUrl
   }
 }
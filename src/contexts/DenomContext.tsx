@@ -1,4 +1,5 @@
-import { createContext, useContext, useEffect, useState, type ReactNode } from 'react'
+import { createContext, useContext, useEffect, useMemo, type ReactNode } from 'react'
+import { useQuery } from '@tanstack/react-query'
 import { getDenomMetadata } from '@/lib/denom'
 import { getConfig } from '@/lib/env'
 import { api } from '@/lib/api'
@@ -21,47 +22,31 @@ interface DenomMetadataRow {
  * Loads from database at app startup and caches all denom mappings
  */
 export function DenomProvider({ children }: { children: ReactNode }) {
-  const [denomCache, setDenomCache] = useState<Map<string, string>>(new Map())
-  const [isLoading, setIsLoading] = useState(true)
-
   useEffect(() => {
-    const loadDenomMetadata = async () => {
-      try {
-        // Eagerly warm chain info cache (bech32 prefix, decimals, features)
-        getChainInfo(api).catch(() => {})
-
-        const apiUrl = getConfig().apiUrl
-        if (!apiUrl) {
-          console.warn('API URL is not configured')
-          setIsLoading(false)
-          return
-        }
-        const response = await fetch(`${apiUrl}/denom_metadata?select=denom,symbol`)
-
-        if (!response.ok) {
-          console.error('Failed to fetch denom metadata from database')
-          setIsLoading(false)
-          return
-        }
-
-        const metadata: DenomMetadataRow[] = await response.json()
-        const cache = new Map<string, string>()
-
-        // Build cache from database
-        metadata.forEach((row) => {
-          cache.set(row.denom, row.symbol)
-        })
+    // Eagerly warm chain info cache (bech32 prefix, decimals, features)
+    getChainInfo(api).catch(() => {})
+  }, [])
 
-        setDenomCache(cache)
-        setIsLoading(false)
-      } catch (error) {
-        console.error('Error loading denom metadata:', error)
-        setIsLoading(false)
+  // A query rather than component state so the mapping is persisted with the query cache
+  const { data: metadata, isLoading } = useQuery({
+    queryKey: ['denom-metadata'],
+    queryFn: async (): Promise<DenomMetadataRow[]> => {
+      const apiUrl = getConfig().apiUrl
+      if (!apiUrl) {
+        console.warn('API URL is not configured')
+        return []
       }
-    }
+      const response = await fetch(`${apiUrl}/denom_metadata?select=denom,symbol`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch denom metadata from database')
+      }
+      return response.json()
+    },
+    staleTime: 60 * 60 * 1000,
+  })
 
-    loadDenomMetadata()
-  }, [])
+  // Build cache from database
+  const denomCache = useMemo(() => new Map((metadata ?? []).map((row) => [row.denom, row.symbol])), [metadata])
 
   const getDenomDisplay = (denom: string): string => {
     // Check cache first
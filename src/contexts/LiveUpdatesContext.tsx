@@ -0,0 +1,120 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { appConfig } from '@/config/app'
+import type { BlockRaw, PaginatedResponse, Transaction } from '@/lib/api'
+import { createChainEventStream, type StreamBlock, type StreamStatus } from '@/lib/cometbft-ws'
+import { getConfig } from '@/lib/env'
+import type { OverviewMetrics } from '@/lib/metrics'
+
+interface LiveUpdatesContextValue {
+  status: StreamStatus
+  /** True while the websocket is connected; pollers should back off */
+  isLive: boolean
+  latestHeight: number | null
+}
+
+const LiveUpdatesContext = createContext<LiveUpdatesContextValue | null>(null)
+
+/** Blocks to keep refetching the indexed tx list for a streamed hash before giving up */
+const PENDING_TX_MAX_BLOCKS = 10
+
+/**
+ * Maps a streamed CometBFT block onto the blocks_raw row shape the dashboard reads
+ */
+function toBlockRaw(block: StreamBlock): BlockRaw {
+  const txs = block.block.data.txs ?? []
+  return {
+    id: Number(block.block.header.height),
+    data: {
+      block_id: { hash: block.block_id.hash },
+      txs,
+      block: {
+        header: block.block.header,
+        data: { txs },
+        last_commit: block.block.last_commit,
+      },
+    },
+  } as BlockRaw
+}
+
+/**
+ * Streams NewBlock and Tx events from the CometBFT websocket into the React
+ * Query cache. Blocks are written directly; streamed tx hashes only trigger a
+ * refetch of the indexed list so rows always carry messages and fees. Does
+ * nothing when chainRpcEndpoint is not configured, in which case dashboard
+ * queries keep polling PostgREST.
+ */
+export function LiveUpdatesProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient()
+  const [status, setStatus] = useState<StreamStatus>('disabled')
+  const [latestHeight, setLatestHeight] = useState<number | null>(null)
+
+  useEffect(() => {
+    const rpcEndpoint = getConfig().chainRpcEndpoint
+    if (!rpcEndpoint) return
+
+    const itemCount = appConfig.dashboard.itemCount
+    // Streamed tx hash -> height, kept until the indexed list contains it
+    const pendingTxs = new Map<string, number>()
+
+    const syncPendingTxs = async (height: number) => {
+      for (const [hash, txHeight] of pendingTxs) {
+        if (height - txHeight > PENDING_TX_MAX_BLOCKS) pendingTxs.delete(hash)
+      }
+      if (pendingTxs.size === 0) return
+
+      await queryClient.refetchQueries({ queryKey: ['latestTransactions'], type: 'active' })
+      const list = queryClient.getQueryData<PaginatedResponse<Transaction>>(['latestTransactions'])
+      for (const tx of list?.data ?? []) pendingTxs.delete(tx.id.toLowerCase())
+    }
+
+    const stream = createChainEventStream(rpcEndpoint, {
+      onStatus: (next) => {
+        setStatus(next)
+        // Reconcile anything missed while the socket was down
+        if (next === 'live') {
+          queryClient.invalidateQueries({ queryKey: ['latestBlocks'] })
+          queryClient.invalidateQueries({ queryKey: ['latestTransactions'] })
+        }
+      },
+      onBlock: (block) => {
+        const row = toBlockRaw(block)
+        setLatestHeight(row.id)
+
+        queryClient.setQueryData<PaginatedResponse<BlockRaw>>(['latestBlocks'], (old) => {
+          if (!old) return old
+          if (old.data.some((b) => b.id >= row.id)) return old
+          return {
+            data: [row, ...old.data].slice(0, itemCount),
+            pagination: { ...old.pagination, total: Math.max(old.pagination.total, row.id) },
+          }
+        })
+
+        queryClient.setQueryData<OverviewMetrics>(['overview-metrics'], (old) =>
+          old && old.latestBlock < row.id ? { ...old, latestBlock: row.id } : old
+        )
+
+        // The indexer trails the node, so txs from earlier blocks are usually
+        // queryable by the time the next block arrives
+        void syncPendingTxs(row.id)
+      },
+      onTx: (tx) => {
+        pendingTxs.set(tx.hash.toLowerCase(), tx.height)
+      },
+    })
+
+    return () => stream.close()
+  }, [queryClient])
+
+  return (
+    <LiveUpdatesContext.Provider value={{ status, isLive: status === 'live', latestHeight }}>
+      {children}
+    </LiveUpdatesContext.Provider>
+  )
+}
+
+export function useLiveUpdates() {
+  const ctx = useContext(LiveUpdatesContext)
+  if (!ctx) throw new Error('useLiveUpdates must be used within LiveUpdatesProvider')
+  return ctx
+}
@@ -45,6 +45,13 @@ interface WalletContextValue extends WalletState {
 
 const WalletContext = createContext<WalletContextValue | null>(null)
 
+// Keplr sign options; preferNoSetFee keeps the fee from the sign doc instead of Keplr's own
+interface KeplrSignOptions {
+	preferNoSetFee?: boolean
+	preferNoSetMemo?: boolean
+	disableBalanceCheck?: boolean
+}
+
 // Keplr window type
 declare global {
 	interface Window {
@@ -60,6 +67,24 @@ declare global {
 				bech32Address: string
 				isNanoLedger: boolean
 			}>
+			signAmino: (
+				chainId: string,
+				signer: string,
+				signDoc: unknown,
+				signOptions?: KeplrSignOptions
+			) => Promise<{
+				signed: { fee: { amount: Array<{ denom: string; amount: string }>; gas: string } }
+				signature: { signature: string }
+			}>
+			signDirect?: (
+				chainId: string,
+				signer: string,
+				signDoc: { bodyBytes: Uint8Array; authInfoBytes: Uint8Array; chainId: string; accountNumber: bigint },
+				signOptions?: KeplrSignOptions
+			) => Promise<{
+				signed: { bodyBytes: Uint8Array; authInfoBytes: Uint8Array }
+				signature: { signature: string }
+			}>
 		}
 		ethereum?: {
 			isMetaMask?: boolean
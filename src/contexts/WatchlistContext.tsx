@@ -0,0 +1,199 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react'
+import {
+  checkWatchlistEntry,
+  loadWatchlist,
+  loadWatchlistAlerts,
+  saveWatchlist,
+  saveWatchlistAlerts,
+  WATCHLIST_ALERTS_KEY,
+  WATCHLIST_KEY,
+  watchlistHref,
+  type WatchKind,
+  type WatchlistAlert,
+  type WatchlistEntry,
+} from '@/lib/watchlist'
+import { networkStorageKey } from '@/lib/env'
+
+/** How often starred entries are checked for new activity */
+const POLL_INTERVAL_MS = 60_000
+
+type NotificationState = NotificationPermission | 'unsupported'
+
+interface WatchlistContextValue {
+  entries: WatchlistEntry[]
+  alerts: WatchlistAlert[]
+  unreadCount: number
+  isWatched: (address: string) => boolean
+  add: (entry: { address: string; altAddress?: string | null; kind: WatchKind; label?: string | null }) => void
+  remove: (address: string) => void
+  rename: (address: string, label: string) => void
+  markAllRead: () => void
+  clearAlerts: () => void
+  notificationPermission: NotificationState
+  requestNotifications: () => Promise<void>
+  checkNow: () => Promise<void>
+  isChecking: boolean
+}
+
+const WatchlistContext = createContext<WatchlistContextValue | null>(null)
+
+function currentPermission(): NotificationState {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+}
+
+/**
+ * Holds the watchlist, polls starred entries for new transactions and jailing
+ * events, and raises in-app plus browser notifications for anything new
+ */
+export function WatchlistProvider({ children }: { children: ReactNode }) {
+  const [entries, setEntries] = useState<WatchlistEntry[]>(() => loadWatchlist())
+  const [alerts, setAlerts] = useState<WatchlistAlert[]>(() => loadWatchlistAlerts())
+  const [notificationPermission, setNotificationPermission] = useState<NotificationState>(currentPermission)
+  const [isChecking, setIsChecking] = useState(false)
+  const entriesRef = useRef(entries)
+  entriesRef.current = entries
+  const checkingRef = useRef(false)
+
+  const updateEntries = useCallback((update: (prev: WatchlistEntry[]) => WatchlistEntry[]) => {
+    setEntries((prev) => {
+      const next = update(prev)
+      saveWatchlist(next)
+      return next
+    })
+  }, [])
+
+  const updateAlerts = useCallback((update: (prev: WatchlistAlert[]) => WatchlistAlert[]) => {
+    setAlerts((prev) => {
+      const next = update(prev)
+      saveWatchlistAlerts(next)
+      return next
+    })
+  }, [])
+
+  // Keep tabs in sync when another tab edits the watchlist
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === networkStorageKey(WATCHLIST_KEY)) setEntries(loadWatchlist())
+      if (event.key === networkStorageKey(WATCHLIST_ALERTS_KEY)) setAlerts(loadWatchlistAlerts())
+    }
+    window.addEventListener('storage', onStorage)
+    return () => window.removeEventListener('storage', onStorage)
+  }, [])
+
+  const checkEntries = useCallback(async (targets: WatchlistEntry[]) => {
+    for (const entry of targets) {
+      try {
+        const result = await checkWatchlistEntry(entry)
+        updateEntries((prev) => prev.map((e) => (e.address === entry.address ? {
+          ...e,
+          txCount: result.entry.txCount,
+          lastEventHeight: result.entry.lastEventHeight,
+        } : e)))
+
+        if (result.alerts.length === 0) continue
+        const now = new Date().toISOString()
+        const created = result.alerts.map((draft, i) => ({
+          ...draft,
+          id: `${entry.address}-${Date.now()}-${i}`,
+          address: entry.address,
+          kind: entry.kind,
+          href: watchlistHref(entry),
+          createdAt: now,
+          read: false,
+        }))
+        updateAlerts((prev) => [...created, ...prev])
+
+        if (currentPermission() === 'granted') {
+          for (const alert of created) {
+            new Notification(alert.title, { body: alert.message, tag: alert.id })
+          }
+        }
+      } catch (error) {
+        console.warn(`Watchlist check failed for ${entry.address}:`, error)
+      }
+    }
+  }, [updateEntries, updateAlerts])
+
+  const checkNow = useCallback(async () => {
+    if (checkingRef.current || entriesRef.current.length === 0) return
+    checkingRef.current = true
+    setIsChecking(true)
+    try {
+      await checkEntries(entriesRef.current)
+    } finally {
+      checkingRef.current = false
+      setIsChecking(false)
+    }
+  }, [checkEntries])
+
+  useEffect(() => {
+    checkNow()
+    const interval = setInterval(checkNow, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [checkNow])
+
+  const isWatched = useCallback((address: string) => entries.some((e) => e.address === address), [entries])
+
+  const add = useCallback<WatchlistContextValue['add']>(({ address, altAddress = null, kind, label = null }) => {
+    if (entriesRef.current.some((e) => e.address === address)) return
+    const entry: WatchlistEntry = {
+      address,
+      altAddress,
+      kind,
+      label,
+      addedAt: new Date().toISOString(),
+      txCount: null,
+      lastEventHeight: null,
+    }
+    updateEntries((prev) => (prev.some((e) => e.address === address) ? prev : [...prev, entry]))
+    // Record a baseline right away so the next poll can detect new activity
+    checkEntries([entry])
+  }, [updateEntries, checkEntries])
+
+  const remove = useCallback((address: string) => {
+    updateEntries((prev) => prev.filter((e) => e.address !== address))
+  }, [updateEntries])
+
+  const rename = useCallback((address: string, label: string) => {
+    updateEntries((prev) => prev.map((e) => (e.address === address ? { ...e, label: label.trim() || null } : e)))
+  }, [updateEntries])
+
+  const markAllRead = useCallback(() => {
+    updateAlerts((prev) => prev.map((a) => (a.read ? a : { ...a, read: true })))
+  }, [updateAlerts])
+
+  const clearAlerts = useCallback(() => updateAlerts(() => []), [updateAlerts])
+
+  const requestNotifications = useCallback(async () => {
+    if (typeof Notification === 'undefined') return
+    setNotificationPermission(await Notification.requestPermission())
+  }, [])
+
+  return (
+    <WatchlistContext.Provider
+      value={{
+        entries,
+        alerts,
+        unreadCount: alerts.filter((a) => !a.read).length,
+        isWatched,
+        add,
+        remove,
+        rename,
+        markAllRead,
+        clearAlerts,
+        notificationPermission,
+        requestNotifications,
+        checkNow,
+        isChecking,
+      }}
+    >
+      {children}
+    </WatchlistContext.Provider>
+  )
+}
+
+export function useWatchlist() {
+  const ctx = useContext(WatchlistContext)
+  if (!ctx) throw new Error('useWatchlist must be used within WatchlistProvider')
+  return ctx
+}
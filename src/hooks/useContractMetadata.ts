@@ -0,0 +1,60 @@
+import { useQueries } from "@tanstack/react-query"
+import type { Abi } from "viem"
+import { api } from "@/lib/api"
+import { parseAbi } from "@/lib/evm-abi"
+
+export interface TokenMetadata {
+	symbol: string | null
+	decimals: number | null
+	type: string | null
+}
+
+export interface ContractMetadata {
+	abi: Abi | null
+	token: TokenMetadata | null
+}
+
+/**
+ * Loads verified ABIs and token metadata for a set of contract addresses.
+ * Used to decode calldata and logs and to format token amounts.
+ *
+ * @param addresses - Contract addresses (duplicates and nulls are ignored)
+ * @returns Map keyed by lowercase address; entries appear as their queries resolve
+ */
+export function useContractMetadata(addresses: Array<string | null | undefined>) {
+	const unique = Array.from(
+		new Set(addresses.filter((a): a is string => !!a).map((a) => a.toLowerCase())),
+	)
+
+	const abiQueries = useQueries({
+		queries: unique.map((address) => ({
+			queryKey: ["evm-contract-abi", address],
+			queryFn: async () => parseAbi((await api.getEvmContractDetails(address))?.abi ?? null),
+			staleTime: Infinity,
+			retry: false,
+		})),
+	})
+
+	const tokenQueries = useQueries({
+		queries: unique.map((address) => ({
+			queryKey: ["evm-token", address],
+			queryFn: () => api.getEvmToken(address),
+			staleTime: Infinity,
+			retry: false,
+		})),
+	})
+
+	const metadata = new Map<string, ContractMetadata>()
+	unique.forEach((address, i) => {
+		const token = tokenQueries[i]?.data
+		metadata.set(address, {
+			abi: abiQueries[i]?.data ?? null,
+			token: token ? { symbol: token.symbol, decimals: token.decimals, type: token.type } : null,
+		})
+	})
+
+	return {
+		metadata,
+		isLoading: abiQueries.some((q) => q.isLoading) || tokenQueries.some((q) => q.isLoading),
+	}
+}
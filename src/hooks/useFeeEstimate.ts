@@ -0,0 +1,87 @@
+/**
+ * Fee Estimate Hook
+ * Simulates Keplr staking transactions to preview the network fee before signing
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useWallet } from '@/contexts/WalletContext'
+import {
+	estimateCosmosCancelUnbondingFee,
+	estimateCosmosDelegateFee,
+	estimateCosmosRedelegateFee,
+	estimateCosmosUndelegateFee,
+	type FeeEstimate,
+} from '@/lib/cosmos-staking'
+
+export type FeeEstimateRequest =
+	| { type: 'delegate' | 'undelegate'; validatorAddress: string; amount: string }
+	| { type: 'redelegate'; srcValidatorAddress: string; dstValidatorAddress: string; amount: string }
+	| { type: 'cancelUnbonding'; validatorAddress: string; amount: string; creationHeight: string }
+
+const AMOUNT_DEBOUNCE_MS = 500
+
+/**
+ * Estimates the fee for a staking transaction while the user edits the form.
+ * Only Keplr transactions are simulated; EVM wallets estimate gas themselves.
+ *
+ * @param request - Staking action to simulate, or null to skip
+ * @returns Query result with the estimate, whether an estimate applies to the connected
+ * wallet, and the fee to sign once the estimate matches the current form
+ */
+export function useFeeEstimate(request: FeeEstimateRequest | null) {
+	const { walletType, cosmosAddress } = useWallet()
+
+	// Callers pass a fresh object each render, so debounce on its serialized form
+	const requestKey = request ? JSON.stringify(request) : null
+	const [debouncedKey, setDebouncedKey] = useState(requestKey)
+
+	useEffect(() => {
+		const timer = setTimeout(() => setDebouncedKey(requestKey), AMOUNT_DEBOUNCE_MS)
+		return () => clearTimeout(timer)
+	}, [requestKey])
+
+	const debounced = useMemo(
+		() => (debouncedKey ? (JSON.parse(debouncedKey) as FeeEstimateRequest) : null),
+		[debouncedKey]
+	)
+
+	const supported = walletType === 'keplr' && !!cosmosAddress
+	const valid = !!debounced && parseFloat(debounced.amount) > 0
+
+	const query = useQuery<FeeEstimate>({
+		queryKey: ['staking-fee-estimate', cosmosAddress, debouncedKey],
+		queryFn: () => {
+			if (!debounced || !cosmosAddress) throw new Error('Nothing to estimate')
+			switch (debounced.type) {
+				case 'delegate':
+					return estimateCosmosDelegateFee({ delegatorAddress: cosmosAddress, ...debounced })
+				case 'undelegate':
+					return estimateCosmosUndelegateFee({ delegatorAddress: cosmosAddress, ...debounced })
+				case 'redelegate':
+					return estimateCosmosRedelegateFee({ delegatorAddress: cosmosAddress, ...debounced })
+				case 'cancelUnbonding':
+					return estimateCosmosCancelUnbondingFee({
+						delegatorAddress: cosmosAddress,
+						...debounced,
+						creationHeight: BigInt(debounced.creationHeight),
+					})
+			}
+		},
+		enabled: supported && valid,
+		staleTime: 30_000,
+		retry: false,
+	})
+
+	const isPending = supported && valid && (query.isFetching || requestKey !== debouncedKey)
+
+	return {
+		...query,
+		supported,
+		isPending,
+		/** Fee the user is shown, to be signed unchanged; undefined until it is current */
+		fee: supported && !isPending ? query.data?.fee : undefined,
+		/** False while a Keplr estimate is still loading, stale or failed */
+		canSign: !supported || (!isPending && !!query.data),
+	}
+}
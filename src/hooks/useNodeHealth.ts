@@ -0,0 +1,69 @@
+/**
+ * Node Health Hook
+ * Polls a CometBFT Prometheus exporter and keeps a rolling sample history in memory
+ */
+
+import { useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { getNodeHealth, type NetworkHealth } from '@/lib/api/prometheus'
+import { getConfig } from '@/lib/env'
+
+export interface NodeHealthSample extends NetworkHealth {
+  time: number
+  /** Mempool evictions since the previous sample (counter delta) */
+  evictedDelta: number
+  /** Failed CheckTx calls since the previous sample (counter delta) */
+  failedDelta: number
+}
+
+// History survives remounts so switching endpoints or pages doesn't reset the charts
+const historyByEndpoint = new Map<string, NodeHealthSample[]>()
+
+/** Counter delta that treats a node restart (counter reset) as a fresh start */
+function counterDelta(current: number, previous: number | undefined): number {
+  if (previous === undefined || current < previous) return 0
+  return current - previous
+}
+
+export function useNodeHealth(endpoint: string) {
+  const { refetchIntervalMs = 5_000, historyLength = 120 } = getConfig().nodeHealth ?? {}
+  const [history, setHistory] = useState<NodeHealthSample[]>(() => historyByEndpoint.get(endpoint) ?? [])
+
+  const query = useQuery({
+    queryKey: ['node-health', endpoint],
+    queryFn: () => getNodeHealth(endpoint),
+    refetchInterval: refetchIntervalMs,
+    retry: false,
+  })
+
+  useEffect(() => {
+    setHistory(historyByEndpoint.get(endpoint) ?? [])
+  }, [endpoint])
+
+  const { data, dataUpdatedAt } = query
+
+  useEffect(() => {
+    if (!data) return
+    const previous = historyByEndpoint.get(endpoint) ?? []
+    const last = previous[previous.length - 1]
+    if (last && last.time === dataUpdatedAt) return
+
+    const sample: NodeHealthSample = {
+      ...data.health,
+      time: dataUpdatedAt,
+      evictedDelta: counterDelta(data.health.evictedTxs, last?.evictedTxs),
+      failedDelta: counterDelta(data.health.failedTxs, last?.failedTxs),
+    }
+    const next = [...previous, sample].slice(-historyLength)
+    historyByEndpoint.set(endpoint, next)
+    setHistory(next)
+  }, [data, dataUpdatedAt, endpoint, historyLength])
+
+  return {
+    current: data?.health ?? null,
+    abciTiming: data?.abciTiming ?? null,
+    history,
+    error: query.error,
+    isLoading: query.isLoading,
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { useState, useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
 import { useWallet } from '@/contexts/WalletContext'
 import type { Hex, WalletClient } from 'viem'
 
@@ -20,9 +21,11 @@ import {
 	cosmosDelegate,
 	cosmosUndelegate,
 	cosmosRedelegate,
+	cosmosCancelUnbonding,
 	cosmosWithdrawRewards,
 	cosmosWithdrawAllRewards,
 	cosmosSetWithdrawAddress,
+	type StdFee,
 } from '@/lib/cosmos-staking'
 
 export type TxStatus = 'idle' | 'pending' | 'success' | 'error'
@@ -39,10 +42,16 @@ export interface UseStakingReturn {
 	txHash: string | null
 
 	// Actions
-	delegate: (validatorAddress: string, amount: string) => Promise<StakingTxResult>
-	undelegate: (validatorAddress: string, amount: string) => Promise<StakingTxResult>
-	redelegate: (srcValidator: string, dstValidator: string, amount: string) => Promise<StakingTxResult>
-	cancelUnbonding: (validatorAddress: string, amount: string, creationHeight: bigint) => Promise<StakingTxResult>
+	// fee is the Keplr fee estimate the user confirmed; EVM wallets ignore it
+	delegate: (validatorAddress: string, amount: string, fee?: StdFee) => Promise<StakingTxResult>
+	undelegate: (validatorAddress: string, amount: string, fee?: StdFee) => Promise<StakingTxResult>
+	redelegate: (srcValidator: string, dstValidator: string, amount: string, fee?: StdFee) => Promise<StakingTxResult>
+	cancelUnbonding: (
+		validatorAddress: string,
+		amount: string,
+		creationHeight: bigint,
+		fee?: StdFee
+	) => Promise<StakingTxResult>
 	withdrawRewards: (validatorAddress: string) => Promise<StakingTxResult>
 	withdrawAllRewards: (validatorAddresses: string[]) => Promise<StakingTxResult>
 	setWithdrawAddress: (withdrawAddress: string) => Promise<StakingTxResult>
@@ -58,6 +67,7 @@ export interface UseStakingReturn {
  */
 export function useStaking(): UseStakingReturn {
 	const { isConnected, walletType, evmAddress, cosmosAddress, walletClient } = useWallet()
+	const queryClient = useQueryClient()
 
 	const [status, setStatus] = useState<TxStatus>('idle')
 	const [error, setError] = useState<string | null>(null)
@@ -121,17 +131,19 @@ export function useStaking(): UseStakingReturn {
 				const message = err instanceof Error ? err.message : 'Transaction failed'
 				setError(message)
 				setStatus('error')
+				// Re-estimate so a retry is confirmed against the current fee
+				queryClient.invalidateQueries({ queryKey: ['staking-fee-estimate'] })
 				return { error: message }
 			}
 		},
-		[cosmosAddress]
+		[cosmosAddress, queryClient]
 	)
 
 	/**
 	 * Delegate tokens to a validator
 	 */
 	const delegate = useCallback(
-		async (validatorAddress: string, amount: string): Promise<StakingTxResult> => {
+		async (validatorAddress: string, amount: string, fee?: StdFee): Promise<StakingTxResult> => {
 			if (walletType === 'evm') {
 				return executeEvmAction((client) =>
 					evmDelegate({
@@ -147,6 +159,7 @@ export function useStaking(): UseStakingReturn {
 						delegatorAddress: cosmosAddress,
 						validatorAddress,
 						amount,
+						fee,
 					})
 				)
 			}
@@ -159,7 +172,7 @@ export function useStaking(): UseStakingReturn {
 	 * Undelegate tokens from a validator
 	 */
 	const undelegate = useCallback(
-		async (validatorAddress: string, amount: string): Promise<StakingTxResult> => {
+		async (validatorAddress: string, amount: string, fee?: StdFee): Promise<StakingTxResult> => {
 			if (walletType === 'evm') {
 				return executeEvmAction((client) =>
 					evmUndelegate({
@@ -175,6 +188,7 @@ export function useStaking(): UseStakingReturn {
 						delegatorAddress: cosmosAddress,
 						validatorAddress,
 						amount,
+						fee,
 					})
 				)
 			}
@@ -187,7 +201,7 @@ export function useStaking(): UseStakingReturn {
 	 * Redelegate tokens from one validator to another
 	 */
 	const redelegate = useCallback(
-		async (srcValidator: string, dstValidator: string, amount: string): Promise<StakingTxResult> => {
+		async (srcValidator: string, dstValidator: string, amount: string, fee?: StdFee): Promise<StakingTxResult> => {
 			if (walletType === 'evm') {
 				return executeEvmAction((client) =>
 					evmRedelegate({
@@ -206,6 +220,7 @@ export function useStaking(): UseStakingReturn {
 						srcValidatorAddress: srcValidator,
 						dstValidatorAddress: dstValidator,
 						amount,
+						fee,
 					})
 				)
 			}
@@ -215,10 +230,15 @@ export function useStaking(): UseStakingReturn {
 	)
 
 	/**
-	 * Cancel unbonding delegation (EVM only - Cosmos SDK doesn't support this via standard msgs)
+	 * Cancel all or part of an unbonding entry, identified by its creation height
 	 */
 	const cancelUnbonding = useCallback(
-		async (validatorAddress: string, amount: string, creationHeight: bigint): Promise<StakingTxResult> => {
+		async (
+			validatorAddress: string,
+			amount: string,
+			creationHeight: bigint,
+			fee?: StdFee
+		): Promise<StakingTxResult> => {
 			if (walletType === 'evm') {
 				return executeEvmAction((client) =>
 					evmCancelUnbonding({
@@ -229,12 +249,20 @@ export function useStaking(): UseStakingReturn {
 						creationHeight,
 					})
 				)
-			} else if (walletType === 'keplr') {
-				return { error: 'Cancel unbonding not supported via Keplr. Use EVM wallet.' }
+			} else if (walletType === 'keplr' && cosmosAddress) {
+				return executeCosmosAction(() =>
+					cosmosCancelUnbonding({
+						delegatorAddress: cosmosAddress,
+						validatorAddress,
+						amount,
+						creationHeight,
+						fee,
+					})
+				)
 			}
 			return { error: 'No wallet connected' }
 		},
-		[walletType, evmAddress, executeEvmAction]
+		[walletType, evmAddress, cosmosAddress, executeEvmAction, executeCosmosAction]
 	)
 
 	/**
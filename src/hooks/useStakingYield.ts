@@ -0,0 +1,45 @@
+/**
+ * Staking Yield Hook
+ * Expected APR/APY for delegating to a validator, from live chain parameters
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { api, getStakingYieldParamsLive } from '@/lib/api'
+import { estimateValidatorYield } from '@/lib/staking-yield'
+
+/**
+ * Chain-wide yield inputs (inflation, bonded ratio, community tax)
+ */
+export function useStakingYieldParams() {
+	return useQuery({
+		queryKey: ['staking-yield-params'],
+		queryFn: () => getStakingYieldParamsLive(),
+		staleTime: 300_000,
+	})
+}
+
+/**
+ * Estimates the yield of a validator from its commission and uptime
+ *
+ * @param validatorAddress - Operator address, or null to skip
+ * @returns The estimate (null while loading or when chain params are unavailable) and the inputs used
+ */
+export function useStakingYield(validatorAddress: string | null | undefined) {
+	const { data: params, isLoading: paramsLoading } = useStakingYieldParams()
+	const { data: validator, isLoading: validatorLoading } = useQuery({
+		queryKey: ['validator-detail', validatorAddress],
+		queryFn: () => api.getValidatorDetail(validatorAddress as string),
+		enabled: !!validatorAddress,
+		staleTime: 15000,
+	})
+
+	const estimate = params && validator
+		? estimateValidatorYield(params, validator.commission_rate, validator.signing_percentage)
+		: null
+
+	return {
+		estimate,
+		params: params ?? null,
+		isLoading: paramsLoading || (!!validatorAddress && validatorLoading),
+	}
+}
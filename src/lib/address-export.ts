@@ -0,0 +1,219 @@
+/**
+ * Address history export
+ * Streams every page of an address's transactions and serializes them to CSV or JSON
+ * in small batches, yielding to the event loop so the tab stays responsive.
+ */
+
+import { formatUnits } from 'viem'
+import { api, type Message, type Transaction } from './api'
+import { getDenomMetadata } from './denom'
+import { getMessageTypeLabel } from './utils'
+
+export type ExportFormat = 'csv' | 'json'
+
+export interface ExportRange {
+	/** Inclusive ISO date (YYYY-MM-DD) */
+	fromDate?: string
+	/** Inclusive ISO date (YYYY-MM-DD) */
+	toDate?: string
+	minHeight?: number
+	maxHeight?: number
+}
+
+export interface ExportProgress {
+	fetched: number
+	exported: number
+	total: number | null
+}
+
+export interface ExportRow {
+	hash: string
+	height: number
+	timestamp: string
+	status: 'success' | 'failed'
+	address: string
+	alt_address: string
+	message_types: string[]
+	amounts: string[]
+	fee: string
+	memo: string
+	error: string
+}
+
+interface Coin {
+	denom: string
+	amount: string
+}
+
+const PAGE_SIZE = 100
+
+const CSV_COLUMNS: Array<keyof ExportRow> = [
+	'hash',
+	'height',
+	'timestamp',
+	'status',
+	'address',
+	'alt_address',
+	'message_types',
+	'amounts',
+	'fee',
+	'memo',
+	'error',
+]
+
+function isCoin(value: unknown): value is Coin {
+	return !!value && typeof value === 'object' && 'denom' in value && 'amount' in value
+}
+
+function toCoins(value: unknown): Coin[] {
+	if (Array.isArray(value)) return value.filter(isCoin)
+	return isCoin(value) ? [value] : []
+}
+
+/**
+ * Collect coin amounts carried by a message (bank sends, staking, IBC transfers)
+ */
+function messageCoins(message: Message): Coin[] {
+	const sources = [message.metadata, message.data].filter(Boolean) as Array<Record<string, unknown>>
+	for (const source of sources) {
+		const coins = [...toCoins(source.amount), ...toCoins(source.token)]
+		if (coins.length > 0) return coins
+	}
+	return []
+}
+
+/** Exact decimal conversion; exports feed accounting, so no float rounding */
+function formatCoin(coin: Coin, getDenomDisplay: (denom: string) => string): string {
+	try {
+		const amount = formatUnits(BigInt(coin.amount), getDenomMetadata(coin.denom).decimals)
+		return `${amount} ${getDenomDisplay(coin.denom)}`
+	} catch {
+		return `${coin.amount} ${coin.denom}`
+	}
+}
+
+/**
+ * Flatten a transaction into an export row with resolved denoms
+ */
+export function toExportRow(
+	tx: Transaction,
+	address: string,
+	altAddress: string | null,
+	getDenomDisplay: (denom: string) => string
+): ExportRow {
+	const messages = tx.messages ?? []
+	return {
+		hash: tx.id,
+		height: tx.height,
+		timestamp: tx.timestamp,
+		status: tx.error ? 'failed' : 'success',
+		address,
+		alt_address: altAddress ?? '',
+		message_types: messages.map((m) => getMessageTypeLabel(m.type)),
+		amounts: messages.flatMap((m) => messageCoins(m).map((c) => formatCoin(c, getDenomDisplay))),
+		fee: (tx.fee?.amount ?? []).map((c) => formatCoin(c, getDenomDisplay)).join('; '),
+		memo: tx.memo ?? '',
+		error: tx.error ?? '',
+	}
+}
+
+/**
+ * Serialize a CSV cell. Text that a spreadsheet would evaluate as a formula
+ * (memos are user-controlled) is prefixed with a quote so it stays literal.
+ */
+function csvCell(value: ExportRow[keyof ExportRow]): string {
+	const raw = Array.isArray(value) ? value.join('; ') : String(value)
+	const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function inRange(tx: Transaction, range: ExportRange): boolean {
+	if (range.minHeight !== undefined && tx.height < range.minHeight) return false
+	if (range.maxHeight !== undefined && tx.height > range.maxHeight) return false
+	const date = tx.timestamp?.substring(0, 10)
+	if (range.fromDate && (!date || date < range.fromDate)) return false
+	if (range.toDate && (!date || date > range.toDate)) return false
+	return true
+}
+
+/** Results are newest first, so once a page falls below the range start nothing older can match */
+function isBeforeRange(tx: Transaction, range: ExportRange): boolean {
+	if (range.minHeight !== undefined && tx.height < range.minHeight) return true
+	const date = tx.timestamp?.substring(0, 10)
+	return !!range.fromDate && !!date && date < range.fromDate
+}
+
+const yieldToBrowser = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+/**
+ * Fetch every transaction for an address within the range and serialize it.
+ * Pass an AbortSignal to cancel between pages.
+ */
+export async function exportAddressHistory({
+	address,
+	altAddress,
+	format,
+	range = {},
+	getDenomDisplay,
+	onProgress,
+	signal,
+}: {
+	address: string
+	altAddress: string | null
+	format: ExportFormat
+	range?: ExportRange
+	getDenomDisplay: (denom: string) => string
+	onProgress?: (progress: ExportProgress) => void
+	signal?: AbortSignal
+}): Promise<Blob> {
+	const parts: string[] = format === 'csv' ? [`${CSV_COLUMNS.join(',')}\n`] : ['[']
+	let offset = 0
+	let fetched = 0
+	let exported = 0
+	let total: number | null = null
+
+	while (true) {
+		if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError')
+
+		const page = await api.getTransactionsByAddress(address, PAGE_SIZE, offset, altAddress || undefined)
+		const txs = page.data ?? []
+		total = page.pagination?.total ?? total
+		fetched += txs.length
+
+		for (const tx of txs) {
+			if (!inRange(tx, range)) continue
+			const row = toExportRow(tx, address, altAddress, getDenomDisplay)
+			if (format === 'csv') {
+				parts.push(`${CSV_COLUMNS.map((col) => csvCell(row[col])).join(',')}\n`)
+			} else {
+				parts.push(`${exported > 0 ? ',' : ''}\n  ${JSON.stringify(row)}`)
+			}
+			exported++
+		}
+
+		onProgress?.({ fetched, exported, total })
+
+		const reachedStart = txs.length > 0 && isBeforeRange(txs[txs.length - 1], range)
+		if (txs.length < PAGE_SIZE || !page.pagination?.has_next || reachedStart) break
+		offset += PAGE_SIZE
+		await yieldToBrowser()
+	}
+
+	if (format === 'json') parts.push(exported > 0 ? '\n]\n' : ']\n')
+	return new Blob(parts, { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' })
+}
+
+/**
+ * Trigger a browser download for a generated file
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+	const url = URL.createObjectURL(blob)
+	const link = document.createElement('a')
+	link.href = url
+	link.download = filename
+	document.body.appendChild(link)
+	link.click()
+	link.remove()
+	// Revoking synchronously can cancel the download in some browsers
+	setTimeout(() => URL.revokeObjectURL(url), 1_000)
+}
@@ -84,6 +84,14 @@ export function validatorToCosmosAddress(valoperAddress: string): string {
 	return bech32.encode(walletPrefix, decoded.words)
 }
 
+/**
+ * Convert a hex consensus address (as stored by the indexer) to bech32 valcons format
+ */
+export function consensusHexToBech32(hex: string, prefix = DEFAULT_PREFIX): string {
+	const words = bech32.toWords(hexToBytes(hex.replace(/^0x/, '')))
+	return bech32.encode(`${prefix}valcons`, words)
+}
+
 /**
  * Detect address type and return normalized info
  */
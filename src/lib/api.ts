@@ -144,15 +144,48 @@ export interface BlockRaw {
 				txs: string[]
 			}
 			last_commit?: {
+				height?: string
+				// Round in which the previous block was committed
+				round?: number | string
 				signatures: Array<{
 					validator_address: string
 					signature: string
+					// Enum name from the indexer ("BLOCK_ID_FLAG_COMMIT"), number from CometBFT RPC
+					block_id_flag?: string | number
+					timestamp?: string
 				}>
 			}
+			evidence?: {
+				evidence?: RawBlockEvidence[] | null
+			}
 		}
 	}
 }
 
+interface RawEvidenceVote {
+	height?: string
+	round?: number | string
+	validator_address?: string
+	timestamp?: string
+}
+
+export interface RawBlockEvidence {
+	duplicate_vote_evidence?: {
+		vote_a?: RawEvidenceVote
+		vote_b?: RawEvidenceVote
+		total_voting_power?: string
+		validator_power?: string
+		timestamp?: string
+	}
+	light_client_attack_evidence?: {
+		conflicting_block?: { signed_header?: { header?: { height?: string } } }
+		common_height?: string
+		byzantine_validators?: Array<{ address?: string; voting_power?: string }>
+		total_voting_power?: string
+		timestamp?: string
+	}
+}
+
 // Republic module types
 
 export interface ComputeJob {
@@ -205,6 +238,46 @@ export interface ComputeStats {
 	completed_benchmarks: number
 }
 
+export interface ComputeLifecycleTx {
+	tx_hash: string
+	height: number
+	timestamp: string
+	sender: string | null
+}
+
+export interface ComputeJobLifecycle {
+	committee: ComputeLifecycleTx | null
+	seed: ComputeLifecycleTx | null
+}
+
+export interface ComputeMisconductEvidence {
+	tx_hash: string
+	height: number
+	timestamp: string
+	submitter: string | null
+	evidence: Record<string, unknown> | null
+}
+
+export interface ValidatorComputeDay {
+	date: string
+	completed: number
+	failed: number
+	success_rate: number | null
+}
+
+export interface ValidatorComputeProfile {
+	jobs: ComputeJob[]
+	benchmarks: ComputeBenchmark[]
+	total_jobs: number
+	completed_jobs: number
+	failed_jobs: number
+	pending_jobs: number
+	success_rate: number | null
+	avg_completion_blocks: number | null
+	daily: ValidatorComputeDay[]
+	evidence: ComputeMisconductEvidence[]
+}
+
 export interface ValidatorIPFS {
 	validator_address: string
 	ipfs_multiaddrs: string[] | null
@@ -266,6 +339,37 @@ export interface DelegationEvent {
 	created_at: string
 }
 
+/** Amounts are base-unit integers as strings */
+export interface UnbondingQueueSummary {
+	entries: Array<{
+		id: number
+		kind: 'unbonding' | 'redelegation'
+		delegator: string | null
+		validator: string
+		dst_validator: string | null
+		amount: string
+		denom: string | null
+		started_at: string
+		completes_at: string
+		tx_hash: string
+		height: number | null
+	}>
+	entry_count: number
+	daily: Array<{ date: string; unbonding: string; redelegating: string; entries: number }>
+	by_validator: Array<{
+		validator: string
+		moniker: string | null
+		unbonding: string
+		redelegating_out: string
+		redelegating_in: string
+		entries: number
+		next_completion: string | null
+	}>
+	total_unbonding: string
+	total_redelegating: string
+	unbonding_next_7d: string
+}
+
 export interface ValidatorStats {
 	total_validators: number
 	active_validators: number
@@ -419,6 +523,59 @@ export interface BlockSignature {
 	block_time: string | null
 }
 
+export interface MissedBlockDetail {
+	height: number
+	time: string | null
+	/** Proposer consensus address as uppercase hex */
+	proposer_address: string | null
+	proposer_operator_address: string | null
+	proposer_moniker: string | null
+	/** Consensus round the block was committed in, read from the next block's last commit */
+	round: number | null
+}
+
+export type BlockValidator = Pick<
+	Validator,
+	'operator_address' | 'consensus_address' | 'moniker' | 'identity' | 'tokens' | 'voting_power_pct' | 'jailed' | 'status'
+>
+
+export type CommitVoteStatus = 'commit' | 'absent' | 'nil'
+
+export interface BlockCommitSignature {
+	/** Consensus address as uppercase hex, null when the vote carries none (absent) */
+	address: string | null
+	status: CommitVoteStatus
+	timestamp: string | null
+	validator: BlockValidator | null
+	/** Share of the tokens of all resolved validators in the commit, 0-100 */
+	voting_power_share: number | null
+}
+
+export interface BlockEvidenceItem {
+	type: 'duplicate_vote' | 'light_client_attack'
+	/** Height of the misbehaviour (conflicting vote or header) */
+	height: number | null
+	timestamp: string | null
+	total_voting_power: number | null
+	offenders: Array<{
+		/** Consensus address as uppercase hex */
+		address: string | null
+		voting_power: number | null
+		validator: BlockValidator | null
+	}>
+}
+
+export interface BlockConsensus {
+	/** Height signed by the block's last commit, one below the block itself */
+	commit_height: number | null
+	commit_round: number | null
+	/** Proposer consensus address as uppercase hex */
+	proposer_address: string | null
+	proposer: BlockValidator | null
+	signatures: BlockCommitSignature[]
+	evidence: BlockEvidenceItem[]
+}
+
 export interface ValidatorEventSummary {
 	height: number
 	event_type: string
@@ -435,6 +592,206 @@ export interface DailyRewards {
 	validators_earning: number
 }
 
+// Governance types
+
+export type ProposalStatus =
+	| 'PROPOSAL_STATUS_UNSPECIFIED'
+	| 'PROPOSAL_STATUS_DEPOSIT_PERIOD'
+	| 'PROPOSAL_STATUS_VOTING_PERIOD'
+	| 'PROPOSAL_STATUS_PASSED'
+	| 'PROPOSAL_STATUS_REJECTED'
+	| 'PROPOSAL_STATUS_FAILED'
+
+export type VoteOption =
+	| 'VOTE_OPTION_UNSPECIFIED'
+	| 'VOTE_OPTION_YES'
+	| 'VOTE_OPTION_ABSTAIN'
+	| 'VOTE_OPTION_NO'
+	| 'VOTE_OPTION_NO_WITH_VETO'
+
+export interface ProposalTally {
+	yes_count: string
+	abstain_count: string
+	no_count: string
+	no_with_veto_count: string
+}
+
+export interface GovernanceProposal {
+	proposal_id: number
+	title: string | null
+	summary: string | null
+	metadata: string | null
+	status: ProposalStatus
+	proposer: string | null
+	expedited: boolean
+	messages: Array<{ '@type': string; [key: string]: unknown }> | null
+	total_deposit: Array<{ denom: string; amount: string }> | null
+	final_tally: ProposalTally | null
+	submit_time: string | null
+	deposit_end_time: string | null
+	voting_start_time: string | null
+	voting_end_time: string | null
+}
+
+/** The indexed transaction that submitted a proposal */
+export interface ProposalSubmitTx {
+	tx_hash: string
+	height: number | null
+	timestamp: string | null
+	proposer: string | null
+	initial_deposit: Array<{ denom: string; amount: string }>
+}
+
+export interface ProposalVote {
+	voter: string
+	option: VoteOption
+	weighted_options: Array<{ option: VoteOption; weight: string }> | null
+	tx_hash: string
+	height: number | null
+	timestamp: string | null
+}
+
+export interface ProposalDeposit {
+	depositor: string
+	amount: Array<{ denom: string; amount: string }>
+	tx_hash: string
+	height: number | null
+	timestamp: string | null
+}
+
+/** Proposal as returned by the chain's gov v1 REST endpoints */
+interface ChainProposal {
+	id: string
+	messages?: Array<{ '@type': string; [key: string]: unknown }>
+	status: ProposalStatus
+	final_tally_result?: ProposalTally | null
+	submit_time?: string | null
+	deposit_end_time?: string | null
+	total_deposit?: Array<{ denom: string; amount: string }>
+	voting_start_time?: string | null
+	voting_end_time?: string | null
+	metadata?: string
+	title?: string
+	summary?: string
+	proposer?: string
+	expedited?: boolean
+}
+
+export interface GovTallyParams {
+	quorum: string
+	threshold: string
+	veto_threshold: string
+	expedited_threshold?: string
+}
+
+// IBC types
+
+export interface IbcChannel {
+	channel_id: string
+	port_id: string
+	counterparty_channel_id: string | null
+	counterparty_port_id: string | null
+	connection_id: string | null
+	state: string | null
+	ordering: string | null
+	version: string | null
+	updated_at: string
+}
+
+export interface IbcChannelStats {
+	channel_id: string
+	port_id: string
+	packets_sent: number
+	packets_received: number
+	packets_acknowledged: number
+	packets_timed_out: number
+	/** Sent packets that have neither been acknowledged nor timed out */
+	packets_in_flight: number
+	transfer_volume: Array<{ denom: string; amount: string }> | null
+	last_packet_time: string | null
+	last_relay_time: string | null
+}
+
+export type IbcPacketMessageType =
+	| '/ibc.applications.transfer.v1.MsgTransfer'
+	| '/ibc.core.channel.v1.MsgRecvPacket'
+	| '/ibc.core.channel.v1.MsgAcknowledgement'
+	| '/ibc.core.channel.v1.MsgTimeout'
+
+export interface IbcChannelTransaction {
+	tx_hash: string
+	height: number | null
+	timestamp: string | null
+	message_type: IbcPacketMessageType
+	sequence: number | null
+	sender: string | null
+	receiver: string | null
+	denom: string | null
+	amount: string | null
+	signer: string | null
+	error: string | null
+}
+
+// Live delegator state types (chain REST)
+
+export interface DelegatorRewards {
+	rewards: Array<{
+		validator_address: string
+		reward: Array<{ denom: string; amount: string }>
+	}>
+	total: Array<{ denom: string; amount: string }>
+}
+
+export interface UnbondingDelegation {
+	delegator_address: string
+	validator_address: string
+	entries: Array<{
+		creation_height: string
+		completion_time: string
+		initial_balance: string
+		balance: string
+		unbonding_id?: string
+	}>
+}
+
+export interface StakingYieldParams {
+	/** Annual inflation rate, 0-1 */
+	inflation: number
+	/** Share of the bond denom supply that is staked, 0-1 */
+	bonded_ratio: number
+	/** Share of block rewards sent to the community pool, 0-1 */
+	community_tax: number
+	bonded_tokens: string
+	total_supply: string
+}
+
+export interface StakingParams {
+	/** Protobuf duration string, e.g. "1814400s" */
+	unbonding_time: string
+	max_validators: number
+	max_entries: number
+	historical_entries: number
+	bond_denom: string
+	min_commission_rate?: string
+}
+
+export interface Redelegation {
+	redelegation: {
+		delegator_address: string
+		validator_src_address: string
+		validator_dst_address: string
+	}
+	entries: Array<{
+		redelegation_entry: {
+			creation_height: string
+			completion_time: string
+			initial_balance: string
+			shares_dst: string
+		}
+		balance: string
+	}>
+}
+
 // Legacy type aliases for compatibility
 export type EnhancedTransaction = Transaction
 
@@ -444,6 +801,57 @@ export interface YaciClientConfig {
 	baseUrl: string
 }
 
+/**
+ * Normalize a consensus address from a block header to uppercase hex.
+ * The indexer keeps CometBFT's hex form, gRPC-gateway JSON encodes it as base64.
+ */
+function consensusAddressToHex(value: string | undefined): string | null {
+	if (!value) return null
+	if (/^[0-9a-fA-F]{40}$/.test(value)) return value.toUpperCase()
+	try {
+		return Array.from(atob(value), (c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join('').toUpperCase()
+	} catch {
+		return null
+	}
+}
+
+/** Vote status from a commit signature's block ID flag (1 absent, 2 commit, 3 nil) */
+function commitVoteStatus(flag: string | number | undefined, signature: string | null | undefined): CommitVoteStatus {
+	if (flag === 2 || flag === 'BLOCK_ID_FLAG_COMMIT') return 'commit'
+	if (flag === 3 || flag === 'BLOCK_ID_FLAG_NIL') return 'nil'
+	if (flag === 1 || flag === 'BLOCK_ID_FLAG_ABSENT') return 'absent'
+	return signature ? 'commit' : 'absent'
+}
+
+function toNumberOrNull(value: string | number | undefined): number | null {
+	if (value === undefined || value === null || value === '') return null
+	const n = Number(value)
+	return Number.isFinite(n) ? n : null
+}
+
+// Republic message types looked up when assembling compute profiles and job timelines
+const COMPUTE_MISCONDUCT_MSG_TYPE = '/republic.slashingplus.v1.MsgSubmitComputeMisconductEvidence'
+const COMPUTE_COMMITTEE_MSG_TYPE = '/republic.computevalidation.v1.MsgSubmitCommitteeProposal'
+const COMPUTE_SEED_MSG_TYPE = '/republic.computevalidation.v1.MsgSubmitSeed'
+
+// Gov message types, v1 and v1beta1, read to build proposal deposit history and find the submit tx
+const GOV_DEPOSIT_MSG_TYPES = ['/cosmos.gov.v1.MsgDeposit', '/cosmos.gov.v1beta1.MsgDeposit']
+const GOV_SUBMIT_MSG_TYPES = ['/cosmos.gov.v1.MsgSubmitProposal', '/cosmos.gov.v1beta1.MsgSubmitProposal']
+/** Decode ICS-20 packet data (base64 JSON); other applications' packets yield null */
+function decodeTransferPacketData(
+	data: unknown
+): { denom?: string; amount?: string; sender?: string; receiver?: string } | null {
+	if (typeof data !== 'string') return null
+	try {
+		return JSON.parse(atob(data))
+	} catch {
+		return null
+	}
+}
+
+/** Most deposits read for one proposal */
+const MAX_PROPOSAL_DEPOSITS = 500
+
 export class YaciClient {
 	private baseUrl: string
 	private maxRetries = 3
@@ -459,19 +867,33 @@ export class YaciClient {
 
 	private async fetchWithRetry(url: string, init?: RequestInit): Promise<Response> {
 		let lastError: Error | null = null
+		let lastStatus = 0
 		for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-			const res = await fetch(url, init)
+			let res: Response
+			try {
+				res = await fetch(url, init)
+			} catch (error) {
+				// Network failure: serve cached queries until the backend answers again
+				reportBackendUnreachable(`${this.baseUrl}/blocks_raw?select=id&limit=1`)
+				throw error
+			}
 			// HTTP 300 can occur during PostgREST schema cache reload with function overloads
 			// Retry on 300, 502, 503, 504 (transient errors)
-			if (res.ok) return res
+			if (res.ok) {
+				reportBackendReachable()
+				return res
+			}
 			if (![300, 502, 503, 504].includes(res.status)) {
 				throw new Error(`Request failed: ${res.status} ${res.statusText}`)
 			}
 			lastError = new Error(`Request failed: ${res.status} ${res.statusText}`)
+			lastStatus = res.status
 			if (attempt < this.maxRetries - 1) {
 				await new Promise(r => setTimeout(r, this.retryDelay * (attempt + 1)))
 			}
 		}
+		// Gateway errors on every attempt mean PostgREST itself is down
+		if (lastStatus >= 502) reportBackendUnreachable(`${this.baseUrl}/blocks_raw?select=id&limit=1`)
 		throw lastError || new Error('Request failed after retries')
 	}
 
@@ -513,6 +935,47 @@ export class YaciClient {
 		return res.json()
 	}
 
+	/**
+	 * Query one page of a table, with the exact total from PostgREST's Content-Range header
+	 */
+	async queryPage<T>(
+		table: string,
+		params: Record<string, string>,
+		limit: number,
+		offset: number
+	): Promise<PaginatedResponse<T>> {
+		const url = new URL(`${this.baseUrl}/${table}`)
+		Object.entries({ ...params, limit: String(limit), offset: String(offset) }).forEach(([key, value]) => {
+			url.searchParams.set(key, value)
+		})
+
+		const res = await this.fetchWithRetry(url.toString(), {
+			headers: { 'Accept': 'application/json', 'Prefer': 'count=exact' }
+		})
+		const data: T[] = await res.json()
+		const total = parseInt(res.headers.get('Content-Range')?.split('/')[1] ?? '', 10) || offset + data.length
+
+		return {
+			data,
+			pagination: { total, limit, offset, has_next: offset + data.length < total, has_prev: offset > 0 }
+		}
+	}
+
+	/**
+	 * Height, timestamp and error of indexed transactions, keyed by hash
+	 */
+	async getTransactionRefs(
+		txIds: string[]
+	): Promise<Map<string, { height: number | null; timestamp: string | null; error: string | null }>> {
+		const unique = Array.from(new Set(txIds))
+		if (unique.length === 0) return new Map()
+		const rows = await this.query<Array<{ id: string; height: number | null; timestamp: string | null; error: string | null }>>(
+			'transactions_main',
+			{ id: `in.(${unique.join(',')})`, select: 'id,height,timestamp,error' }
+		)
+		return new Map(rows.map(({ id, ...ref }) => [id, ref]))
+	}
+
 	// Address endpoints
 
 	async getTransactionsByAddress(
@@ -897,6 +1360,30 @@ export class YaciClient {
 		})
 	}
 
+	async getEvmToken(address: string): Promise<{
+		address: string
+		name: string | null
+		symbol: string | null
+		decimals: number | null
+		total_supply: string | null
+		type: string | null
+		first_seen_height: number | null
+	} | null> {
+		const result = await this.query<Array<{
+			address: string
+			name: string | null
+			symbol: string | null
+			decimals: number | null
+			total_supply: string | null
+			type: string | null
+			first_seen_height: number | null
+		}>>('evm_tokens', {
+			address: `eq.${address.toLowerCase()}`,
+			limit: '1'
+		})
+		return result[0] || null
+	}
+
 	async getEvmTokenTransfers(
 		limit = 50,
 		offset = 0,
@@ -920,6 +1407,55 @@ export class YaciClient {
 		return this.query('evm_token_transfers', params)
 	}
 
+	/**
+	 * Current holders ranked by balance, replayed from transfers by the get_evm_token_holders RPC.
+	 * ERC-721 values are token IDs, so each NFT transfer moves one unit.
+	 */
+	async getEvmTokenHolders(tokenAddress: string, tokenType: string | null, limit = 50, offset = 0): Promise<{
+		holders: Array<{ address: string; balance: string }>
+		holder_count: number
+		transfer_count: number
+	}> {
+		return this.rpc('get_evm_token_holders', {
+			_token_address: tokenAddress.toLowerCase(),
+			_is_nft: tokenType?.toUpperCase() === 'ERC721',
+			_limit: limit,
+			_offset: offset
+		})
+	}
+
+	/**
+	 * Transfer count and summed value per UTC day over the last `days` days, bucketed server-side
+	 */
+	async getEvmTokenDailyVolume(tokenAddress: string, days = 30): Promise<Array<{
+		date: string
+		count: number
+		volume: string
+	}>> {
+		return this.rpc('get_evm_token_daily_volume', {
+			_token_address: tokenAddress.toLowerCase(),
+			_days: days
+		})
+	}
+
+	/**
+	 * Look up block timestamps for a set of transaction IDs, batched to keep URLs short
+	 */
+	async getTransactionTimestamps(txIds: string[]): Promise<Map<string, string>> {
+		const unique = Array.from(new Set(txIds))
+		const timestamps = new Map<string, string>()
+		for (let i = 0; i < unique.length; i += 100) {
+			const rows = await this.query<Array<{ id: string; timestamp: string | null }>>('transactions_main', {
+				id: `in.(${unique.slice(i, i + 100).join(',')})`,
+				select: 'id,timestamp'
+			})
+			for (const row of rows) {
+				if (row.timestamp) timestamps.set(row.id, row.timestamp)
+			}
+		}
+		return timestamps
+	}
+
 	// Validator endpoints
 
 	async getValidators(limit = 100, offset = 0): Promise<Array<{
@@ -981,6 +1517,17 @@ export class YaciClient {
 		})
 	}
 
+	/**
+	 * In-flight unbondings and redelegations across the validator set, aggregated by the
+	 * get_unbonding_queue RPC with cancelled unbondings netted out. Lists the soonest `limit` entries.
+	 */
+	async getUnbondingQueue(unbondingSeconds: number, limit = 500): Promise<UnbondingQueueSummary> {
+		return this.rpc('get_unbonding_queue', {
+			_unbonding_seconds: Math.round(unbondingSeconds),
+			_limit: limit
+		})
+	}
+
 	async getValidatorStats(): Promise<ValidatorStats> {
 		const result = await this.query<ValidatorStats[]>('validator_stats')
 		return result[0]
@@ -1012,17 +1559,7 @@ export class YaciClient {
 
 	// IBC endpoints
 
-	async getIbcChannels(limit = 50, offset = 0): Promise<Array<{
-		channel_id: string
-		port_id: string
-		counterparty_channel_id: string | null
-		counterparty_port_id: string | null
-		connection_id: string | null
-		state: string | null
-		ordering: string | null
-		version: string | null
-		updated_at: string
-	}>> {
+	async getIbcChannels(limit = 50, offset = 0): Promise<IbcChannel[]> {
 		return this.query('ibc_channels', {
 			order: 'channel_id.asc',
 			limit: String(limit),
@@ -1030,6 +1567,84 @@ export class YaciClient {
 		})
 	}
 
+	async getIbcChannel(channelId: string, portId = 'transfer'): Promise<IbcChannel | null> {
+		const result = await this.query<IbcChannel[]>('ibc_channels', {
+			channel_id: `eq.${channelId}`,
+			port_id: `eq.${portId}`,
+			limit: '1'
+		})
+		return result[0] || null
+	}
+
+	async getIbcChannelStats(channelId?: string, portId?: string): Promise<IbcChannelStats[]> {
+		const params: Record<string, string> = { order: 'channel_id.asc' }
+		if (channelId) params.channel_id = `eq.${channelId}`
+		if (portId) params.port_id = `eq.${portId}`
+		return this.query('ibc_channel_stats', params)
+	}
+
+	/**
+	 * Packet transactions on a channel from indexed IBC messages, optionally of one type.
+	 * The get_ibc_channel_transactions RPC pages them newest first by height; ICS-20
+	 * packet data is decoded here.
+	 */
+	async getIbcChannelTransactions(
+		channelId: string,
+		portId = 'transfer',
+		limit = 20,
+		offset = 0,
+		messageType?: IbcPacketMessageType
+	): Promise<PaginatedResponse<IbcChannelTransaction>> {
+		const page = await this.rpc<PaginatedResponse<{
+			id: string
+			type: IbcPacketMessageType
+			sender: string | null
+			metadata: Record<string, any> | null
+			height: number | null
+			timestamp: string | null
+			error: string | null
+		}>>('get_ibc_channel_transactions', {
+			_channel_id: channelId,
+			_port_id: portId,
+			_message_type: messageType,
+			_limit: limit,
+			_offset: offset
+		})
+
+		const data = page.data.map((msg): IbcChannelTransaction => {
+			const meta = msg.metadata ?? {}
+			const base = {
+				tx_hash: msg.id,
+				height: msg.height,
+				timestamp: msg.timestamp,
+				message_type: msg.type,
+				error: msg.error
+			}
+			if (msg.type === '/ibc.applications.transfer.v1.MsgTransfer') {
+				return {
+					...base,
+					sequence: null,
+					sender: meta.sender ?? msg.sender,
+					receiver: meta.receiver ?? null,
+					denom: meta.token?.denom ?? null,
+					amount: meta.token?.amount ?? null,
+					signer: meta.sender ?? msg.sender
+				}
+			}
+			const packet = decodeTransferPacketData(meta.packet?.data)
+			return {
+				...base,
+				sequence: meta.packet?.sequence != null ? Number(meta.packet.sequence) : null,
+				sender: packet?.sender ?? null,
+				receiver: packet?.receiver ?? null,
+				denom: packet?.denom ?? null,
+				amount: packet?.amount ?? null,
+				signer: meta.signer ?? msg.sender
+			}
+		})
+		return { data, pagination: page.pagination }
+	}
+
 	// Republic module endpoints
 
 	async getComputeJobs(
@@ -1053,12 +1668,13 @@ export class YaciClient {
 	async getComputeBenchmarks(
 		limit = 20,
 		offset = 0,
-		filters?: { status?: string }
+		filters?: { status?: string; validator?: string }
 	): Promise<PaginatedResponse<ComputeBenchmark>> {
 		return this.rpc('get_compute_benchmarks', {
 			_limit: limit,
 			_offset: offset,
-			_status: filters?.status
+			_status: filters?.status,
+			_validator: filters?.validator
 		})
 	}
 
@@ -1073,6 +1689,184 @@ export class YaciClient {
 		})
 	}
 
+	/**
+	 * Find the committee proposal and the target validator's seed submission that
+	 * fall between a job's submission and its result (or a look-ahead window while pending).
+	 * Neither message references the job directly, so these are matched by height: the
+	 * committee step is the earliest proposal weighting the target validator and is
+	 * only approximate. Pages are read oldest first until a match turns up.
+	 */
+	async getComputeJobLifecycle(
+		job: ComputeJob,
+		validatorAccount?: string | null,
+		lookaheadBlocks = 1000
+	): Promise<ComputeJobLifecycle> {
+		if (job.submit_height == null) return { committee: null, seed: null }
+		const range = {
+			block_height_min: job.submit_height,
+			block_height_max: job.result_height ?? job.submit_height + lookaheadBlocks
+		}
+		const validators = new Set([job.target_validator, validatorAccount].filter(Boolean))
+
+		const pageSize = 100
+		const earliest = async (
+			messageType: string,
+			matches: (msg: Message) => boolean
+		): Promise<ComputeLifecycleTx | null> => {
+			const scan = (txs: Transaction[]) => {
+				let found: ComputeLifecycleTx | null = null
+				for (const tx of txs) {
+					const msg = (tx.messages ?? []).find(m => m.type === messageType && matches(m))
+					if (!msg || (found && found.height <= tx.height)) continue
+					found = { tx_hash: tx.id, height: tx.height, timestamp: tx.timestamp, sender: msg.sender }
+				}
+				return found
+			}
+
+			// Rows come newest first, so walk back from the last page towards the first one
+			const first = await this.getTransactions(pageSize, 0, { ...range, message_type: messageType })
+			const total = first.pagination?.total ?? 0
+			for (let offset = Math.floor((total - 1) / pageSize) * pageSize; offset > 0; offset -= pageSize) {
+				const page = await this.getTransactions(pageSize, offset, { ...range, message_type: messageType })
+				const found = scan(page.data ?? [])
+				if (found) return found
+			}
+			return scan(first.data ?? [])
+		}
+
+		const [committee, seed] = await Promise.all([
+			earliest(COMPUTE_COMMITTEE_MSG_TYPE, msg => {
+				const weighted = msg.metadata?.weightedValidators as Array<{ validator?: string }> | undefined
+				return !weighted?.length || weighted.some(wv => !!wv.validator && validators.has(wv.validator))
+			}),
+			earliest(COMPUTE_SEED_MSG_TYPE, msg => {
+				const sender = msg.sender ?? (msg.metadata?.creator as string | undefined)
+				return !!sender && validators.has(sender)
+			})
+		])
+		return { committee, seed }
+	}
+
+	/**
+	 * Read up to `maxItems` rows of a paginated source: the first page reports the
+	 * total, then the remaining pages are requested in parallel
+	 */
+	private async collectPages<T>(
+		fetchPage: (limit: number, offset: number) => Promise<PaginatedResponse<T>>,
+		maxItems: number,
+		pageSize = 100
+	): Promise<T[]> {
+		const first = await fetchPage(Math.min(pageSize, maxItems), 0)
+		const rows = [...(first.data ?? [])]
+		if (!first.pagination?.has_next) return rows
+
+		const end = Math.min(first.pagination.total, maxItems)
+		const offsets: number[] = []
+		for (let offset = pageSize; offset < end; offset += pageSize) offsets.push(offset)
+		const pages = await Promise.all(offsets.map(offset => fetchPage(Math.min(pageSize, end - offset), offset)))
+		for (const page of pages) rows.push(...(page.data ?? []))
+		return rows
+	}
+
+	/**
+	 * Compute-misconduct evidence filed against any of the given addresses, from successful txs
+	 */
+	private async getComputeMisconductEvidencePage(
+		targets: string[],
+		limit: number,
+		offset: number
+	): Promise<PaginatedResponse<ComputeMisconductEvidence>> {
+		const list = targets.join(',')
+		const page = await this.queryPage<{ id: string; sender: string | null; metadata: Record<string, any> | null }>(
+			'messages_main',
+			{
+				select: 'id,sender,metadata',
+				type: `eq.${COMPUTE_MISCONDUCT_MSG_TYPE}`,
+				or: `(metadata->>validatorAddress.in.(${list}),metadata->>validator_address.in.(${list}),metadata->>validator.in.(${list}))`,
+				order: 'id.desc'
+			},
+			limit,
+			offset
+		)
+		const refs = await this.getTransactionRefs(page.data.map(msg => msg.id))
+
+		const data: ComputeMisconductEvidence[] = []
+		for (const msg of page.data) {
+			const ref = refs.get(msg.id)
+			if (!ref || ref.error || ref.height == null || !ref.timestamp) continue
+			data.push({
+				tx_hash: msg.id,
+				height: ref.height,
+				timestamp: ref.timestamp,
+				submitter: msg.metadata?.submitter ?? msg.sender,
+				evidence: msg.metadata?.evidence ?? null
+			})
+		}
+		return { ...page, data }
+	}
+
+	/**
+	 * Compute track record for one validator: its jobs, the benchmarks it reported,
+	 * a daily success series and any compute-misconduct evidence filed against it.
+	 * Jobs, benchmarks and evidence are filtered by validator on the server and
+	 * aggregated client-side over the most recent `maxItems` of each.
+	 */
+	async getValidatorComputeProfile(
+		operatorAddress: string,
+		accountAddress?: string | null,
+		maxItems = 500
+	): Promise<ValidatorComputeProfile> {
+		const targets = [operatorAddress, accountAddress].filter((a): a is string => !!a)
+
+		const [jobs, benchmarks, evidence] = await Promise.all([
+			this.collectPages((limit, offset) => this.getComputeJobs(limit, offset, { validator: operatorAddress }), maxItems),
+			this.collectPages(
+				(limit, offset) => this.getComputeBenchmarks(limit, offset, { validator: operatorAddress }),
+				maxItems
+			),
+			this.collectPages((limit, offset) => this.getComputeMisconductEvidencePage(targets, limit, offset), maxItems)
+		])
+
+		let completed = 0
+		let failed = 0
+		let blockSum = 0
+		let blockCount = 0
+		const byDay = new Map<string, { completed: number; failed: number }>()
+		for (const job of jobs) {
+			if (job.status === 'PENDING') continue
+			if (job.status === 'COMPLETED') completed++
+			else failed++
+
+			if (job.submit_height != null && job.result_height != null) {
+				blockSum += job.result_height - job.submit_height
+				blockCount++
+			}
+
+			const date = (job.result_time ?? job.submit_time ?? job.created_at).substring(0, 10)
+			const day = byDay.get(date) ?? { completed: 0, failed: 0 }
+			if (job.status === 'COMPLETED') day.completed++
+			else day.failed++
+			byDay.set(date, day)
+		}
+
+		const rate = (ok: number, bad: number) => (ok + bad > 0 ? (ok / (ok + bad)) * 100 : null)
+
+		return {
+			jobs,
+			benchmarks,
+			total_jobs: jobs.length,
+			completed_jobs: completed,
+			failed_jobs: failed,
+			pending_jobs: jobs.length - completed - failed,
+			success_rate: rate(completed, failed),
+			avg_completion_blocks: blockCount > 0 ? blockSum / blockCount : null,
+			daily: Array.from(byDay.entries())
+				.sort(([a], [b]) => a.localeCompare(b))
+				.map(([date, d]) => ({ date, ...d, success_rate: rate(d.completed, d.failed) })),
+			evidence
+		}
+	}
+
 	async getValidatorIPFS(limit = 50, offset = 0): Promise<ValidatorIPFS[]> {
 		return this.query('validator_ipfs_addresses', {
 			order: 'updated_at.desc',
@@ -1200,6 +1994,101 @@ export class YaciClient {
 		})
 	}
 
+	// Governance endpoints
+	// Proposals themselves come from the chain (getProposalsLive); votes and deposits are
+	// pruned from chain state once a proposal ends, so their history is read from indexed messages.
+
+	/**
+	 * The indexed transaction that submitted a proposal: the earliest successful one
+	 * whose proposal_ids include it
+	 */
+	async getProposalSubmitTx(proposalId: number): Promise<ProposalSubmitTx | null> {
+		const [tx] = await this.query<Array<{ id: string; height: number | null; timestamp: string | null }>>(
+			'transactions_main',
+			{
+				select: 'id,height,timestamp',
+				proposal_ids: `cs.{${proposalId}}`,
+				error: 'is.null',
+				order: 'height.asc',
+				limit: '1'
+			}
+		)
+		if (!tx) return null
+
+		const [msg] = await this.query<Array<{ sender: string | null; metadata: Record<string, any> | null }>>('messages_main', {
+			select: 'sender,metadata',
+			id: `eq.${tx.id}`,
+			type: `in.(${GOV_SUBMIT_MSG_TYPES.join(',')})`,
+			limit: '1'
+		})
+		return {
+			tx_hash: tx.id,
+			height: tx.height,
+			timestamp: tx.timestamp,
+			proposer: msg?.metadata?.proposer ?? msg?.sender ?? null,
+			initial_deposit: msg?.metadata?.initialDeposit ?? []
+		}
+	}
+
+	/**
+	 * Votes on a proposal from the get_proposal_votes RPC: each voter's latest vote from a
+	 * successful tx, newest first. Weighted votes are listed under their heaviest option,
+	 * which is also what the option filter matches.
+	 */
+	async getProposalVotes(
+		proposalId: number,
+		limit = 50,
+		offset = 0,
+		option?: VoteOption
+	): Promise<PaginatedResponse<ProposalVote>> {
+		return this.rpc('get_proposal_votes', {
+			_proposal_id: proposalId,
+			_option: option,
+			_limit: limit,
+			_offset: offset
+		})
+	}
+
+	/**
+	 * Deposits on a proposal from indexed MsgDeposit messages plus the initial deposit
+	 * of its submit transaction, newest first
+	 */
+	async getProposalDeposits(proposalId: number): Promise<ProposalDeposit[]> {
+		const [messages, submit] = await Promise.all([
+			this.query<Array<{ id: string; sender: string | null; metadata: Record<string, any> | null }>>('messages_main', {
+				select: 'id,sender,metadata',
+				type: `in.(${GOV_DEPOSIT_MSG_TYPES.join(',')})`,
+				'metadata->>proposalId': `eq.${proposalId}`,
+				limit: String(MAX_PROPOSAL_DEPOSITS)
+			}),
+			this.getProposalSubmitTx(proposalId)
+		])
+		const refs = await this.getTransactionRefs(messages.map(msg => msg.id))
+
+		const deposits: ProposalDeposit[] = []
+		for (const msg of messages) {
+			const ref = refs.get(msg.id)
+			if (ref?.error) continue
+			deposits.push({
+				depositor: msg.metadata?.depositor ?? msg.sender ?? '',
+				amount: msg.metadata?.amount ?? [],
+				tx_hash: msg.id,
+				height: ref?.height ?? null,
+				timestamp: ref?.timestamp ?? null
+			})
+		}
+		if (submit && submit.initial_deposit.length > 0) {
+			deposits.push({
+				depositor: submit.proposer ?? '',
+				amount: submit.initial_deposit,
+				tx_hash: submit.tx_hash,
+				height: submit.height,
+				timestamp: submit.timestamp
+			})
+		}
+		return deposits.sort((a, b) => (b.height ?? 0) - (a.height ?? 0))
+	}
+
 	/**
 	 * Get signing stats for a specific validator (from indexed block signatures)
 	 */
@@ -1247,6 +2136,140 @@ export class YaciClient {
 		})
 	}
 
+	/**
+	 * Get the heights a validator missed at or above fromHeight (for the signing window heatmap)
+	 */
+	async getValidatorMissedHeights(consensusAddress: string, fromHeight: number, limit = 10000): Promise<number[]> {
+		const rows = await this.query<Array<{ height: number }>>('validator_block_signatures', {
+			select: 'height',
+			consensus_address: `eq.${consensusAddress.toUpperCase()}`,
+			signed: 'eq.false',
+			height: `gte.${fromHeight}`,
+			order: 'height.asc',
+			limit: String(limit)
+		})
+		return rows.map((r) => r.height)
+	}
+
+	/**
+	 * Get the lowest indexed signature height for a validator at or above fromHeight,
+	 * so blocks before it can be shown as not indexed rather than signed
+	 */
+	async getValidatorFirstSignatureHeight(consensusAddress: string, fromHeight: number): Promise<number | null> {
+		const rows = await this.query<Array<{ height: number }>>('validator_block_signatures', {
+			select: 'height',
+			consensus_address: `eq.${consensusAddress.toUpperCase()}`,
+			height: `gte.${fromHeight}`,
+			order: 'height.asc',
+			limit: '1'
+		})
+		return rows[0]?.height ?? null
+	}
+
+	/**
+	 * Get the proposer and commit round of a block, for missed-block drilldowns
+	 */
+	async getMissedBlockDetail(height: number): Promise<MissedBlockDetail> {
+		const [block, next] = await Promise.all([this.getBlock(height), this.getBlock(height + 1)])
+		const header = block?.data?.block?.header
+		const proposer = consensusAddressToHex(header?.proposer_address || header?.proposerAddress)
+
+		let proposerValidator: { operator_address: string; moniker: string | null } | undefined
+		if (proposer) {
+			const rows = await this.query<Array<{ operator_address: string; moniker: string | null }>>('validators', {
+				select: 'operator_address,moniker',
+				consensus_address: `ilike.${proposer}`,
+				limit: '1'
+			})
+			proposerValidator = rows[0]
+		}
+
+		const round = next?.data?.block?.last_commit?.round
+		return {
+			height,
+			time: header?.time ?? null,
+			proposer_address: proposer,
+			proposer_operator_address: proposerValidator?.operator_address ?? null,
+			proposer_moniker: proposerValidator?.moniker ?? null,
+			round: round === undefined || round === null ? null : Number(round)
+		}
+	}
+
+	/**
+	 * Resolve a block's proposer, last commit signatures and evidence against the validator list
+	 */
+	async getBlockConsensus(block: BlockRaw): Promise<BlockConsensus> {
+		const inner = block.data?.block
+		const header = inner?.header
+		const commit = inner?.last_commit
+
+		const validators = await this.query<BlockValidator[]>('validators', {
+			select: 'operator_address,consensus_address,moniker,identity,tokens,voting_power_pct,jailed,status',
+			consensus_address: 'not.is.null',
+			limit: '1000'
+		})
+		const byAddress = new Map<string, BlockValidator>()
+		for (const v of validators) {
+			const hex = consensusAddressToHex(v.consensus_address ?? undefined)
+			if (hex) byAddress.set(hex, v)
+		}
+		const resolve = (address: string | null) => (address ? (byAddress.get(address) ?? null) : null)
+
+		const signatures: BlockCommitSignature[] = (commit?.signatures ?? []).map((sig) => {
+			const address = consensusAddressToHex(sig.validator_address)
+			return {
+				address,
+				status: commitVoteStatus(sig.block_id_flag, sig.signature),
+				timestamp: sig.timestamp && !sig.timestamp.startsWith('0001-01-01') ? sig.timestamp : null,
+				validator: resolve(address),
+				voting_power_share: null
+			}
+		})
+		const totalTokens = signatures.reduce((sum, sig) => sum + (sig.validator?.tokens ?? 0), 0)
+		if (totalTokens > 0) {
+			for (const sig of signatures) {
+				if (sig.validator?.tokens != null) sig.voting_power_share = (sig.validator.tokens / totalTokens) * 100
+			}
+		}
+
+		const evidence: BlockEvidenceItem[] = []
+		for (const item of inner?.evidence?.evidence ?? []) {
+			const dup = item.duplicate_vote_evidence
+			const lca = item.light_client_attack_evidence
+			if (dup) {
+				const address = consensusAddressToHex(dup.vote_a?.validator_address ?? dup.vote_b?.validator_address)
+				evidence.push({
+					type: 'duplicate_vote',
+					height: toNumberOrNull(dup.vote_a?.height ?? dup.vote_b?.height),
+					timestamp: dup.timestamp ?? null,
+					total_voting_power: toNumberOrNull(dup.total_voting_power),
+					offenders: [{ address, voting_power: toNumberOrNull(dup.validator_power), validator: resolve(address) }]
+				})
+			} else if (lca) {
+				evidence.push({
+					type: 'light_client_attack',
+					height: toNumberOrNull(lca.conflicting_block?.signed_header?.header?.height ?? lca.common_height),
+					timestamp: lca.timestamp ?? null,
+					total_voting_power: toNumberOrNull(lca.total_voting_power),
+					offenders: (lca.byzantine_validators ?? []).map((v) => {
+						const address = consensusAddressToHex(v.address)
+						return { address, voting_power: toNumberOrNull(v.voting_power), validator: resolve(address) }
+					})
+				})
+			}
+		}
+
+		const proposerAddress = consensusAddressToHex(header?.proposer_address || header?.proposerAddress)
+		return {
+			commit_height: toNumberOrNull(commit?.height),
+			commit_round: toNumberOrNull(commit?.round),
+			proposer_address: proposerAddress,
+			proposer: resolve(proposerAddress),
+			signatures,
+			evidence
+		}
+	}
+
 }
 
 /**
@@ -1309,11 +2332,251 @@ export async function getSlashingParams(): Promise<SlashingParams | null> {
 	}
 }
 
-import { getConfig } from './env'
+/**
+ * GET a path on the chain REST endpoint (config.chainRestEndpoint) with a 5s timeout.
+ * Returns null when the endpoint is not configured or the resource does not exist (404),
+ * and throws on any other failure so callers can surface it.
+ */
+async function fetchChainRest<T>(path: string, label: string): Promise<T | null> {
+	const restEndpoint = getConfig().chainRestEndpoint
+	if (!restEndpoint) return null
+
+	const controller = new AbortController()
+	const timeoutId = setTimeout(() => controller.abort(), 5000)
+
+	try {
+		const response = await fetch(`${restEndpoint}${path}`, {
+			signal: controller.signal
+		})
+		if (response.status === 404) return null
+		if (!response.ok) {
+			throw new Error(`Failed to fetch ${label}: ${response.status} ${response.statusText}`)
+		}
+		return await response.json()
+	} catch (err) {
+		if (err instanceof Error && err.name === 'AbortError') {
+			throw new Error(`Failed to fetch ${label}: request timed out`)
+		}
+		throw err
+	} finally {
+		clearTimeout(timeoutId)
+	}
+}
+
+/** Unset timestamps come back from the chain as the zero time */
+function chainTime(value: string | null | undefined): string | null {
+	return value && !value.startsWith('0001-01-01') ? value : null
+}
+
+function toGovernanceProposal(proposal: ChainProposal): GovernanceProposal {
+	return {
+		proposal_id: Number(proposal.id),
+		title: proposal.title || null,
+		summary: proposal.summary || null,
+		metadata: proposal.metadata || null,
+		status: proposal.status,
+		proposer: proposal.proposer || null,
+		expedited: proposal.expedited ?? false,
+		messages: proposal.messages ?? null,
+		total_deposit: proposal.total_deposit ?? null,
+		final_tally: proposal.final_tally_result ?? null,
+		submit_time: chainTime(proposal.submit_time),
+		deposit_end_time: chainTime(proposal.deposit_end_time),
+		voting_start_time: chainTime(proposal.voting_start_time),
+		voting_end_time: chainTime(proposal.voting_end_time)
+	}
+}
 
-// Singleton instance
-const baseUrl = getConfig().apiUrl
-export const api = new YaciClient({ baseUrl })
+/**
+ * Get a page of proposals, newest first, from the chain's gov v1 REST endpoint
+ */
+export async function getProposalsLive(
+	limit = 20,
+	offset = 0,
+	status?: ProposalStatus
+): Promise<PaginatedResponse<GovernanceProposal>> {
+	const params = new URLSearchParams({
+		'pagination.limit': String(limit),
+		'pagination.offset': String(offset),
+		'pagination.count_total': 'true',
+		'pagination.reverse': 'true'
+	})
+	if (status) params.set('proposal_status', status)
+
+	const data = await fetchChainRest<{ proposals?: ChainProposal[]; pagination?: { total?: string } }>(
+		`/cosmos/gov/v1/proposals?${params}`,
+		'proposals'
+	)
+	if (!data) throw new Error('Proposals are unavailable: no chain REST endpoint is configured')
+
+	const proposals = (data.proposals ?? []).map(toGovernanceProposal)
+	const total = Number(data.pagination?.total) || offset + proposals.length
+	return {
+		data: proposals,
+		pagination: { total, limit, offset, has_next: offset + proposals.length < total, has_prev: offset > 0 }
+	}
+}
+
+/**
+ * Get a single proposal from the chain's gov v1 REST endpoint
+ */
+export async function getProposalLive(proposalId: number): Promise<GovernanceProposal> {
+	const data = await fetchChainRest<{ proposal?: ChainProposal }>(`/cosmos/gov/v1/proposals/${proposalId}`, 'proposal')
+	if (!data?.proposal) throw new Error(`Failed to fetch proposal ${proposalId} from the chain REST endpoint`)
+	return toGovernanceProposal(data.proposal)
+}
+
+/**
+ * Get the live tally for a proposal from the chain REST endpoint
+ */
+export async function getProposalTallyLive(proposalId: number): Promise<ProposalTally | null> {
+	const data = await fetchChainRest<{ tally?: ProposalTally }>(
+		`/cosmos/gov/v1/proposals/${proposalId}/tally`,
+		'proposal tally'
+	)
+	return data?.tally || null
+}
+
+/**
+ * Get gov tallying params (quorum, threshold, veto threshold) and the bonded
+ * token pool they are measured against from the chain REST endpoint
+ */
+export async function getGovTallyParams(): Promise<{ params: GovTallyParams; bondedTokens: string } | null> {
+	const [paramsData, poolData] = await Promise.all([
+		fetchChainRest<{ params?: GovTallyParams; tally_params?: GovTallyParams }>(
+			'/cosmos/gov/v1/params/tallying',
+			'tally params'
+		),
+		fetchChainRest<{ pool?: { bonded_tokens: string } }>('/cosmos/staking/v1beta1/pool', 'staking pool')
+	])
+	// v1 returns both `params` and the deprecated `tally_params`
+	const params = paramsData?.params || paramsData?.tally_params
+	if (!params) return null
+
+	return {
+		params: {
+			quorum: params.quorum,
+			threshold: params.threshold,
+			veto_threshold: params.veto_threshold,
+			expedited_threshold: params.expedited_threshold
+		},
+		bondedTokens: poolData?.pool?.bonded_tokens || '0'
+	}
+}
+
+/**
+ * Get pending staking rewards per validator for a delegator from the chain REST endpoint
+ */
+export async function getDelegatorRewardsLive(delegatorAddress: string): Promise<DelegatorRewards | null> {
+	return fetchChainRest<DelegatorRewards>(
+		`/cosmos/distribution/v1beta1/delegators/${delegatorAddress}/rewards`,
+		'delegator rewards'
+	)
+}
+
+/**
+ * Get in-progress unbonding delegations for a delegator from the chain REST endpoint
+ */
+export async function getDelegatorUnbondingsLive(delegatorAddress: string): Promise<UnbondingDelegation[]> {
+	const data = await fetchChainRest<{ unbonding_responses?: UnbondingDelegation[] }>(
+		`/cosmos/staking/v1beta1/delegators/${delegatorAddress}/unbonding_delegations`,
+		'unbonding delegations'
+	)
+	return data?.unbonding_responses || []
+}
+
+/**
+ * Get staking module params (bond denom, unbonding time) from the chain REST endpoint
+ */
+export async function getStakingParamsLive(): Promise<StakingParams | null> {
+	const data = await fetchChainRest<{ params?: StakingParams }>('/cosmos/staking/v1beta1/params', 'staking params')
+	return data?.params || null
+}
+
+/**
+ * Get in-progress redelegations for a delegator from the chain REST endpoint
+ */
+export async function getDelegatorRedelegationsLive(delegatorAddress: string): Promise<Redelegation[]> {
+	const data = await fetchChainRest<{ redelegation_responses?: Redelegation[] }>(
+		`/cosmos/staking/v1beta1/delegators/${delegatorAddress}/redelegations`,
+		'redelegations'
+	)
+	return data?.redelegation_responses || []
+}
+
+/**
+ * Get the amount a validator has delegated to itself from its own account,
+ * from the chain REST endpoint
+ */
+export async function getValidatorSelfDelegationLive(
+	operatorAddress: string,
+	accountAddress: string
+): Promise<{ denom: string; amount: string } | null> {
+	const data = await fetchChainRest<{ delegation_response?: { balance?: { denom: string; amount: string } } }>(
+		`/cosmos/staking/v1beta1/validators/${operatorAddress}/delegations/${accountAddress}`,
+		'self-delegation'
+	)
+	return data?.delegation_response?.balance || null
+}
+
+/**
+ * Get the inputs for staking yield estimates (inflation, bonded ratio, community tax)
+ * from the chain REST endpoint. Returns null when any of them is unavailable.
+ */
+export async function getStakingYieldParamsLive(): Promise<StakingYieldParams | null> {
+	const [inflationData, poolData, distributionData, stakingParams] = await Promise.all([
+		fetchChainRest<{ inflation?: string }>('/cosmos/mint/v1beta1/inflation', 'inflation'),
+		fetchChainRest<{ pool?: { bonded_tokens: string } }>('/cosmos/staking/v1beta1/pool', 'staking pool'),
+		fetchChainRest<{ params?: { community_tax?: string } }>('/cosmos/distribution/v1beta1/params', 'distribution params'),
+		getStakingParamsLive()
+	])
+	if (!inflationData?.inflation || !poolData?.pool || !stakingParams?.bond_denom) return null
+
+	const supplyData = await fetchChainRest<{ amount?: { amount: string } }>(
+		`/cosmos/bank/v1beta1/supply/by_denom?denom=${encodeURIComponent(stakingParams.bond_denom)}`,
+		'bond denom supply'
+	)
+	const totalSupply = supplyData?.amount?.amount
+	if (!totalSupply || Number(totalSupply) === 0) return null
+
+	return {
+		inflation: Number(inflationData.inflation),
+		bonded_ratio: Number(poolData.pool.bonded_tokens) / Number(totalSupply),
+		community_tax: Number(distributionData?.params?.community_tax ?? 0),
+		bonded_tokens: poolData.pool.bonded_tokens,
+		total_supply: totalSupply
+	}
+}
+
+import { reportBackendReachable, reportBackendUnreachable } from './backend-status'
+import { getActiveNetworkId, getConfig, subscribeNetwork } from './env'
+
+// One client per network, created on first use
+const clients = new Map<string, YaciClient>()
+
+/**
+ * Client for the active network's indexer
+ */
+export function getYaciClient(): YaciClient {
+	const networkId = getActiveNetworkId()
+	const baseUrl = getConfig().apiUrl.replace(/\/$/, '')
+	let client = clients.get(networkId)
+	// The config may have loaded since the client was created
+	if (!client || client.getBaseUrl() !== baseUrl) {
+		client = new YaciClient({ baseUrl })
+		clients.set(networkId, client)
+	}
+	return client
+}
+
+/**
+ * Client for the active network. Rebound whenever the network changes, so
+ * imports of `api` always query the indexer of the network being browsed.
+ */
+export let api = getYaciClient()
+subscribeNetwork(() => {
+	api = getYaciClient()
+})
 
 // Chain query types
 export interface TokenBalance {
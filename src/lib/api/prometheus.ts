@@ -21,7 +21,7 @@ export interface ParsedMetrics {
 /**
  * Parse Prometheus text format into structured data
  */
-function _parsePrometheusText(text: string): ParsedMetrics {
+export function parsePrometheusText(text: string): ParsedMetrics {
   const lines = text.split('\n')
   const metrics: ParsedMetrics = {}
   let currentMetric: Partial<PrometheusMetric> = {}
@@ -35,6 +35,10 @@ function _parsePrometheusText(text: string): ParsedMetrics {
     if (line.startsWith('# HELP ')) {
       const match = line.match(/# HELP (\S+) (.+)/)
       if (match) {
+        // Save the previous metric before starting a new family
+        if (currentMetric.name && currentMetric.values?.length) {
+          metrics[currentMetric.name] = currentMetric as PrometheusMetric
+        }
         currentName = match[1]
         currentMetric = {
           name: currentName,
@@ -104,19 +108,20 @@ function _parsePrometheusText(text: string): ParsedMetrics {
 
 /**
  * Fetch all metrics from Prometheus endpoint
- * Note: Prometheus endpoint should be proxied through Caddy/nginx for HTTPS
- * For now, we disable browser-based Prometheus fetching to avoid mixed content errors
+ * Note: browsers block plain-http endpoints from an https page, so exporters
+ * should be proxied through Caddy/nginx with TLS and CORS enabled
  */
 export async function fetchPrometheusMetrics(
-  _endpoint?: string
+  endpoint?: string
 ): Promise<ParsedMetrics> {
-  // Disable Prometheus fetching from browser to avoid mixed content errors
-  // Metrics should be fetched server-side or through a proper HTTPS proxy
-  throw new Error('Prometheus metrics fetching disabled - requires HTTPS endpoint')
+  if (!endpoint) {
+    throw new Error('Prometheus endpoint is not configured')
+  }
+  if (window.location.protocol === 'https:' && endpoint.startsWith('http:')) {
+    throw new Error('Prometheus endpoint must use HTTPS when the explorer is served over HTTPS')
+  }
 
-  // Keeping this code commented for future HTTPS implementation
-  /*
-  const response = await fetch(endpoint!, {
+  const response = await fetch(endpoint, {
     cache: 'no-store',
   })
 
@@ -126,7 +131,6 @@ export async function fetchPrometheusMetrics(
 
   const text = await response.text()
   return parsePrometheusText(text)
-  */
 }
 
 /**
@@ -216,11 +220,9 @@ export async function getSummaryQuantiles(
 }
 
 /**
- * Network Health Metrics - Convenience functions
+ * Network health values from an already-fetched scrape
  */
-export async function getNetworkHealth(endpoint?: string) {
-  const metrics = await fetchPrometheusMetrics(endpoint)
-
+export function networkHealthFromMetrics(metrics: ParsedMetrics) {
   return {
     // Consensus metrics
     validators: metrics.cometbft_consensus_validators?.values[0]?.value ?? 0,
@@ -249,19 +251,23 @@ export async function getNetworkHealth(endpoint?: string) {
   }
 }
 
+export type NetworkHealth = ReturnType<typeof networkHealthFromMetrics>
+
+export const ABCI_TIMED_METHODS = ['check_tx', 'finalize_block', 'commit'] as const
+
+export type ABCITiming = Partial<Record<(typeof ABCI_TIMED_METHODS)[number], Array<{ le: string; count: number }>>>
+
 /**
- * Get ABCI method timing statistics
+ * ABCI method timing histograms from an already-fetched scrape
  */
-export async function getABCITiming(endpoint?: string) {
-  const metrics = await fetchPrometheusMetrics(endpoint)
+export function abciTimingFromMetrics(metrics: ParsedMetrics): ABCITiming {
   const timingMetric = metrics.cometbft_abci_connection_method_timing_bucket
 
   if (!timingMetric) return {}
 
-  const methods = ['check_tx', 'finalize_block', 'commit']
-  const result: Record<string, Array<{ le: string; count: number }>> = {}
+  const result: ABCITiming = {}
 
-  for (const method of methods) {
+  for (const method of ABCI_TIMED_METHODS) {
     result[method] = timingMetric.values
       .filter((v) => v.labels.method === method)
       .map((v) => ({
@@ -277,3 +283,28 @@ export async function getABCITiming(endpoint?: string) {
 
   return result
 }
+
+/**
+ * Network Health Metrics - Convenience functions
+ */
+export async function getNetworkHealth(endpoint?: string): Promise<NetworkHealth> {
+  return networkHealthFromMetrics(await fetchPrometheusMetrics(endpoint))
+}
+
+/**
+ * Get ABCI method timing statistics
+ */
+export async function getABCITiming(endpoint?: string): Promise<ABCITiming> {
+  return abciTimingFromMetrics(await fetchPrometheusMetrics(endpoint))
+}
+
+/**
+ * Fetch health and ABCI timing from a single scrape
+ */
+export async function getNodeHealth(endpoint: string): Promise<{ health: NetworkHealth; abciTiming: ABCITiming }> {
+  const metrics = await fetchPrometheusMetrics(endpoint)
+  return {
+    health: networkHealthFromMetrics(metrics),
+    abciTiming: abciTimingFromMetrics(metrics),
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Indexer backend reachability
+ * The API client reports network failures and successes here so the offline banner
+ * can explain why data is stale. Queries are left alone: failing ones reach their
+ * error state and keep any cached (possibly persisted) data, while a probe detects
+ * when the backend answers again.
+ */
+
+const PROBE_INTERVAL_MS = 15_000
+
+let reachable = true
+let unreachableSince: number | null = null
+let probeTimer: ReturnType<typeof setInterval> | null = null
+const listeners = new Set<() => void>()
+
+function notify() {
+	for (const listener of listeners) listener()
+}
+
+function stopProbe() {
+	if (probeTimer) {
+		clearInterval(probeTimer)
+		probeTimer = null
+	}
+}
+
+/**
+ * Mark the backend unreachable and poll probeUrl until it answers again
+ */
+export function reportBackendUnreachable(probeUrl: string) {
+	if (!reachable) return
+	reachable = false
+	unreachableSince = Date.now()
+	notify()
+
+	stopProbe()
+	probeTimer = setInterval(async () => {
+		try {
+			const res = await fetch(probeUrl, { headers: { Accept: 'application/json' }, cache: 'no-store' })
+			if (res.ok) reportBackendReachable()
+		} catch {
+			// Still unreachable
+		}
+	}, PROBE_INTERVAL_MS)
+}
+
+/**
+ * Mark the backend reachable and hide the banner
+ */
+export function reportBackendReachable() {
+	if (reachable) return
+	reachable = true
+	unreachableSince = null
+	stopProbe()
+	notify()
+}
+
+export function isBackendReachable(): boolean {
+	return reachable
+}
+
+/** When the backend was first seen unreachable, null while reachable */
+export function getBackendUnreachableSince(): number | null {
+	return unreachableSince
+}
+
+/**
+ * Subscribe to reachability changes; returns an unsubscribe function
+ */
+export function subscribeBackendStatus(listener: () => void): () => void {
+	listeners.add(listener)
+	return () => {
+		listeners.delete(listener)
+	}
+}
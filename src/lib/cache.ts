@@ -1,3 +1,5 @@
+import { getActiveNetworkId } from './env'
+
 type CacheEntry<T> = {
   data: T
   ts: number
@@ -6,27 +8,29 @@ type CacheEntry<T> = {
 /**
  * Simple TTL cache for client-side fetch helpers.
  * Avoids refetching the same resource within the TTL window.
+ * Keys are scoped to the active network.
  */
 export function createTTLCache(ttlMs: number) {
   const store = new Map<string, CacheEntry<unknown>>()
+  const scoped = (key: string) => `${getActiveNetworkId()}:${key}`
 
   function get<T>(key: string): T | null {
-    const entry = store.get(key)
+    const entry = store.get(scoped(key))
     if (!entry) return null
     if (Date.now() - entry.ts > ttlMs) {
-      store.delete(key)
+      store.delete(scoped(key))
       return null
     }
     return entry.data as T
   }
 
   function set<T>(key: string, data: T) {
-    store.set(key, { data, ts: Date.now() })
+    store.set(scoped(key), { data, ts: Date.now() })
   }
 
   function clear(key?: string) {
     if (key) {
-      store.delete(key)
+      store.delete(scoped(key))
       return
     }
     store.clear()
@@ -53,6 +53,7 @@ export const REPUBLIC_CHAIN_CONFIG = {
 		delegate: 500_000n,
 		undelegate: 500_000n,
 		redelegate: 500_000n,
+		cancelUnbonding: 500_000n,
 		claimRewards: 300_000n,
 		setWithdrawAddress: 200_000n,
 	},
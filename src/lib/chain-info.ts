@@ -2,6 +2,7 @@
 
 import type { YaciClient } from '@/lib/api'
 import { getChainConfig, type ChainFeatures } from '@/config/chains'
+import { getActiveNetwork, getActiveNetworkId } from '@/lib/env'
 
 export interface ChainInfo {
   chainId: string
@@ -13,7 +14,8 @@ export interface ChainInfo {
   bech32Prefix: string
 }
 
-let cachedChainInfo: ChainInfo | null = null
+// Detected chain info per network id
+const chainInfoCache = new Map<string, ChainInfo>()
 
 /**
  * Detect chain information from actual blockchain data
@@ -21,14 +23,16 @@ let cachedChainInfo: ChainInfo | null = null
  */
 export async function getChainInfo(api: YaciClient): Promise<ChainInfo> {
   // Return cached if available
-  if (cachedChainInfo) {
-    return cachedChainInfo
+  const networkId = getActiveNetworkId()
+  const cached = chainInfoCache.get(networkId)
+  if (cached) {
+    return cached
   }
 
   try {
     // Get latest block to extract chain ID
     const latestBlock = await api.getLatestBlock()
-    const chainId = latestBlock?.data?.block?.header?.chain_id || (latestBlock?.data?.block?.header as any)?.chainId || 'unknown'
+    const chainId = latestBlock?.data?.block?.header?.chain_id || (latestBlock?.data?.block?.header as any)?.chainId || getActiveNetwork()?.chainId || 'unknown'
 
     // Try to get config from registry
     const config = getChainConfig(chainId)
@@ -49,7 +53,7 @@ export async function getChainInfo(api: YaciClient): Promise<ChainInfo> {
     const displayDenom = config.nativeSymbol || autoDetectDisplayDenom(baseDenom)
     const decimals = config.decimals || autoDetectDecimals(baseDenom)
 
-    cachedChainInfo = {
+    const chainInfo: ChainInfo = {
       chainId,
       chainName: config.name,
       baseDenom,
@@ -59,7 +63,8 @@ export async function getChainInfo(api: YaciClient): Promise<ChainInfo> {
       bech32Prefix: config.bech32Prefix || 'cosmos',
     }
 
-    return cachedChainInfo
+    chainInfoCache.set(networkId, chainInfo)
+    return chainInfo
   } catch (error) {
     console.error('Failed to detect chain info:', error)
     // Return defaults if detection fails
@@ -106,33 +111,33 @@ function autoDetectDecimals(baseDenom: string): number {
  * This is a synchronous accessor for use in address conversion utilities.
  */
 export function getBech32Prefix(): string {
-  return cachedChainInfo?.bech32Prefix || 'cosmos'
+  return chainInfoCache.get(getActiveNetworkId())?.bech32Prefix || 'cosmos'
 }
 
 /**
  * Returns the cached native denom decimals, or 6 if chain info hasn't loaded yet.
  */
 export function getChainDecimals(): number {
-  return cachedChainInfo?.decimals ?? 6
+  return chainInfoCache.get(getActiveNetworkId())?.decimals ?? 6
 }
 
 /**
  * Returns the cached base denom (e.g. 'arai'), or 'unknown' if chain info hasn't loaded yet.
  */
 export function getChainBaseDenom(): string {
-  return cachedChainInfo?.baseDenom || 'unknown'
+  return chainInfoCache.get(getActiveNetworkId())?.baseDenom || 'unknown'
 }
 
 /**
  * Returns the cached display denom symbol (e.g. 'RAI'), or 'UNKNOWN' if chain info hasn't loaded yet.
  */
 export function getChainDisplayDenom(): string {
-  return cachedChainInfo?.displayDenom || 'UNKNOWN'
+  return chainInfoCache.get(getActiveNetworkId())?.displayDenom || 'UNKNOWN'
 }
 
 /**
- * Clear cached chain info (useful for testing or chain switches)
+ * Clear cached chain info for the active network (useful for testing)
  */
 export function clearChainInfoCache() {
-  cachedChainInfo = null
+  chainInfoCache.delete(getActiveNetworkId())
 }
@@ -0,0 +1,93 @@
+/**
+ * Chart colors for the echarts components
+ * echarts draws on a canvas, which can't resolve CSS variables, so colors are read
+ * from the document's computed theme variables when a chart renders. That picks up
+ * runtime branding (applyBrandingTheme) as well as the build-time Panda theme.
+ */
+
+export interface ChartTheme {
+	/** Accent scale, index 1-12 like the republicGreen tokens; 7 is the brand color */
+	accent: string[]
+	/** Secondary series color */
+	secondary: string
+	/** Colors for multi-series charts, in order */
+	series: string[]
+	axisLabel: string
+	border: string
+	background: string
+	foreground: string
+	danger: string
+	warning: string
+	tooltip: {
+		backgroundColor: string
+		borderColor: string
+		textStyle: { color: string }
+	}
+}
+
+// Build-time theme values, used before styles load
+const DEFAULT_ACCENT = [
+	'',
+	'#C8FFD8',
+	'#B3FFCC',
+	'#9EFFBF',
+	'#89FFB3',
+	'#7CFFB5',
+	'#5FFF99',
+	'#30FF6E',
+	'#1FE65C',
+	'#0FCC4A',
+	'#0AB33F',
+	'#089933',
+	'#068028',
+]
+
+function readVar(styles: CSSStyleDeclaration | null, name: string, fallback: string): string {
+	return styles?.getPropertyValue(name).trim() || fallback
+}
+
+export function getChartTheme(): ChartTheme {
+	const styles = typeof document === 'undefined' ? null : getComputedStyle(document.documentElement)
+	const accent = DEFAULT_ACCENT.map((fallback, i) => (i === 0 ? '' : readVar(styles, `--colors-republic-green-${i}`, fallback)))
+	const danger = readVar(styles, '--colors-red-9', '#e5484d')
+	const foreground = readVar(styles, '--colors-fg-default', '#FFFFFF')
+
+	// branding.chartPalette sets --colors-chart-series-0, -1, ...
+	const series: string[] = []
+	for (let i = 0; ; i++) {
+		const value = readVar(styles, `--colors-chart-series-${i}`, '')
+		if (!value) break
+		series.push(value)
+	}
+
+	return {
+		accent,
+		secondary: readVar(styles, '--colors-chart-secondary', accent[4]),
+		series: series.length > 0 ? series : [accent[7], '#3b82f6', '#f59e0b', danger, '#a855f7', '#14b8a6'],
+		axisLabel: readVar(styles, '--colors-chart-axis-label', '#707B92'),
+		border: readVar(styles, '--colors-border-default', 'rgba(94, 94, 94, 0.25)'),
+		background: readVar(styles, '--colors-bg-default', '#050607'),
+		foreground,
+		danger,
+		warning: '#f59e0b',
+		tooltip: {
+			backgroundColor: readVar(styles, '--colors-bg-muted', '#0D0F0F'),
+			borderColor: readVar(styles, '--colors-border-accent', 'rgba(48, 255, 110, 0.25)'),
+			textStyle: { color: foreground },
+		},
+	}
+}
+
+/**
+ * The color at the given opacity, for area gradients. Accepts hex and rgb()/rgba().
+ */
+export function withAlpha(color: string, alpha: number): string {
+	const hex = color.match(/^#([0-9a-f]{6})$/i)
+	if (hex) {
+		const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex[1].slice(i, i + 2), 16))
+		return `rgba(${r}, ${g}, ${b}, ${alpha})`
+	}
+	const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i)
+	if (rgb) return `rgba(${rgb[1]}, ${rgb[2]}, ${rgb[3]}, ${alpha})`
+	return color
+}
@@ -0,0 +1,182 @@
+/**
+ * CometBFT websocket subscription client
+ * Subscribes to NewBlock and Tx events on the node's /websocket endpoint
+ * and reconnects with exponential backoff when the socket drops.
+ */
+
+export type StreamStatus = 'disabled' | 'connecting' | 'live' | 'offline'
+
+export interface StreamBlock {
+	block_id: { hash: string }
+	block: {
+		header: {
+			height: string
+			time: string
+			chain_id: string
+			proposer_address: string
+		}
+		data: { txs: string[] | null }
+		last_commit?: {
+			signatures: Array<{
+				validator_address: string
+				timestamp: string
+				signature: string | null
+			}>
+		}
+	}
+}
+
+export interface StreamTx {
+	hash: string
+	height: number
+	code: number
+	log: string
+}
+
+export interface ChainEventHandlers {
+	onBlock?: (block: StreamBlock) => void
+	onTx?: (tx: StreamTx) => void
+	onStatus?: (status: StreamStatus) => void
+}
+
+const SUBSCRIPTIONS = [
+	{ id: 'new-block', query: "tm.event='NewBlock'" },
+	{ id: 'tx', query: "tm.event='Tx'" },
+]
+
+const RECONNECT_BASE_MS = 1_000
+const RECONNECT_MAX_MS = 30_000
+
+/**
+ * Converts a CometBFT RPC endpoint (http/https/ws/wss) into its websocket URL
+ */
+export function toWebsocketUrl(rpcEndpoint: string): string {
+	const url = new URL(rpcEndpoint)
+	if (url.protocol === 'http:') url.protocol = 'ws:'
+	if (url.protocol === 'https:') url.protocol = 'wss:'
+	if (!url.pathname.endsWith('/websocket')) {
+		url.pathname = `${url.pathname.replace(/\/$/, '')}/websocket`
+	}
+	return url.toString()
+}
+
+/**
+ * Opens a subscription to NewBlock and Tx events.
+ * @returns Handle whose close() stops the stream and cancels reconnects
+ */
+export function createChainEventStream(rpcEndpoint: string, handlers: ChainEventHandlers) {
+	const url = toWebsocketUrl(rpcEndpoint)
+	let socket: WebSocket | null = null
+	let attempts = 0
+	let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+	let closed = false
+	let live = false
+
+	function setStatus(status: StreamStatus) {
+		handlers.onStatus?.(status)
+	}
+
+	// The stream only counts as live once the node has acknowledged a subscription
+	function markLive() {
+		if (live) return
+		live = true
+		attempts = 0
+		setStatus('live')
+	}
+
+	function handleMessage(event: MessageEvent) {
+		let message: any
+		try {
+			message = JSON.parse(event.data)
+		} catch {
+			return
+		}
+
+		if (message?.error) {
+			console.warn(`CometBFT subscription ${message.id ?? ''} failed:`, message.error)
+			return
+		}
+
+		const data = message?.result?.data
+		if (!data) {
+			if (message?.result && SUBSCRIPTIONS.some((sub) => sub.id === message.id)) markLive()
+			return
+		}
+		markLive()
+
+		if (data.type === 'tendermint/event/NewBlock') {
+			handlers.onBlock?.(data.value as StreamBlock)
+			return
+		}
+
+		if (data.type === 'tendermint/event/Tx') {
+			const txResult = data.value?.TxResult
+			const hash = message.result.events?.['tx.hash']?.[0]
+			if (!txResult || !hash) return
+			handlers.onTx?.({
+				hash,
+				height: Number(txResult.height),
+				code: txResult.result?.code ?? 0,
+				log: txResult.result?.log ?? '',
+			})
+		}
+	}
+
+	function scheduleReconnect() {
+		if (closed) return
+		const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS)
+		attempts++
+		reconnectTimer = setTimeout(connect, delay)
+	}
+
+	function connect() {
+		if (closed) return
+		live = false
+		setStatus('connecting')
+
+		try {
+			socket = new WebSocket(url)
+		} catch (error) {
+			console.warn('CometBFT websocket connection failed:', error)
+			setStatus('offline')
+			scheduleReconnect()
+			return
+		}
+
+		socket.onopen = () => {
+			for (const sub of SUBSCRIPTIONS) {
+				socket?.send(
+					JSON.stringify({ jsonrpc: '2.0', method: 'subscribe', id: sub.id, params: { query: sub.query } })
+				)
+			}
+		}
+
+		socket.onmessage = handleMessage
+
+		socket.onclose = () => {
+			socket = null
+			if (closed) return
+			setStatus('offline')
+			scheduleReconnect()
+		}
+
+		// onclose always follows onerror, so reconnection is handled there
+		socket.onerror = () => {
+			socket?.close()
+		}
+	}
+
+	function close() {
+		closed = true
+		if (reconnectTimer) clearTimeout(reconnectTimer)
+		if (socket) {
+			socket.onclose = null
+			socket.close()
+			socket = null
+		}
+	}
+
+	connect()
+
+	return { close }
+}
@@ -0,0 +1,141 @@
+/**
+ * Compute result verification
+ * Downloads a job's result artifact from its fetch endpoint and checks its
+ * SHA-256 digest against the result_hash recorded on chain, entirely in the browser.
+ */
+
+/** Artifacts larger than this are not hashed in the browser */
+export const MAX_ARTIFACT_BYTES = 100 * 1024 * 1024
+
+export type VerificationStatus = 'match' | 'mismatch' | 'unreachable' | 'unsupported'
+
+export interface VerificationResult {
+	status: VerificationStatus
+	/** Hex digest of the downloaded artifact, when one was computed */
+	computedHash: string | null
+	bytes: number | null
+	message: string
+}
+
+/**
+ * Normalize an on-chain hash to lowercase hex without a 0x or sha256: prefix.
+ * Returns null when the value is not a SHA-256 hex digest.
+ */
+export function normalizeSha256(hash: string): string | null {
+	const hex = hash.trim().toLowerCase().replace(/^(0x|sha256:)/, '')
+	return /^[0-9a-f]{64}$/.test(hex) ? hex : null
+}
+
+function toHex(buffer: ArrayBuffer): string {
+	return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Read a response body into one buffer, giving up once it exceeds `limit` bytes
+ */
+async function readBody(response: Response, limit: number): Promise<Uint8Array<ArrayBuffer> | null> {
+	const declared = Number(response.headers.get('content-length'))
+	if (declared > limit) return null
+	if (!response.body) {
+		const buffer = new Uint8Array(await response.arrayBuffer())
+		return buffer.byteLength > limit ? null : buffer
+	}
+
+	const reader = response.body.getReader()
+	const chunks: Uint8Array[] = []
+	let total = 0
+	while (true) {
+		const { done, value } = await reader.read()
+		if (done) break
+		total += value.byteLength
+		if (total > limit) {
+			await reader.cancel()
+			return null
+		}
+		chunks.push(value)
+	}
+
+	const body = new Uint8Array(total)
+	let offset = 0
+	for (const chunk of chunks) {
+		body.set(chunk, offset)
+		offset += chunk.byteLength
+	}
+	return body
+}
+
+/**
+ * Whether the browser can fetch the endpoint at all (http(s) and not mixed content)
+ */
+export function isFetchableEndpoint(endpoint: string | null): endpoint is string {
+	if (!endpoint) return false
+	try {
+		const url = new URL(endpoint)
+		if (url.protocol !== 'https:' && url.protocol !== 'http:') return false
+		return !(typeof window !== 'undefined' && window.location.protocol === 'https:' && url.protocol === 'http:')
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Fetch the result artifact and compare its SHA-256 digest to the expected hash
+ */
+export async function verifyResultArtifact(
+	endpoint: string,
+	expectedHash: string,
+	signal?: AbortSignal
+): Promise<VerificationResult> {
+	const expected = normalizeSha256(expectedHash)
+	if (!expected) {
+		return {
+			status: 'unsupported',
+			computedHash: null,
+			bytes: null,
+			message: 'Result hash is not a SHA-256 digest, so it cannot be checked in the browser',
+		}
+	}
+
+	let response: Response
+	try {
+		response = await fetch(endpoint, { signal })
+	} catch (err) {
+		if (signal?.aborted) throw err
+		return {
+			status: 'unreachable',
+			computedHash: null,
+			bytes: null,
+			message: 'Endpoint could not be reached (offline, or it does not allow cross-origin requests)',
+		}
+	}
+
+	if (!response.ok) {
+		return {
+			status: 'unreachable',
+			computedHash: null,
+			bytes: null,
+			message: `Endpoint returned ${response.status} ${response.statusText}`.trim(),
+		}
+	}
+
+	const body = await readBody(response, MAX_ARTIFACT_BYTES)
+	if (!body) {
+		return {
+			status: 'unsupported',
+			computedHash: null,
+			bytes: null,
+			message: `Artifact exceeds ${MAX_ARTIFACT_BYTES / 1024 / 1024} MB and was not hashed`,
+		}
+	}
+
+	const computed = toHex(await crypto.subtle.digest('SHA-256', body))
+	const matches = computed === expected
+	return {
+		status: matches ? 'match' : 'mismatch',
+		computedHash: computed,
+		bytes: body.byteLength,
+		message: matches
+			? 'Artifact SHA-256 matches the on-chain result hash'
+			: 'Artifact SHA-256 does not match the on-chain result hash',
+	}
+}
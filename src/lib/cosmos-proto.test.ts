@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test'
+import {
+	SIGN_MODE_DIRECT,
+	encodeAuthInfo,
+	encodeCoin,
+	encodeMsgCancelUnbondingDelegation,
+	encodeMsgDelegate,
+	encodeSignDoc,
+	encodeTxBody,
+	encodeTxRaw,
+	fromBase64,
+	toBase64,
+} from './cosmos-proto'
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+const ascii = (value: string) => hex(new TextEncoder().encode(value))
+
+describe('encodeCoin', () => {
+	test('encodes denom and amount as string fields 1 and 2', () => {
+		expect(hex(encodeCoin({ denom: 'arai', amount: '10' }))).toBe(`0a04${ascii('arai')}1202${ascii('10')}`)
+	})
+})
+
+describe('encodeSignDoc', () => {
+	test('writes body, auth info, chain id and account number in field order', () => {
+		const doc = encodeSignDoc(new Uint8Array([1]), new Uint8Array([2]), 'c', 300)
+		expect(hex(doc)).toBe(`0a01011201021a01${ascii('c')}20ac02`)
+	})
+
+	test('omits a zero account number', () => {
+		const doc = encodeSignDoc(new Uint8Array([1]), new Uint8Array([2]), 'c', 0)
+		expect(hex(doc)).toBe(`0a01011201021a01${ascii('c')}`)
+	})
+})
+
+describe('encodeTxRaw', () => {
+	test('keeps an empty signature so simulation sees one signer slot', () => {
+		const raw = encodeTxRaw(new Uint8Array([1]), new Uint8Array([2]), [new Uint8Array()])
+		expect(hex(raw)).toBe('0a01011201021a00')
+	})
+
+	test('appends each signature as repeated field 3', () => {
+		const raw = encodeTxRaw(new Uint8Array(), new Uint8Array(), [new Uint8Array([0xaa]), new Uint8Array([0xbb])])
+		expect(hex(raw)).toBe('1a01aa1a01bb')
+	})
+})
+
+describe('encodeAuthInfo', () => {
+	test('nests signer info, sign mode and fee with a multi-byte gas limit', () => {
+		const authInfo = encodeAuthInfo(new Uint8Array([0xaa]), 0, SIGN_MODE_DIRECT, {
+			amount: [{ denom: 'a', amount: '1' }],
+			gasLimit: 200_000n,
+		})
+		// pubkey Any, then ModeInfo.single { mode: DIRECT }
+		const signerInfo = '0a01aa12040a020801'
+		// one Coin, then gas_limit 200000 as a 3-byte varint
+		const fee = `0a060a01${ascii('a')}1201${ascii('1')}10c09a0c`
+		expect(hex(authInfo)).toBe(`0a09${signerInfo}120c${fee}`)
+	})
+
+	test('includes a non-zero sequence as field 3 of the signer info', () => {
+		const authInfo = encodeAuthInfo(new Uint8Array([0xaa]), 7, SIGN_MODE_DIRECT, { amount: [], gasLimit: 0n })
+		expect(hex(authInfo)).toBe('0a0b0a01aa12040a02080118071200')
+	})
+})
+
+describe('message encoders', () => {
+	test('wraps messages in Any within the tx body and appends the memo', () => {
+		const value = encodeMsgDelegate({
+			delegator_address: 'd',
+			validator_address: 'v',
+			amount: { denom: 'a', amount: '1' },
+		})
+		expect(hex(value)).toBe(`0a01${ascii('d')}1201${ascii('v')}1a060a01${ascii('a')}1201${ascii('1')}`)
+
+		const body = encodeTxBody([{ typeUrl: '/x', value }], 'm')
+		const any = `0a02${ascii('/x')}12${value.length.toString(16).padStart(2, '0')}${hex(value)}`
+		expect(hex(body)).toBe(`0a${(any.length / 2).toString(16).padStart(2, '0')}${any}1201${ascii('m')}`)
+	})
+
+	test('encodes the cancel-unbonding creation height as a varint', () => {
+		const value = encodeMsgCancelUnbondingDelegation({
+			delegator_address: 'd',
+			validator_address: 'v',
+			amount: { denom: 'a', amount: '1' },
+			creation_height: '5',
+		})
+		expect(hex(value).endsWith('2005')).toBe(true)
+	})
+})
+
+describe('base64', () => {
+	test('round-trips arbitrary bytes', () => {
+		const bytes = new Uint8Array([0, 1, 127, 128, 255])
+		expect(toBase64(bytes)).toBe('AAF/gP8=')
+		expect(fromBase64(toBase64(bytes))).toEqual(bytes)
+	})
+})
@@ -0,0 +1,187 @@
+/**
+ * Minimal protobuf encoders for Cosmos SDK transactions
+ * Covers TxBody, AuthInfo, SignDoc and TxRaw plus the staking and distribution
+ * messages the explorer signs, so SIGN_MODE_DIRECT works without a protobuf runtime.
+ */
+
+const WIRE_VARINT = 0
+const WIRE_LENGTH_DELIMITED = 2
+
+export const SIGN_MODE_DIRECT = 1
+export const SIGN_MODE_LEGACY_AMINO_JSON = 127
+
+const textEncoder = new TextEncoder()
+
+export interface Coin {
+	denom: string
+	amount: string
+}
+
+export interface ProtoFee {
+	amount: Coin[]
+	gasLimit: bigint
+}
+
+// -- Wire format helpers --
+
+function concat(parts: Uint8Array[]): Uint8Array {
+	const total = parts.reduce((sum, p) => sum + p.length, 0)
+	const out = new Uint8Array(total)
+	let offset = 0
+	for (const part of parts) {
+		out.set(part, offset)
+		offset += part.length
+	}
+	return out
+}
+
+function encodeVarint(value: bigint | number): Uint8Array {
+	let v = BigInt(value)
+	const bytes: number[] = []
+	while (v > 0x7fn) {
+		bytes.push(Number((v & 0x7fn) | 0x80n))
+		v >>= 7n
+	}
+	bytes.push(Number(v))
+	return new Uint8Array(bytes)
+}
+
+function tag(field: number, wireType: number): Uint8Array {
+	return encodeVarint((field << 3) | wireType)
+}
+
+/** uint64/enum field; omitted when zero per proto3 defaults */
+function uintField(field: number, value: bigint | number | string): Uint8Array {
+	const v = BigInt(value)
+	if (v === 0n) return new Uint8Array()
+	return concat([tag(field, WIRE_VARINT), encodeVarint(v)])
+}
+
+/** Length-delimited bytes field; omitted when empty unless forced (embedded messages) */
+function bytesField(field: number, bytes: Uint8Array, force = false): Uint8Array {
+	if (bytes.length === 0 && !force) return new Uint8Array()
+	return concat([tag(field, WIRE_LENGTH_DELIMITED), encodeVarint(bytes.length), bytes])
+}
+
+function stringField(field: number, value: string | undefined): Uint8Array {
+	return bytesField(field, textEncoder.encode(value ?? ''))
+}
+
+function messageField(field: number, bytes: Uint8Array): Uint8Array {
+	return bytesField(field, bytes, true)
+}
+
+// -- Common types --
+
+export function encodeCoin(coin: Coin): Uint8Array {
+	return concat([stringField(1, coin.denom), stringField(2, coin.amount)])
+}
+
+export function encodeAny(typeUrl: string, value: Uint8Array): Uint8Array {
+	return concat([stringField(1, typeUrl), bytesField(2, value)])
+}
+
+/** cosmos.evm.crypto.v1.ethsecp256k1.PubKey */
+export function encodeEthSecp256k1PubKey(key: Uint8Array): Uint8Array {
+	return encodeAny('/cosmos.evm.crypto.v1.ethsecp256k1.PubKey', bytesField(1, key))
+}
+
+// -- Transaction envelope --
+
+export function encodeTxBody(messages: Array<{ typeUrl: string; value: Uint8Array }>, memo: string): Uint8Array {
+	return concat([
+		...messages.map((m) => messageField(1, encodeAny(m.typeUrl, m.value))),
+		stringField(2, memo),
+	])
+}
+
+export function encodeAuthInfo(pubkeyAny: Uint8Array, sequence: number, signMode: number, fee: ProtoFee): Uint8Array {
+	const modeInfo = messageField(1, uintField(1, signMode)) // ModeInfo.single
+	const signerInfo = concat([messageField(1, pubkeyAny), messageField(2, modeInfo), uintField(3, sequence)])
+	const feeBytes = concat([...fee.amount.map((c) => messageField(1, encodeCoin(c))), uintField(2, fee.gasLimit)])
+	return concat([messageField(1, signerInfo), messageField(2, feeBytes)])
+}
+
+export function encodeSignDoc(
+	bodyBytes: Uint8Array,
+	authInfoBytes: Uint8Array,
+	chainId: string,
+	accountNumber: number
+): Uint8Array {
+	return concat([
+		bytesField(1, bodyBytes),
+		bytesField(2, authInfoBytes),
+		stringField(3, chainId),
+		uintField(4, accountNumber),
+	])
+}
+
+export function encodeTxRaw(bodyBytes: Uint8Array, authInfoBytes: Uint8Array, signatures: Uint8Array[]): Uint8Array {
+	return concat([
+		bytesField(1, bodyBytes),
+		bytesField(2, authInfoBytes),
+		...signatures.map((sig) => bytesField(3, sig, true)),
+	])
+}
+
+// -- Message encoders --
+
+type MessageValue = Record<string, unknown>
+
+function str(value: MessageValue, key: string): string {
+	return String(value[key] ?? '')
+}
+
+/** MsgDelegate / MsgUndelegate share the same field layout */
+export function encodeMsgDelegate(value: MessageValue): Uint8Array {
+	return concat([
+		stringField(1, str(value, 'delegator_address')),
+		stringField(2, str(value, 'validator_address')),
+		messageField(3, encodeCoin(value.amount as Coin)),
+	])
+}
+
+export function encodeMsgBeginRedelegate(value: MessageValue): Uint8Array {
+	return concat([
+		stringField(1, str(value, 'delegator_address')),
+		stringField(2, str(value, 'validator_src_address')),
+		stringField(3, str(value, 'validator_dst_address')),
+		messageField(4, encodeCoin(value.amount as Coin)),
+	])
+}
+
+export function encodeMsgCancelUnbondingDelegation(value: MessageValue): Uint8Array {
+	return concat([
+		stringField(1, str(value, 'delegator_address')),
+		stringField(2, str(value, 'validator_address')),
+		messageField(3, encodeCoin(value.amount as Coin)),
+		uintField(4, str(value, 'creation_height') || '0'),
+	])
+}
+
+export function encodeMsgWithdrawDelegatorReward(value: MessageValue): Uint8Array {
+	return concat([stringField(1, str(value, 'delegator_address')), stringField(2, str(value, 'validator_address'))])
+}
+
+export function encodeMsgSetWithdrawAddress(value: MessageValue): Uint8Array {
+	return concat([stringField(1, str(value, 'delegator_address')), stringField(2, str(value, 'withdraw_address'))])
+}
+
+/**
+ * Encode bytes as base64 for REST payloads
+ */
+export function toBase64(bytes: Uint8Array): string {
+	let binary = ''
+	for (const b of bytes) binary += String.fromCharCode(b)
+	return btoa(binary)
+}
+
+/**
+ * Decode a base64 string into bytes
+ */
+export function fromBase64(value: string): Uint8Array {
+	const binary = atob(value)
+	const bytes = new Uint8Array(binary.length)
+	for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+	return bytes
+}
@@ -4,13 +4,32 @@
  */
 
 import { bech32 } from 'bech32'
+import { parseUnits } from 'viem'
 import { hexToBytes } from './address'
+import { createTTLCache } from './cache'
 import { REPUBLIC_CHAIN_CONFIG } from './chain-config'
+import {
+	SIGN_MODE_DIRECT,
+	SIGN_MODE_LEGACY_AMINO_JSON,
+	encodeAuthInfo,
+	encodeEthSecp256k1PubKey,
+	encodeMsgBeginRedelegate,
+	encodeMsgCancelUnbondingDelegation,
+	encodeMsgDelegate,
+	encodeMsgSetWithdrawAddress,
+	encodeMsgWithdrawDelegatorReward,
+	encodeTxBody,
+	encodeTxRaw,
+	fromBase64,
+	toBase64,
+} from './cosmos-proto'
+import { getConfig } from './env'
 
 // Message type URLs
 const MSG_DELEGATE = '/cosmos.staking.v1beta1.MsgDelegate'
 const MSG_UNDELEGATE = '/cosmos.staking.v1beta1.MsgUndelegate'
 const MSG_REDELEGATE = '/cosmos.staking.v1beta1.MsgBeginRedelegate'
+const MSG_CANCEL_UNBONDING = '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation'
 const MSG_WITHDRAW_REWARDS = '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward'
 const MSG_SET_WITHDRAW_ADDRESS = '/cosmos.distribution.v1beta1.MsgSetWithdrawAddress'
 
@@ -18,6 +37,8 @@ export interface CosmosStakingParams {
 	delegatorAddress: string
 	validatorAddress: string
 	amount: string
+	/** Fee the user confirmed; signed as-is instead of re-simulating */
+	fee?: StdFee
 }
 
 export interface CosmosRedelegateParams {
@@ -25,6 +46,13 @@ export interface CosmosRedelegateParams {
 	srcValidatorAddress: string
 	dstValidatorAddress: string
 	amount: string
+	/** Fee the user confirmed; signed as-is instead of re-simulating */
+	fee?: StdFee
+}
+
+export interface CosmosCancelUnbondingParams extends CosmosStakingParams {
+	/** Height the unbonding entry was created at, identifying the entry */
+	creationHeight: bigint
 }
 
 export interface CosmosSetWithdrawAddressParams {
@@ -38,6 +66,66 @@ export interface TxResult {
 	rawLog?: string
 }
 
+export interface StdFee {
+	amount: Array<{ denom: string; amount: string }>
+	gas: string
+}
+
+export interface FeeEstimate {
+	fee: StdFee
+	/** Gas reported by simulation, or null when the static gas table was used */
+	gasUsed: number | null
+	gasPrice: string
+	simulated: boolean
+}
+
+type CosmosMessage = { typeUrl: string; value: Record<string, unknown> }
+
+type SignMode = 'direct' | 'amino'
+
+interface MessageCodec {
+	/** Protobuf encoder used for SIGN_MODE_DIRECT */
+	encode?: (value: Record<string, unknown>) => Uint8Array
+	/** Amino JSON type name; messages without one can only be signed in direct mode */
+	aminoType?: string
+	/** Preferred sign mode for this message type */
+	signMode: SignMode
+}
+
+/**
+ * Signing registry keyed by message type URL.
+ * Add Republic-specific messages here with an encoder and signMode 'direct'.
+ */
+const MESSAGE_CODECS: Record<string, MessageCodec> = {
+	[MSG_DELEGATE]: { encode: encodeMsgDelegate, aminoType: 'cosmos-sdk/MsgDelegate', signMode: 'direct' },
+	[MSG_UNDELEGATE]: { encode: encodeMsgDelegate, aminoType: 'cosmos-sdk/MsgUndelegate', signMode: 'direct' },
+	[MSG_REDELEGATE]: {
+		encode: encodeMsgBeginRedelegate,
+		aminoType: 'cosmos-sdk/MsgBeginRedelegate',
+		signMode: 'direct',
+	},
+	[MSG_CANCEL_UNBONDING]: {
+		encode: encodeMsgCancelUnbondingDelegation,
+		aminoType: 'cosmos-sdk/MsgCancelUnbondingDelegation',
+		signMode: 'direct',
+	},
+	[MSG_WITHDRAW_REWARDS]: {
+		encode: encodeMsgWithdrawDelegatorReward,
+		aminoType: 'cosmos-sdk/MsgWithdrawDelegationReward',
+		signMode: 'direct',
+	},
+	[MSG_SET_WITHDRAW_ADDRESS]: {
+		encode: encodeMsgSetWithdrawAddress,
+		aminoType: 'cosmos-sdk/MsgModifyWithdrawAddress',
+		signMode: 'direct',
+	},
+}
+
+const DEFAULT_GAS_MULTIPLIER = 1.4
+/** Sign with the fee we computed and showed, rather than letting Keplr substitute its own */
+const KEPLR_SIGN_OPTIONS = { preferNoSetFee: true }
+const feeCache = createTTLCache(5 * 60_000)
+
 /**
  * Get Keplr instance, throwing if not available
  */
@@ -87,27 +175,248 @@ async function getAccountInfo(address: string): Promise<{ accountNumber: number;
  */
 function toCoin(amount: string): { denom: string; amount: string } {
 	// Parse amount - if it contains decimals, it's in display format
-	const parsed = parseFloat(amount)
-	if (Number.isNaN(parsed)) {
+	const value = amount.trim()
+	if (!/^(\d+\.?\d*|\.\d+)$/.test(value)) {
 		throw new Error('Invalid amount')
 	}
 
-	// Convert to base denomination (18 decimals)
-	const baseAmount = BigInt(Math.floor(parsed * 1e18))
-
+	// Convert to base denomination without float rounding, so amounts copied
+	// from chain balances (e.g. a full unbonding entry) stay exact
 	return {
 		denom: REPUBLIC_CHAIN_CONFIG.nativeCurrency.denom,
-		amount: baseAmount.toString(),
+		amount: parseUnits(value, REPUBLIC_CHAIN_CONFIG.nativeCurrency.decimals).toString(),
+	}
+}
+
+/**
+ * REST endpoint used for simulation and node config queries
+ */
+function getRestEndpoint(): string {
+	return getConfig().chainRestEndpoint || REPUBLIC_CHAIN_CONFIG.endpoints.cosmosRest
+}
+
+/**
+ * Minimum gas price accepted by the node, in base denom per gas unit.
+ * Falls back to Keplr's average gas price step when the node reports none.
+ * Pass fresh to bypass the cache, e.g. right before signing.
+ */
+async function getMinGasPrice(fresh = false): Promise<string> {
+	const cached = fresh ? undefined : feeCache.get<string>('min-gas-price')
+	if (cached) return cached
+
+	const denom = REPUBLIC_CHAIN_CONFIG.nativeCurrency.denom
+	let price = String(REPUBLIC_CHAIN_CONFIG.keplrChainInfo.feeCurrencies[0].gasPriceStep.average)
+
+	try {
+		const response = await fetch(`${getRestEndpoint()}/cosmos/base/node/v1beta1/config`)
+		if (response.ok) {
+			const data = await response.json()
+			// minimum_gas_price is a DecCoins string, e.g. "20000000000.000000000000000000arai"
+			const entry = String(data.minimum_gas_price || '')
+				.split(',')
+				.find((coin) => coin.endsWith(denom))
+			const amount = entry?.slice(0, -denom.length)
+			if (amount && parseFloat(amount) > 0) price = amount
+		}
+	} catch (error) {
+		console.warn('Failed to fetch minimum gas price:', error)
+	}
+
+	feeCache.set('min-gas-price', price)
+	return price
+}
+
+/**
+ * Computes ceil(gas * gasPrice) in base units without floating point loss
+ */
+function computeFeeAmount(gas: bigint, gasPrice: string): string {
+	const [whole, fraction = ''] = gasPrice.split('.')
+	const scale = 10n ** 18n
+	const scaledPrice = BigInt(whole || '0') * scale + BigInt(fraction.padEnd(18, '0').slice(0, 18))
+	return ((gas * scaledPrice + scale - 1n) / scale).toString()
+}
+
+/**
+ * Pick the sign mode for a set of messages.
+ * Direct signing is used when every message has a protobuf encoder, at least one
+ * message type prefers it and Keplr supports signDirect (Ledger only signs amino).
+ * Amino JSON remains the fallback for messages with an amino registration.
+ */
+function selectSignMode(messages: CosmosMessage[], isNanoLedger: boolean): SignMode {
+	const codecs = messages.map((m) => {
+		const codec = MESSAGE_CODECS[m.typeUrl]
+		if (!codec) throw new Error(`Unsupported message type: ${m.typeUrl}`)
+		return codec
+	})
+
+	const keplr = getKeplr()
+	const canDirect = !isNanoLedger && typeof keplr.signDirect === 'function' && codecs.every((c) => c.encode)
+	const canAmino = codecs.every((c) => c.aminoType)
+	const prefersDirect = codecs.some((c) => c.signMode === 'direct')
+
+	if (canDirect && (prefersDirect || !canAmino)) return 'direct'
+	if (canAmino) return 'amino'
+	throw new Error(
+		isNanoLedger
+			? 'These messages cannot be signed with a Ledger (no amino support)'
+			: 'Keplr does not support direct signing for these messages'
+	)
+}
+
+/**
+ * Encode TxBody bytes for messages that all have protobuf encoders
+ */
+function encodeBody(messages: CosmosMessage[], memo: string): Uint8Array {
+	return encodeTxBody(
+		messages.map((m) => {
+			const encode = MESSAGE_CODECS[m.typeUrl]?.encode
+			if (!encode) throw new Error(`No protobuf encoder for ${m.typeUrl}`)
+			return { typeUrl: m.typeUrl, value: encode(m.value) }
+		}),
+		memo
+	)
+}
+
+/**
+ * Encode AuthInfo bytes for a single ethsecp256k1 signer
+ */
+function encodeSignerAuthInfo(pubkey: Uint8Array, sequence: number, signMode: SignMode, fee: StdFee): Uint8Array {
+	return encodeAuthInfo(
+		encodeEthSecp256k1PubKey(pubkey),
+		sequence,
+		signMode === 'direct' ? SIGN_MODE_DIRECT : SIGN_MODE_LEGACY_AMINO_JSON,
+		{ amount: fee.amount, gasLimit: BigInt(fee.gas) }
+	)
+}
+
+/**
+ * Build the JSON form of a transaction for amino simulation and broadcast
+ */
+function buildTxJson(
+	messages: CosmosMessage[],
+	memo: string,
+	pubkey: Uint8Array,
+	sequence: number,
+	fee: StdFee,
+	signature: string
+) {
+	return {
+		body: {
+			messages: messages.map((m) => ({
+				'@type': m.typeUrl,
+				...m.value,
+			})),
+			memo,
+		},
+		auth_info: {
+			signer_infos: [
+				{
+					public_key: {
+						'@type': '/cosmos.evm.crypto.v1.ethsecp256k1.PubKey',
+						key: toBase64(pubkey),
+					},
+					mode_info: { single: { mode: 'SIGN_MODE_LEGACY_AMINO_JSON' } },
+					sequence: sequence.toString(),
+				},
+			],
+			fee,
+		},
+		signatures: [signature],
+	}
+}
+
+/**
+ * Simulate messages against the chain and return the gas used.
+ * Uses protobuf tx_bytes when every message can be encoded, otherwise the JSON tx.
+ */
+async function simulateGas(
+	messages: CosmosMessage[],
+	memo: string,
+	pubkey: Uint8Array,
+	sequence: number
+): Promise<number> {
+	const denom = REPUBLIC_CHAIN_CONFIG.nativeCurrency.denom
+	const emptyFee: StdFee = { amount: [{ denom, amount: '0' }], gas: '0' }
+	const encodable = messages.every((m) => MESSAGE_CODECS[m.typeUrl]?.encode)
+
+	const payload = encodable
+		? {
+				tx_bytes: toBase64(
+					encodeTxRaw(
+						encodeBody(messages, memo),
+						encodeSignerAuthInfo(pubkey, sequence, 'direct', emptyFee),
+						[new Uint8Array()]
+					)
+				),
+			}
+		: { tx: buildTxJson(messages, memo, pubkey, sequence, emptyFee, '') }
+
+	const response = await fetch(`${getRestEndpoint()}/cosmos/tx/v1beta1/simulate`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(payload),
+	})
+
+	const data = await response.json().catch(() => null)
+	if (!response.ok) {
+		throw new Error(data?.message || `Simulation failed: ${response.statusText}`)
 	}
+
+	const gasUsed = Number(data?.gas_info?.gas_used)
+	if (!gasUsed) throw new Error('Simulation returned no gas usage')
+	return gasUsed
 }
 
 /**
- * Default fee for staking transactions
+ * Estimate the fee for a set of messages.
+ * Simulates through the chain REST API and applies the configured gas multiplier;
+ * falls back to the static gas table when simulation is unavailable. Insufficient
+ * funds errors are rethrown since the tx would fail regardless of gas.
  */
-function getDefaultFee() {
+async function estimateFee(
+	messages: CosmosMessage[],
+	memo: string,
+	pubkey: Uint8Array,
+	sequence: number,
+	fallbackGas: bigint
+): Promise<FeeEstimate> {
+	const gasPrice = await getMinGasPrice()
+	const multiplier = getConfig().fees?.gasMultiplier ?? DEFAULT_GAS_MULTIPLIER
+
+	let gasUsed: number | null = null
+	try {
+		gasUsed = await simulateGas(messages, memo, pubkey, sequence)
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error)
+		if (/insufficient/i.test(message)) {
+			throw new Error(`Transaction would fail: ${message}`)
+		}
+		console.warn('Gas simulation unavailable, using default gas:', message)
+	}
+
+	const gas = gasUsed !== null ? BigInt(Math.ceil(gasUsed * multiplier)) : fallbackGas
+
 	return {
-		amount: [{ denom: REPUBLIC_CHAIN_CONFIG.nativeCurrency.denom, amount: '100000000000000000' }],
-		gas: '500000',
+		fee: {
+			amount: [{ denom: REPUBLIC_CHAIN_CONFIG.nativeCurrency.denom, amount: computeFeeAmount(gas, gasPrice) }],
+			gas: gas.toString(),
+		},
+		gasUsed,
+		gasPrice,
+		simulated: gasUsed !== null,
+	}
+}
+
+/**
+ * Refuse to sign with a confirmed fee the node would no longer accept.
+ * The estimate query is re-run afterwards, so the user confirms the new fee.
+ */
+async function assertFeeCurrent(fee: StdFee): Promise<void> {
+	const gasPrice = await getMinGasPrice(true)
+	const required = BigInt(computeFeeAmount(BigInt(fee.gas), gasPrice))
+	const offered = BigInt(fee.amount.find((c) => c.denom === REPUBLIC_CHAIN_CONFIG.nativeCurrency.denom)?.amount ?? '0')
+	if (offered < required) {
+		throw new Error('The network fee changed since it was estimated. Review the updated fee and confirm again.')
 	}
 }
 
@@ -121,13 +430,23 @@ function evmToCosmos(hexAddress: string): string {
 }
 
 /**
- * Sign and broadcast a Cosmos SDK message via Keplr
+ * Public key of the already-connected Keplr account, for simulation only.
+ * Does not call keplr.enable, so estimating never opens a Keplr prompt.
  */
-async function signAndBroadcast(
-	delegatorAddress: string,
-	messages: Array<{ typeUrl: string; value: Record<string, unknown> }>,
-	memo = ''
-): Promise<TxResult> {
+async function getConnectedKeplrPubkey(delegatorAddress: string): Promise<Uint8Array> {
+	const key = await getKeplr().getKey(REPUBLIC_CHAIN_CONFIG.cosmosChainId)
+	if (key.bech32Address !== delegatorAddress) {
+		throw new Error(`Keplr account mismatch: expected ${delegatorAddress}, got ${key.bech32Address}`)
+	}
+	return key.pubKey
+}
+
+/**
+ * Enable Keplr for our chain and return the signing account, verifying it matches the delegator
+ */
+async function getKeplrAccount(
+	delegatorAddress: string
+): Promise<{ address: string; pubkey: Uint8Array; isNanoLedger: boolean }> {
 	const keplr = getKeplr()
 	const chainId = REPUBLIC_CHAIN_CONFIG.cosmosChainId
 
@@ -148,62 +467,33 @@ async function signAndBroadcast(
 		throw new Error(`Keplr account mismatch: expected ${delegatorAddress}, got ${account.address}`)
 	}
 
-	const { accountNumber, sequence } = await getAccountInfo(delegatorAddress)
-	const fee = getDefaultFee()
-
-	// Build amino sign doc
-	const signDoc = {
-		chain_id: chainId,
-		account_number: accountNumber.toString(),
-		sequence: sequence.toString(),
-		fee,
-		msgs: messages.map((m) => ({
-			type: m.typeUrl.replace(/^\//, '').replace(/\./g, '/').replace(/Msg/, 'cosmos-sdk/Msg'),
-			value: m.value,
-		})),
-		memo,
-	}
-
-	// Sign with amino
-	const signResponse = await (keplr as unknown as {
-		signAmino: (
-			chainId: string,
-			signer: string,
-			signDoc: unknown
-		) => Promise<{ signature: { signature: string } }>
-	}).signAmino(chainId, delegatorAddress, signDoc)
+	const key = await keplr.getKey(chainId)
+	return { ...account, isNanoLedger: key.isNanoLedger }
+}
 
-	// Construct and broadcast the transaction
-	const txRaw = {
-		body: {
-			messages: messages.map((m) => ({
-				'@type': m.typeUrl,
-				...m.value,
-			})),
-			memo,
-		},
-		auth_info: {
-			signer_infos: [
-				{
-					public_key: {
-						'@type': '/cosmos.evm.crypto.v1.ethsecp256k1.PubKey',
-						key: btoa(String.fromCharCode(...account.pubkey)),
-					},
-					mode_info: { single: { mode: 'SIGN_MODE_LEGACY_AMINO_JSON' } },
-					sequence: sequence.toString(),
-				},
-			],
-			fee,
-		},
-		signatures: [signResponse.signature.signature],
-	}
+/**
+ * Estimate the fee for messages signed by the connected Keplr account
+ */
+async function estimateMessagesFee(
+	delegatorAddress: string,
+	messages: CosmosMessage[],
+	fallbackGas: bigint,
+	memo = ''
+): Promise<FeeEstimate> {
+	const pubkey = await getConnectedKeplrPubkey(delegatorAddress)
+	const { sequence } = await getAccountInfo(delegatorAddress)
+	return estimateFee(messages, memo, pubkey, sequence, fallbackGas)
+}
 
-	// Broadcast using the middleware gRPC endpoint
+/**
+ * Broadcast a signed transaction through the middleware gRPC proxy
+ */
+async function broadcastTx(payload: Record<string, unknown>): Promise<TxResult> {
 	const response = await fetch(`${REPUBLIC_CHAIN_CONFIG.endpoints.middleware}/chain/tx/broadcast`, {
 		method: 'POST',
 		headers: { 'Content-Type': 'application/json' },
 		body: JSON.stringify({
-			tx: txRaw,
+			...payload,
 			mode: 'BROADCAST_MODE_SYNC',
 		}),
 	})
@@ -228,71 +518,220 @@ async function signAndBroadcast(
 }
 
 /**
- * Delegate tokens to a validator via Keplr
+ * Sign and broadcast Cosmos SDK messages via Keplr
+ * Signs with SIGN_MODE_DIRECT when possible, falling back to amino JSON.
+ * A confirmed fee is signed unchanged; without one the fee is estimated here
+ * and shown to the user in Keplr's approval prompt.
  */
-export async function cosmosDelegate({
-	delegatorAddress,
-	validatorAddress,
-	amount,
-}: CosmosStakingParams): Promise<TxResult> {
-	const coin = toCoin(amount)
+async function signAndBroadcast(
+	delegatorAddress: string,
+	messages: CosmosMessage[],
+	fallbackGas: bigint,
+	confirmedFee?: StdFee,
+	memo = ''
+): Promise<TxResult> {
+	const keplr = getKeplr()
+	const chainId = REPUBLIC_CHAIN_CONFIG.cosmosChainId
+	const account = await getKeplrAccount(delegatorAddress)
+	const signMode = selectSignMode(messages, account.isNanoLedger)
 
-	const message = {
+	const { accountNumber, sequence } = await getAccountInfo(delegatorAddress)
+	if (confirmedFee) await assertFeeCurrent(confirmedFee)
+	const fee = confirmedFee ?? (await estimateFee(messages, memo, account.pubkey, sequence, fallbackGas)).fee
+
+	if (signMode === 'direct' && keplr.signDirect) {
+		const bodyBytes = encodeBody(messages, memo)
+		const authInfoBytes = encodeSignerAuthInfo(account.pubkey, sequence, 'direct', fee)
+
+		// preferNoSetFee keeps the fee the user confirmed; still broadcast exactly what was signed
+		const signResponse = await keplr.signDirect(
+			chainId,
+			delegatorAddress,
+			{
+				bodyBytes,
+				authInfoBytes,
+				chainId,
+				accountNumber: BigInt(accountNumber),
+			},
+			KEPLR_SIGN_OPTIONS
+		)
+
+		const txBytes = encodeTxRaw(signResponse.signed.bodyBytes, signResponse.signed.authInfoBytes, [
+			fromBase64(signResponse.signature.signature),
+		])
+
+		return broadcastTx({ tx_bytes: toBase64(txBytes) })
+	}
+
+	// Build amino sign doc
+	const signDoc = {
+		chain_id: chainId,
+		account_number: accountNumber.toString(),
+		sequence: sequence.toString(),
+		fee,
+		msgs: messages.map((m) => ({
+			type: MESSAGE_CODECS[m.typeUrl]?.aminoType,
+			value: m.value,
+		})),
+		memo,
+	}
+
+	// Sign with amino
+	const signResponse = await keplr.signAmino(chainId, delegatorAddress, signDoc, KEPLR_SIGN_OPTIONS)
+
+	// Construct and broadcast the transaction
+	return broadcastTx({
+		tx: buildTxJson(messages, memo, account.pubkey, sequence, signResponse.signed.fee, signResponse.signature.signature),
+	})
+}
+
+/**
+ * Build a MsgDelegate
+ */
+function delegateMessage({ delegatorAddress, validatorAddress, amount }: CosmosStakingParams): CosmosMessage {
+	return {
 		typeUrl: MSG_DELEGATE,
 		value: {
 			delegator_address: delegatorAddress,
 			validator_address: validatorAddress,
-			amount: coin,
+			amount: toCoin(amount),
 		},
 	}
-
-	return signAndBroadcast(delegatorAddress, [message])
 }
 
 /**
- * Undelegate tokens from a validator via Keplr
+ * Build a MsgUndelegate
  */
-export async function cosmosUndelegate({
-	delegatorAddress,
-	validatorAddress,
-	amount,
-}: CosmosStakingParams): Promise<TxResult> {
-	const coin = toCoin(amount)
-
-	const message = {
+function undelegateMessage({ delegatorAddress, validatorAddress, amount }: CosmosStakingParams): CosmosMessage {
+	return {
 		typeUrl: MSG_UNDELEGATE,
 		value: {
 			delegator_address: delegatorAddress,
 			validator_address: validatorAddress,
-			amount: coin,
+			amount: toCoin(amount),
 		},
 	}
-
-	return signAndBroadcast(delegatorAddress, [message])
 }
 
 /**
- * Redelegate tokens from one validator to another via Keplr
+ * Build a MsgBeginRedelegate
  */
-export async function cosmosRedelegate({
+function redelegateMessage({
 	delegatorAddress,
 	srcValidatorAddress,
 	dstValidatorAddress,
 	amount,
-}: CosmosRedelegateParams): Promise<TxResult> {
-	const coin = toCoin(amount)
-
-	const message = {
+}: CosmosRedelegateParams): CosmosMessage {
+	return {
 		typeUrl: MSG_REDELEGATE,
 		value: {
 			delegator_address: delegatorAddress,
 			validator_src_address: srcValidatorAddress,
 			validator_dst_address: dstValidatorAddress,
-			amount: coin,
+			amount: toCoin(amount),
 		},
 	}
+}
+
+/**
+ * Build a MsgCancelUnbondingDelegation
+ * creation_height is an int64, which amino JSON carries as a string
+ */
+function cancelUnbondingMessage({
+	delegatorAddress,
+	validatorAddress,
+	amount,
+	creationHeight,
+}: CosmosCancelUnbondingParams): CosmosMessage {
+	return {
+		typeUrl: MSG_CANCEL_UNBONDING,
+		value: {
+			delegator_address: delegatorAddress,
+			validator_address: validatorAddress,
+			amount: toCoin(amount),
+			creation_height: creationHeight.toString(),
+		},
+	}
+}
+
+/**
+ * Estimate the fee for delegating via Keplr
+ */
+export async function estimateCosmosDelegateFee(params: CosmosStakingParams): Promise<FeeEstimate> {
+	return estimateMessagesFee(params.delegatorAddress, [delegateMessage(params)], REPUBLIC_CHAIN_CONFIG.gas.delegate)
+}
+
+/**
+ * Estimate the fee for undelegating via Keplr
+ */
+export async function estimateCosmosUndelegateFee(params: CosmosStakingParams): Promise<FeeEstimate> {
+	return estimateMessagesFee(params.delegatorAddress, [undelegateMessage(params)], REPUBLIC_CHAIN_CONFIG.gas.undelegate)
+}
+
+/**
+ * Estimate the fee for redelegating via Keplr
+ */
+export async function estimateCosmosRedelegateFee(params: CosmosRedelegateParams): Promise<FeeEstimate> {
+	return estimateMessagesFee(params.delegatorAddress, [redelegateMessage(params)], REPUBLIC_CHAIN_CONFIG.gas.redelegate)
+}
+
+/**
+ * Estimate the fee for cancelling an unbonding entry via Keplr
+ */
+export async function estimateCosmosCancelUnbondingFee(params: CosmosCancelUnbondingParams): Promise<FeeEstimate> {
+	return estimateMessagesFee(
+		params.delegatorAddress,
+		[cancelUnbondingMessage(params)],
+		REPUBLIC_CHAIN_CONFIG.gas.cancelUnbonding
+	)
+}
 
-	return signAndBroadcast(delegatorAddress, [message])
+/**
+ * Delegate tokens to a validator via Keplr
+ */
+export async function cosmosDelegate({
+	delegatorAddress,
+	validatorAddress,
+	amount,
+	fee,
+}: CosmosStakingParams): Promise<TxResult> {
+	const message = delegateMessage({ delegatorAddress, validatorAddress, amount })
+	return signAndBroadcast(delegatorAddress, [message], REPUBLIC_CHAIN_CONFIG.gas.delegate, fee)
+}
+
+/**
+ * Undelegate tokens from a validator via Keplr
+ */
+export async function cosmosUndelegate({
+	delegatorAddress,
+	validatorAddress,
+	amount,
+	fee,
+}: CosmosStakingParams): Promise<TxResult> {
+	const message = undelegateMessage({ delegatorAddress, validatorAddress, amount })
+	return signAndBroadcast(delegatorAddress, [message], REPUBLIC_CHAIN_CONFIG.gas.undelegate, fee)
+}
+
+/**
+ * Redelegate tokens from one validator to another via Keplr
+ */
+export async function cosmosRedelegate({
+	delegatorAddress,
+	srcValidatorAddress,
+	dstValidatorAddress,
+	amount,
+	fee,
+}: CosmosRedelegateParams): Promise<TxResult> {
+	const message = redelegateMessage({ delegatorAddress, srcValidatorAddress, dstValidatorAddress, amount })
+	return signAndBroadcast(delegatorAddress, [message], REPUBLIC_CHAIN_CONFIG.gas.redelegate, fee)
+}
+
+/**
+ * Cancel all or part of an unbonding entry via Keplr, re-delegating it to the same validator
+ */
+export async function cosmosCancelUnbonding(params: CosmosCancelUnbondingParams): Promise<TxResult> {
+	const message = cancelUnbondingMessage(params)
+	return signAndBroadcast(params.delegatorAddress, [message], REPUBLIC_CHAIN_CONFIG.gas.cancelUnbonding, params.fee)
 }
 
 /**
@@ -301,7 +740,7 @@ export async function cosmosRedelegate({
 export async function cosmosWithdrawRewards({
 	delegatorAddress,
 	validatorAddress,
-}: Omit<CosmosStakingParams, 'amount'>): Promise<TxResult> {
+}: Omit<CosmosStakingParams, 'amount' | 'fee'>): Promise<TxResult> {
 	const message = {
 		typeUrl: MSG_WITHDRAW_REWARDS,
 		value: {
@@ -310,7 +749,7 @@ export async function cosmosWithdrawRewards({
 		},
 	}
 
-	return signAndBroadcast(delegatorAddress, [message])
+	return signAndBroadcast(delegatorAddress, [message], REPUBLIC_CHAIN_CONFIG.gas.claimRewards)
 }
 
 /**
@@ -328,7 +767,9 @@ export async function cosmosWithdrawAllRewards(
 		},
 	}))
 
-	return signAndBroadcast(delegatorAddress, messages)
+	// Gas scales roughly linearly with the number of withdraw messages
+	const fallbackGas = REPUBLIC_CHAIN_CONFIG.gas.claimRewards * BigInt(Math.max(messages.length, 1))
+	return signAndBroadcast(delegatorAddress, messages, fallbackGas)
 }
 
 /**
@@ -351,5 +792,5 @@ export async function cosmosSetWithdrawAddress({
 		},
 	}
 
-	return signAndBroadcast(delegatorAddress, [message])
+	return signAndBroadcast(delegatorAddress, [message], REPUBLIC_CHAIN_CONFIG.gas.setWithdrawAddress)
 }
@@ -3,23 +3,66 @@
  * Supports runtime config.json + build-time defaults
  */
 
+/**
+ * One indexed chain in a multi-network deployment.
+ * Endpoint and feature fields override the top-level config while the network is active.
+ */
+export interface NetworkConfig {
+	/** URL slug the network is served under, e.g. 'juno' for /juno/blocks */
+	id: string
+	name: string
+	/** PostgREST endpoint of this network's yaci indexer */
+	apiUrl: string
+	/** Chain ID, used to look up the chain registry before the first block loads */
+	chainId?: string
+	chainRestEndpoint?: string
+	chainRpcEndpoint?: string
+	evmRpcEndpoint?: string
+	evmEnabled?: boolean
+	ibcEnabled?: boolean
+	wasmEnabled?: boolean
+	/** Partner branding shown while the network is active */
+	branding?: AppConfig['branding']
+}
+
 export interface AppConfig {
 	apiUrl: string
 	chainRestEndpoint?: string
+	/** CometBFT RPC endpoint; its /websocket is used to stream new blocks and transactions */
+	chainRpcEndpoint?: string
 	evmRpcEndpoint?: string
 	evmEnabled?: boolean
 	ibcEnabled?: boolean
 	wasmEnabled?: boolean
 	appName: string
 	appNameShort: string
+	/** Networks served by this deployment; when set, the active network is the first URL segment */
+	networks?: NetworkConfig[]
+	/** Network id used when the URL names none (defaults to the first network) */
+	defaultNetwork?: string
 	queries?: {
 		staleTimeMs?: number
 		gcTimeMs?: number
+		/** How long a query result persisted to IndexedDB stays usable (0 disables persistence) */
+		persistMaxAgeMs?: number
+		/** Per-query overrides keyed by the first query key segment (e.g. "validators-all") */
+		persistMaxAgeByKey?: Record<string, number>
 	}
 	dashboard?: {
 		refetchIntervalMs?: number
 		itemCount?: number
 	}
+	fees?: {
+		/** Multiplier applied to simulated gas for Keplr transactions (default 1.4) */
+		gasMultiplier?: number
+	}
+	nodeHealth?: {
+		/** CometBFT Prometheus exporters (…/metrics), proxied over HTTPS with CORS */
+		endpoints?: Array<{ name: string; url: string }>
+		refetchIntervalMs?: number
+		/** Samples kept in memory per endpoint for the live charts */
+		historyLength?: number
+	}
 	transactions?: {
 		pageSize?: number
 	}
@@ -50,9 +93,23 @@ export interface AppConfig {
 	branding?: {
 		logoUrl?: string
 		faviconUrl?: string
+		/** Brand color as hex; the accent palette is generated from it */
 		primaryColor?: string
+		/** Secondary highlight color as hex, used for secondary chart series */
 		accentColor?: string
 		footerText?: string
+		/** Overrides for any color token, keyed by token path, e.g. { "bg.default": "#000000" } */
+		colors?: Record<string, string>
+		fonts?: {
+			/** CSS font-family for body text */
+			body?: string
+			/** CSS font-family for addresses, hashes and code */
+			mono?: string
+			/** Stylesheet that loads the fonts, e.g. a Google Fonts URL */
+			stylesheetUrl?: string
+		}
+		/** Series colors for multi-series charts, in order */
+		chartPalette?: string[]
 	}
 	links?: {
 		website?: string
@@ -68,17 +125,27 @@ export interface AppConfig {
 const defaultConfig: AppConfig = {
 	apiUrl: 'https://yaci-explorer-apis.fly.dev',
 	chainRestEndpoint: undefined,
+	chainRpcEndpoint: undefined,
 	evmRpcEndpoint: undefined,
 	appName: 'Republic Explorer',
 	appNameShort: 'Explorer',
 	queries: {
 		staleTimeMs: 10_000,
-		gcTimeMs: 300_000
+		gcTimeMs: 300_000,
+		persistMaxAgeMs: 86_400_000
 	},
 	dashboard: {
 		refetchIntervalMs: 6_000,
 		itemCount: 5
 	},
+	fees: {
+		gasMultiplier: 1.4
+	},
+	nodeHealth: {
+		endpoints: [],
+		refetchIntervalMs: 5_000,
+		historyLength: 120
+	},
 	transactions: {
 		pageSize: 10
 	},
@@ -179,8 +246,100 @@ export async function loadConfig(): Promise<AppConfig> {
 }
 
 /**
- * Get config synchronously (returns defaults if not yet loaded)
+ * Get config synchronously (returns defaults if not yet loaded).
+ * In multi-network mode the active network's endpoints and features are merged in.
  */
 export function getConfig(): AppConfig {
-	return loadedConfig || defaultConfig
+	const base = loadedConfig || defaultConfig
+	const network = getActiveNetwork()
+	if (!network) return base
+
+	let merged = networkConfigCache.get(network.id)
+	if (!merged || merged.base !== base) {
+		const { id: _id, name: _name, chainId: _chainId, ...overrides } = network
+		merged = { base, config: deepMerge(base, overrides) }
+		networkConfigCache.set(network.id, merged)
+	}
+	return merged.config
+}
+
+// -- Networks --
+
+/** Network id used for cache scoping when no networks are configured */
+export const DEFAULT_NETWORK_ID = 'default'
+
+let activeNetworkId: string | null = null
+const networkListeners = new Set<() => void>()
+const networkConfigCache = new Map<string, { base: AppConfig; config: AppConfig }>()
+
+/**
+ * Networks declared in config.json, empty for single-network deployments
+ */
+export function getNetworks(): NetworkConfig[] {
+	return (loadedConfig || defaultConfig).networks ?? []
+}
+
+/**
+ * The network being browsed, or null for single-network deployments
+ */
+export function getActiveNetwork(): NetworkConfig | null {
+	const networks = getNetworks()
+	if (networks.length === 0) return null
+	return networks.find((n) => n.id === activeNetworkId) ?? null
+}
+
+/**
+ * Key that per-chain clients and caches are stored under
+ */
+export function getActiveNetworkId(): string {
+	return getActiveNetwork()?.id ?? DEFAULT_NETWORK_ID
+}
+
+/**
+ * Network named by the first segment of a path, falling back to the configured default.
+ * Returns null when no networks are configured.
+ */
+export function resolveNetworkId(pathname: string): string | null {
+	const networks = getNetworks()
+	if (networks.length === 0) return null
+	const segment = pathname.split('/')[1]
+	if (networks.some((n) => n.id === segment)) return segment
+	const { defaultNetwork } = loadedConfig || defaultConfig
+	return networks.find((n) => n.id === defaultNetwork)?.id ?? networks[0].id
+}
+
+/**
+ * Switch the active network and notify subscribers (API client, router, caches)
+ */
+export function setActiveNetwork(id: string | null) {
+	activeNetworkId = id
+	for (const listener of networkListeners) listener()
+}
+
+/**
+ * Navigate to another network's dashboard without a page reload
+ */
+export function switchNetwork(id: string) {
+	if (id === activeNetworkId) return
+	window.history.pushState(null, '', `/${id}/`)
+	setActiveNetwork(id)
+}
+
+/**
+ * Subscribe to active network changes; returns an unsubscribe function
+ */
+export function subscribeNetwork(listener: () => void): () => void {
+	networkListeners.add(listener)
+	return () => {
+		networkListeners.delete(listener)
+	}
+}
+
+/**
+ * Scope a localStorage key to the active network.
+ * Single-network deployments keep the bare key so existing data stays readable.
+ */
+export function networkStorageKey(key: string): string {
+	const network = getActiveNetwork()
+	return network ? `${key}:${network.id}` : key
 }
@@ -0,0 +1,229 @@
+/**
+ * ABI-driven decoding for EVM calldata, event logs and revert data
+ * Uses a contract's verified ABI when available and falls back to bundled
+ * ERC-20/721/1155 interfaces for common token contracts.
+ */
+
+import {
+	type Abi,
+	type AbiEvent,
+	type AbiFunction,
+	type AbiParameter,
+	decodeErrorResult,
+	decodeEventLog,
+	decodeFunctionData,
+	erc20Abi,
+	erc721Abi,
+	erc1155Abi,
+	type Hex,
+} from 'viem'
+
+export type AbiSource = 'verified' | 'erc20' | 'erc721' | 'erc1155'
+
+export interface DecodedParam {
+	name: string
+	type: string
+	value: unknown
+	indexed?: boolean
+}
+
+export interface DecodedCall {
+	functionName: string
+	signature: string
+	params: DecodedParam[]
+	source: AbiSource
+}
+
+export interface DecodedEvent {
+	eventName: string
+	signature: string
+	params: DecodedParam[]
+	source: AbiSource
+}
+
+const BUNDLED_ABIS: Array<{ source: AbiSource; abi: Abi }> = [
+	{ source: 'erc20', abi: erc20Abi },
+	{ source: 'erc721', abi: erc721Abi },
+	{ source: 'erc1155', abi: erc1155Abi },
+]
+
+// Standard Solidity revert encodings
+const BUILTIN_ERRORS_ABI: Abi = [
+	{ type: 'error', name: 'Error', inputs: [{ name: 'reason', type: 'string' }] },
+	{ type: 'error', name: 'Panic', inputs: [{ name: 'code', type: 'uint256' }] },
+]
+
+// Solidity panic codes (0x01, 0x11, 0x12, 0x21, 0x22, 0x31, 0x32, 0x41, 0x51)
+const PANIC_REASONS: Record<number, string> = {
+	1: 'assertion failed',
+	17: 'arithmetic overflow or underflow',
+	18: 'division or modulo by zero',
+	33: 'invalid enum value',
+	34: 'invalid storage byte array',
+	49: 'pop on empty array',
+	50: 'array index out of bounds',
+	65: 'out of memory',
+	81: 'call to zero-initialized function',
+}
+
+/**
+ * Normalize an ABI stored in evm_contracts (JSON array or JSON string)
+ */
+export function parseAbi(abi: unknown): Abi | null {
+	let value = abi
+	if (typeof value === 'string') {
+		try {
+			value = JSON.parse(value)
+		} catch {
+			return null
+		}
+	}
+	return Array.isArray(value) && value.length > 0 ? (value as Abi) : null
+}
+
+/**
+ * Candidate ABIs in priority order: verified contract ABI first, then bundled standards
+ */
+function candidateAbis(verifiedAbi: Abi | null | undefined): Array<{ source: AbiSource; abi: Abi }> {
+	return verifiedAbi ? [{ source: 'verified', abi: verifiedAbi }, ...BUNDLED_ABIS] : BUNDLED_ABIS
+}
+
+/**
+ * Human-readable signature including parameter names, e.g. "transfer(address to, uint256 value)"
+ */
+function formatSignature(item: AbiFunction | AbiEvent): string {
+	const params = item.inputs.map((input) =>
+		[input.type, 'indexed' in input && input.indexed ? 'indexed' : null, input.name].filter(Boolean).join(' ')
+	)
+	return `${item.name}(${params.join(', ')})`
+}
+
+/**
+ * Pair decoded values with their ABI parameter definitions
+ */
+function toParams(inputs: readonly AbiParameter[], args: unknown): DecodedParam[] {
+	const values = Array.isArray(args) ? args : inputs.map((input) => (args as Record<string, unknown>)?.[input.name ?? ''])
+	return inputs.map((input, i) => ({
+		name: input.name || `arg${i}`,
+		type: input.type,
+		value: values[i],
+		indexed: 'indexed' in input ? Boolean(input.indexed) : undefined,
+	}))
+}
+
+/**
+ * Decode transaction calldata
+ */
+export function decodeCalldata(data: string | null | undefined, verifiedAbi?: Abi | null): DecodedCall | null {
+	if (!data || data.length < 10) return null
+
+	for (const { source, abi } of candidateAbis(verifiedAbi)) {
+		try {
+			const { functionName, args } = decodeFunctionData({ abi, data: data as Hex })
+			const item = abi.find(
+				(entry): entry is AbiFunction =>
+					entry.type === 'function' &&
+					entry.name === functionName &&
+					entry.inputs.length === (args?.length ?? 0)
+			)
+			if (!item) continue
+			return {
+				functionName,
+				signature: formatSignature(item),
+				params: toParams(item.inputs, args ?? []),
+				source,
+			}
+		} catch {
+			// Selector not in this ABI; try the next candidate
+		}
+	}
+	return null
+}
+
+/**
+ * Decode an event log's indexed topics and data
+ */
+export function decodeLog(
+	log: { topics: string[]; data: string },
+	verifiedAbi?: Abi | null
+): DecodedEvent | null {
+	if (log.topics.length === 0) return null
+
+	for (const { source, abi } of candidateAbis(verifiedAbi)) {
+		try {
+			const { eventName, args } = decodeEventLog({
+				abi,
+				topics: log.topics as [Hex, ...Hex[]],
+				data: (log.data || '0x') as Hex,
+				strict: true,
+			})
+			// ERC-20 and ERC-721 share Transfer/Approval selectors; match on indexed topic count
+			const item = abi.find(
+				(entry): entry is AbiEvent =>
+					entry.type === 'event' &&
+					entry.name === eventName &&
+					entry.inputs.filter((input) => input.indexed).length === log.topics.length - 1
+			)
+			if (!item) continue
+			return {
+				eventName: eventName ?? item.name,
+				signature: formatSignature(item),
+				params: toParams(item.inputs, args),
+				source,
+			}
+		} catch {
+			// Topic signature or layout does not match this ABI
+		}
+	}
+	return null
+}
+
+/**
+ * Extract a human-readable revert reason from a failed transaction's error text.
+ * Decodes Error(string), Panic(uint256) and custom errors from the verified ABI
+ * when revert data is present, otherwise returns the node's reason string.
+ */
+export function decodeRevertReason(errorText: string | null | undefined, verifiedAbi?: Abi | null): string | null {
+	if (!errorText) return null
+
+	const revertData = errorText.match(/0x[0-9a-fA-F]{8,}/)?.[0]
+	if (revertData) {
+		const abi = verifiedAbi ? [...BUILTIN_ERRORS_ABI, ...verifiedAbi] : BUILTIN_ERRORS_ABI
+		try {
+			const { errorName, args } = decodeErrorResult({ abi, data: revertData as Hex })
+			if (errorName === 'Error') return String(args?.[0] ?? '')
+			if (errorName === 'Panic') {
+				const code = Number(args?.[0] ?? 0)
+				return `Panic: ${PANIC_REASONS[code] || `code 0x${code.toString(16)}`}`
+			}
+			return `${errorName}(${(args ?? []).map(formatDecodedValue).join(', ')})`
+		} catch {
+			// Not ABI-encoded revert data (e.g. an address or hash in the message)
+		}
+	}
+
+	const reason = errorText.match(/execution reverted:?\s*(.*)$/im)?.[1]?.trim()
+	if (reason) return reason
+	return /execution reverted/i.test(errorText) ? 'execution reverted (no reason given)' : null
+}
+
+/**
+ * Format a decoded ABI value for display
+ */
+export function formatDecodedValue(value: unknown): string {
+	if (typeof value === 'bigint') return value.toString()
+	if (Array.isArray(value)) return `[${value.map(formatDecodedValue).join(', ')}]`
+	if (value && typeof value === 'object') {
+		return `{${Object.entries(value)
+			.map(([k, v]) => `${k}: ${formatDecodedValue(v)}`)
+			.join(', ')}}`
+	}
+	return String(value)
+}
+
+export const ABI_SOURCE_LABELS: Record<AbiSource, string> = {
+	verified: 'Verified ABI',
+	erc20: 'ERC-20',
+	erc721: 'ERC-721',
+	erc1155: 'ERC-1155',
+}
@@ -0,0 +1,208 @@
+/**
+ * EVM contract interaction helpers
+ * Read calls go through eth_call against the chain's EVM RPC; write calls are
+ * simulated first, then signed by the connected EVM wallet.
+ */
+
+import {
+	type Abi,
+	type AbiFunction,
+	type AbiParameter,
+	BaseError,
+	createPublicClient,
+	type Hex,
+	http,
+	isAddress,
+	isHex,
+	parseEther,
+	type TransactionReceipt,
+	type WalletClient,
+} from 'viem'
+import { REPUBLIC_CHAIN_CONFIG } from './chain-config'
+import { type DecodedEvent, type DecodedParam, decodeLog } from './evm-abi'
+
+const publicClient = createPublicClient({
+	transport: http(REPUBLIC_CHAIN_CONFIG.endpoints.evmRpc),
+})
+
+export interface WriteResult {
+	hash: Hex
+	/** Null when the receipt could not be fetched; the transaction may still land */
+	receipt: TransactionReceipt | null
+	/** Return values from the pre-flight simulation */
+	outputs: DecodedParam[]
+	events: Array<DecodedEvent | null>
+}
+
+/**
+ * View and pure functions, callable without a wallet
+ */
+export function getReadFunctions(abi: Abi): AbiFunction[] {
+	return abi.filter(
+		(item): item is AbiFunction =>
+			item.type === 'function' && (item.stateMutability === 'view' || item.stateMutability === 'pure')
+	)
+}
+
+/**
+ * State-changing functions that require a signed transaction
+ */
+export function getWriteFunctions(abi: Abi): AbiFunction[] {
+	return abi.filter(
+		(item): item is AbiFunction =>
+			item.type === 'function' && (item.stateMutability === 'nonpayable' || item.stateMutability === 'payable')
+	)
+}
+
+/**
+ * Convert a form input string into a value viem can ABI-encode.
+ * Arrays and tuples are entered as JSON.
+ */
+export function parseArgument(param: AbiParameter, raw: string): unknown {
+	const value = raw.trim()
+	const label = param.name || param.type
+
+	if (param.type.endsWith(']') || param.type === 'tuple') {
+		try {
+			return normalizeJson(JSON.parse(value))
+		} catch {
+			throw new Error(`${label}: expected a JSON ${param.type.endsWith(']') ? 'array' : 'object'}`)
+		}
+	}
+	if (param.type.startsWith('uint') || param.type.startsWith('int')) {
+		try {
+			return BigInt(value)
+		} catch {
+			throw new Error(`${label}: expected an integer`)
+		}
+	}
+	if (param.type === 'bool') {
+		if (value === 'true' || value === '1') return true
+		if (value === 'false' || value === '0') return false
+		throw new Error(`${label}: expected true or false`)
+	}
+	if (param.type === 'address') {
+		if (!isAddress(value)) throw new Error(`${label}: invalid address`)
+		return value
+	}
+	if (param.type.startsWith('bytes')) {
+		if (!isHex(value)) throw new Error(`${label}: expected 0x-prefixed hex`)
+		return value
+	}
+	return raw
+}
+
+/**
+ * JSON numbers above 2^53 lose precision, so numeric strings inside arrays and
+ * tuples are passed through unchanged and viem coerces them per the ABI type
+ */
+function normalizeJson(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(normalizeJson)
+	if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value)
+	return value
+}
+
+/**
+ * Pair function return values with the ABI's output definitions
+ */
+function toOutputs(fn: AbiFunction, result: unknown): DecodedParam[] {
+	const values = fn.outputs.length === 1 ? [result] : Array.isArray(result) ? result : []
+	return fn.outputs.map((output, i) => ({
+		name: output.name || `output${i}`,
+		type: output.type,
+		value: values[i],
+	}))
+}
+
+/**
+ * Single-function ABI plus the contract's custom errors, so overloads resolve
+ * to the selected function and reverts decode to named errors
+ */
+function callAbi(abi: Abi, fn: AbiFunction): Abi {
+	return [fn, ...abi.filter((item) => item.type === 'error')]
+}
+
+/**
+ * Call a view/pure function via eth_call and decode its return values
+ */
+export async function readContractFunction(
+	address: string,
+	abi: Abi,
+	fn: AbiFunction,
+	args: unknown[]
+): Promise<DecodedParam[]> {
+	const result = await publicClient.readContract({
+		address: address as Hex,
+		abi: callAbi(abi, fn),
+		functionName: fn.name,
+		args,
+	})
+	return toOutputs(fn, result)
+}
+
+/**
+ * Simulate, sign and broadcast a state-changing call, then decode the
+ * receipt's event logs with the contract ABI. onSubmitted fires with the
+ * hash as soon as the wallet broadcasts; a failed receipt lookup resolves
+ * with a null receipt instead of throwing, since the tx is already out.
+ */
+export async function writeContractFunction({
+	walletClient,
+	account,
+	address,
+	abi,
+	fn,
+	args,
+	value,
+	onSubmitted,
+}: {
+	walletClient: WalletClient
+	account: string
+	address: string
+	abi: Abi
+	fn: AbiFunction
+	args: unknown[]
+	/** Native value in RAI for payable functions */
+	value?: string
+	onSubmitted?: (hash: Hex) => void
+}): Promise<WriteResult> {
+	const valueWei = value ? parseEther(value) : undefined
+
+	// Surface reverts before prompting the wallet
+	const { result, request } = await publicClient.simulateContract({
+		address: address as Hex,
+		abi: callAbi(abi, fn),
+		functionName: fn.name,
+		args,
+		account: account as Hex,
+		value: valueWei,
+	})
+
+	const hash = await walletClient.writeContract({ ...request, chain: null })
+	onSubmitted?.(hash)
+
+	const outputs = toOutputs(fn, result)
+	let receipt: TransactionReceipt
+	try {
+		receipt = await publicClient.waitForTransactionReceipt({ hash })
+	} catch {
+		return { hash, receipt: null, outputs, events: [] }
+	}
+
+	return {
+		hash,
+		receipt,
+		outputs,
+		events: receipt.logs
+			.filter((log) => log.address.toLowerCase() === address.toLowerCase())
+			.map((log) => decodeLog({ topics: log.topics, data: log.data }, abi)),
+	}
+}
+
+/**
+ * Short, user-facing message for RPC and revert errors
+ */
+export function formatContractError(err: unknown): string {
+	if (err instanceof BaseError) return err.shortMessage || err.message
+	return err instanceof Error ? err.message : 'Contract call failed'
+}
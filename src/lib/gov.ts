@@ -0,0 +1,130 @@
+/**
+ * Governance helpers
+ * Label formatting and tally math shared by the proposal list and detail pages
+ */
+
+import type { GovTallyParams, ProposalStatus, ProposalTally, VoteOption } from './api'
+
+export const PROPOSAL_STATUS_LABELS: Record<ProposalStatus, string> = {
+	PROPOSAL_STATUS_UNSPECIFIED: 'Unspecified',
+	PROPOSAL_STATUS_DEPOSIT_PERIOD: 'Deposit Period',
+	PROPOSAL_STATUS_VOTING_PERIOD: 'Voting Period',
+	PROPOSAL_STATUS_PASSED: 'Passed',
+	PROPOSAL_STATUS_REJECTED: 'Rejected',
+	PROPOSAL_STATUS_FAILED: 'Failed',
+}
+
+export const VOTE_OPTION_LABELS: Record<VoteOption, string> = {
+	VOTE_OPTION_UNSPECIFIED: 'Unspecified',
+	VOTE_OPTION_YES: 'Yes',
+	VOTE_OPTION_ABSTAIN: 'Abstain',
+	VOTE_OPTION_NO: 'No',
+	VOTE_OPTION_NO_WITH_VETO: 'No With Veto',
+}
+
+type TallyOption = 'yes' | 'no' | 'noWithVeto' | 'abstain'
+
+export interface TallySummary {
+	/** Voting power per option, in base token units */
+	yes: bigint
+	no: bigint
+	noWithVeto: bigint
+	abstain: bigint
+	totalVoted: bigint
+	/** Each option's share of all votes (0-1) */
+	shares: Record<TallyOption, number>
+	/** Share of bonded tokens that voted (0-1), null when bonded supply is unknown */
+	turnout: number | null
+	/** Yes share of non-abstain votes (0-1) */
+	yesRatio: number
+	/** NoWithVeto share of all votes (0-1) */
+	vetoRatio: number
+	quorumReached: boolean | null
+	thresholdReached: boolean | null
+	vetoed: boolean | null
+	/** Whether the proposal would pass if voting ended now */
+	passing: boolean | null
+}
+
+/** Fixed-point scale of cosmos-sdk Dec values (18 decimals) */
+const DEC_SCALE = 10n ** 18n
+/** Precision kept when converting a ratio to a number */
+const RATIO_SCALE = 10n ** 12n
+
+function toBigInt(value: string | null | undefined): bigint {
+	try {
+		return value ? BigInt(value) : 0n
+	} catch {
+		return 0n
+	}
+}
+
+/** Parse a Dec string ("0.334000000000000000") into a bigint scaled by 10^18 */
+function parseDec(value: string): bigint {
+	const [whole, fraction = ''] = value.trim().split('.')
+	return toBigInt(whole || '0') * DEC_SCALE + toBigInt(fraction.slice(0, 18).padEnd(18, '0'))
+}
+
+function ratio(part: bigint, total: bigint): number {
+	return total > 0n ? Number((part * RATIO_SCALE) / total) / Number(RATIO_SCALE) : 0
+}
+
+/**
+ * Summarize a tally against the chain's tallying params.
+ * Mirrors x/gov: quorum is measured against bonded tokens, veto against all votes,
+ * and threshold against all votes excluding abstain. Token amounts carry up to 18
+ * decimals, so all comparisons are done in bigint.
+ */
+export function summarizeTally(
+	tally: ProposalTally,
+	params?: GovTallyParams | null,
+	bondedTokens?: string | null,
+	expedited = false
+): TallySummary {
+	const yes = toBigInt(tally.yes_count)
+	const no = toBigInt(tally.no_count)
+	const noWithVeto = toBigInt(tally.no_with_veto_count)
+	const abstain = toBigInt(tally.abstain_count)
+	const totalVoted = yes + no + noWithVeto + abstain
+	const nonAbstain = yes + no + noWithVeto
+
+	const bonded = toBigInt(bondedTokens)
+	const turnout = bonded > 0n ? ratio(totalVoted, bonded) : null
+	const base = {
+		yes, no, noWithVeto, abstain, totalVoted,
+		shares: {
+			yes: ratio(yes, totalVoted),
+			no: ratio(no, totalVoted),
+			noWithVeto: ratio(noWithVeto, totalVoted),
+			abstain: ratio(abstain, totalVoted),
+		},
+		turnout,
+		yesRatio: ratio(yes, nonAbstain),
+		vetoRatio: ratio(noWithVeto, totalVoted),
+	}
+
+	if (!params) {
+		return { ...base, quorumReached: null, thresholdReached: null, vetoed: null, passing: null }
+	}
+
+	// a / b > dec  <=>  a * 10^18 > dec * b
+	const threshold = parseDec(expedited && params.expedited_threshold ? params.expedited_threshold : params.threshold)
+	const quorumReached = bonded > 0n ? totalVoted * DEC_SCALE >= parseDec(params.quorum) * bonded : null
+	const thresholdReached = nonAbstain > 0n && yes * DEC_SCALE > threshold * nonAbstain
+	const vetoed = totalVoted > 0n && noWithVeto * DEC_SCALE > parseDec(params.veto_threshold) * totalVoted
+
+	return {
+		...base,
+		quorumReached,
+		thresholdReached,
+		vetoed,
+		passing: quorumReached === null ? null : quorumReached && thresholdReached && !vetoed,
+	}
+}
+
+/**
+ * Extract the short message name from a type URL (e.g. "/cosmos.gov.v1.MsgExecLegacyContent" -> "MsgExecLegacyContent")
+ */
+export function proposalMessageName(typeUrl: string): string {
+	return typeUrl.split('.').pop() || typeUrl
+}
@@ -4,7 +4,7 @@
  */
 
 import { extractIBCHash } from './denom'
-import { getConfig } from './env'
+import { getConfig, networkStorageKey } from './env'
 
 export interface IBCChannelInfo {
 	channelId: string
@@ -206,7 +206,7 @@ async function getBaseDenomInfo(_baseDenom: string): Promise<{ displayName: stri
 
 function getChannelFromCache(channelId: string, portId: string): IBCChannelInfo | null {
 	try {
-		const cache = localStorage.getItem(CHANNEL_CACHE_KEY)
+		const cache = localStorage.getItem(networkStorageKey(CHANNEL_CACHE_KEY))
 		if (!cache) return null
 
 		const parsed = JSON.parse(cache)
@@ -219,11 +219,11 @@ function getChannelFromCache(channelId: string, portId: string): IBCChannelInfo
 
 function cacheChannelInfo(info: IBCChannelInfo): void {
 	try {
-		const cache = localStorage.getItem(CHANNEL_CACHE_KEY)
+		const cache = localStorage.getItem(networkStorageKey(CHANNEL_CACHE_KEY))
 		const parsed = cache ? JSON.parse(cache) : {}
 		const key = `${info.portId}/${info.channelId}`
 		parsed[key] = info
-		localStorage.setItem(CHANNEL_CACHE_KEY, JSON.stringify(parsed))
+		localStorage.setItem(networkStorageKey(CHANNEL_CACHE_KEY), JSON.stringify(parsed))
 	} catch (error) {
 		console.warn('Failed to cache channel info:', error)
 	}
@@ -231,7 +231,7 @@ function cacheChannelInfo(info: IBCChannelInfo): void {
 
 export function getIBCDenomFromCache(hash: string): IBCDenomInfo | null {
 	try {
-		const cache = localStorage.getItem(IBC_CACHE_KEY)
+		const cache = localStorage.getItem(networkStorageKey(IBC_CACHE_KEY))
 		if (!cache) return null
 
 		const parsed = JSON.parse(cache)
@@ -243,10 +243,10 @@ export function getIBCDenomFromCache(hash: string): IBCDenomInfo | null {
 
 function cacheIBCDenom(info: IBCDenomInfo): void {
 	try {
-		const cache = localStorage.getItem(IBC_CACHE_KEY)
+		const cache = localStorage.getItem(networkStorageKey(IBC_CACHE_KEY))
 		const parsed = cache ? JSON.parse(cache) : {}
 		parsed[info.ibcHash] = info
-		localStorage.setItem(IBC_CACHE_KEY, JSON.stringify(parsed))
+		localStorage.setItem(networkStorageKey(IBC_CACHE_KEY), JSON.stringify(parsed))
 	} catch (error) {
 		console.warn('Failed to cache IBC denom:', error)
 	}
@@ -257,8 +257,8 @@ function cacheIBCDenom(info: IBCDenomInfo): void {
  */
 export function clearIBCCache(): void {
 	try {
-		localStorage.removeItem(IBC_CACHE_KEY)
-		localStorage.removeItem(CHANNEL_CACHE_KEY)
+		localStorage.removeItem(networkStorageKey(IBC_CACHE_KEY))
+		localStorage.removeItem(networkStorageKey(CHANNEL_CACHE_KEY))
 	} catch (error) {
 		console.warn('Failed to clear IBC cache:', error)
 	}
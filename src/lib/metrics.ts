@@ -1,21 +1,22 @@
 import { api } from '@/lib/api'
 import { getChainInfo, type ChainInfo } from '@/lib/chain-info'
 import { subMinutes, subHours, subDays } from 'date-fns'
-import { getConfig } from '@/lib/env'
+import { getActiveNetworkId, getConfig } from '@/lib/env'
 
-// Simple cache implementation
+// Simple cache implementation, keyed per network
 const cacheStore = new Map<string, { value: any; expires: number }>()
 const cache = {
   get<T>(key: string): T | null {
-    const entry = cacheStore.get(key)
+    const scopedKey = `${getActiveNetworkId()}:${key}`
+    const entry = cacheStore.get(scopedKey)
     if (!entry || Date.now() > entry.expires) {
-      cacheStore.delete(key)
+      cacheStore.delete(scopedKey)
       return null
     }
     return entry.value as T
   },
   set(key: string, value: any, ttl = 30000) {
-    cacheStore.set(key, { value, expires: Date.now() + ttl })
+    cacheStore.set(`${getActiveNetworkId()}:${key}`, { value, expires: Date.now() + ttl })
   }
 }
 
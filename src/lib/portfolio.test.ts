@@ -0,0 +1,107 @@
+import { describe, expect, mock, test } from 'bun:test'
+import type { DelegationEvent, Transaction } from './api'
+
+const ADDRESS = 'rai1holder'
+
+function tx(timestamp: string, height: number, events: Array<[string, Record<string, string>]>): Transaction {
+	return {
+		id: `tx-${height}`,
+		height,
+		timestamp,
+		events: events.flatMap(([type, attrs], index) =>
+			Object.entries(attrs).map(([key, value]) => ({
+				event_index: index,
+				event_type: type,
+				attr_key: key,
+				attr_value: value,
+			}))
+		),
+	} as unknown as Transaction
+}
+
+const txs = [
+	tx('2026-01-03T00:00:00Z', 30, [
+		['coin_spent', { spender: ADDRESS, amount: '100arai' }],
+		['coin_received', { receiver: 'rai1other', amount: '100arai' }],
+	]),
+	tx('2026-01-01T00:00:00Z', 10, [['coin_received', { receiver: ADDRESS, amount: '400arai,5ibc/ABC' }]]),
+]
+
+const delegationEvents = [
+	{ event_type: 'DELEGATE', amount: '200', denom: 'arai', timestamp: '2026-01-02T00:00:00Z', height: 20 },
+] as unknown as DelegationEvent[]
+
+const page = <T>(data: T[]) => ({ data, pagination: { total: data.length, has_next: false } })
+
+mock.module('./api', () => ({
+	api: {
+		getDelegatorDelegations: async () => ({ total_staked: '200' }),
+		getTransactionsByAddress: async () => page(txs),
+		getDelegatorHistory: async () => page(delegationEvents),
+	},
+	getAccountBalances: async () => [
+		{ denom: 'arai', amount: '300' },
+		{ denom: 'ibc/ABC', amount: '5' },
+	],
+	getDelegatorUnbondingsLive: async () => [],
+	getDelegatorRewardsLive: async () => null,
+	getStakingParamsLive: async () => null,
+}))
+
+const { bankDeltas, buildPortfolio, parseCoins } = await import('./portfolio')
+
+describe('parseCoins', () => {
+	test('parses multi-denom coin lists and skips malformed entries', () => {
+		expect(parseCoins('100arai, 5ibc/ABC,bogus,7')).toEqual([
+			{ amount: 100n, denom: 'arai' },
+			{ amount: 5n, denom: 'ibc/ABC' },
+		])
+	})
+})
+
+describe('bankDeltas', () => {
+	test('nets coin_spent and coin_received for the address, including fees', () => {
+		const deltas = bankDeltas(
+			tx('2026-01-01T00:00:00Z', 1, [
+				['coin_spent', { spender: ADDRESS, amount: '10arai' }],
+				['coin_spent', { spender: ADDRESS, amount: '250arai' }],
+				['coin_received', { receiver: ADDRESS, amount: '40arai' }],
+				['transfer', { sender: ADDRESS, recipient: 'rai1other', amount: '250arai' }],
+			]),
+			ADDRESS
+		)
+		expect(Object.fromEntries(deltas)).toEqual({ arai: -220n })
+	})
+
+	test('falls back to transfer events when coin events are absent', () => {
+		const deltas = bankDeltas(
+			tx('2026-01-01T00:00:00Z', 1, [
+				['transfer', { sender: 'rai1other', recipient: ADDRESS, amount: '70arai' }],
+				['transfer', { sender: ADDRESS, recipient: ADDRESS, amount: '5arai' }],
+			]),
+			ADDRESS
+		)
+		expect(Object.fromEntries(deltas)).toEqual({ arai: 70n })
+	})
+})
+
+describe('buildPortfolio', () => {
+	test('replays balance and stake history backwards from current state', async () => {
+		const portfolio = await buildPortfolio(ADDRESS, 'arai')
+
+		expect(portfolio.liquid).toEqual({ arai: 300n, 'ibc/ABC': 5n })
+		expect(portfolio.staked).toBe(200n)
+		expect(portfolio.truncated).toBe(false)
+
+		const points = portfolio.history.map((s) => [s.height, s.balances.arai, s.balances['ibc/ABC'], s.staked])
+		expect(points).toEqual([
+			// Before the first receive
+			[null, 0n, 0n, 0n],
+			[10, 400n, 5n, 0n],
+			[20, 400n, 5n, 200n],
+			[30, 300n, 5n, 200n],
+			// Current state
+			[null, 300n, 5n, 200n],
+		])
+	})
+})
@@ -0,0 +1,217 @@
+/**
+ * Address portfolio reconstruction
+ * Rebuilds per-denom balance history by walking an address's indexed bank events
+ * backwards from its current balances, and tracks staked amounts the same way from
+ * delegation events. Current staked, unbonding and reward amounts come from the
+ * delegator endpoints.
+ */
+
+import {
+	api,
+	getAccountBalances,
+	getDelegatorRewardsLive,
+	getDelegatorUnbondingsLive,
+	getStakingParamsLive,
+	type DelegationEvent,
+	type Transaction,
+} from './api'
+
+export interface PortfolioSnapshot {
+	time: string
+	height: number | null
+	/** Liquid balances after this point, base units per denom */
+	balances: Record<string, bigint>
+	/** Native tokens bonded to validators after this point */
+	staked: bigint
+}
+
+export interface Portfolio {
+	nativeDenom: string
+	liquid: Record<string, bigint>
+	staked: bigint
+	unbonding: bigint
+	/** Pending rewards per denom (truncated to whole base units) */
+	rewards: Record<string, bigint>
+	/** Oldest first, ending with the current state */
+	history: PortfolioSnapshot[]
+	txsScanned: number
+	/** True when older activity exists beyond the scan limit */
+	truncated: boolean
+}
+
+interface BalanceChange {
+	time: string
+	height: number | null
+	liquid: Map<string, bigint>
+	staked: bigint
+}
+
+const PAGE_SIZE = 100
+
+/**
+ * Parse a Cosmos coin list such as "100arai,5ibc/ABC" into denom/amount pairs
+ */
+export function parseCoins(value: string): Array<{ denom: string; amount: bigint }> {
+	const coins: Array<{ denom: string; amount: bigint }> = []
+	for (const part of value.split(',')) {
+		const match = part.trim().match(/^(\d+)([a-zA-Z][a-zA-Z0-9/:._-]*)$/)
+		if (match) coins.push({ amount: BigInt(match[1]), denom: match[2] })
+	}
+	return coins
+}
+
+function addTo(map: Map<string, bigint>, denom: string, amount: bigint): void {
+	map.set(denom, (map.get(denom) ?? 0n) + amount)
+}
+
+/**
+ * Net per-denom balance change of `address` within one transaction.
+ * Prefers coin_spent/coin_received, which also cover fees and module transfers,
+ * and falls back to transfer events for indexers that only keep those.
+ */
+export function bankDeltas(tx: Transaction, address: string): Map<string, bigint> {
+	const grouped = new Map<number, { type: string; attrs: Record<string, string> }>()
+	for (const ev of tx.events ?? []) {
+		const group = grouped.get(ev.event_index) ?? { type: ev.event_type, attrs: {} }
+		group.attrs[ev.attr_key] = ev.attr_value
+		grouped.set(ev.event_index, group)
+	}
+	const events = Array.from(grouped.values())
+	const hasCoinEvents = events.some((e) => e.type === 'coin_spent' || e.type === 'coin_received')
+
+	const deltas = new Map<string, bigint>()
+	for (const { type, attrs } of events) {
+		if (!attrs.amount) continue
+		let sign = 0n
+		if (hasCoinEvents) {
+			if (type === 'coin_received' && attrs.receiver === address) sign = 1n
+			else if (type === 'coin_spent' && attrs.spender === address) sign = -1n
+		} else if (type === 'transfer') {
+			if (attrs.recipient === address) sign += 1n
+			if (attrs.sender === address) sign -= 1n
+		}
+		if (sign === 0n) continue
+		for (const coin of parseCoins(attrs.amount)) addTo(deltas, coin.denom, sign * coin.amount)
+	}
+	return deltas
+}
+
+/** Seconds in a protobuf duration string ("1814400s") */
+function durationSeconds(duration: string | undefined): number | null {
+	const match = duration?.match(/^(\d+(?:\.\d+)?)s$/)
+	return match ? Number(match[1]) : null
+}
+
+function toBigInt(value: string | null | undefined): bigint {
+	try {
+		return BigInt((value ?? '0').split('.')[0] || '0')
+	} catch {
+		return 0n
+	}
+}
+
+async function fetchAllPages<T>(
+	fetchPage: (limit: number, offset: number) => Promise<{ data: T[]; pagination?: { has_next?: boolean } }>,
+	max: number
+): Promise<{ items: T[]; truncated: boolean }> {
+	const items: T[] = []
+	for (let offset = 0; offset < max; offset += PAGE_SIZE) {
+		const page = await fetchPage(PAGE_SIZE, offset)
+		items.push(...(page.data ?? []))
+		if (!page.pagination?.has_next) return { items, truncated: false }
+	}
+	return { items, truncated: true }
+}
+
+/**
+ * Build the portfolio for a bech32 account address
+ */
+export async function buildPortfolio(address: string, nativeDenom: string, maxTxs = 1000): Promise<Portfolio> {
+	const [balances, delegations, unbondings, rewards, stakingParams, txPages, delegationPages] = await Promise.all([
+		getAccountBalances(address),
+		api.getDelegatorDelegations(address).catch(() => null),
+		getDelegatorUnbondingsLive(address),
+		getDelegatorRewardsLive(address),
+		getStakingParamsLive(),
+		fetchAllPages((limit, offset) => api.getTransactionsByAddress(address, limit, offset), maxTxs),
+		fetchAllPages<DelegationEvent>((limit, offset) => api.getDelegatorHistory(address, limit, offset), maxTxs).catch(() => ({
+			items: [] as DelegationEvent[],
+			truncated: false,
+		})),
+	])
+
+	const liquid: Record<string, bigint> = {}
+	for (const b of balances) liquid[b.denom] = toBigInt(b.amount)
+
+	const staked = toBigInt(delegations?.total_staked)
+	const unbonding = unbondings.reduce(
+		(sum, u) => sum + u.entries.reduce((s, e) => s + toBigInt(e.balance), 0n),
+		0n
+	)
+	const pendingRewards: Record<string, bigint> = {}
+	for (const r of rewards?.total ?? []) pendingRewards[r.denom] = toBigInt(r.amount)
+
+	const changes: BalanceChange[] = []
+	for (const tx of txPages.items) {
+		const deltas = bankDeltas(tx, address)
+		if (deltas.size > 0) changes.push({ time: tx.timestamp, height: tx.height, liquid: deltas, staked: 0n })
+	}
+
+	// Completed unbondings pay out at end-block, outside any transaction, so add them at their completion time
+	const unbondingSeconds = durationSeconds(stakingParams?.unbonding_time)
+	const now = Date.now()
+	for (const ev of delegationPages.items) {
+		const amount = toBigInt(ev.amount)
+		if (!ev.timestamp || amount === 0n) continue
+		if (ev.event_type === 'DELEGATE' || ev.event_type === 'CREATE_VALIDATOR') {
+			changes.push({ time: ev.timestamp, height: ev.height, liquid: new Map(), staked: amount })
+		} else if (ev.event_type === 'UNDELEGATE') {
+			changes.push({ time: ev.timestamp, height: ev.height, liquid: new Map(), staked: -amount })
+			if (unbondingSeconds !== null) {
+				const completion = new Date(ev.timestamp).getTime() + unbondingSeconds * 1000
+				if (completion <= now) {
+					changes.push({
+						time: new Date(completion).toISOString(),
+						height: null,
+						liquid: new Map([[ev.denom || nativeDenom, amount]]),
+						staked: 0n,
+					})
+				}
+			}
+		}
+	}
+
+	// Walk newest to oldest, undoing each change from the current state
+	changes.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime())
+	const state = new Map(Object.entries(liquid))
+	let stakedState = staked
+	const snapshot = (time: string, height: number | null): PortfolioSnapshot => {
+		const record: Record<string, bigint> = {}
+		for (const [denom, amount] of state) record[denom] = amount > 0n ? amount : 0n
+		return { time, height, balances: record, staked: stakedState > 0n ? stakedState : 0n }
+	}
+
+	const history: PortfolioSnapshot[] = [snapshot(new Date().toISOString(), null)]
+	for (const change of changes) {
+		history.push(snapshot(change.time, change.height))
+		for (const [denom, delta] of change.liquid) addTo(state, denom, -delta)
+		stakedState -= change.staked
+	}
+	if (changes.length > 0) {
+		// State before the oldest scanned change, just ahead of it on the time axis
+		const oldest = changes[changes.length - 1]
+		history.push(snapshot(new Date(new Date(oldest.time).getTime() - 1000).toISOString(), null))
+	}
+	history.reverse()
+
+	return {
+		nativeDenom,
+		liquid,
+		staked,
+		unbonding,
+		rewards: pendingRewards,
+		history,
+		txsScanned: txPages.items.length,
+		truncated: txPages.truncated,
+	}
+}
@@ -0,0 +1,41 @@
+/**
+ * Query clients, one per network
+ * Kept across switches so returning to a network is instant. Each client's cache
+ * is persisted to IndexedDB and restored when the client is first created.
+ */
+
+import { QueryClient } from '@tanstack/react-query'
+import { getAppConfig } from '@/config/app'
+import { persistQueryClient } from './query-persistence'
+
+const queryClients = new Map<string, { client: QueryClient; restored: Promise<void> }>()
+
+function getEntry(networkId: string) {
+	let entry = queryClients.get(networkId)
+	if (!entry) {
+		const { queries } = getAppConfig()
+		const client = new QueryClient({
+			defaultOptions: {
+				queries: {
+					staleTime: queries.staleTimeMs,
+					gcTime: queries.gcTimeMs,
+					refetchOnWindowFocus: false
+				}
+			}
+		})
+		entry = { client, restored: persistQueryClient(client, networkId) }
+		queryClients.set(networkId, entry)
+	}
+	return entry
+}
+
+export function getQueryClient(networkId: string): QueryClient {
+	return getEntry(networkId).client
+}
+
+/**
+ * Create the network's client and wait for its persisted cache to be restored
+ */
+export function restoreQueryClient(networkId: string): Promise<void> {
+	return getEntry(networkId).restored
+}
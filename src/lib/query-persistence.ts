@@ -0,0 +1,189 @@
+/**
+ * React Query cache persistence
+ * Successful query results are written to IndexedDB, scoped to the network, and
+ * hydrated back into the query client on startup. Visited pages therefore render
+ * from disk on revisits and keep working while the indexer backend is unreachable.
+ * Only public chain data listed in PERSISTED_QUERY_KEYS is written; wallet, account
+ * and health queries stay in memory.
+ * Each entry expires after its max age: the query's `meta.persistMaxAgeMs`, else the
+ * `queries.persistMaxAgeByKey` entry for its first key segment, else `queries.persistMaxAgeMs`.
+ */
+
+import { dehydrate, hydrate, type DehydratedState, type Query, type QueryClient } from '@tanstack/react-query'
+import { getAppConfig } from '@/config/app'
+
+type DehydratedQuery = DehydratedState['queries'][number]
+
+interface PersistedQuery {
+	/** `${networkId}:${queryHash}` */
+	id: string
+	networkId: string
+	dataUpdatedAt: number
+	maxAgeMs: number
+	query: DehydratedQuery
+}
+
+const DB_NAME = 'yaci-explorer'
+const DB_VERSION = 1
+const STORE = 'queries'
+/** Newest entries kept per network */
+const MAX_ENTRIES = 500
+const FLUSH_DELAY_MS = 1000
+/** Startup waits at most this long for the restore before rendering */
+const RESTORE_TIMEOUT_MS = 1000
+
+/** First query key segments that may be persisted: blocks, transactions, validators and static metadata */
+const PERSISTED_QUERY_KEYS = new Set([
+	// Blocks
+	'block',
+	'blocks',
+	'blockConsensus',
+	'blockTransactions',
+	'latestBlocks',
+	// Transactions
+	'transaction',
+	'transactions',
+	'latestTransactions',
+	// Validators
+	'validators-all',
+	'validator-detail',
+	'validator-performance',
+	'validator-signing-info',
+	'validator-stats',
+	'validator-total-rewards',
+	'validators-signing-stats',
+	// Static metadata
+	'chain-info',
+	'denom-metadata',
+	'evm-contract-abi',
+	'evm-token',
+	'gov-tally-params',
+	'ibc-channel-info',
+	'keybase-avatar',
+	'message-types',
+	'slashing-params',
+	'staking-yield-params',
+])
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION)
+			request.onupgradeneeded = () => {
+				const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+				store.createIndex('networkId', 'networkId')
+			}
+			request.onsuccess = () => resolve(request.result)
+			request.onerror = () => reject(request.error)
+		})
+		dbPromise.catch(() => {
+			dbPromise = null
+		})
+	}
+	return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result)
+		request.onerror = () => reject(request.error)
+	})
+}
+
+function isPersisted(query: Query): boolean {
+	return PERSISTED_QUERY_KEYS.has(String(query.queryKey[0])) && maxAgeFor(query) > 0
+}
+
+function maxAgeFor(query: Query): number {
+	const config = getAppConfig().queries
+	const fromMeta = query.meta?.persistMaxAgeMs
+	if (typeof fromMeta === 'number') return fromMeta
+	return config.persistMaxAgeByKey[String(query.queryKey[0])] ?? config.persistMaxAgeMs
+}
+
+async function restore(client: QueryClient, networkId: string): Promise<void> {
+	const db = await openDb()
+	const records = await promisify<PersistedQuery[]>(
+		db.transaction(STORE).objectStore(STORE).index('networkId').getAll(networkId)
+	)
+
+	const now = Date.now()
+	const fresh: PersistedQuery[] = []
+	const expired: PersistedQuery[] = []
+	for (const record of records) {
+		// Entries written before a key left the allowlist are dropped too
+		const allowed = PERSISTED_QUERY_KEYS.has(String(record.query.queryKey[0]))
+		if (!allowed || now - record.dataUpdatedAt > record.maxAgeMs) expired.push(record)
+		else fresh.push(record)
+	}
+	fresh.sort((a, b) => b.dataUpdatedAt - a.dataUpdatedAt)
+	expired.push(...fresh.splice(MAX_ENTRIES))
+
+	if (expired.length > 0) {
+		const store = db.transaction(STORE, 'readwrite').objectStore(STORE)
+		for (const record of expired) store.delete(record.id)
+	}
+
+	// Restored entries outlive the in-memory gcTime so unvisited pages can still use them
+	hydrate(
+		client,
+		{ mutations: [], queries: fresh.map((record) => record.query) },
+		{ defaultOptions: { queries: { gcTime: getAppConfig().queries.persistMaxAgeMs } } }
+	)
+}
+
+async function write(client: QueryClient, networkId: string, queries: Query[]): Promise<void> {
+	const hashes = new Set(queries.map((query) => query.queryHash))
+	const maxAges = new Map(queries.map((query) => [query.queryHash, maxAgeFor(query)]))
+	const { queries: dehydrated } = dehydrate(client, {
+		shouldDehydrateQuery: (query) => hashes.has(query.queryHash) && isPersisted(query) && query.state.status === 'success',
+	})
+
+	const db = await openDb()
+	const store = db.transaction(STORE, 'readwrite').objectStore(STORE)
+	for (const query of dehydrated) {
+		const record: PersistedQuery = {
+			id: `${networkId}:${query.queryHash}`,
+			networkId,
+			dataUpdatedAt: query.state.dataUpdatedAt,
+			maxAgeMs: maxAges.get(query.queryHash) ?? 0,
+			query,
+		}
+		try {
+			store.put(record)
+		} catch {
+			// Data that can't be structured-cloned stays in memory only
+		}
+	}
+}
+
+/**
+ * Restore a network's persisted queries into its client, then keep persisting
+ * successful results. Resolves once the restore finished or timed out.
+ */
+export function persistQueryClient(client: QueryClient, networkId: string): Promise<void> {
+	if (typeof indexedDB === 'undefined') return Promise.resolve()
+
+	const pending = new Map<string, Query>()
+	let flushTimer: ReturnType<typeof setTimeout> | null = null
+	const flush = () => {
+		flushTimer = null
+		if (pending.size === 0) return
+		const queries = Array.from(pending.values())
+		pending.clear()
+		write(client, networkId, queries).catch((error) => console.warn('Failed to persist query cache:', error))
+	}
+
+	client.getQueryCache().subscribe((event) => {
+		if (event.type !== 'updated' || event.action.type !== 'success') return
+		if (!isPersisted(event.query)) return
+		pending.set(event.query.queryHash, event.query)
+		if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS)
+	})
+	window.addEventListener('pagehide', flush)
+
+	const restored = restore(client, networkId).catch((error) => console.warn('Failed to restore query cache:', error))
+	return Promise.race([restored, new Promise<void>((resolve) => setTimeout(resolve, RESTORE_TIMEOUT_MS))])
+}
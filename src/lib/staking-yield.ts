@@ -0,0 +1,92 @@
+/**
+ * Staking yield estimates
+ * Derives expected APR/APY from on-chain inflation, bonded ratio and community tax,
+ * adjusted per validator for commission and uptime. Estimates assume current
+ * parameters stay constant and ignore fee rewards.
+ */
+
+import type { StakingYieldParams } from './api'
+
+export interface YieldEstimate {
+	/** Network-wide staking APR before commission, 0-1 */
+	networkApr: number
+	/** Delegator APR after commission and uptime, 0-1 */
+	apr: number
+	/** APR compounded daily, 0-1 */
+	apy: number
+	/** Commission applied, 0-1 */
+	commission: number
+	/** Uptime applied, 0-1 */
+	uptime: number
+}
+
+export interface RewardProjection {
+	days: number
+	/** Rewards when claimed and left idle */
+	simple: number
+	/** Rewards when restaked daily */
+	compounded: number
+}
+
+const DAYS_PER_YEAR = 365
+
+/**
+ * Normalizes a commission rate to 0-1.
+ * Defensively handles leftover Cosmos SDK Dec format (10^18) and percentage values.
+ */
+export function normalizeCommission(rate: number | string | null | undefined): number {
+	let normalized = Number(rate ?? 0)
+	if (!Number.isFinite(normalized) || normalized < 0) return 0
+	if (normalized > 1e6) normalized = normalized / 1e18
+	return normalized > 1 ? normalized / 100 : normalized
+}
+
+/**
+ * APR paid to all bonded stake: inflation minus the community tax, shared across the bonded ratio
+ */
+export function getNetworkApr(params: StakingYieldParams): number {
+	if (params.bonded_ratio <= 0) return 0
+	return (params.inflation * (1 - params.community_tax)) / params.bonded_ratio
+}
+
+/**
+ * Compounds an APR a number of times per year
+ */
+export function aprToApy(apr: number, periodsPerYear = DAYS_PER_YEAR): number {
+	return (1 + apr / periodsPerYear) ** periodsPerYear - 1
+}
+
+/**
+ * Expected yield for delegating to a validator
+ *
+ * @param uptimePct - Signing percentage 0-100; missed blocks forfeit their share of rewards
+ */
+export function estimateValidatorYield(
+	params: StakingYieldParams,
+	commissionRate: number | string | null | undefined,
+	uptimePct: number | null | undefined
+): YieldEstimate {
+	const networkApr = getNetworkApr(params)
+	const commission = normalizeCommission(commissionRate)
+	const uptime = uptimePct === null || uptimePct === undefined ? 1 : Math.min(Math.max(uptimePct / 100, 0), 1)
+	const apr = networkApr * (1 - commission) * uptime
+	return { networkApr, apr, apy: aprToApy(apr), commission, uptime }
+}
+
+/**
+ * Projected rewards on an amount over each period
+ */
+export function projectRewards(amount: number, apr: number, periods: number[] = [30, 90, 365]): RewardProjection[] {
+	return periods.map((days) => ({
+		days,
+		simple: amount * apr * (days / DAYS_PER_YEAR),
+		compounded: amount * ((1 + apr / DAYS_PER_YEAR) ** days - 1),
+	}))
+}
+
+/**
+ * Formats a 0-1 rate as a percentage
+ */
+export function formatYield(rate: number): string {
+	return `${(rate * 100).toFixed(2)}%`
+}
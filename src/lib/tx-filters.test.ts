@@ -0,0 +1,111 @@
+import { describe, expect, spyOn, test } from 'bun:test'
+import { api, type PaginatedResponse, type Transaction } from './api'
+import {
+	EMPTY_TX_FILTERS,
+	fetchFilteredTransactions,
+	matchesTxFilters,
+	parseTxFilters,
+	serializeTxFilters,
+	type TxFilters,
+} from './tx-filters'
+
+function tx(
+	id: string,
+	fee: Array<{ denom: string; amount: string }>,
+	gasLimit = '200000',
+	memo: string | null = null
+): Transaction {
+	return {
+		id,
+		height: 1,
+		timestamp: '2026-01-01T00:00:00Z',
+		error: null,
+		fee: { amount: fee, gasLimit },
+		memo,
+		messages: [],
+		events: [],
+	} as unknown as Transaction
+}
+
+const filters = (patch: Partial<TxFilters>): TxFilters => ({ ...EMPTY_TX_FILTERS, ...patch })
+
+describe('fee filters', () => {
+	const paid = tx('a', [{ denom: 'arai', amount: '2500000000000000000' }])
+
+	test('compares the fee in display units of its denom', () => {
+		expect(matchesTxFilters(paid, filters({ feeMin: '2' }))).toBe(true)
+		expect(matchesTxFilters(paid, filters({ feeMin: '2.6' }))).toBe(false)
+		expect(matchesTxFilters(paid, filters({ feeMax: '2.5' }))).toBe(true)
+		expect(matchesTxFilters(paid, filters({ feeMax: '2.4' }))).toBe(false)
+	})
+
+	test('treats a transaction without fee coins as a zero fee', () => {
+		expect(matchesTxFilters(tx('b', []), filters({ feeMax: '1' }))).toBe(true)
+		expect(matchesTxFilters(tx('b', []), filters({ feeMin: '1' }))).toBe(false)
+	})
+
+	test('ignores malformed bounds and fee amounts instead of throwing', () => {
+		expect(matchesTxFilters(paid, filters({ feeMin: 'abc' }))).toBe(true)
+		expect(matchesTxFilters(tx('c', [{ denom: 'arai', amount: '1.5' }]), filters({ feeMin: '1' }))).toBe(true)
+	})
+})
+
+describe('gas and memo filters', () => {
+	test('bounds the gas limit inclusively', () => {
+		const row = tx('a', [], '150000')
+		expect(matchesTxFilters(row, filters({ gasMin: '150000', gasMax: '150000' }))).toBe(true)
+		expect(matchesTxFilters(row, filters({ gasMin: '150001' }))).toBe(false)
+	})
+
+	test('matches memo text case-insensitively', () => {
+		expect(matchesTxFilters(tx('a', [], '1', 'Airdrop claim'), filters({ memo: 'airdrop' }))).toBe(true)
+		expect(matchesTxFilters(tx('a', [], '1', null), filters({ memo: 'airdrop' }))).toBe(false)
+	})
+})
+
+describe('URL serialization', () => {
+	test('round-trips filters and omits defaults', () => {
+		const applied = filters({
+			status: 'failed',
+			messageTypes: ['/a', '/b'],
+			feeMin: '0.1',
+			address: 'rai1x',
+			addressRole: 'sender',
+		})
+		const params = serializeTxFilters(applied)
+		expect(params.toString()).toBe('status=failed&type=%2Fa&type=%2Fb&address=rai1x&fee_min=0.1&role=sender')
+		expect(parseTxFilters(params)).toEqual(applied)
+	})
+})
+
+describe('fetchFilteredTransactions', () => {
+	test('resumes the client-side scan from its cached position on the next page', async () => {
+		// 300 transactions, every third one has a memo match
+		const all = Array.from({ length: 300 }, (_, i) => tx(`tx${i}`, [], '1', i % 3 === 0 ? 'match' : null))
+		const offsets: number[] = []
+		const getTransactions = spyOn(api, 'getTransactions').mockImplementation(async (limit = 20, offset = 0) => {
+			offsets.push(offset)
+			const data = all.slice(offset, offset + limit)
+			return {
+				data,
+				pagination: { total: all.length, limit, offset, has_next: offset + limit < all.length, has_prev: offset > 0 },
+			} as PaginatedResponse<Transaction>
+		})
+
+		const applied = filters({ memo: 'match' })
+		const first = await fetchFilteredTransactions(applied, 20, 0)
+		expect(first.data.map((t) => t.id)).toEqual(all.filter((_, i) => i % 3 === 0).slice(0, 20).map((t) => t.id))
+		expect(offsets).toEqual([0])
+
+		const third = await fetchFilteredTransactions(applied, 20, 40)
+		expect(third.data[0].id).toBe('tx120')
+		expect(offsets).toEqual([0, 100])
+
+		const last = await fetchFilteredTransactions(applied, 20, 80)
+		expect(offsets).toEqual([0, 100, 200])
+		expect(last.pagination.total).toBe(100)
+		expect(last.truncated).toBe(false)
+
+		getTransactions.mockRestore()
+	})
+})
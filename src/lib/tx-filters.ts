@@ -0,0 +1,348 @@
+/**
+ * Transaction list filters
+ * Composable filter set for the transactions page, serialized to and from URL search
+ * params so filtered views can be bookmarked and shared. Status, height, time and a
+ * single message type are applied by the indexer; everything else (address
+ * involvement, several message types, fee/gas ranges, memo text, EVM vs Cosmos) is
+ * matched client-side over a bounded scan of recent transactions. The scan position
+ * is cached per filter set, so paging forward continues where the last page stopped.
+ */
+
+import { parseUnits } from 'viem'
+import { api, type PaginatedResponse, type Transaction } from './api'
+import { cosmosToEvmAddress, evmToCosmosAddress, isCosmosAddress, isEvmAddress } from './address'
+import { createTTLCache } from './cache'
+import { getDenomMetadata } from './denom'
+import { isEVMTransaction } from './utils'
+
+export type AddressRole = 'any' | 'sender' | 'recipient'
+export type TxKind = 'all' | 'evm' | 'cosmos'
+
+export interface TxFilters {
+	status: 'success' | 'failed' | null
+	messageTypes: string[]
+	/** Exact block height, takes precedence over the range */
+	block: string
+	blockMin: string
+	blockMax: string
+	/** datetime-local values */
+	timeMin: string
+	timeMax: string
+	address: string
+	addressRole: AddressRole
+	/** Fee bounds in display units of the fee denom */
+	feeMin: string
+	feeMax: string
+	/** Gas limit bounds */
+	gasMin: string
+	gasMax: string
+	memo: string
+	kind: TxKind
+}
+
+export interface FilteredTransactions extends PaginatedResponse<Transaction> {
+	/** Transactions scanned for client-side filters, null when the indexer filtered everything */
+	scanned: number | null
+	/** True when transactions were left unscanned, making the total a lower bound */
+	truncated: boolean
+}
+
+export const EMPTY_TX_FILTERS: TxFilters = {
+	status: null,
+	messageTypes: [],
+	block: '',
+	blockMin: '',
+	blockMax: '',
+	timeMin: '',
+	timeMax: '',
+	address: '',
+	addressRole: 'any',
+	feeMin: '',
+	feeMax: '',
+	gasMin: '',
+	gasMax: '',
+	memo: '',
+	kind: 'all',
+}
+
+const SCAN_PAGE_SIZE = 100
+
+/** Maximum transactions scanned when client-side filters are active */
+export const MAX_SCAN = 2000
+
+/** Progress of a client-side scan, reused by later pages of the same filter set */
+interface ScanCursor {
+	matches: Transaction[]
+	seen: Set<string>
+	scanned: number
+	exhausted: boolean
+}
+
+const scanCache = createTTLCache(60_000)
+
+/** URL search param names for the single-valued string filters */
+const PARAM_NAMES = {
+	block: 'block',
+	blockMin: 'block_min',
+	blockMax: 'block_max',
+	timeMin: 'from',
+	timeMax: 'to',
+	address: 'address',
+	feeMin: 'fee_min',
+	feeMax: 'fee_max',
+	gasMin: 'gas_min',
+	gasMax: 'gas_max',
+	memo: 'memo',
+} as const
+
+/**
+ * Read filters from URL search params, ignoring unknown or malformed values
+ */
+export function parseTxFilters(params: URLSearchParams): TxFilters {
+	const filters: TxFilters = { ...EMPTY_TX_FILTERS, messageTypes: [] }
+	for (const [key, name] of Object.entries(PARAM_NAMES) as Array<[keyof typeof PARAM_NAMES, string]>) {
+		filters[key] = params.get(name)?.trim() ?? ''
+	}
+
+	const status = params.get('status')
+	if (status === 'success' || status === 'failed') filters.status = status
+	const role = params.get('role')
+	if (role === 'sender' || role === 'recipient') filters.addressRole = role
+	const kind = params.get('kind')
+	if (kind === 'evm' || kind === 'cosmos') filters.kind = kind
+	filters.messageTypes = Array.from(new Set(params.getAll('type').filter(Boolean)))
+
+	return filters
+}
+
+/**
+ * Write filters to URL search params, omitting defaults so shared links stay short
+ */
+export function serializeTxFilters(filters: TxFilters): URLSearchParams {
+	const params = new URLSearchParams()
+	if (filters.status) params.set('status', filters.status)
+	for (const type of filters.messageTypes) params.append('type', type)
+	for (const [key, name] of Object.entries(PARAM_NAMES) as Array<[keyof typeof PARAM_NAMES, string]>) {
+		const value = filters[key].trim()
+		if (value) params.set(name, value)
+	}
+	if (filters.address.trim() && filters.addressRole !== 'any') params.set('role', filters.addressRole)
+	if (filters.kind !== 'all') params.set('kind', filters.kind)
+	return params
+}
+
+function toInt(value: string): number | undefined {
+	if (!value) return undefined
+	const parsed = Number.parseInt(value, 10)
+	return Number.isNaN(parsed) ? undefined : parsed
+}
+
+function toTime(value: string): number | undefined {
+	if (!value) return undefined
+	const time = new Date(value).getTime()
+	return Number.isNaN(time) ? undefined : time
+}
+
+/**
+ * Subset of the filters the indexer's get_transactions_paginated applies itself
+ */
+export function toServerFilters(filters: TxFilters): NonNullable<Parameters<typeof api.getTransactions>[2]> {
+	const block = toInt(filters.block)
+	const timeMin = toTime(filters.timeMin)
+	const timeMax = toTime(filters.timeMax)
+	return {
+		status: filters.status ?? undefined,
+		block_height: block,
+		block_height_min: block === undefined ? toInt(filters.blockMin) : undefined,
+		block_height_max: block === undefined ? toInt(filters.blockMax) : undefined,
+		timestamp_min: timeMin === undefined ? undefined : new Date(timeMin).toISOString(),
+		timestamp_max: timeMax === undefined ? undefined : new Date(timeMax).toISOString(),
+		message_type: filters.messageTypes.length === 1 ? filters.messageTypes[0] : undefined,
+	}
+}
+
+/**
+ * Whether any filter needs client-side matching
+ */
+export function hasClientFilters(filters: TxFilters): boolean {
+	return (
+		filters.messageTypes.length > 1 ||
+		!!filters.address.trim() ||
+		!!filters.feeMin ||
+		!!filters.feeMax ||
+		!!filters.gasMin ||
+		!!filters.gasMax ||
+		!!filters.memo.trim() ||
+		filters.kind !== 'all'
+	)
+}
+
+/**
+ * Number of active filter groups, for the filter button badge
+ */
+export function countActiveFilters(filters: TxFilters): number {
+	return [
+		!!filters.status,
+		filters.messageTypes.length > 0,
+		!!filters.block || !!filters.blockMin || !!filters.blockMax,
+		!!filters.timeMin || !!filters.timeMax,
+		!!filters.address.trim(),
+		!!filters.feeMin || !!filters.feeMax,
+		!!filters.gasMin || !!filters.gasMax,
+		!!filters.memo.trim(),
+		filters.kind !== 'all',
+	].filter(Boolean).length
+}
+
+/** Both encodings of an address, lowercased, so EVM and bech32 forms match each other */
+function addressForms(address: string): Set<string> {
+	const forms = new Set([address.toLowerCase()])
+	try {
+		if (isEvmAddress(address)) forms.add(evmToCosmosAddress(address).toLowerCase())
+		else if (isCosmosAddress(address)) forms.add(cosmosToEvmAddress(address).toLowerCase())
+	} catch {
+		// Unconvertible input still matches literally
+	}
+	return forms
+}
+
+const SENDER_KEYS = ['from_address', 'delegator_address', 'sender', 'from']
+const RECIPIENT_KEYS = ['to_address', 'receiver', 'recipient', 'to']
+
+function involvesAddress(tx: Transaction, forms: Set<string>, role: AddressRole): boolean {
+	const has = (value: unknown) => typeof value === 'string' && forms.has(value.toLowerCase())
+
+	const isSender = tx.messages.some((msg) => has(msg.sender) || SENDER_KEYS.some((key) => has(msg.data?.[key])))
+	if (role === 'sender') return isSender
+
+	const isRecipient =
+		tx.messages.some((msg) => RECIPIENT_KEYS.some((key) => has(msg.data?.[key]))) ||
+		(tx.events ?? []).some((ev) => (ev.attr_key === 'recipient' || ev.attr_key === 'receiver') && has(ev.attr_value))
+	if (role === 'recipient') return isRecipient
+
+	return isSender || isRecipient || tx.messages.some((msg) => msg.mentions?.some(has))
+}
+
+function feeInRange(tx: Transaction, min: string, max: string): boolean {
+	const coin = tx.fee?.amount?.[0]
+	const decimals = coin ? getDenomMetadata(coin.denom).decimals : 0
+	try {
+		const amount = coin ? BigInt(coin.amount || '0') : 0n
+		if (min && amount < parseUnits(min, decimals)) return false
+		if (max && amount > parseUnits(max, decimals)) return false
+	} catch {
+		// Malformed fee amount or bound, ignore it
+	}
+	return true
+}
+
+/**
+ * Check a transaction against every filter, including the ones the indexer applies
+ */
+export function matchesTxFilters(tx: Transaction, filters: TxFilters): boolean {
+	if (filters.status === 'success' && tx.error) return false
+	if (filters.status === 'failed' && !tx.error) return false
+
+	const block = toInt(filters.block)
+	if (block !== undefined) {
+		if (tx.height !== block) return false
+	} else {
+		const blockMin = toInt(filters.blockMin)
+		const blockMax = toInt(filters.blockMax)
+		if (blockMin !== undefined && tx.height < blockMin) return false
+		if (blockMax !== undefined && tx.height > blockMax) return false
+	}
+
+	const timeMin = toTime(filters.timeMin)
+	const timeMax = toTime(filters.timeMax)
+	if (timeMin !== undefined || timeMax !== undefined) {
+		const time = new Date(tx.timestamp).getTime()
+		if (timeMin !== undefined && time < timeMin) return false
+		if (timeMax !== undefined && time > timeMax) return false
+	}
+
+	if (filters.messageTypes.length > 0) {
+		const types = new Set(filters.messageTypes)
+		if (!tx.messages.some((msg) => types.has(msg.type))) return false
+	}
+
+	const address = filters.address.trim()
+	if (address && !involvesAddress(tx, addressForms(address), filters.addressRole)) return false
+
+	if ((filters.feeMin || filters.feeMax) && !feeInRange(tx, filters.feeMin, filters.feeMax)) return false
+
+	const gasMin = toInt(filters.gasMin)
+	const gasMax = toInt(filters.gasMax)
+	if (gasMin !== undefined || gasMax !== undefined) {
+		const gas = Number(tx.fee?.gasLimit ?? 0)
+		if (gasMin !== undefined && gas < gasMin) return false
+		if (gasMax !== undefined && gas > gasMax) return false
+	}
+
+	const memo = filters.memo.trim().toLowerCase()
+	if (memo && !(tx.memo ?? '').toLowerCase().includes(memo)) return false
+
+	if (filters.kind === 'evm' && !isEVMTransaction(tx.messages)) return false
+	if (filters.kind === 'cosmos' && isEVMTransaction(tx.messages)) return false
+
+	return true
+}
+
+/**
+ * Fetch one page of transactions matching the filters.
+ * Without client-side filters this is a single indexer call. Otherwise it scans up to
+ * MAX_SCAN transactions (the address's own history when an address is set) and pages
+ * through the matches locally, so totals are a lower bound when the scan is truncated.
+ * The scan resumes from its cached position rather than restarting at offset 0.
+ */
+export async function fetchFilteredTransactions(
+	filters: TxFilters,
+	limit: number,
+	offset: number
+): Promise<FilteredTransactions> {
+	if (!hasClientFilters(filters)) {
+		const result = await api.getTransactions(limit, offset, toServerFilters(filters))
+		return { ...result, scanned: null, truncated: false }
+	}
+
+	const address = filters.address.trim()
+	const altAddress = address ? Array.from(addressForms(address)).find((form) => form !== address.toLowerCase()) : undefined
+	const serverFilters = toServerFilters(filters)
+	const fetchPage = (pageOffset: number) =>
+		address
+			? api.getTransactionsByAddress(address, SCAN_PAGE_SIZE, pageOffset, altAddress)
+			: api.getTransactions(SCAN_PAGE_SIZE, pageOffset, serverFilters)
+
+	const cacheKey = `tx-scan:${serializeTxFilters(filters).toString()}`
+	const cursor = scanCache.get<ScanCursor>(cacheKey) ?? { matches: [], seen: new Set(), scanned: 0, exhausted: false }
+
+	// One match past the requested page tells us whether there is a next page
+	while (!cursor.exhausted && cursor.scanned < MAX_SCAN && cursor.matches.length <= offset + limit) {
+		const page = await fetchPage(cursor.scanned)
+		const rows = page.data ?? []
+		cursor.scanned += rows.length
+		for (const tx of rows) {
+			// New transactions shift offsets while paging, so skip rows already matched
+			if (cursor.seen.has(tx.id)) continue
+			cursor.seen.add(tx.id)
+			if (matchesTxFilters(tx, filters)) cursor.matches.push(tx)
+		}
+		if (!page.pagination?.has_next || rows.length === 0) cursor.exhausted = true
+	}
+	scanCache.set(cacheKey, cursor)
+
+	const { matches, scanned } = cursor
+	const truncated = !cursor.exhausted
+	return {
+		data: matches.slice(offset, offset + limit),
+		pagination: {
+			total: matches.length,
+			limit,
+			offset,
+			has_next: matches.length > offset + limit,
+			has_prev: offset > 0,
+		},
+		scanned,
+		truncated,
+	}
+}
@@ -0,0 +1,111 @@
+/**
+ * Network unbonding and redelegation queue
+ * In-flight unbonding and redelegation entries across the validator set, aggregated
+ * on the server from indexed delegation events by the get_unbonding_queue RPC.
+ * An entry started within the last unbonding period is still in the queue; its
+ * completion time is the event time plus that period. Cancelled unbondings are
+ * netted out and stake leaving an unbonded validator, which is released at once,
+ * is left out. Used to show when stake leaves the bonded pool and becomes liquid supply.
+ */
+
+import { api, getStakingParamsLive } from './api'
+import { REPUBLIC_CHAIN_CONFIG } from './chain-config'
+
+export type QueueKind = 'unbonding' | 'redelegation'
+
+export interface QueueEntry {
+	id: number
+	kind: QueueKind
+	delegator: string | null
+	/** Validator the stake leaves (source validator for redelegations) */
+	validator: string
+	/** Destination validator, redelegations only */
+	dst_validator: string | null
+	amount: bigint
+	denom: string | null
+	started_at: string
+	completes_at: string
+	tx_hash: string
+	height: number | null
+}
+
+export interface QueueDay {
+	date: string
+	unbonding: bigint
+	redelegating: bigint
+	entries: number
+}
+
+export interface QueueValidator {
+	validator: string
+	moniker: string | null
+	unbonding: bigint
+	redelegating_out: bigint
+	redelegating_in: bigint
+	entries: number
+	next_completion: string | null
+}
+
+export interface UnbondingQueue {
+	unbondingSeconds: number
+	/** Soonest completion first, up to the listing limit */
+	entries: QueueEntry[]
+	/** Entries in the whole queue, which may exceed `entries.length` */
+	entryCount: number
+	/** One row per completion day, soonest first */
+	daily: QueueDay[]
+	/** Validators with queued stake, largest unbonding first */
+	byValidator: QueueValidator[]
+	totalUnbonding: bigint
+	totalRedelegating: bigint
+	/** Unbonding stake released within the next seven days */
+	unbondingNextWeek: bigint
+}
+
+/** Entries listed individually; totals cover the whole queue */
+const ENTRY_LIMIT = 500
+
+/** Seconds in a protobuf duration string ("1814400s") */
+function durationSeconds(duration: string | undefined): number | null {
+	const match = duration?.match(/^(\d+(?:\.\d+)?)s$/)
+	return match ? Number(match[1]) : null
+}
+
+function toBigInt(value: string | null | undefined): bigint {
+	try {
+		return BigInt((value ?? '0').split('.')[0] || '0')
+	} catch {
+		return 0n
+	}
+}
+
+/**
+ * Fetch the network-wide queue of unbondings and redelegations that have not completed yet
+ */
+export async function buildUnbondingQueue(): Promise<UnbondingQueue> {
+	// Falls back to the configured unbonding period
+	const stakingParams = await getStakingParamsLive().catch(() => null)
+	const unbondingSeconds = durationSeconds(stakingParams?.unbonding_time) ?? REPUBLIC_CHAIN_CONFIG.staking.unbondingPeriodSeconds
+
+	const summary = await api.getUnbondingQueue(unbondingSeconds, ENTRY_LIMIT)
+
+	return {
+		unbondingSeconds,
+		entries: (summary.entries ?? []).map((entry) => ({ ...entry, amount: toBigInt(entry.amount) })),
+		entryCount: summary.entry_count ?? 0,
+		daily: (summary.daily ?? []).map((day) => ({
+			...day,
+			unbonding: toBigInt(day.unbonding),
+			redelegating: toBigInt(day.redelegating),
+		})),
+		byValidator: (summary.by_validator ?? []).map((row) => ({
+			...row,
+			unbonding: toBigInt(row.unbonding),
+			redelegating_out: toBigInt(row.redelegating_out),
+			redelegating_in: toBigInt(row.redelegating_in),
+		})),
+		totalUnbonding: toBigInt(summary.total_unbonding),
+		totalRedelegating: toBigInt(summary.total_redelegating),
+		unbondingNextWeek: toBigInt(summary.unbonding_next_7d),
+	}
+}
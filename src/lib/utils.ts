@@ -34,12 +34,47 @@ export function formatTimeAgo(timestamp: string): string {
   return `${Math.floor(diff / 86400)}d ago`
 }
 
+/**
+ * Formats the remaining time until a future timestamp as a countdown (e.g. "2d 4h").
+ * Returns null once the timestamp has passed.
+ */
+export function formatTimeUntil(timestamp: string, now = Date.now()): string | null {
+  const diff = Math.floor((new Date(timestamp).getTime() - now) / 1000)
+  if (diff <= 0) return null
+
+  const days = Math.floor(diff / 86400)
+  const hours = Math.floor((diff % 86400) / 3600)
+  const minutes = Math.floor((diff % 3600) / 60)
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m ${diff % 60}s`
+  return `${diff}s`
+}
+
 export function formatHash(hash: string, length = 10): string {
   if (!hash) return ''
   if (hash.length <= length * 2) return hash
   return `${hash.slice(0, length)}...${hash.slice(-length)}`
 }
 
+/**
+ * Formats a raw EVM token type (e.g. "ERC20", "ERC721") into a display label
+ */
+export function formatTokenType(type: string | null): string {
+  if (!type) return 'Unknown'
+  switch (type.toUpperCase()) {
+    case 'ERC20':
+      return 'ERC-20'
+    case 'ERC721':
+      return 'ERC-721 (NFT)'
+    case 'ERC1155':
+      return 'ERC-1155'
+    default:
+      return type
+  }
+}
+
 export function formatAmount(amount: string, decimals = 6, symbol = ''): string {
   const value = BigInt(amount) / BigInt(10 ** decimals)
   const formatted = formatNumber(value.toString())
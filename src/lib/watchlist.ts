@@ -0,0 +1,132 @@
+/**
+ * Address watchlist
+ * Starred addresses, validators and contracts persisted in localStorage, plus the
+ * activity checks that turn new transactions and jailing events into alerts.
+ */
+
+import { api } from './api'
+import { networkStorageKey } from './env'
+
+export const WATCHLIST_KEY = 'yaci_watchlist'
+export const WATCHLIST_ALERTS_KEY = 'yaci_watchlist_alerts'
+
+/** Alerts kept in storage; older ones are dropped */
+const MAX_ALERTS = 100
+
+export type WatchKind = 'address' | 'validator' | 'contract'
+
+export interface WatchlistEntry {
+	/** bech32 account, valoper, or 0x contract address */
+	address: string
+	/** Counterpart address that shares activity (hex for accounts, account for validators) */
+	altAddress: string | null
+	kind: WatchKind
+	label: string | null
+	addedAt: string
+	/** Transaction count seen at the last check; null until the first check */
+	txCount: number | null
+	/** Height of the newest jailing/slashing event seen (validators only) */
+	lastEventHeight: number | null
+}
+
+export interface WatchlistAlert {
+	id: string
+	address: string
+	kind: WatchKind
+	title: string
+	message: string
+	href: string
+	createdAt: string
+	read: boolean
+}
+
+function readJson<T>(key: string, fallback: T): T {
+	try {
+		const raw = localStorage.getItem(networkStorageKey(key))
+		return raw ? (JSON.parse(raw) as T) : fallback
+	} catch {
+		return fallback
+	}
+}
+
+function writeJson(key: string, value: unknown): void {
+	try {
+		localStorage.setItem(networkStorageKey(key), JSON.stringify(value))
+	} catch (error) {
+		console.warn(`Failed to persist ${key}:`, error)
+	}
+}
+
+export function loadWatchlist(): WatchlistEntry[] {
+	const entries = readJson<WatchlistEntry[]>(WATCHLIST_KEY, [])
+	return Array.isArray(entries) ? entries : []
+}
+
+export function saveWatchlist(entries: WatchlistEntry[]): void {
+	writeJson(WATCHLIST_KEY, entries)
+}
+
+export function loadWatchlistAlerts(): WatchlistAlert[] {
+	const alerts = readJson<WatchlistAlert[]>(WATCHLIST_ALERTS_KEY, [])
+	return Array.isArray(alerts) ? alerts : []
+}
+
+export function saveWatchlistAlerts(alerts: WatchlistAlert[]): void {
+	writeJson(WATCHLIST_ALERTS_KEY, alerts.slice(0, MAX_ALERTS))
+}
+
+/**
+ * Route for an entry's detail page
+ */
+export function watchlistHref(entry: Pick<WatchlistEntry, 'address' | 'kind'>): string {
+	return entry.kind === 'validator' ? `/validators/${entry.address}` : `/addr/${entry.address}`
+}
+
+export function watchlistLabel(entry: Pick<WatchlistEntry, 'address' | 'label'>): string {
+	return entry.label || `${entry.address.slice(0, 12)}...${entry.address.slice(-6)}`
+}
+
+type AlertDraft = Pick<WatchlistAlert, 'title' | 'message'>
+
+/**
+ * Fetch current activity for an entry and compare it with the stored baseline.
+ * Returns the entry with an updated baseline and any alerts for new activity.
+ * The first check only records a baseline, so starring an address never alerts.
+ */
+export async function checkWatchlistEntry(
+	entry: WatchlistEntry
+): Promise<{ entry: WatchlistEntry; alerts: AlertDraft[] }> {
+	const alerts: AlertDraft[] = []
+	const name = watchlistLabel(entry)
+	const next = { ...entry }
+
+	// Validators transact from their account address; accounts and contracts from either form
+	const statsAddress = entry.kind === 'validator' ? entry.altAddress : entry.address
+	const statsAlt = entry.kind === 'validator' ? undefined : entry.altAddress || undefined
+	if (statsAddress) {
+		const stats = await api.getAddressStats(statsAddress, statsAlt)
+		const count = stats?.transaction_count ?? 0
+		if (entry.txCount !== null && count > entry.txCount) {
+			const added = count - entry.txCount
+			alerts.push({
+				title: `${name}: ${added} new transaction${added === 1 ? '' : 's'}`,
+				message: stats.last_seen ? `Latest activity at ${new Date(stats.last_seen).toLocaleString()}` : 'New activity detected',
+			})
+		}
+		next.txCount = count
+	}
+
+	if (entry.kind === 'validator') {
+		const [latest] = await api.getValidatorJailingEvents(entry.address, 1)
+		const height = latest?.height ?? 0
+		if (latest && entry.lastEventHeight !== null && height > entry.lastEventHeight) {
+			alerts.push({
+				title: `${name}: ${latest.event_type} event`,
+				message: `${latest.reason || latest.event_type} at block ${height.toLocaleString()}`,
+			})
+		}
+		next.lastEventHeight = height
+	}
+
+	return { entry: next, alerts }
+}
@@ -1,9 +1,11 @@
 // CSS is loaded via HTML link tag, processed by PostCSS
-import React from "react"
+import React, { useSyncExternalStore } from "react"
 import ReactDOM from "react-dom/client"
-import { createBrowserRouter, RouterProvider } from "react-router"
+import { createBrowserRouter, type RouteObject, RouterProvider } from "react-router"
 import { loggingMiddleware } from "./lib/middleware/logging"
-import { loadConfig } from "./lib/env"
+import { getActiveNetwork, getActiveNetworkId, loadConfig, resolveNetworkId, setActiveNetwork, subscribeNetwork } from "./lib/env"
+import { restoreQueryClient } from "./lib/query-client"
+import { applyBrandingTheme, getBrandingConfig } from "./config/branding"
 import { SafeWalletProvider } from "./contexts/SafeWalletProvider"
 import Root from "./root"
 import AddressPage from "./routes/addr.$id"
@@ -14,13 +16,22 @@ import ComputePage from "./routes/compute"
 import ComputeJobDetailPage from "./routes/compute.$id"
 import EvmContractsPage from "./routes/evm-contracts"
 import EvmTokensPage from "./routes/evm-tokens"
+import EvmTokenDetailPage from "./routes/evm-tokens.$address"
+import GovernancePage from "./routes/gov"
+import ProposalDetailPage from "./routes/gov.$id"
 import HomePage from "./routes/home"
+import IbcChannelsPage from "./routes/ibc"
+import IbcChannelDetailPage from "./routes/ibc.$port.$channel"
+import StakingPage from "./routes/staking"
 import TransactionsPage from "./routes/transactions"
 import TransactionDetailPage from "./routes/transactions.$hash"
 import ValidatorsPage from "./routes/validators"
 import ValidatorDetailPage from "./routes/validators.$address"
+import ValidatorComparePage from "./routes/validators.compare"
+import UnbondingQueuePage from "./routes/validators.unbonding"
+import WatchlistPage from "./routes/watchlist"
 
-const router = createBrowserRouter([
+const routes: RouteObject[] = [
 	{
 		path: "/",
 		element: <Root />,
@@ -43,10 +54,14 @@ const router = createBrowserRouter([
 			},
 			{ path: "analytics", element: <AnalyticsPage /> },
 			{ path: "addr/:id", element: <AddressPage /> },
+			{ path: "staking", element: <StakingPage /> },
+			{ path: "watchlist", element: <WatchlistPage /> },
 			{
 				path: "validators",
 				children: [
 					{ index: true, element: <ValidatorsPage /> },
+					{ path: "compare", element: <ValidatorComparePage /> },
+					{ path: "unbonding", element: <UnbondingQueuePage /> },
 					{ path: ":address", element: <ValidatorDetailPage /> }
 				]
 			},
@@ -57,20 +72,81 @@ const router = createBrowserRouter([
 					{ path: ":id", element: <ComputeJobDetailPage /> }
 				]
 			},
+			{
+				path: "gov",
+				children: [
+					{ index: true, element: <GovernancePage /> },
+					{ path: ":id", element: <ProposalDetailPage /> }
+				]
+			},
+			{
+				path: "ibc",
+				children: [
+					{ index: true, element: <IbcChannelsPage /> },
+					{ path: ":port/:channel", element: <IbcChannelDetailPage /> }
+				]
+			},
 			{
 				path: "evm",
 				children: [
 					{ path: "contracts", element: <EvmContractsPage /> },
-					{ path: "tokens", element: <EvmTokensPage /> }
+					{ path: "tokens", element: <EvmTokensPage /> },
+					{ path: "tokens/:address", element: <EvmTokenDetailPage /> }
 				]
 			}
 		]
 	}
-])
+]
+
+let currentRouter: { networkId: string | null; router: ReturnType<typeof createBrowserRouter> } | null = null
+
+/**
+ * Router for a network, mounted under its /<network-id> basename.
+ * The previous network's router is disposed so it stops listening to history.
+ */
+function getRouter(networkId: string | null) {
+	if (currentRouter?.networkId !== networkId) {
+		currentRouter?.router.dispose()
+		currentRouter = {
+			networkId,
+			router: createBrowserRouter(routes, { basename: networkId ? `/${networkId}` : undefined }),
+		}
+	}
+	return currentRouter.router
+}
+
+function getActiveNetworkKey(): string | null {
+	return getActiveNetwork()?.id ?? null
+}
+
+function App() {
+	const networkId = useSyncExternalStore(subscribeNetwork, getActiveNetworkKey)
+	// Keyed so every provider, query cache and page remounts for the new network
+	return <RouterProvider key={networkId ?? ""} router={getRouter(networkId)} />
+}
 
 async function bootstrap() {
 	await loadConfig()
 
+	// Serve the network named in the URL; paths without one move under the default network
+	const networkId = resolveNetworkId(window.location.pathname)
+	if (networkId && window.location.pathname.split("/")[1] !== networkId) {
+		const { pathname, search, hash } = window.location
+		window.history.replaceState(null, "", `/${networkId}${pathname}${search}${hash}`)
+	}
+	setActiveNetwork(networkId)
+	// Colors, fonts, title and favicon come from config.json; networks may carry their own brand
+	applyBrandingTheme(getBrandingConfig())
+	subscribeNetwork(() => applyBrandingTheme(getBrandingConfig()))
+	// Render visited pages from the persisted cache straight away
+	await restoreQueryClient(getActiveNetworkId())
+
+	// Back/forward across a network switch changes the active network
+	window.addEventListener("popstate", () => {
+		const next = resolveNetworkId(window.location.pathname)
+		if (next !== getActiveNetworkKey()) setActiveNetwork(next)
+	})
+
 	const rootElement = document.getElementById("root")
 	if (!rootElement) {
 		throw new Error("Root element #root not found")
@@ -79,10 +155,15 @@ async function bootstrap() {
 	ReactDOM.createRoot(rootElement).render(
 		<React.StrictMode>
 			<SafeWalletProvider>
-				<RouterProvider router={router} />
+				<App />
 			</SafeWalletProvider>
 		</React.StrictMode>
 	)
+
+	// The service worker caches the hashed production bundles for offline use
+	if (process.env.NODE_ENV === "production" && "serviceWorker" in navigator) {
+		navigator.serviceWorker.register("/sw.js").catch((error) => console.warn("Service worker registration failed:", error))
+	}
 }
 
 bootstrap()
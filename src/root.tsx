@@ -1,57 +1,54 @@
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
-import { useState } from "react"
+import { QueryClientProvider } from "@tanstack/react-query"
 import { Outlet } from "react-router"
 
 import { Header } from "@/components/layout/header"
 import { Footer } from "@/components/layout/footer"
-import { appConfig } from "@/config/app"
+import { OfflineBanner } from "@/components/common/OfflineBanner"
 import { DenomProvider } from "@/contexts/DenomContext"
+import { LiveUpdatesProvider } from "@/contexts/LiveUpdatesContext"
 import { ThemeProvider } from "@/contexts/ThemeContext"
+import { WatchlistProvider } from "@/contexts/WatchlistContext"
+import { getActiveNetworkId } from "@/lib/env"
+import { getQueryClient } from "@/lib/query-client"
 import { css } from "@/styled-system/css"
 
 export default function Root() {
-	const [queryClient] = useState(
-		() =>
-			new QueryClient({
-				defaultOptions: {
-					queries: {
-						staleTime: appConfig.queries.staleTimeMs,
-						gcTime: appConfig.queries.gcTimeMs,
-						refetchOnWindowFocus: false
-					}
-				}
-			})
-	)
+	const queryClient = getQueryClient(getActiveNetworkId())
 
 	return (
 		<QueryClientProvider client={queryClient}>
 			<ThemeProvider>
-				<DenomProvider>
-					<div
-						className={css({
-							minH: "100vh",
-							display: "flex",
-							flexDirection: "column",
-							bg: "bg.subtle",
-							color: "fg.default"
-						})}
-					>
-						<Header />
-						<main
-							className={css({
-								flex: "1",
-								w: "full",
-								maxW: "8xl",
-								mx: "auto",
-								px: { base: "4", md: "6", lg: "8" },
-								py: { base: "6", md: "8" }
-							})}
-						>
-							<Outlet />
-						</main>
-						<Footer />
-					</div>
-				</DenomProvider>
+				<LiveUpdatesProvider>
+					<DenomProvider>
+						<WatchlistProvider>
+							<div
+								className={css({
+									minH: "100vh",
+									display: "flex",
+									flexDirection: "column",
+									bg: "bg.subtle",
+									color: "fg.default"
+								})}
+							>
+								<Header />
+								<OfflineBanner />
+								<main
+									className={css({
+										flex: "1",
+										w: "full",
+										maxW: "8xl",
+										mx: "auto",
+										px: { base: "4", md: "6", lg: "8" },
+										py: { base: "6", md: "8" }
+									})}
+								>
+									<Outlet />
+								</main>
+								<Footer />
+							</div>
+						</WatchlistProvider>
+					</DenomProvider>
+				</LiveUpdatesProvider>
 			</ThemeProvider>
 		</QueryClientProvider>
 	)
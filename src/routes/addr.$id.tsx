@@ -1,7 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { Link, useParams } from 'react-router'
-import { ArrowLeft, Copy, CheckCircle, User, ArrowUpRight, ArrowDownLeft, Activity, FileCode, Wallet, AlertCircle, Coins, Shield } from 'lucide-react'
+import { ArrowLeft, Copy, CheckCircle, User, ArrowUpRight, ArrowDownLeft, Activity, FileCode, Wallet, AlertCircle, Coins, Shield, Download } from 'lucide-react'
 import { type ColumnDef, createColumnHelper } from '@tanstack/react-table'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -13,6 +13,10 @@ import { cosmosToValidatorAddress, isCosmosAddress } from '@/lib/address'
 import { formatDenomAmount, getDenomMetadata } from '@/lib/denom'
 import { Skeleton } from '@/components/ui/skeleton'
 import { ContractDetails } from '@/components/ContractDetails'
+import { AddressExportDialog } from '@/components/AddressExportDialog'
+import { WatchlistButton } from '@/components/WatchlistButton'
+import { AddressPortfolio } from '@/components/AddressPortfolio'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { css } from '@/styled-system/css'
 import { grid, hstack, center, statRow } from '@/styled-system/patterns'
 
@@ -24,6 +28,7 @@ export default function AddressDetailPage() {
 	const [copiedBech32, setCopiedBech32] = useState(false)
 	const [page, setPage] = useState(0)
 	const [pageSize, setPageSize] = useState(20)
+	const [exportOpen, setExportOpen] = useState(false)
 	const params = useParams()
 
 	const isValidAddr = params.id ? isValidAddress(params.id) : false
@@ -285,6 +290,14 @@ export default function AddressDetailPage() {
 							{isContract === undefined ? (isEvmFocused ? 'EVM' : 'Cosmos') : isContract ? 'Contract' : 'EOA'}
 						</Badge>
 					)}
+					<div className={css({ ml: 'auto' })}>
+						<WatchlistButton
+							address={primaryAddr}
+							altAddress={altAddr || null}
+							kind={isContract ? 'contract' : 'address'}
+							label={validatorInfo?.moniker}
+						/>
+					</div>
 				</div>
 				<div className={css({
 					bg: 'bg.accentSubtle',
@@ -292,7 +305,7 @@ export default function AddressDetailPage() {
 					borderRadius: 'lg',
 					border: '1px solid',
 					borderColor: 'border.accent',
-					boxShadow: '0 0 20px rgba(48, 255, 110, 0.1)',
+					boxShadow: '0 0 20px color-mix(in srgb, var(--colors-accent-default) 10%, transparent)',
 				})}>
 					<div className={hstack({ gap: '2', mb: isContract ? '0' : '2' })}>
 						<Badge variant={isEvmFocused ? 'default' : 'outline'} className={css({ fontSize: 'xs', minW: '14', justifyContent: 'center' })}>
@@ -417,34 +430,65 @@ export default function AddressDetailPage() {
 				<ContractDetails address={hexAddr} />
 			)}
 
-			{/* Transactions Table */}
-			<Card>
-				<CardHeader>
-					<CardTitle>Transaction History</CardTitle>
-				</CardHeader>
-				<CardContent>
-					<DataTable
-						columns={txColumns}
-						data={transactions?.data ?? []}
-						isLoading={txLoading}
-						totalRows={transactions?.pagination.total}
-						currentPage={page}
-						onPageChange={setPage}
-						pageSize={pageSize}
-						onPageSizeChange={(s) => {
-							setPageSize(s)
-							setPage(0)
-						}}
-						getRowId={(tx) => tx.id}
-						emptyState={
-							<div className={center({ flexDir: 'column', py: '12' })}>
-								<Activity className={css({ w: 'icon.xl', h: 'icon.xl', color: 'fg.muted', mb: '4' })} />
-								<p className={css({ color: 'fg.muted' })}>No transactions found for this address</p>
-							</div>
-						}
-					/>
-				</CardContent>
-			</Card>
+			<Tabs defaultValue="transactions" lazyMount>
+				<TabsList>
+					<TabsTrigger value="transactions">Transactions</TabsTrigger>
+					{bech32Addr && <TabsTrigger value="portfolio">Portfolio</TabsTrigger>}
+				</TabsList>
+
+				{/* Transactions Table */}
+				<TabsContent value="transactions">
+					<Card>
+						<CardHeader className={hstack({ justify: 'space-between' })}>
+							<CardTitle>Transaction History</CardTitle>
+							<Button
+								variant="outline"
+								size="sm"
+								onClick={() => setExportOpen(true)}
+								disabled={!transactions?.pagination.total}
+							>
+								<Download className={css({ w: 'icon.sm', h: 'icon.sm', mr: '2' })} />
+								Export
+							</Button>
+						</CardHeader>
+						<CardContent>
+							<DataTable
+								columns={txColumns}
+								data={transactions?.data ?? []}
+								isLoading={txLoading}
+								totalRows={transactions?.pagination.total}
+								currentPage={page}
+								onPageChange={setPage}
+								pageSize={pageSize}
+								onPageSizeChange={(s) => {
+									setPageSize(s)
+									setPage(0)
+								}}
+								getRowId={(tx) => tx.id}
+								emptyState={
+									<div className={center({ flexDir: 'column', py: '12' })}>
+										<Activity className={css({ w: 'icon.xl', h: 'icon.xl', color: 'fg.muted', mb: '4' })} />
+										<p className={css({ color: 'fg.muted' })}>No transactions found for this address</p>
+									</div>
+								}
+							/>
+						</CardContent>
+					</Card>
+				</TabsContent>
+
+				{bech32Addr && (
+					<TabsContent value="portfolio">
+						<AddressPortfolio address={bech32Addr} />
+					</TabsContent>
+				)}
+			</Tabs>
+
+			<AddressExportDialog
+				open={exportOpen}
+				onOpenChange={setExportOpen}
+				address={primaryAddr}
+				altAddress={altAddr || null}
+			/>
 		</div>
 	)
 }
@@ -15,12 +15,13 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { BlockIntervalChart } from '@/components/analytics/BlockIntervalChart'
 import { TransactionVolumeChart } from '@/components/analytics/TransactionVolumeChart'
+import { NodeHealthSection } from '@/components/analytics/NodeHealthPanel'
 import { api, type NetworkOverview, type HourlyRewards } from '@/lib/api'
+import { getChartTheme, withAlpha } from '@/lib/chart-theme'
 import { formatDenomAmount } from '@/lib/denom'
 import { DenomDisplay } from '@/components/common/DenomDisplay'
 import { getChainBaseDenom, getChainDisplayDenom } from '@/lib/chain-info'
 import { css, cx } from '@/styled-system/css'
-import { token } from '@/styled-system/tokens'
 
 /**
  * Formats large numbers with K/M suffixes
@@ -170,15 +171,14 @@ function HourlyRewardsChart({ data }: { data: HourlyRewards[] }) {
 	const totalRewards = data.reduce((sum, d) => sum + parseFloat(d.rewards || '0'), 0)
 	const totalCommission = data.reduce((sum, d) => sum + parseFloat(d.commission || '0'), 0)
 
+	const chart = getChartTheme()
 	const option = {
 		tooltip: {
 			trigger: 'axis',
-			backgroundColor: token('colors.bg.muted'),
-			borderColor: token('colors.border.accent'),
-			textStyle: { color: token('colors.fg.default') },
+			...chart.tooltip,
 			axisPointer: {
 				type: 'cross',
-				lineStyle: { color: token('colors.republicGreen.7'), width: 1 }
+				lineStyle: { color: chart.accent[7], width: 1 }
 			},
 			formatter: (params: any) => {
 				const date = new Date(params[0].axisValue)
@@ -188,14 +188,14 @@ function HourlyRewardsChart({ data }: { data: HourlyRewards[] }) {
 				const commission = parseFloat(params[1]?.value || 0)
 				return `<div style="font-size: 13px;">
 					<strong>${dateStr} ${timeStr}</strong><br/>
-					Rewards: <span style="color: ${token('colors.republicGreen.7')};">${formatDenomAmount(rewards.toString(), baseDenom, { maxDecimals: 4 })}</span><br/>
-					Commission: <span style="color: ${token('colors.republicGreen.5')};">${formatDenomAmount(commission.toString(), baseDenom, { maxDecimals: 4 })}</span>
+					Rewards: <span style="color: ${chart.accent[7]};">${formatDenomAmount(rewards.toString(), baseDenom, { maxDecimals: 4 })}</span><br/>
+					Commission: <span style="color: ${chart.accent[5]};">${formatDenomAmount(commission.toString(), baseDenom, { maxDecimals: 4 })}</span>
 				</div>`
 			}
 		},
 		legend: {
 			data: ['Rewards', 'Commission'],
-			textStyle: { color: '#707B92', fontSize: 11 },
+			textStyle: { color: chart.axisLabel, fontSize: 11 },
 			right: 10,
 			top: 0
 		},
@@ -211,7 +211,7 @@ function HourlyRewardsChart({ data }: { data: HourlyRewards[] }) {
 			boundaryGap: false,
 			data: data.map(d => d.hour),
 			axisLabel: {
-				color: '#707B92',
+				color: chart.axisLabel,
 				fontSize: 11,
 				formatter: (value: string) => {
 					const date = new Date(value)
@@ -219,18 +219,18 @@ function HourlyRewardsChart({ data }: { data: HourlyRewards[] }) {
 				},
 				interval: Math.floor(data.length / 6)
 			},
-			axisLine: { lineStyle: { color: token('colors.border.default') } },
+			axisLine: { lineStyle: { color: chart.border } },
 			splitLine: { show: false }
 		},
 		yAxis: {
 			type: 'value',
 			axisLabel: {
-				color: '#707B92',
+				color: chart.axisLabel,
 				fontSize: 11,
 				formatter: (value: number) => formatNumber(value)
 			},
 			axisLine: { show: false },
-			splitLine: { lineStyle: { color: token('colors.border.default'), type: 'dashed' } }
+			splitLine: { lineStyle: { color: chart.border, type: 'dashed' } }
 		},
 		series: [
 			{
@@ -238,14 +238,14 @@ function HourlyRewardsChart({ data }: { data: HourlyRewards[] }) {
 				type: 'line',
 				smooth: true,
 				symbol: 'none',
-				lineStyle: { width: 2, color: token('colors.republicGreen.7') },
+				lineStyle: { width: 2, color: chart.accent[7] },
 				areaStyle: {
 					color: {
 						type: 'linear',
 						x: 0, y: 0, x2: 0, y2: 1,
 						colorStops: [
-							{ offset: 0, color: 'rgba(48, 255, 110, 0.3)' },
-							{ offset: 1, color: 'rgba(48, 255, 110, 0.02)' }
+							{ offset: 0, color: withAlpha(chart.accent[7], 0.3) },
+							{ offset: 1, color: withAlpha(chart.accent[7], 0.02) }
 						]
 					}
 				},
@@ -256,7 +256,7 @@ function HourlyRewardsChart({ data }: { data: HourlyRewards[] }) {
 				type: 'line',
 				smooth: true,
 				symbol: 'none',
-				lineStyle: { width: 2, color: token('colors.republicGreen.5') },
+				lineStyle: { width: 2, color: chart.accent[5] },
 				data: data.map(d => parseFloat(d.commission || '0'))
 			}
 		]
@@ -367,6 +367,9 @@ export default function AnalyticsPage() {
 					<BlockIntervalChart />
 				</div>
 			</div>
+
+			{/* Node Health (Prometheus exporters from config) */}
+			<NodeHealthSection />
 		</div>
 	)
 }
@@ -424,7 +427,7 @@ const styles = {
 	}),
 	heroCardAccent: css({
 		borderColor: 'republicGreen.7/30',
-		bg: 'linear-gradient(135deg, rgba(48, 255, 110, 0.05) 0%, transparent 50%)',
+		bg: 'linear-gradient(135deg, color-mix(in srgb, var(--colors-accent-default) 5%, transparent) 0%, transparent 50%)',
 	}),
 	heroGlow: css({
 		position: 'absolute',
@@ -432,7 +435,7 @@ const styles = {
 		right: '-50%',
 		w: '100%',
 		h: '100%',
-		bg: 'radial-gradient(circle, rgba(48, 255, 110, 0.15) 0%, transparent 70%)',
+		bg: 'radial-gradient(circle, color-mix(in srgb, var(--colors-accent-default) 15%, transparent) 0%, transparent 70%)',
 		pointerEvents: 'none',
 	}),
 	heroIconWrap: css({
@@ -1,10 +1,11 @@
 import { useQuery } from '@tanstack/react-query'
 import { useEffect, useState } from 'react'
 import { Link, useParams } from 'react-router'
-import { ArrowLeft, Copy, CheckCircle, Activity, Blocks as BlocksIcon } from 'lucide-react'
+import { ArrowLeft, Copy, CheckCircle, Activity, Blocks as BlocksIcon, ChevronLeft, ChevronRight } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { BlockEvidenceCard, BlockProposerCard, BlockSignaturesCard } from '@/components/BlockConsensus'
 import { api } from '@/lib/api'
 import { formatNumber, formatTimeAgo, formatHash, getTransactionStatus } from '@/lib/utils'
 import { Skeleton } from '@/components/ui/skeleton'
@@ -38,13 +39,28 @@ export default function BlockDetailPage() {
     enabled: mounted && !Number.isNaN(blockHeight),
   })
 
+  const { data: consensus, isLoading: consensusLoading } = useQuery({
+    queryKey: ['blockConsensus', blockHeight],
+    queryFn: async () => (block ? api.getBlockConsensus(block) : null),
+    enabled: !!block,
+    staleTime: 60000,
+  })
+
+  // Bounds the next-block link to what the indexer has stored
+  const { data: latestHeight } = useQuery({
+    queryKey: ['latestBlockHeight'],
+    queryFn: async () => (await api.getLatestBlock())?.id ?? null,
+    enabled: mounted,
+    staleTime: 10000,
+  })
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
     setCopied(true)
     setTimeout(() => setCopied(false), 2000)
   }
 
-  if (mounted && blockError) {
+  if (mounted && blockError && !block) {
     return (
       <div className={styles.errorContainer}>
         <Link to="/blocks" className={styles.backLink}>
@@ -89,6 +105,8 @@ export default function BlockDetailPage() {
   const ingestedTxCount = transactions?.data.length || 0
   const missingTxCount = Math.max(txCount - ingestedTxCount, 0)
   const hasMissingTxs = !txLoading && missingTxCount > 0
+  const hasPrevious = block.id > 1
+  const hasNext = latestHeight == null || block.id < latestHeight
 
   return (
     <div className={styles.pageContainer}>
@@ -104,6 +122,18 @@ export default function BlockDetailPage() {
             <BlocksIcon className={styles.badgeIcon} />
             {txCount} {txCount === 1 ? 'transaction' : 'transactions'}
           </Badge>
+          <div className={styles.headerNav}>
+            <Link to={`/blocks/${block.id - 1}`} aria-label="Previous block">
+              <Button variant="outline" size="icon" disabled={!hasPrevious}>
+                <ChevronLeft className={styles.icon} />
+              </Button>
+            </Link>
+            <Link to={`/blocks/${block.id + 1}`} aria-label="Next block">
+              <Button variant="outline" size="icon" disabled={!hasNext}>
+                <ChevronRight className={styles.icon} />
+              </Button>
+            </Link>
+          </div>
         </div>
         {timestamp && (
           <p className={styles.timestamp}>
@@ -167,6 +197,17 @@ export default function BlockDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Evidence */}
+          {consensus && consensus.evidence.length > 0 && <BlockEvidenceCard evidence={consensus.evidence} />}
+
+          {/* Commit Signatures */}
+          <BlockSignaturesCard
+            signatures={consensus?.signatures ?? []}
+            commitHeight={consensus?.commit_height ?? (block.id > 1 ? block.id - 1 : null)}
+            commitRound={consensus?.commit_round ?? null}
+            isLoading={consensusLoading}
+          />
+
           {/* Transactions */}
           <Card>
             <CardHeader>
@@ -276,6 +317,13 @@ export default function BlockDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Proposer */}
+          <BlockProposerCard
+            proposer={consensus?.proposer ?? null}
+            address={consensus?.proposer_address ?? null}
+            isLoading={consensusLoading}
+          />
+
           {/* Navigation */}
           <Card>
             <CardHeader>
@@ -284,13 +332,13 @@ export default function BlockDetailPage() {
             <CardContent>
               <div className={styles.navButtons}>
                 <Link to={`/blocks/${block.id - 1}`}>
-                  <Button variant="outline" className={styles.navButton} disabled={block.id <= 1}>
+                  <Button variant="outline" className={styles.navButton} disabled={!hasPrevious}>
                     <ArrowLeft className={styles.navIcon} />
                     Previous Block
                   </Button>
                 </Link>
                 <Link to={`/blocks/${block.id + 1}`}>
-                  <Button variant="outline" className={styles.navButton}>
+                  <Button variant="outline" className={styles.navButton} disabled={!hasNext}>
                     Next Block
                     <ArrowLeft className={styles.navIconRotated} />
                   </Button>
@@ -392,6 +440,11 @@ const styles = {
     gap: '0.75rem',
     marginBottom: '0.5rem',
   }),
+  headerNav: css({
+    display: 'flex',
+    gap: '0.5rem',
+    marginLeft: 'auto',
+  }),
   pageTitle: css({
     fontSize: '1.875rem',
     fontWeight: 'bold',
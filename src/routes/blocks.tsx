@@ -177,7 +177,7 @@ export default function BlocksPage() {
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
-					{error ? (
+					{error && !data ? (
 						<div className={css({ textAlign: 'center', py: '12', color: 'fg.muted' })}>
 							Error loading blocks
 						</div>
@@ -5,6 +5,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { AddressChip } from "@/components/AddressChip"
+import { ComputeJobTimeline } from "@/components/ComputeJobTimeline"
+import { ComputeResultVerification } from "@/components/ComputeResultVerification"
 import { api } from "@/lib/api"
 import { formatTimeAgo, formatNativeFee } from "@/lib/utils"
 import { css } from "@/styled-system/css"
@@ -94,74 +96,79 @@ export default function ComputeJobDetailPage() {
 			</div>
 
 			<div className={css(styles.grid)}>
-				{/* Main Details */}
-				<Card>
-					<CardHeader>
-						<CardTitle>Job Details</CardTitle>
-					</CardHeader>
-					<CardContent>
-						<div className={css(styles.detailsGrid)}>
-							<div className={css(styles.field)}>
-								<label className={css(styles.fieldLabel)}>Creator</label>
-								<AddressChip address={job.creator} />
-							</div>
-							<div className={css(styles.field)}>
-								<label className={css(styles.fieldLabel)}>
-									Target Validator
-								</label>
-								<AddressChip address={job.target_validator} />
-							</div>
-							{job.execution_image && (
-								<div className={css(styles.field)}>
-									<label className={css(styles.fieldLabel)}>
-										Execution Image
-									</label>
-									<p className={css(styles.monoValue)}>
-										{job.execution_image}
-									</p>
-								</div>
-							)}
-							{job.verification_image && (
-								<div className={css(styles.field)}>
-									<label className={css(styles.fieldLabel)}>
-										Verification Image
-									</label>
-									<p className={css(styles.monoValue)}>
-										{job.verification_image}
-									</p>
-								</div>
-							)}
-							{job.result_upload_endpoint && (
+				<div className={css(styles.mainColumn)}>
+					{/* Lifecycle */}
+					<ComputeJobTimeline job={job} />
+
+					{/* Main Details */}
+					<Card>
+						<CardHeader>
+							<CardTitle>Job Details</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<div className={css(styles.detailsGrid)}>
 								<div className={css(styles.field)}>
-									<label className={css(styles.fieldLabel)}>
-										Result Upload Endpoint
-									</label>
-									<p className={css(styles.monoValue)}>
-										{job.result_upload_endpoint}
-									</p>
+									<label className={css(styles.fieldLabel)}>Creator</label>
+									<AddressChip address={job.creator} />
 								</div>
-							)}
-							{job.result_fetch_endpoint && (
 								<div className={css(styles.field)}>
 									<label className={css(styles.fieldLabel)}>
-										Result Fetch Endpoint
+										Target Validator
 									</label>
-									<p className={css(styles.monoValue)}>
-										{job.result_fetch_endpoint}
-									</p>
+									<AddressChip address={job.target_validator} />
 								</div>
-							)}
-							{job.fee_amount && job.fee_denom && (
-								<div className={css(styles.field)}>
-									<label className={css(styles.fieldLabel)}>Fee</label>
-									<p className={css(styles.fieldValue)}>
-										{formatNativeFee(job.fee_amount, job.fee_denom)}
-									</p>
-								</div>
-							)}
-						</div>
-					</CardContent>
-				</Card>
+								{job.execution_image && (
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>
+											Execution Image
+										</label>
+										<p className={css(styles.monoValue)}>
+											{job.execution_image}
+										</p>
+									</div>
+								)}
+								{job.verification_image && (
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>
+											Verification Image
+										</label>
+										<p className={css(styles.monoValue)}>
+											{job.verification_image}
+										</p>
+									</div>
+								)}
+								{job.result_upload_endpoint && (
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>
+											Result Upload Endpoint
+										</label>
+										<p className={css(styles.monoValue)}>
+											{job.result_upload_endpoint}
+										</p>
+									</div>
+								)}
+								{job.result_fetch_endpoint && (
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>
+											Result Fetch Endpoint
+										</label>
+										<p className={css(styles.monoValue)}>
+											{job.result_fetch_endpoint}
+										</p>
+									</div>
+								)}
+								{job.fee_amount && job.fee_denom && (
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>Fee</label>
+										<p className={css(styles.fieldValue)}>
+											{formatNativeFee(job.fee_amount, job.fee_denom)}
+										</p>
+									</div>
+								)}
+							</div>
+						</CardContent>
+					</Card>
+				</div>
 
 				{/* Sidebar */}
 				<div className={css(styles.sidebar)}>
@@ -258,6 +265,15 @@ export default function ComputeJobDetailPage() {
 							</CardContent>
 						</Card>
 					)}
+
+					{/* Result artifact check against the on-chain hash */}
+					{job.result_hash && (
+						<ComputeResultVerification
+							jobId={job.job_id}
+							resultHash={job.result_hash}
+							fetchEndpoint={job.result_fetch_endpoint}
+						/>
+					)}
 				</div>
 			</div>
 		</div>
@@ -306,6 +322,11 @@ const styles = {
 		gap: "6",
 		gridTemplateColumns: { base: "1fr", lg: "2fr 1fr" },
 	},
+	mainColumn: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+	},
 	detailsGrid: {
 		display: "flex",
 		flexDirection: "column",
@@ -0,0 +1,410 @@
+import { useCallback, useMemo, useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Link, useParams } from "react-router"
+import { ArrowLeft, Coins } from "lucide-react"
+import { type ColumnDef, createColumnHelper } from "@tanstack/react-table"
+import { formatUnits } from "viem"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable } from "@/components/ui/data-table"
+import { AddressChip } from "@/components/AddressChip"
+import { TokenTransferVolumeChart } from "@/components/analytics/TokenTransferVolumeChart"
+import { api } from "@/lib/api"
+import { formatAddress, formatNumber, formatTimeAgo, formatTokenType } from "@/lib/utils"
+import { css } from "@/styled-system/css"
+
+const HOLDER_LIMIT = 50
+
+interface TokenHolder {
+	rank: number
+	address: string
+	balance: string
+}
+
+interface TokenTransfer {
+	tx_id: string
+	log_index: number
+	from_address: string
+	to_address: string
+	value: string
+	timestamp: string | null
+}
+
+const holderColumnHelper = createColumnHelper<TokenHolder>()
+const transferColumnHelper = createColumnHelper<TokenTransfer>()
+
+export default function EvmTokenDetailPage() {
+	const params = useParams()
+	const address = (params.address || "").toLowerCase()
+	const [page, setPage] = useState(0)
+	const [pageSize, setPageSize] = useState(20)
+
+	const { data: token, isLoading, error } = useQuery({
+		queryKey: ["evm-token", address],
+		queryFn: () => api.getEvmToken(address),
+		enabled: !!address,
+		staleTime: 60000,
+	})
+
+	const isNft = token?.type?.toUpperCase() === "ERC721"
+	const decimals = isNft ? 0 : (token?.decimals ?? 18)
+
+	const { data: holderData, isLoading: holdersLoading } = useQuery({
+		queryKey: ["evm-token-holders", address, token?.type],
+		queryFn: () => api.getEvmTokenHolders(address, token?.type ?? null, HOLDER_LIMIT),
+		enabled: !!token,
+		staleTime: 60000,
+	})
+
+	const { data: transfers, isLoading: transfersLoading } = useQuery({
+		queryKey: ["evm-token-transfers", address, page, pageSize],
+		queryFn: async (): Promise<TokenTransfer[]> => {
+			const rows = await api.getEvmTokenTransfers(pageSize, page * pageSize, { tokenAddress: address })
+			const timestamps = await api.getTransactionTimestamps(rows.map((r) => r.tx_id))
+			return rows.map((r) => ({ ...r, timestamp: timestamps.get(r.tx_id) ?? null }))
+		},
+		enabled: !!address,
+		staleTime: 15000,
+	})
+
+	// Estimate total rows for pagination (API doesn't return count)
+	const estimatedTotal = transfers
+		? (transfers.length < pageSize
+			? page * pageSize + transfers.length
+			: (page + 1) * pageSize + 1)
+		: 0
+
+	const totalSupply = useMemo(() => {
+		if (!token?.total_supply) return null
+		try {
+			return BigInt(token.total_supply)
+		} catch {
+			return null
+		}
+	}, [token?.total_supply])
+
+	const formatTokenAmount = useCallback(
+		(raw: string) => {
+			try {
+				return formatNumber(formatUnits(BigInt(raw), decimals), 4)
+			} catch {
+				return raw
+			}
+		},
+		[decimals],
+	)
+
+	const holderColumns: ColumnDef<TokenHolder, any>[] = useMemo(
+		() => [
+			holderColumnHelper.accessor("rank", {
+				header: "#",
+				enableSorting: false,
+				cell: ({ getValue }) => <span className={css(styles.mutedText)}>{getValue()}</span>,
+			}),
+			holderColumnHelper.accessor("address", {
+				header: "Holder",
+				enableSorting: false,
+				cell: ({ getValue }) => <AddressChip address={getValue()} />,
+			}),
+			holderColumnHelper.accessor("balance", {
+				header: isNft ? "Tokens Held" : "Balance",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<span className={css(styles.monoText)}>
+						{formatTokenAmount(getValue())} {token?.symbol}
+					</span>
+				),
+			}),
+			holderColumnHelper.display({
+				id: "share",
+				header: "Share",
+				cell: ({ row }) => {
+					if (!totalSupply || totalSupply === 0n) return <span className={css(styles.mutedText)}>-</span>
+					// Basis points keep two decimals of precision in bigint math
+					const bps = (BigInt(row.original.balance) * 10000n) / totalSupply
+					return <span className={css(styles.monoText)}>{(Number(bps) / 100).toFixed(2)}%</span>
+				},
+			}),
+		],
+		[formatTokenAmount, isNft, token?.symbol, totalSupply],
+	)
+
+	const transferColumns: ColumnDef<TokenTransfer, any>[] = useMemo(
+		() => [
+			transferColumnHelper.accessor("tx_id", {
+				header: "Tx Hash",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<Link to={`/tx/${getValue()}`} className={css(styles.txLink)}>
+						{formatAddress(getValue(), 6)}
+					</Link>
+				),
+			}),
+			transferColumnHelper.accessor("from_address", {
+				header: "From",
+				enableSorting: false,
+				cell: ({ getValue }) => <AddressChip address={getValue()} />,
+			}),
+			transferColumnHelper.accessor("to_address", {
+				header: "To",
+				enableSorting: false,
+				cell: ({ getValue }) => <AddressChip address={getValue()} />,
+			}),
+			transferColumnHelper.accessor("value", {
+				header: isNft ? "Token ID" : "Amount",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<span className={css(styles.monoText)}>
+						{isNft ? `#${getValue()}` : `${formatTokenAmount(getValue())} ${token?.symbol ?? ""}`}
+					</span>
+				),
+			}),
+			transferColumnHelper.accessor("timestamp", {
+				header: "Time",
+				enableSorting: false,
+				cell: ({ getValue }) => {
+					const timestamp = getValue()
+					return <span className={css(styles.mutedText)}>{timestamp ? formatTimeAgo(timestamp) : "-"}</span>
+				},
+			}),
+		],
+		[formatTokenAmount, isNft, token?.symbol],
+	)
+
+	if (error || (!isLoading && !token)) {
+		return (
+			<div className={css(styles.container)}>
+				<Link to="/evm/tokens" className={css(styles.backLink)}>
+					<ArrowLeft className={css(styles.backIcon)} />
+					Back to Tokens
+				</Link>
+				<Card>
+					<CardContent className={css(styles.errorContent)}>
+						<h2 className={css(styles.errorTitle)}>Token Not Found</h2>
+						<p className={css(styles.errorText)}>{address} is not a registered token.</p>
+					</CardContent>
+				</Card>
+			</div>
+		)
+	}
+
+	if (isLoading || !token) {
+		return (
+			<div className={css(styles.container)}>
+				<Skeleton className={css(styles.skeletonHeader)} />
+				<Skeleton className={css(styles.skeletonBody)} />
+			</div>
+		)
+	}
+
+	return (
+		<div className={css(styles.container)}>
+			{/* Header */}
+			<div>
+				<Link to="/evm/tokens" className={css(styles.backLink)}>
+					<ArrowLeft className={css(styles.backIcon)} />
+					Back to Tokens
+				</Link>
+				<div className={css(styles.titleRow)}>
+					<Coins className={css(styles.titleIcon)} />
+					<h1 className={css(styles.title)}>{token.name || "Unknown Token"}</h1>
+					{token.symbol && <Badge variant="outline">{token.symbol}</Badge>}
+					<Badge variant="secondary">{formatTokenType(token.type)}</Badge>
+				</div>
+				<div className={css(styles.addressRow)}>
+					<AddressChip address={token.address} truncate={false} />
+				</div>
+			</div>
+
+			{/* Stats */}
+			<div className={css(styles.statsGrid)}>
+				<Card>
+					<CardHeader className={css(styles.statHeader)}>
+						<CardDescription>Total Supply</CardDescription>
+						<CardTitle className={css(styles.statValue)}>
+							{totalSupply !== null ? formatTokenAmount(totalSupply.toString()) : "-"}
+						</CardTitle>
+					</CardHeader>
+				</Card>
+				<Card>
+					<CardHeader className={css(styles.statHeader)}>
+						<CardDescription>Holders</CardDescription>
+						<CardTitle className={css(styles.statValue)}>
+							{holderData ? holderData.holder_count.toLocaleString() : "-"}
+						</CardTitle>
+					</CardHeader>
+				</Card>
+				<Card>
+					<CardHeader className={css(styles.statHeader)}>
+						<CardDescription>Transfers</CardDescription>
+						<CardTitle className={css(styles.statValue)}>
+							{holderData ? holderData.transfer_count.toLocaleString() : "-"}
+						</CardTitle>
+					</CardHeader>
+				</Card>
+				<Card>
+					<CardHeader className={css(styles.statHeader)}>
+						<CardDescription>{isNft ? "First Seen" : "Decimals"}</CardDescription>
+						<CardTitle className={css(styles.statValue)}>
+							{isNft
+								? (token.first_seen_height ? `#${formatNumber(token.first_seen_height)}` : "-")
+								: (token.decimals ?? "-")}
+						</CardTitle>
+					</CardHeader>
+				</Card>
+			</div>
+
+			<TokenTransferVolumeChart
+				address={token.address}
+				decimals={decimals}
+				symbol={token.symbol}
+				isNft={isNft}
+			/>
+
+			<div className={css(styles.grid)}>
+				{/* Transfer history */}
+				<Card className={css(styles.mainColumn)}>
+					<CardHeader>
+						<CardTitle>Transfers</CardTitle>
+					</CardHeader>
+					<CardContent>
+						<DataTable
+							columns={transferColumns}
+							data={transfers ?? []}
+							isLoading={transfersLoading}
+							getRowId={(row) => `${row.tx_id}-${row.log_index}`}
+							emptyState="No transfers found."
+							maxHeight="none"
+							totalRows={estimatedTotal}
+							currentPage={page}
+							onPageChange={setPage}
+							pageSize={pageSize}
+							onPageSizeChange={(size) => {
+								setPageSize(size)
+								setPage(0)
+							}}
+						/>
+					</CardContent>
+				</Card>
+
+				{/* Holder leaderboard */}
+				<Card className={css(styles.mainColumn)}>
+					<CardHeader>
+						<CardTitle>Top Holders</CardTitle>
+						<CardDescription>Balances computed from indexed Transfer logs</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<DataTable
+							columns={holderColumns}
+							data={(holderData?.holders ?? []).map((h, i) => ({ ...h, rank: i + 1 }))}
+							isLoading={holdersLoading}
+							getRowId={(row) => row.address}
+							emptyState="No holders found."
+							hidePagination
+							pageSize={HOLDER_LIMIT}
+						/>
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	)
+}
+
+const styles = {
+	container: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		w: "full",
+	},
+	backLink: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+		color: "fg.muted",
+		mb: "4",
+		transition: "color 0.2s ease",
+		_hover: { color: "accent.default" },
+	},
+	backIcon: {
+		h: "4",
+		w: "4",
+	},
+	titleRow: {
+		display: "flex",
+		alignItems: "center",
+		gap: "3",
+		flexWrap: "wrap",
+	},
+	titleIcon: {
+		h: "6",
+		w: "6",
+		color: "accent.default",
+	},
+	title: {
+		fontSize: "2xl",
+		fontWeight: "bold",
+	},
+	addressRow: {
+		mt: "2",
+	},
+	statsGrid: {
+		display: "grid",
+		gap: "4",
+		gridTemplateColumns: { base: "1fr", sm: "repeat(2, 1fr)", lg: "repeat(4, 1fr)" },
+	},
+	statHeader: {
+		gap: "1",
+	},
+	statValue: {
+		fontSize: "xl",
+		fontFamily: "mono",
+		wordBreak: "break-all",
+	},
+	grid: {
+		display: "grid",
+		gap: "6",
+		gridTemplateColumns: { base: "1fr", xl: "3fr 2fr" },
+		alignItems: "start",
+	},
+	mainColumn: {
+		minW: "0",
+	},
+	txLink: {
+		fontFamily: "mono",
+		fontSize: "sm",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	monoText: {
+		fontFamily: "mono",
+		fontSize: "sm",
+	},
+	mutedText: {
+		color: "fg.muted",
+		fontSize: "sm",
+	},
+	errorContent: {
+		pt: "6",
+		textAlign: "center",
+		py: "12",
+	},
+	errorTitle: {
+		fontSize: "xl",
+		fontWeight: "bold",
+		color: "red.600",
+		mb: "2",
+	},
+	errorText: {
+		color: "fg.muted",
+	},
+	skeletonHeader: {
+		height: "8",
+		width: "48",
+	},
+	skeletonBody: {
+		height: "96",
+		width: "full",
+	},
+}
@@ -9,7 +9,7 @@ import { Badge } from "@/components/ui/badge"
 import { AddressChip } from "@/components/AddressChip"
 import { DataTable } from "@/components/ui/data-table"
 import { api } from "@/lib/api"
-import { formatNumber } from "@/lib/utils"
+import { formatNumber, formatTokenType } from "@/lib/utils"
 import { css } from "@/styled-system/css"
 
 /** Token row shape returned by the API */
@@ -23,25 +23,6 @@ interface EvmToken {
 	first_seen_height: number | null
 }
 
-/**
- * Formats a raw token type string into a display-friendly label.
- * @param type - Raw token type (e.g. "ERC20", "ERC721", "ERC1155")
- * @returns Formatted type string
- */
-const formatTokenType = (type: string | null) => {
-	if (!type) return "Unknown"
-	switch (type.toUpperCase()) {
-		case "ERC20":
-			return "ERC-20"
-		case "ERC721":
-			return "ERC-721 (NFT)"
-		case "ERC1155":
-			return "ERC-1155"
-		default:
-			return type
-	}
-}
-
 /**
  * Formats a raw total supply bigint string with decimal normalization.
  * @param supply - Raw total supply as a string (may be very large)
@@ -73,9 +54,9 @@ const tokenColumns: ColumnDef<EvmToken, any>[] = [
 			<div className={css(styles.tokenInfo)}>
 				<Coins className={css(styles.tokenIcon)} />
 				<div>
-					<div className={css(styles.tokenName)}>
+					<Link to={`/evm/tokens/${row.original.address}`} className={css(styles.tokenName)}>
 						{row.original.name || "Unknown Token"}
-					</div>
+					</Link>
 					{row.original.symbol && (
 						<div className={css(styles.tokenSymbol)}>
 							{row.original.symbol}
@@ -258,6 +239,7 @@ const styles = {
 	},
 	tokenName: {
 		fontWeight: "medium",
+		_hover: { color: "accent.default" },
 	},
 	tokenSymbol: {
 		fontSize: "xs",
@@ -0,0 +1,835 @@
+import { useEffect, useMemo, useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Link, useParams } from "react-router"
+import { ArrowLeft, Landmark, Clock } from "lucide-react"
+import { type ColumnDef, createColumnHelper } from "@tanstack/react-table"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable } from "@/components/ui/data-table"
+import { AddressChip } from "@/components/AddressChip"
+import { JsonViewer } from "@/components/JsonViewer"
+import { useDenom } from "@/contexts/DenomContext"
+import {
+	api,
+	getGovTallyParams,
+	getProposalLive,
+	getProposalTallyLive,
+	type ProposalDeposit,
+	type ProposalStatus,
+	type ProposalVote,
+	type VoteOption,
+} from "@/lib/api"
+import {
+	PROPOSAL_STATUS_LABELS,
+	VOTE_OPTION_LABELS,
+	proposalMessageName,
+	summarizeTally,
+} from "@/lib/gov"
+import { validatorToCosmosAddress } from "@/lib/address"
+import { formatDenomAmount } from "@/lib/denom"
+import { formatAddress, formatTimeAgo, formatTimestamp, formatTimeUntil } from "@/lib/utils"
+import { css } from "@/styled-system/css"
+
+/**
+ * Returns a badge for a proposal status
+ */
+function proposalStatusBadge(status: ProposalStatus) {
+	const label = PROPOSAL_STATUS_LABELS[status] || status
+	switch (status) {
+		case "PROPOSAL_STATUS_PASSED":
+			return <Badge variant="success">{label}</Badge>
+		case "PROPOSAL_STATUS_REJECTED":
+		case "PROPOSAL_STATUS_FAILED":
+			return <Badge variant="destructive">{label}</Badge>
+		case "PROPOSAL_STATUS_VOTING_PERIOD":
+			return <Badge variant="warning">{label}</Badge>
+		default:
+			return <Badge variant="outline">{label}</Badge>
+	}
+}
+
+/**
+ * Returns a badge for a vote option
+ */
+function voteOptionBadge(option: VoteOption) {
+	const label = VOTE_OPTION_LABELS[option] || option
+	switch (option) {
+		case "VOTE_OPTION_YES":
+			return <Badge variant="success">{label}</Badge>
+		case "VOTE_OPTION_NO":
+		case "VOTE_OPTION_NO_WITH_VETO":
+			return <Badge variant="destructive">{label}</Badge>
+		default:
+			return <Badge variant="outline">{label}</Badge>
+	}
+}
+
+function formatPct(ratio: number | null): string {
+	if (ratio === null) return "-"
+	return `${(ratio * 100).toFixed(2)}%`
+}
+
+const TALLY_SEGMENTS = [
+	{ key: "yes", label: "Yes", color: "var(--colors-green-500)" },
+	{ key: "no", label: "No", color: "var(--colors-red-500)" },
+	{ key: "noWithVeto", label: "No With Veto", color: "var(--colors-orange-500)" },
+	{ key: "abstain", label: "Abstain", color: "var(--colors-gray-500)" },
+] as const
+
+const VOTE_FILTERS: Array<{ value: VoteOption | undefined; label: string }> = [
+	{ value: undefined, label: "All Votes" },
+	{ value: "VOTE_OPTION_YES", label: "Yes" },
+	{ value: "VOTE_OPTION_NO", label: "No" },
+	{ value: "VOTE_OPTION_NO_WITH_VETO", label: "No With Veto" },
+	{ value: "VOTE_OPTION_ABSTAIN", label: "Abstain" },
+]
+
+const voteColumnHelper = createColumnHelper<ProposalVote>()
+const depositColumnHelper = createColumnHelper<ProposalDeposit>()
+
+export default function ProposalDetailPage() {
+	const params = useParams()
+	const proposalId = params.id ? Number(params.id) : undefined
+	const validId = proposalId !== undefined && !Number.isNaN(proposalId)
+	const { getDenomDisplay } = useDenom()
+	const [votePage, setVotePage] = useState(0)
+	const [votePageSize, setVotePageSize] = useState(20)
+	const [voteFilter, setVoteFilter] = useState<VoteOption | undefined>()
+	const [now, setNow] = useState(Date.now())
+
+	const {
+		data: proposal,
+		isLoading,
+		error,
+	} = useQuery({
+		queryKey: ["gov-proposal", proposalId],
+		queryFn: () => getProposalLive(proposalId as number),
+		enabled: validId,
+		staleTime: 15000,
+	})
+
+	const { data: submitTx } = useQuery({
+		queryKey: ["gov-proposal-submit-tx", proposalId],
+		queryFn: () => api.getProposalSubmitTx(proposalId as number),
+		enabled: validId,
+		staleTime: 300000,
+	})
+
+	const isVoting = proposal?.status === "PROPOSAL_STATUS_VOTING_PERIOD"
+
+	// Tick the countdown every second while a phase deadline is pending
+	useEffect(() => {
+		if (!proposal || (proposal.status !== "PROPOSAL_STATUS_VOTING_PERIOD" && proposal.status !== "PROPOSAL_STATUS_DEPOSIT_PERIOD")) return
+		const interval = setInterval(() => setNow(Date.now()), 1000)
+		return () => clearInterval(interval)
+	}, [proposal])
+
+	// Live tally only exists on-chain while voting; finished proposals carry final_tally
+	const { data: liveTally } = useQuery({
+		queryKey: ["gov-proposal-tally", proposalId],
+		queryFn: () => getProposalTallyLive(proposalId as number),
+		enabled: validId && isVoting,
+		refetchInterval: 15000,
+	})
+
+	const { data: tallyParams } = useQuery({
+		queryKey: ["gov-tally-params"],
+		queryFn: () => getGovTallyParams(),
+		staleTime: 300000,
+	})
+
+	const { data: votesData, isLoading: votesLoading } = useQuery({
+		queryKey: ["gov-proposal-votes", proposalId, votePage, votePageSize, voteFilter],
+		queryFn: () =>
+			api.getProposalVotes(proposalId as number, votePageSize, votePage * votePageSize, voteFilter),
+		enabled: validId,
+		staleTime: 15000,
+	})
+
+	const { data: deposits, isLoading: depositsLoading } = useQuery({
+		queryKey: ["gov-proposal-deposits", proposalId],
+		queryFn: () => api.getProposalDeposits(proposalId as number),
+		enabled: validId,
+		staleTime: 30000,
+	})
+
+	const { data: validatorsData } = useQuery({
+		queryKey: ["validators-all", ""],
+		queryFn: () => api.getValidatorsPaginated(500, 0, { sortBy: "moniker", sortDir: "asc" }),
+		staleTime: 60000,
+	})
+
+	// Map validator self-delegation accounts to operator info so validator votes can be linked
+	const validatorByAccount = useMemo(() => {
+		const map = new Map<string, { operator: string; moniker: string | null }>()
+		for (const v of validatorsData?.data ?? []) {
+			try {
+				map.set(validatorToCosmosAddress(v.operator_address), {
+					operator: v.operator_address,
+					moniker: v.moniker,
+				})
+			} catch {
+				// Skip malformed operator addresses
+			}
+		}
+		return map
+	}, [validatorsData])
+
+	const voteColumns: ColumnDef<ProposalVote, any>[] = useMemo(
+		() => [
+			voteColumnHelper.accessor("voter", {
+				header: "Voter",
+				enableSorting: false,
+				cell: ({ getValue }) => {
+					const voter = getValue()
+					const validator = validatorByAccount.get(voter)
+					return (
+						<div className={css(styles.voterCell)}>
+							{validator && (
+								<Link
+									to={`/validators/${validator.operator}`}
+									className={css(styles.validatorLink)}
+								>
+									{validator.moniker || formatAddress(validator.operator, 6)}
+								</Link>
+							)}
+							<AddressChip address={voter} />
+						</div>
+					)
+				},
+			}),
+			voteColumnHelper.accessor("option", {
+				header: "Option",
+				enableSorting: false,
+				cell: ({ row }) => {
+					const weighted = row.original.weighted_options
+					if (weighted && weighted.length > 1) {
+						return (
+							<div className={css(styles.statusCell)}>
+								{weighted.map((w) => (
+									<Badge key={w.option} variant="outline">
+										{VOTE_OPTION_LABELS[w.option] || w.option} {(Number(w.weight) * 100).toFixed(0)}%
+									</Badge>
+								))}
+							</div>
+						)
+					}
+					return voteOptionBadge(row.original.option)
+				},
+			}),
+			voteColumnHelper.accessor("tx_hash", {
+				header: "Tx Hash",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<Link to={`/tx/${getValue()}`} className={css(styles.txLink)}>
+						{formatAddress(getValue(), 6)}
+					</Link>
+				),
+			}),
+			voteColumnHelper.accessor("timestamp", {
+				header: "Time",
+				enableSorting: false,
+				cell: ({ getValue }) => {
+					const value = getValue()
+					return (
+						<span className={css(styles.mutedText)}>
+							{value ? formatTimeAgo(value) : "-"}
+						</span>
+					)
+				},
+			}),
+		],
+		[validatorByAccount],
+	)
+
+	const depositColumns: ColumnDef<ProposalDeposit, any>[] = useMemo(
+		() => [
+			depositColumnHelper.accessor("depositor", {
+				header: "Depositor",
+				enableSorting: false,
+				cell: ({ getValue }) => <AddressChip address={getValue()} />,
+			}),
+			depositColumnHelper.accessor("amount", {
+				header: "Amount",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<span className={css(styles.monoSmall)}>
+						{getValue()
+							.map((c: { denom: string; amount: string }) =>
+								`${formatDenomAmount(c.amount, c.denom, { maxDecimals: 2 })} ${getDenomDisplay(c.denom)}`)
+							.join(", ") || "-"}
+					</span>
+				),
+			}),
+			depositColumnHelper.accessor("tx_hash", {
+				header: "Tx Hash",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<Link to={`/tx/${getValue()}`} className={css(styles.txLink)}>
+						{formatAddress(getValue(), 6)}
+					</Link>
+				),
+			}),
+			depositColumnHelper.accessor("timestamp", {
+				header: "Time",
+				enableSorting: false,
+				cell: ({ getValue }) => {
+					const value = getValue()
+					return (
+						<span className={css(styles.mutedText)}>
+							{value ? formatTimeAgo(value) : "-"}
+						</span>
+					)
+				},
+			}),
+		],
+		[getDenomDisplay],
+	)
+
+	const tally = (isVoting ? liveTally : null) ?? proposal?.final_tally ?? null
+	const summary = tally
+		? summarizeTally(tally, tallyParams?.params, tallyParams?.bondedTokens, proposal?.expedited)
+		: null
+
+	if (error || (!isLoading && validId && !proposal) || !validId) {
+		return (
+			<div className={css(styles.container)}>
+				<Link to="/gov" className={css(styles.backLink)}>
+					<ArrowLeft className={css(styles.backIcon)} />
+					Back to Governance
+				</Link>
+				<Card>
+					<CardContent className={css(styles.errorContent)}>
+						<h2 className={css(styles.errorTitle)}>Proposal Not Found</h2>
+						<p className={css(styles.errorText)}>
+							The requested proposal could not be found.
+						</p>
+					</CardContent>
+				</Card>
+			</div>
+		)
+	}
+
+	if (isLoading || !proposal) {
+		return (
+			<div className={css(styles.container)}>
+				<Skeleton className={css(styles.skeletonHeader)} />
+				<Skeleton className={css(styles.skeletonBody)} />
+			</div>
+		)
+	}
+
+	const deadline = isVoting
+		? proposal.voting_end_time
+		: proposal.status === "PROPOSAL_STATUS_DEPOSIT_PERIOD"
+			? proposal.deposit_end_time
+			: null
+	const countdown = deadline ? formatTimeUntil(deadline, now) : null
+
+	return (
+		<div className={css(styles.container)}>
+			{/* Header */}
+			<div>
+				<Link to="/gov" className={css(styles.backLink)}>
+					<ArrowLeft className={css(styles.backIcon)} />
+					Back to Governance
+				</Link>
+				<div className={css(styles.titleRow)}>
+					<Landmark className={css(styles.titleIcon)} />
+					<h1 className={css(styles.title)}>
+						#{proposal.proposal_id} {proposal.title || "Untitled proposal"}
+					</h1>
+					{proposalStatusBadge(proposal.status)}
+					{proposal.expedited && <Badge variant="outline">Expedited</Badge>}
+				</div>
+			</div>
+
+			<div className={css(styles.grid)}>
+				{/* Main column */}
+				<div className={css(styles.mainColumn)}>
+					{/* Tally */}
+					<Card>
+						<CardHeader>
+							<CardTitle>{isVoting ? "Live Tally" : "Final Tally"}</CardTitle>
+						</CardHeader>
+						<CardContent>
+							{summary ? (
+								<div className={css(styles.tallySection)}>
+									<div className={css(styles.tallyBar)}>
+										{TALLY_SEGMENTS.map((seg) => {
+											const width = summary.shares[seg.key] * 100
+											return width > 0 ? (
+												<div
+													key={seg.key}
+													title={`${seg.label}: ${width.toFixed(2)}%`}
+													style={{ width: `${width}%`, background: seg.color }}
+												/>
+											) : null
+										})}
+									</div>
+									<div className={css(styles.tallyLegend)}>
+										{TALLY_SEGMENTS.map((seg) => (
+											<div key={seg.key} className={css(styles.legendItem)}>
+												<span className={css(styles.legendDot)} style={{ background: seg.color }} />
+												<span className={css(styles.sidebarLabel)}>{seg.label}</span>
+												<span className={css(styles.sidebarValue)}>
+													{formatPct(summary.shares[seg.key])}
+												</span>
+											</div>
+										))}
+									</div>
+									<div className={css(styles.thresholdGrid)}>
+										<div className={css(styles.field)}>
+											<label className={css(styles.fieldLabel)}>Turnout</label>
+											<p className={css(styles.fieldValue)}>
+												{formatPct(summary.turnout)}
+												{tallyParams && ` / ${formatPct(Number(tallyParams.params.quorum))} quorum`}
+											</p>
+											{summary.quorumReached !== null && (
+												<Badge variant={summary.quorumReached ? "success" : "outline"}>
+													{summary.quorumReached ? "Quorum reached" : "Below quorum"}
+												</Badge>
+											)}
+										</div>
+										<div className={css(styles.field)}>
+											<label className={css(styles.fieldLabel)}>Yes (excl. abstain)</label>
+											<p className={css(styles.fieldValue)}>
+												{formatPct(summary.yesRatio)}
+												{tallyParams && ` / ${formatPct(Number(proposal.expedited && tallyParams.params.expedited_threshold ? tallyParams.params.expedited_threshold : tallyParams.params.threshold))} threshold`}
+											</p>
+											{summary.thresholdReached !== null && (
+												<Badge variant={summary.thresholdReached ? "success" : "outline"}>
+													{summary.thresholdReached ? "Above threshold" : "Below threshold"}
+												</Badge>
+											)}
+										</div>
+										<div className={css(styles.field)}>
+											<label className={css(styles.fieldLabel)}>Veto</label>
+											<p className={css(styles.fieldValue)}>
+												{formatPct(summary.vetoRatio)}
+												{tallyParams && ` / ${formatPct(Number(tallyParams.params.veto_threshold))} veto`}
+											</p>
+											{summary.vetoed && <Badge variant="destructive">Vetoed</Badge>}
+										</div>
+									</div>
+									{isVoting && summary.passing !== null && (
+										<p className={css(styles.mutedText)}>
+											If voting ended now, this proposal would{" "}
+											<strong>{summary.passing ? "pass" : "not pass"}</strong>.
+										</p>
+									)}
+								</div>
+							) : (
+								<p className={css(styles.mutedText)}>
+									{proposal.status === "PROPOSAL_STATUS_DEPOSIT_PERIOD"
+										? "Voting has not started yet."
+										: "Tally not available."}
+								</p>
+							)}
+						</CardContent>
+					</Card>
+
+					{/* Content */}
+					<Card>
+						<CardHeader>
+							<CardTitle>Content</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<div className={css(styles.contentSection)}>
+								{proposal.summary && (
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>Summary</label>
+										<p className={css(styles.summaryText)}>{proposal.summary}</p>
+									</div>
+								)}
+								{proposal.messages && proposal.messages.length > 0 && (
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>
+											Messages ({proposal.messages.length})
+										</label>
+										{proposal.messages.map((msg, i) => (
+											<div key={i} className={css(styles.messageBlock)}>
+												<Badge variant="outline">{proposalMessageName(msg["@type"])}</Badge>
+												<JsonViewer data={msg} maxHeight={400} />
+											</div>
+										))}
+									</div>
+								)}
+								{proposal.metadata && (
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>Metadata</label>
+										<p className={css(styles.monoValue)}>{proposal.metadata}</p>
+									</div>
+								)}
+								{!proposal.summary && !proposal.messages?.length && !proposal.metadata && (
+									<p className={css(styles.mutedText)}>No content available.</p>
+								)}
+							</div>
+						</CardContent>
+					</Card>
+
+					{/* Votes */}
+					<Card>
+						<CardHeader>
+							<div className={css(styles.eventsHeader)}>
+								<CardTitle>Votes</CardTitle>
+								<select
+									value={voteFilter || ""}
+									onChange={(e) => {
+										setVoteFilter((e.target.value || undefined) as VoteOption | undefined)
+										setVotePage(0)
+									}}
+									className={css(styles.filterSelect)}
+								>
+									{VOTE_FILTERS.map((f) => (
+										<option key={f.label} value={f.value || ""}>{f.label}</option>
+									))}
+								</select>
+							</div>
+						</CardHeader>
+						<CardContent>
+							<DataTable
+								columns={voteColumns}
+								data={votesData?.data ?? []}
+								isLoading={votesLoading}
+								getRowId={(row) => `${row.voter}-${row.tx_hash}`}
+								emptyState="No votes found."
+								maxHeight="none"
+								totalRows={votesData?.pagination?.total}
+								currentPage={votePage}
+								onPageChange={setVotePage}
+								pageSize={votePageSize}
+								onPageSizeChange={(size) => {
+									setVotePageSize(size)
+									setVotePage(0)
+								}}
+							/>
+						</CardContent>
+					</Card>
+
+					{/* Deposits */}
+					<Card>
+						<CardHeader>
+							<CardTitle>Deposits</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<DataTable
+								columns={depositColumns}
+								data={deposits ?? []}
+								isLoading={depositsLoading}
+								getRowId={(row) => `${row.depositor}-${row.tx_hash}`}
+								emptyState="No deposits found."
+								maxHeight="none"
+							/>
+						</CardContent>
+					</Card>
+				</div>
+
+				{/* Sidebar */}
+				<div className={css(styles.sidebar)}>
+					{countdown && (
+						<Card>
+							<CardHeader>
+								<CardTitle className={css(styles.sidebarTitle)}>
+									<Clock className={css(styles.sidebarIcon)} />
+									{isVoting ? "Voting Ends In" : "Deposit Period Ends In"}
+								</CardTitle>
+							</CardHeader>
+							<CardContent>
+								<p className={css(styles.countdown)}>{countdown}</p>
+								{deadline && (
+									<p className={css(styles.mutedText)}>{formatTimestamp(deadline)}</p>
+								)}
+							</CardContent>
+						</Card>
+					)}
+
+					<Card>
+						<CardHeader>
+							<CardTitle>Details</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<div className={css(styles.sidebarFields)}>
+								{proposal.proposer && (
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>Proposer</label>
+										<AddressChip address={proposal.proposer} />
+									</div>
+								)}
+								{proposal.total_deposit && proposal.total_deposit.length > 0 && (
+									<div className={css(styles.sidebarRow)}>
+										<span className={css(styles.sidebarLabel)}>Total Deposit</span>
+										<span className={css(styles.sidebarValue)}>
+											{proposal.total_deposit
+												.map((c) => `${formatDenomAmount(c.amount, c.denom, { maxDecimals: 2 })} ${getDenomDisplay(c.denom)}`)
+												.join(", ")}
+										</span>
+									</div>
+								)}
+								{submitTx && (
+									<div className={css(styles.sidebarRow)}>
+										<span className={css(styles.sidebarLabel)}>Submit Tx</span>
+										<Link to={`/tx/${submitTx.tx_hash}`} className={css(styles.txLink)}>
+											{formatAddress(submitTx.tx_hash, 6)}
+										</Link>
+									</div>
+								)}
+								{submitTx?.height && (
+									<div className={css(styles.sidebarRow)}>
+										<span className={css(styles.sidebarLabel)}>Submit Height</span>
+										<Link to={`/blocks/${submitTx.height}`} className={css(styles.txLink)}>
+											#{submitTx.height.toLocaleString()}
+										</Link>
+									</div>
+								)}
+								{[
+									{ label: "Submitted", value: proposal.submit_time },
+									{ label: "Deposit End", value: proposal.deposit_end_time },
+									{ label: "Voting Start", value: proposal.voting_start_time },
+									{ label: "Voting End", value: proposal.voting_end_time },
+								].map((row) =>
+									row.value ? (
+										<div key={row.label} className={css(styles.sidebarRow)}>
+											<span className={css(styles.sidebarLabel)}>{row.label}</span>
+											<span className={css(styles.sidebarValue)} title={row.value}>
+												{formatTimestamp(row.value)}
+											</span>
+										</div>
+									) : null
+								)}
+							</div>
+						</CardContent>
+					</Card>
+				</div>
+			</div>
+		</div>
+	)
+}
+
+const styles = {
+	container: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		w: "full",
+	},
+	backLink: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+		color: "fg.muted",
+		mb: "4",
+		transition: "color 0.2s ease",
+		_hover: { color: "accent.default" },
+	},
+	backIcon: {
+		h: "4",
+		w: "4",
+	},
+	titleRow: {
+		display: "flex",
+		alignItems: "center",
+		flexWrap: "wrap",
+		gap: "3",
+	},
+	titleIcon: {
+		h: "6",
+		w: "6",
+		color: "accent.default",
+	},
+	title: {
+		fontSize: "2xl",
+		fontWeight: "bold",
+	},
+	grid: {
+		display: "grid",
+		gap: "6",
+		gridTemplateColumns: { base: "1fr", lg: "2fr 1fr" },
+	},
+	mainColumn: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		minW: "0",
+	},
+	tallySection: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "4",
+	},
+	tallyBar: {
+		display: "flex",
+		h: "3",
+		w: "full",
+		rounded: "full",
+		overflow: "hidden",
+		bg: "bg.muted",
+	},
+	tallyLegend: {
+		display: "grid",
+		gridTemplateColumns: { base: "repeat(2, 1fr)", md: "repeat(4, 1fr)" },
+		gap: "3",
+	},
+	legendItem: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+	},
+	legendDot: {
+		h: "2.5",
+		w: "2.5",
+		rounded: "full",
+		flexShrink: 0,
+	},
+	thresholdGrid: {
+		display: "grid",
+		gridTemplateColumns: { base: "1fr", md: "repeat(3, 1fr)" },
+		gap: "4",
+	},
+	contentSection: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "4",
+	},
+	summaryText: {
+		fontSize: "sm",
+		whiteSpace: "pre-wrap",
+	},
+	messageBlock: {
+		display: "flex",
+		flexDirection: "column",
+		alignItems: "flex-start",
+		gap: "2",
+		mt: "2",
+	},
+	field: {
+		display: "flex",
+		flexDirection: "column",
+		alignItems: "flex-start",
+		gap: "1",
+	},
+	fieldLabel: {
+		fontSize: "xs",
+		fontWeight: "medium",
+		color: "fg.muted",
+		textTransform: "uppercase",
+		letterSpacing: "wider",
+	},
+	fieldValue: {
+		fontSize: "sm",
+	},
+	monoValue: {
+		fontSize: "sm",
+		fontFamily: "mono",
+		wordBreak: "break-all",
+	},
+	monoSmall: {
+		fontFamily: "mono",
+		fontSize: "xs",
+	},
+	eventsHeader: {
+		display: "flex",
+		alignItems: "center",
+		justifyContent: "space-between",
+	},
+	filterSelect: {
+		fontSize: "sm",
+		bg: "bg.muted",
+		border: "1px solid",
+		borderColor: "border.default",
+		rounded: "md",
+		px: "3",
+		py: "1.5",
+		color: "fg.default",
+	},
+	voterCell: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+	},
+	validatorLink: {
+		fontSize: "sm",
+		fontWeight: "semibold",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	statusCell: {
+		display: "flex",
+		alignItems: "center",
+		flexWrap: "wrap",
+		gap: "1",
+	},
+	txLink: {
+		fontFamily: "mono",
+		fontSize: "sm",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	mutedText: {
+		color: "fg.muted",
+		fontSize: "sm",
+	},
+	sidebar: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+	},
+	sidebarTitle: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+	},
+	sidebarIcon: {
+		h: "4",
+		w: "4",
+		color: "accent.default",
+	},
+	countdown: {
+		fontSize: "3xl",
+		fontWeight: "bold",
+		fontFamily: "mono",
+	},
+	sidebarFields: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "3",
+	},
+	sidebarRow: {
+		display: "flex",
+		justifyContent: "space-between",
+		alignItems: "center",
+		gap: "2",
+	},
+	sidebarLabel: {
+		color: "fg.muted",
+		fontSize: "sm",
+	},
+	sidebarValue: {
+		fontSize: "sm",
+		fontWeight: "medium",
+		textAlign: "right",
+	},
+	errorContent: {
+		pt: "6",
+		textAlign: "center",
+		py: "12",
+	},
+	errorTitle: {
+		fontSize: "xl",
+		fontWeight: "bold",
+		color: "red.600",
+		mb: "2",
+	},
+	errorText: {
+		color: "fg.muted",
+	},
+	skeletonHeader: {
+		height: "8",
+		width: "48",
+	},
+	skeletonBody: {
+		height: "64",
+		width: "full",
+	},
+}
@@ -0,0 +1,317 @@
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Link } from "react-router"
+import { Landmark } from "lucide-react"
+import { type ColumnDef, createColumnHelper } from "@tanstack/react-table"
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { DataTable } from "@/components/ui/data-table"
+import { getProposalsLive, type GovernanceProposal, type ProposalStatus } from "@/lib/api"
+import { PROPOSAL_STATUS_LABELS, proposalMessageName } from "@/lib/gov"
+import { formatTimeAgo, formatTimeUntil } from "@/lib/utils"
+import { css } from "@/styled-system/css"
+
+const STATUS_FILTERS: Array<{ value: ProposalStatus | undefined; label: string }> = [
+	{ value: undefined, label: "All" },
+	{ value: "PROPOSAL_STATUS_VOTING_PERIOD", label: "Voting" },
+	{ value: "PROPOSAL_STATUS_DEPOSIT_PERIOD", label: "Deposit" },
+	{ value: "PROPOSAL_STATUS_PASSED", label: "Passed" },
+	{ value: "PROPOSAL_STATUS_REJECTED", label: "Rejected" },
+	{ value: "PROPOSAL_STATUS_FAILED", label: "Failed" },
+]
+
+/**
+ * Returns a badge for a proposal status
+ */
+function proposalStatusBadge(status: ProposalStatus) {
+	const label = PROPOSAL_STATUS_LABELS[status] || status
+	switch (status) {
+		case "PROPOSAL_STATUS_PASSED":
+			return <Badge variant="success">{label}</Badge>
+		case "PROPOSAL_STATUS_REJECTED":
+		case "PROPOSAL_STATUS_FAILED":
+			return <Badge variant="destructive">{label}</Badge>
+		case "PROPOSAL_STATUS_VOTING_PERIOD":
+			return <Badge variant="warning">{label}</Badge>
+		default:
+			return <Badge variant="outline">{label}</Badge>
+	}
+}
+
+/**
+ * Describes the current phase deadline of a proposal (voting end or deposit end)
+ */
+function proposalDeadline(proposal: GovernanceProposal): string {
+	if (proposal.status === "PROPOSAL_STATUS_VOTING_PERIOD" && proposal.voting_end_time) {
+		const remaining = formatTimeUntil(proposal.voting_end_time)
+		return remaining ? `Voting ends in ${remaining}` : "Voting ended"
+	}
+	if (proposal.status === "PROPOSAL_STATUS_DEPOSIT_PERIOD" && proposal.deposit_end_time) {
+		const remaining = formatTimeUntil(proposal.deposit_end_time)
+		return remaining ? `Deposit ends in ${remaining}` : "Deposit ended"
+	}
+	if (proposal.voting_end_time) {
+		return `Ended ${formatTimeAgo(proposal.voting_end_time)}`
+	}
+	return "-"
+}
+
+// -- Column definitions --
+
+const columnHelper = createColumnHelper<GovernanceProposal>()
+
+const proposalColumns: ColumnDef<GovernanceProposal, any>[] = [
+	columnHelper.accessor("proposal_id", {
+		header: "ID",
+		enableSorting: false,
+		cell: ({ row }) => (
+			<Link
+				to={`/gov/${row.original.proposal_id}`}
+				className={css(styles.idLink)}
+			>
+				#{row.original.proposal_id}
+			</Link>
+		),
+	}),
+	columnHelper.accessor("title", {
+		header: "Title",
+		enableSorting: false,
+		cell: ({ row }) => (
+			<div className={css(styles.titleCell)}>
+				<Link
+					to={`/gov/${row.original.proposal_id}`}
+					className={css(styles.titleLink)}
+				>
+					{row.original.title || "Untitled proposal"}
+				</Link>
+				{row.original.messages && row.original.messages.length > 0 && (
+					<span className={css(styles.mutedSmall)}>
+						{row.original.messages.map((m) => proposalMessageName(m["@type"])).join(", ")}
+					</span>
+				)}
+			</div>
+		),
+	}),
+	columnHelper.accessor("status", {
+		header: "Status",
+		enableSorting: false,
+		cell: ({ row }) => (
+			<div className={css(styles.statusCell)}>
+				{proposalStatusBadge(row.original.status)}
+				{row.original.expedited && <Badge variant="outline">Expedited</Badge>}
+			</div>
+		),
+	}),
+	columnHelper.display({
+		id: "deadline",
+		header: "Deadline",
+		enableSorting: false,
+		cell: ({ row }) => (
+			<span className={css(styles.mutedText)}>{proposalDeadline(row.original)}</span>
+		),
+	}),
+	columnHelper.accessor("submit_time", {
+		header: "Submitted",
+		enableSorting: false,
+		cell: ({ getValue }) => {
+			const value = getValue()
+			return (
+				<span className={css(styles.mutedText)}>
+					{value ? formatTimeAgo(value) : "-"}
+				</span>
+			)
+		},
+	}),
+]
+
+export default function GovernancePage() {
+	const [page, setPage] = useState(0)
+	const [pageSize, setPageSize] = useState(20)
+	const [statusFilter, setStatusFilter] = useState<ProposalStatus | undefined>()
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ["gov-proposals", page, pageSize, statusFilter],
+		queryFn: () => getProposalsLive(pageSize, page * pageSize, statusFilter),
+		staleTime: 15000,
+	})
+
+	return (
+		<div className={css(styles.container)}>
+			{/* Header */}
+			<div>
+				<h1 className={css(styles.title)}>Governance</h1>
+				<p className={css(styles.subtitle)}>
+					On-chain proposals, deposits and votes
+				</p>
+			</div>
+
+			{/* Status filter */}
+			<div className={css(styles.tabContainer)}>
+				{STATUS_FILTERS.map((filter) => (
+					<button
+						key={filter.label}
+						type="button"
+						className={css(
+							statusFilter === filter.value ? styles.tabActive : styles.tabInactive
+						)}
+						onClick={() => {
+							setStatusFilter(filter.value)
+							setPage(0)
+						}}
+					>
+						{filter.label}
+					</button>
+				))}
+			</div>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Proposals</CardTitle>
+					<CardDescription>
+						{data?.pagination
+							? `${data.pagination.total} proposals`
+							: "Loading..."}
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{error ? (
+						<div className={css(styles.emptyState)}>Error loading proposals</div>
+					) : !isLoading && !data?.data?.length ? (
+						<div className={css(styles.emptyState)}>
+							<Landmark className={css(styles.emptyIcon)} />
+							<h3 className={css(styles.emptyTitle)}>No Proposals</h3>
+							<p className={css(styles.emptyText)}>
+								No governance proposals match this filter.
+							</p>
+						</div>
+					) : (
+						<DataTable
+							columns={proposalColumns}
+							data={data?.data ?? []}
+							isLoading={isLoading}
+							getRowId={(row) => String(row.proposal_id)}
+							maxHeight="none"
+							totalRows={data?.pagination?.total}
+							currentPage={page}
+							onPageChange={setPage}
+							pageSize={pageSize}
+							onPageSizeChange={(size) => {
+								setPageSize(size)
+								setPage(0)
+							}}
+						/>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
+
+const styles = {
+	container: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		w: "full",
+	},
+	title: {
+		fontSize: "3xl",
+		fontWeight: "bold",
+	},
+	subtitle: {
+		color: "fg.muted",
+		marginTop: "1",
+	},
+	tabContainer: {
+		display: "flex",
+		alignItems: "center",
+		gap: "4",
+		flexWrap: "wrap",
+		borderBottom: "1px solid",
+		borderColor: "border.default",
+		pb: "2",
+	},
+	tabActive: {
+		fontSize: "sm",
+		fontWeight: "semibold",
+		color: "fg.default",
+		pb: "2",
+		cursor: "pointer",
+		bg: "transparent",
+		border: "none",
+		borderBottomWidth: "2px",
+		borderBottomStyle: "solid",
+		borderBottomColor: "accent.default",
+	},
+	tabInactive: {
+		fontSize: "sm",
+		fontWeight: "medium",
+		color: "fg.muted",
+		pb: "2",
+		cursor: "pointer",
+		bg: "transparent",
+		border: "none",
+		borderBottom: "2px solid transparent",
+		_hover: { color: "fg.default" },
+	},
+	idLink: {
+		fontFamily: "mono",
+		fontSize: "sm",
+		fontWeight: "semibold",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	titleCell: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "0.5",
+		maxW: "md",
+	},
+	titleLink: {
+		fontSize: "sm",
+		fontWeight: "medium",
+		_hover: { color: "accent.default" },
+	},
+	statusCell: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+	},
+	mutedText: {
+		color: "fg.muted",
+		fontSize: "sm",
+	},
+	mutedSmall: {
+		color: "fg.muted",
+		fontSize: "xs",
+		fontFamily: "mono",
+	},
+	emptyState: {
+		textAlign: "center",
+		py: "12",
+		color: "fg.muted",
+	},
+	emptyIcon: {
+		height: "12",
+		width: "12",
+		margin: "0 auto",
+		marginBottom: "4",
+		opacity: "0.5",
+	},
+	emptyTitle: {
+		fontSize: "lg",
+		fontWeight: "semibold",
+		color: "fg.default",
+		marginBottom: "2",
+	},
+	emptyText: {
+		maxWidth: "md",
+		margin: "0 auto",
+	},
+}
@@ -9,11 +9,15 @@ import { appConfig } from '@/config/app'
 import { formatTimeAgo, formatHash, getTransactionStatus } from '@/lib/utils'
 import { Skeleton } from '@/components/ui/skeleton'
 import { DashboardMetrics } from '@/components/common/DashboardMetrics'
+import { useLiveUpdates } from '@/contexts/LiveUpdatesContext'
 import { css } from '@/styled-system/css'
 import { grid, hstack, listItem } from '@/styled-system/patterns'
 
 export default function DashboardPage() {
 	const [mounted, setMounted] = useState(false)
+	// Streamed blocks/txs are pushed into these queries; poll only while the socket is down
+	const { isLive } = useLiveUpdates()
+	const refetchInterval = isLive ? false : appConfig.dashboard.refetchIntervalMs
 
 	useEffect(() => {
 		setMounted(true)
@@ -25,7 +29,7 @@ export default function DashboardPage() {
 			const result = await api.getBlocks(appConfig.dashboard.itemCount, 0)
 			return result
 		},
-		refetchInterval: appConfig.dashboard.refetchIntervalMs,
+		refetchInterval,
 		staleTime: appConfig.dashboard.refetchIntervalMs / 2,
 		enabled: mounted,
 	})
@@ -36,7 +40,7 @@ export default function DashboardPage() {
 			const result = await api.getTransactions(appConfig.dashboard.itemCount, 0)
 			return result
 		},
-		refetchInterval: appConfig.dashboard.refetchIntervalMs,
+		refetchInterval,
 		staleTime: appConfig.dashboard.refetchIntervalMs / 2,
 		enabled: mounted,
 	})
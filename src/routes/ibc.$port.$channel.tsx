@@ -0,0 +1,530 @@
+import { useMemo, useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Link, useParams } from "react-router"
+import { ArrowLeft, Network, AlertTriangle } from "lucide-react"
+import { type ColumnDef, createColumnHelper } from "@tanstack/react-table"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable } from "@/components/ui/data-table"
+import { AddressChip } from "@/components/AddressChip"
+import { useDenom } from "@/contexts/DenomContext"
+import { api, type IbcChannelTransaction, type IbcPacketMessageType } from "@/lib/api"
+import { formatDenomAmount } from "@/lib/denom"
+import { getConfig } from "@/lib/env"
+import { queryChannelInfo } from "@/lib/ibc-resolver"
+import { formatAddress, formatTimeAgo } from "@/lib/utils"
+import { css } from "@/styled-system/css"
+
+/** In-flight packets with no relay activity for this long are flagged as a stuck relayer */
+const STUCK_RELAY_THRESHOLD_MS = 60 * 60 * 1000
+
+const PACKET_MESSAGE_TYPES: Array<{ value: IbcPacketMessageType | undefined; label: string }> = [
+	{ value: undefined, label: "All Packets" },
+	{ value: "/ibc.applications.transfer.v1.MsgTransfer", label: "Transfer" },
+	{ value: "/ibc.core.channel.v1.MsgRecvPacket", label: "Recv Packet" },
+	{ value: "/ibc.core.channel.v1.MsgAcknowledgement", label: "Acknowledgement" },
+	{ value: "/ibc.core.channel.v1.MsgTimeout", label: "Timeout" },
+]
+
+/**
+ * Returns a badge for an IBC packet message type
+ */
+function packetTypeBadge(type: IbcPacketMessageType) {
+	switch (type) {
+		case "/ibc.applications.transfer.v1.MsgTransfer":
+			return <Badge variant="outline">Transfer</Badge>
+		case "/ibc.core.channel.v1.MsgRecvPacket":
+			return <Badge variant="success">Recv</Badge>
+		case "/ibc.core.channel.v1.MsgAcknowledgement":
+			return <Badge variant="success">Ack</Badge>
+		case "/ibc.core.channel.v1.MsgTimeout":
+			return <Badge variant="destructive">Timeout</Badge>
+		default:
+			return <Badge variant="outline">{String(type).split(".").pop()}</Badge>
+	}
+}
+
+const txColumnHelper = createColumnHelper<IbcChannelTransaction>()
+
+export default function IbcChannelDetailPage() {
+	const params = useParams()
+	const portId = params.port || "transfer"
+	const channelId = params.channel || ""
+	const { getDenomDisplay } = useDenom()
+	const [page, setPage] = useState(0)
+	const [pageSize, setPageSize] = useState(20)
+	const [typeFilter, setTypeFilter] = useState<IbcPacketMessageType | undefined>()
+
+	const { data: channel, isLoading, error } = useQuery({
+		queryKey: ["ibc-channel", portId, channelId],
+		queryFn: () => api.getIbcChannel(channelId, portId),
+		enabled: !!channelId,
+		staleTime: 60000,
+	})
+
+	const { data: stats } = useQuery({
+		queryKey: ["ibc-channel-stats", portId, channelId],
+		queryFn: async () => (await api.getIbcChannelStats(channelId, portId))[0] ?? null,
+		enabled: !!channelId,
+		staleTime: 30000,
+		refetchInterval: 30000,
+	})
+
+	const { data: channelInfo } = useQuery({
+		queryKey: ["ibc-channel-info", portId, channelId],
+		queryFn: () => queryChannelInfo(channelId, portId),
+		enabled: !!channelId && !!getConfig().chainRestEndpoint,
+		staleTime: Infinity,
+		retry: false,
+	})
+
+	const { data: txData, isLoading: txLoading } = useQuery({
+		queryKey: ["ibc-channel-txs", portId, channelId, page, pageSize, typeFilter],
+		queryFn: () =>
+			api.getIbcChannelTransactions(channelId, portId, pageSize, page * pageSize, typeFilter),
+		enabled: !!channelId,
+		staleTime: 15000,
+	})
+
+	const columns: ColumnDef<IbcChannelTransaction, any>[] = useMemo(
+		() => [
+			txColumnHelper.accessor("tx_hash", {
+				header: "Tx Hash",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<div className={css(styles.cellStack)}>
+						<Link to={`/tx/${row.original.tx_hash}`} className={css(styles.txLink)}>
+							{formatAddress(row.original.tx_hash, 6)}
+						</Link>
+						{row.original.error && <Badge variant="destructive">Failed</Badge>}
+					</div>
+				),
+			}),
+			txColumnHelper.accessor("message_type", {
+				header: "Type",
+				enableSorting: false,
+				cell: ({ getValue }) => packetTypeBadge(getValue()),
+			}),
+			txColumnHelper.accessor("sequence", {
+				header: "Sequence",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<span className={css(styles.monoText)}>{getValue() ?? "-"}</span>
+				),
+			}),
+			txColumnHelper.display({
+				id: "parties",
+				header: "Sender / Receiver",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<div className={css(styles.cellStack)}>
+						{row.original.sender && <AddressChip address={row.original.sender} />}
+						{row.original.receiver && (
+							<AddressChip address={row.original.receiver} link={false} />
+						)}
+						{!row.original.sender && !row.original.receiver && row.original.signer && (
+							<AddressChip address={row.original.signer} label="Relayer" />
+						)}
+					</div>
+				),
+			}),
+			txColumnHelper.accessor("amount", {
+				header: "Amount",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<span className={css(styles.monoText)}>
+						{row.original.amount && row.original.denom
+							? `${formatDenomAmount(row.original.amount, row.original.denom, { maxDecimals: 4 })} ${getDenomDisplay(row.original.denom)}`
+							: "-"}
+					</span>
+				),
+			}),
+			txColumnHelper.accessor("height", {
+				header: "Height",
+				enableSorting: false,
+				cell: ({ getValue }) => {
+					const height = getValue()
+					return height !== null ? (
+						<Link to={`/blocks/${height}`} className={css(styles.txLink)}>
+							{height.toLocaleString()}
+						</Link>
+					) : (
+						<span className={css(styles.mutedText)}>-</span>
+					)
+				},
+			}),
+			txColumnHelper.accessor("timestamp", {
+				header: "Time",
+				enableSorting: false,
+				cell: ({ getValue }) => {
+					const value = getValue()
+					return <span className={css(styles.mutedText)}>{value ? formatTimeAgo(value) : "-"}</span>
+				},
+			}),
+		],
+		[getDenomDisplay],
+	)
+
+	const lastRelayMs = stats?.last_relay_time ? new Date(stats.last_relay_time).getTime() : null
+	const relayerStuck =
+		!!stats &&
+		stats.packets_in_flight > 0 &&
+		(lastRelayMs === null || Date.now() - lastRelayMs > STUCK_RELAY_THRESHOLD_MS)
+
+	if (error || (!isLoading && !channel)) {
+		return (
+			<div className={css(styles.container)}>
+				<Link to="/ibc" className={css(styles.backLink)}>
+					<ArrowLeft className={css(styles.backIcon)} />
+					Back to IBC
+				</Link>
+				<Card>
+					<CardContent className={css(styles.errorContent)}>
+						<h2 className={css(styles.errorTitle)}>Channel Not Found</h2>
+						<p className={css(styles.errorText)}>
+							{portId}/{channelId} has not been indexed.
+						</p>
+					</CardContent>
+				</Card>
+			</div>
+		)
+	}
+
+	if (isLoading || !channel) {
+		return (
+			<div className={css(styles.container)}>
+				<Skeleton className={css(styles.skeletonHeader)} />
+				<Skeleton className={css(styles.skeletonBody)} />
+			</div>
+		)
+	}
+
+	return (
+		<div className={css(styles.container)}>
+			{/* Header */}
+			<div>
+				<Link to="/ibc" className={css(styles.backLink)}>
+					<ArrowLeft className={css(styles.backIcon)} />
+					Back to IBC
+				</Link>
+				<div className={css(styles.titleRow)}>
+					<Network className={css(styles.titleIcon)} />
+					<h1 className={css(styles.title)}>{channel.channel_id}</h1>
+					<Badge variant="outline">{channel.port_id}</Badge>
+					{channel.state === "STATE_OPEN" ? (
+						<Badge variant="success">Open</Badge>
+					) : (
+						<Badge variant="outline">{channel.state || "Unknown"}</Badge>
+					)}
+				</div>
+			</div>
+
+			{relayerStuck && (
+				<div className={css(styles.warningBanner)}>
+					<AlertTriangle className={css(styles.warningIcon)} />
+					<span>
+						{stats?.packets_in_flight.toLocaleString()} packets in flight with no relay activity{" "}
+						{lastRelayMs ? `since ${formatTimeAgo(stats?.last_relay_time as string)}` : "recorded"}.
+						The relayer for this channel may be stuck.
+					</span>
+				</div>
+			)}
+
+			<div className={css(styles.grid)}>
+				{/* Main column */}
+				<div className={css(styles.mainColumn)}>
+					<Card>
+						<CardHeader>
+							<div className={css(styles.eventsHeader)}>
+								<CardTitle>Packet Transactions</CardTitle>
+								<select
+									value={typeFilter || ""}
+									onChange={(e) => {
+										setTypeFilter((e.target.value || undefined) as IbcPacketMessageType | undefined)
+										setPage(0)
+									}}
+									className={css(styles.filterSelect)}
+								>
+									{PACKET_MESSAGE_TYPES.map((t) => (
+										<option key={t.label} value={t.value || ""}>{t.label}</option>
+									))}
+								</select>
+							</div>
+						</CardHeader>
+						<CardContent>
+							<DataTable
+								columns={columns}
+								data={txData?.data ?? []}
+								isLoading={txLoading}
+								getRowId={(row) => `${row.tx_hash}-${row.message_type}-${row.sequence}`}
+								emptyState="No packet transactions found."
+								maxHeight="none"
+								totalRows={txData?.pagination?.total}
+								currentPage={page}
+								onPageChange={setPage}
+								pageSize={pageSize}
+								onPageSizeChange={(size) => {
+									setPageSize(size)
+									setPage(0)
+								}}
+							/>
+						</CardContent>
+					</Card>
+				</div>
+
+				{/* Sidebar */}
+				<div className={css(styles.sidebar)}>
+					<Card>
+						<CardHeader>
+							<CardTitle>Channel</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<div className={css(styles.sidebarFields)}>
+								<div className={css(styles.sidebarRow)}>
+									<span className={css(styles.sidebarLabel)}>Counterparty Chain</span>
+									<span className={css(styles.sidebarValue)}>
+										{channelInfo?.counterpartyChainId || "-"}
+									</span>
+								</div>
+								<div className={css(styles.sidebarRow)}>
+									<span className={css(styles.sidebarLabel)}>Counterparty Channel</span>
+									<span className={css(styles.monoValue)}>
+										{channel.counterparty_port_id || "transfer"}/{channel.counterparty_channel_id || "-"}
+									</span>
+								</div>
+								<div className={css(styles.sidebarRow)}>
+									<span className={css(styles.sidebarLabel)}>Connection</span>
+									<span className={css(styles.monoValue)}>{channel.connection_id || "-"}</span>
+								</div>
+								<div className={css(styles.sidebarRow)}>
+									<span className={css(styles.sidebarLabel)}>Ordering</span>
+									<span className={css(styles.sidebarValue)}>
+										{channel.ordering?.replace("ORDER_", "") || "-"}
+									</span>
+								</div>
+								<div className={css(styles.sidebarRow)}>
+									<span className={css(styles.sidebarLabel)}>Version</span>
+									<span className={css(styles.monoValue)}>{channel.version || "-"}</span>
+								</div>
+							</div>
+						</CardContent>
+					</Card>
+
+					<Card>
+						<CardHeader>
+							<CardTitle>Packets</CardTitle>
+						</CardHeader>
+						<CardContent>
+							{stats ? (
+								<div className={css(styles.sidebarFields)}>
+									<div className={css(styles.sidebarRow)}>
+										<span className={css(styles.sidebarLabel)}>Sent</span>
+										<span className={css(styles.sidebarValue)}>{stats.packets_sent.toLocaleString()}</span>
+									</div>
+									<div className={css(styles.sidebarRow)}>
+										<span className={css(styles.sidebarLabel)}>Received</span>
+										<span className={css(styles.sidebarValue)}>{stats.packets_received.toLocaleString()}</span>
+									</div>
+									<div className={css(styles.sidebarRow)}>
+										<span className={css(styles.sidebarLabel)}>Acknowledged</span>
+										<span className={css(styles.sidebarValue)}>{stats.packets_acknowledged.toLocaleString()}</span>
+									</div>
+									<div className={css(styles.sidebarRow)}>
+										<span className={css(styles.sidebarLabel)}>Timed Out</span>
+										<span className={css(styles.sidebarValue)}>{stats.packets_timed_out.toLocaleString()}</span>
+									</div>
+									<div className={css(styles.sidebarRow)}>
+										<span className={css(styles.sidebarLabel)}>In Flight</span>
+										{stats.packets_in_flight > 0 ? (
+											<Badge variant="warning">{stats.packets_in_flight.toLocaleString()}</Badge>
+										) : (
+											<span className={css(styles.sidebarValue)}>0</span>
+										)}
+									</div>
+									<div className={css(styles.sidebarRow)}>
+										<span className={css(styles.sidebarLabel)}>Last Relay</span>
+										<span className={css(styles.sidebarValue)}>
+											{stats.last_relay_time ? formatTimeAgo(stats.last_relay_time) : "-"}
+										</span>
+									</div>
+									{stats.transfer_volume && stats.transfer_volume.length > 0 && (
+										<div className={css(styles.volumeList)}>
+											<span className={css(styles.sidebarLabel)}>Transfer Volume</span>
+											{stats.transfer_volume.map((c) => (
+												<span key={c.denom} className={css(styles.monoValue)}>
+													{formatDenomAmount(c.amount, c.denom, { maxDecimals: 2 })} {getDenomDisplay(c.denom)}
+												</span>
+											))}
+										</div>
+									)}
+								</div>
+							) : (
+								<p className={css(styles.mutedText)}>Packet statistics not available</p>
+							)}
+						</CardContent>
+					</Card>
+				</div>
+			</div>
+		</div>
+	)
+}
+
+const styles = {
+	container: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		w: "full",
+	},
+	backLink: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+		color: "fg.muted",
+		mb: "4",
+		transition: "color 0.2s ease",
+		_hover: { color: "accent.default" },
+	},
+	backIcon: {
+		h: "4",
+		w: "4",
+	},
+	titleRow: {
+		display: "flex",
+		alignItems: "center",
+		gap: "3",
+	},
+	titleIcon: {
+		h: "6",
+		w: "6",
+		color: "accent.default",
+	},
+	title: {
+		fontSize: "2xl",
+		fontWeight: "bold",
+		fontFamily: "mono",
+	},
+	warningBanner: {
+		display: "flex",
+		alignItems: "center",
+		gap: "3",
+		p: "4",
+		rounded: "lg",
+		fontSize: "sm",
+		bg: "warning.bg",
+		color: "warning.default",
+		borderWidth: "1px",
+		borderColor: "warning.border",
+	},
+	warningIcon: {
+		h: "5",
+		w: "5",
+		flexShrink: 0,
+	},
+	grid: {
+		display: "grid",
+		gap: "6",
+		gridTemplateColumns: { base: "1fr", lg: "2fr 1fr" },
+	},
+	mainColumn: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		minW: "0",
+	},
+	eventsHeader: {
+		display: "flex",
+		alignItems: "center",
+		justifyContent: "space-between",
+	},
+	filterSelect: {
+		fontSize: "sm",
+		bg: "bg.muted",
+		border: "1px solid",
+		borderColor: "border.default",
+		rounded: "md",
+		px: "3",
+		py: "1.5",
+		color: "fg.default",
+	},
+	cellStack: {
+		display: "flex",
+		flexDirection: "column",
+		alignItems: "flex-start",
+		gap: "1",
+	},
+	txLink: {
+		fontFamily: "mono",
+		fontSize: "sm",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	monoText: {
+		fontFamily: "mono",
+		fontSize: "sm",
+	},
+	monoValue: {
+		fontFamily: "mono",
+		fontSize: "xs",
+		wordBreak: "break-all",
+	},
+	mutedText: {
+		color: "fg.muted",
+		fontSize: "sm",
+	},
+	sidebar: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+	},
+	sidebarFields: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "3",
+	},
+	sidebarRow: {
+		display: "flex",
+		justifyContent: "space-between",
+		alignItems: "center",
+		gap: "2",
+	},
+	sidebarLabel: {
+		color: "fg.muted",
+		fontSize: "sm",
+	},
+	sidebarValue: {
+		fontSize: "sm",
+		fontWeight: "medium",
+	},
+	volumeList: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "1",
+		pt: "2",
+		borderTop: "1px solid",
+		borderColor: "border.default",
+	},
+	errorContent: {
+		pt: "6",
+		textAlign: "center",
+		py: "12",
+	},
+	errorTitle: {
+		fontSize: "xl",
+		fontWeight: "bold",
+		color: "red.600",
+		mb: "2",
+	},
+	errorText: {
+		color: "fg.muted",
+	},
+	skeletonHeader: {
+		height: "8",
+		width: "48",
+	},
+	skeletonBody: {
+		height: "64",
+		width: "full",
+	},
+}
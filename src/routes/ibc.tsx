@@ -0,0 +1,398 @@
+import { useMemo } from "react"
+import { useQueries, useQuery } from "@tanstack/react-query"
+import { Link } from "react-router"
+import { Network } from "lucide-react"
+import { type ColumnDef, createColumnHelper } from "@tanstack/react-table"
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable } from "@/components/ui/data-table"
+import { useDenom } from "@/contexts/DenomContext"
+import { api, type IbcChannel, type IbcChannelStats } from "@/lib/api"
+import { formatDenomAmount } from "@/lib/denom"
+import { getConfig } from "@/lib/env"
+import { queryChannelInfo } from "@/lib/ibc-resolver"
+import { formatTimeAgo } from "@/lib/utils"
+import { css } from "@/styled-system/css"
+
+interface ChannelRow extends IbcChannel {
+	stats: IbcChannelStats | null
+	counterpartyChainId: string | null
+	counterpartyLoading: boolean
+}
+
+/**
+ * Returns a badge for an IBC channel state
+ */
+function channelStateBadge(state: string | null) {
+	switch (state) {
+		case "STATE_OPEN":
+			return <Badge variant="success">Open</Badge>
+		case "STATE_CLOSED":
+			return <Badge variant="destructive">Closed</Badge>
+		case "STATE_INIT":
+		case "STATE_TRYOPEN":
+			return <Badge variant="warning">{state.replace("STATE_", "")}</Badge>
+		default:
+			return <Badge variant="outline">{state || "Unknown"}</Badge>
+	}
+}
+
+const columnHelper = createColumnHelper<ChannelRow>()
+
+export default function IbcChannelsPage() {
+	const { getDenomDisplay } = useDenom()
+	const restConfigured = !!getConfig().chainRestEndpoint
+
+	const { data: channels, isLoading: channelsLoading, error } = useQuery({
+		queryKey: ["ibc-channels"],
+		queryFn: () => api.getIbcChannels(500, 0),
+		staleTime: 60000,
+	})
+
+	const { data: stats, isLoading: statsLoading } = useQuery({
+		queryKey: ["ibc-channel-stats"],
+		queryFn: () => api.getIbcChannelStats(),
+		staleTime: 30000,
+		refetchInterval: 30000,
+	})
+
+	// Counterparty chain IDs come from the chain's client state; results are cached in localStorage
+	const counterpartyQueries = useQueries({
+		queries: (channels ?? []).map((ch) => ({
+			queryKey: ["ibc-channel-info", ch.port_id, ch.channel_id],
+			queryFn: () => queryChannelInfo(ch.channel_id, ch.port_id),
+			enabled: restConfigured,
+			staleTime: Infinity,
+			retry: false,
+		})),
+	})
+
+	const rows: ChannelRow[] = useMemo(() => {
+		const statsByKey = new Map((stats ?? []).map((s) => [`${s.port_id}/${s.channel_id}`, s]))
+		return (channels ?? []).map((ch, i) => ({
+			...ch,
+			stats: statsByKey.get(`${ch.port_id}/${ch.channel_id}`) ?? null,
+			counterpartyChainId: counterpartyQueries[i]?.data?.counterpartyChainId ?? null,
+			counterpartyLoading: counterpartyQueries[i]?.isLoading ?? false,
+		}))
+	}, [channels, stats, counterpartyQueries])
+
+	const totals = useMemo(() => {
+		return (stats ?? []).reduce(
+			(acc, s) => ({
+				sent: acc.sent + s.packets_sent,
+				received: acc.received + s.packets_received,
+				inFlight: acc.inFlight + s.packets_in_flight,
+				timedOut: acc.timedOut + s.packets_timed_out,
+			}),
+			{ sent: 0, received: 0, inFlight: 0, timedOut: 0 }
+		)
+	}, [stats])
+
+	const columns: ColumnDef<ChannelRow, any>[] = useMemo(
+		() => [
+			columnHelper.accessor("channel_id", {
+				header: "Channel",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<div className={css(styles.channelCell)}>
+						<Link
+							to={`/ibc/${row.original.port_id}/${row.original.channel_id}`}
+							className={css(styles.idLink)}
+						>
+							{row.original.channel_id}
+						</Link>
+						<span className={css(styles.mutedSmall)}>{row.original.port_id}</span>
+					</div>
+				),
+			}),
+			columnHelper.accessor("state", {
+				header: "State",
+				enableSorting: false,
+				cell: ({ getValue }) => channelStateBadge(getValue()),
+			}),
+			columnHelper.accessor("counterpartyChainId", {
+				header: "Counterparty",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<div className={css(styles.channelCell)}>
+						{row.original.counterpartyLoading ? (
+							<Skeleton className={css(styles.cellSkeleton)} />
+						) : (
+							<span className={css(styles.chainId)}>
+								{row.original.counterpartyChainId || "-"}
+							</span>
+						)}
+						{row.original.counterparty_channel_id && (
+							<span className={css(styles.mutedSmall)}>
+								{row.original.counterparty_channel_id}
+							</span>
+						)}
+					</div>
+				),
+			}),
+			columnHelper.accessor("connection_id", {
+				header: "Connection",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<span className={css(styles.monoText)}>{getValue() || "-"}</span>
+				),
+			}),
+			columnHelper.display({
+				id: "volume",
+				header: "Transfer Volume",
+				enableSorting: false,
+				cell: ({ row }) => {
+					const volume = row.original.stats?.transfer_volume ?? []
+					if (volume.length === 0) return <span className={css(styles.mutedText)}>-</span>
+					return (
+						<div className={css(styles.channelCell)}>
+							{volume.slice(0, 2).map((c) => (
+								<span key={c.denom} className={css(styles.monoText)}>
+									{formatDenomAmount(c.amount, c.denom, { maxDecimals: 2, abbreviated: true })}{" "}
+									{getDenomDisplay(c.denom)}
+								</span>
+							))}
+							{volume.length > 2 && (
+								<span className={css(styles.mutedSmall)}>+{volume.length - 2} more</span>
+							)}
+						</div>
+					)
+				},
+			}),
+			columnHelper.display({
+				id: "packets",
+				header: "Sent / Received",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<span className={css(styles.monoText)}>
+						{row.original.stats
+							? `${row.original.stats.packets_sent.toLocaleString()} / ${row.original.stats.packets_received.toLocaleString()}`
+							: "-"}
+					</span>
+				),
+			}),
+			columnHelper.display({
+				id: "inFlight",
+				header: "In Flight",
+				enableSorting: false,
+				cell: ({ row }) => {
+					const inFlight = row.original.stats?.packets_in_flight ?? 0
+					return inFlight > 0 ? (
+						<Badge variant="warning">{inFlight.toLocaleString()}</Badge>
+					) : (
+						<span className={css(styles.mutedText)}>0</span>
+					)
+				},
+			}),
+			columnHelper.display({
+				id: "lastRelay",
+				header: "Last Relay",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<span className={css(styles.mutedText)}>
+						{row.original.stats?.last_relay_time
+							? formatTimeAgo(row.original.stats.last_relay_time)
+							: "-"}
+					</span>
+				),
+			}),
+		],
+		[getDenomDisplay],
+	)
+
+	return (
+		<div className={css(styles.container)}>
+			{/* Header */}
+			<div>
+				<h1 className={css(styles.title)}>IBC</h1>
+				<p className={css(styles.subtitle)}>
+					Channels, counterparty chains and packet flow
+				</p>
+			</div>
+
+			{/* Stats */}
+			<div className={css(styles.statsGrid)}>
+				{statsLoading ? (
+					Array.from({ length: 4 }).map((_, i) => (
+						<Skeleton key={i} className={css(styles.statSkeleton)} />
+					))
+				) : (
+					<>
+						<Card>
+							<CardContent className={css(styles.statCard)}>
+								<span className={css(styles.statLabel)}>Channels</span>
+								<span className={css(styles.statValue)}>{channels?.length ?? 0}</span>
+							</CardContent>
+						</Card>
+						<Card>
+							<CardContent className={css(styles.statCard)}>
+								<span className={css(styles.statLabel)}>Packets Sent</span>
+								<span className={css(styles.statValue)}>{totals.sent.toLocaleString()}</span>
+							</CardContent>
+						</Card>
+						<Card>
+							<CardContent className={css(styles.statCard)}>
+								<span className={css(styles.statLabel)}>Packets Received</span>
+								<span className={css(styles.statValue)}>{totals.received.toLocaleString()}</span>
+							</CardContent>
+						</Card>
+						<Card>
+							<CardContent className={css(styles.statCard)}>
+								<span className={css(styles.statLabel)}>In Flight</span>
+								<span className={css(totals.inFlight > 0 ? styles.statValuePending : styles.statValue)}>
+									{totals.inFlight.toLocaleString()}
+								</span>
+							</CardContent>
+						</Card>
+					</>
+				)}
+			</div>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Channels</CardTitle>
+					<CardDescription>
+						{restConfigured
+							? "Counterparty chains are resolved from each channel's light client"
+							: "Set chainRestEndpoint in config.json to resolve counterparty chains"}
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{error ? (
+						<div className={css(styles.emptyState)}>Error loading IBC channels</div>
+					) : !channelsLoading && rows.length === 0 ? (
+						<div className={css(styles.emptyState)}>
+							<Network className={css(styles.emptyIcon)} />
+							<h3 className={css(styles.emptyTitle)}>No IBC Channels</h3>
+							<p className={css(styles.emptyText)}>
+								No IBC channels have been indexed yet.
+							</p>
+						</div>
+					) : (
+						<DataTable
+							columns={columns}
+							data={rows}
+							isLoading={channelsLoading}
+							getRowId={(row) => `${row.port_id}/${row.channel_id}`}
+							maxHeight="none"
+						/>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
+
+const styles = {
+	container: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		w: "full",
+	},
+	title: {
+		fontSize: "3xl",
+		fontWeight: "bold",
+	},
+	subtitle: {
+		color: "fg.muted",
+		marginTop: "1",
+	},
+	statsGrid: {
+		display: "grid",
+		gridTemplateColumns: {
+			base: "repeat(2, 1fr)",
+			md: "repeat(4, 1fr)",
+		},
+		gap: "4",
+	},
+	statSkeleton: {
+		height: "20",
+		width: "full",
+	},
+	statCard: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "1",
+		py: "4",
+	},
+	statLabel: {
+		fontSize: "xs",
+		fontWeight: "medium",
+		color: "fg.muted",
+		textTransform: "uppercase",
+		letterSpacing: "wider",
+	},
+	statValue: {
+		fontSize: "2xl",
+		fontWeight: "bold",
+	},
+	statValuePending: {
+		fontSize: "2xl",
+		fontWeight: "bold",
+		color: "yellow.500",
+	},
+	channelCell: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "0.5",
+	},
+	idLink: {
+		fontFamily: "mono",
+		fontSize: "sm",
+		fontWeight: "semibold",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	chainId: {
+		fontSize: "sm",
+		fontWeight: "medium",
+	},
+	cellSkeleton: {
+		height: "4",
+		width: "24",
+	},
+	monoText: {
+		fontFamily: "mono",
+		fontSize: "sm",
+	},
+	mutedText: {
+		color: "fg.muted",
+		fontSize: "sm",
+	},
+	mutedSmall: {
+		color: "fg.muted",
+		fontSize: "xs",
+		fontFamily: "mono",
+	},
+	emptyState: {
+		textAlign: "center",
+		py: "12",
+		color: "fg.muted",
+	},
+	emptyIcon: {
+		height: "12",
+		width: "12",
+		margin: "0 auto",
+		marginBottom: "4",
+		opacity: "0.5",
+	},
+	emptyTitle: {
+		fontSize: "lg",
+		fontWeight: "semibold",
+		color: "fg.default",
+		marginBottom: "2",
+	},
+	emptyText: {
+		maxWidth: "md",
+		margin: "0 auto",
+	},
+}
@@ -0,0 +1,926 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { Link } from "react-router"
+import { Coins, Gift, Clock, ArrowRightLeft, Wallet } from "lucide-react"
+import { type ColumnDef, createColumnHelper } from "@tanstack/react-table"
+import { formatUnits } from "viem"
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable } from "@/components/ui/data-table"
+import {
+	CancelUnbondingModal,
+	ClaimRewardsModal,
+	DelegateModal,
+	RedelegateModal,
+	UndelegateModal,
+} from "@/components/staking"
+import { useWallet } from "@/contexts/WalletContext"
+import {
+	api,
+	getDelegatorRedelegationsLive,
+	getDelegatorRewardsLive,
+	getDelegatorUnbondingsLive,
+	type DelegationEvent,
+} from "@/lib/api"
+import { getChainInfo } from "@/lib/chain-info"
+import { formatDenomAmount } from "@/lib/denom"
+import { formatAddress, formatTimeAgo, formatTimestamp, formatTimeUntil } from "@/lib/utils"
+import { css } from "@/styled-system/css"
+
+type DelegationRow = {
+	validator_address: string
+	validator_moniker: string | null
+	commission_rate: string | null
+	validator_status: string | null
+	validator_jailed: boolean | null
+	denom: string
+	total_delegated: string
+	pending_rewards: string
+}
+
+type UnbondingRow = {
+	validator_address: string
+	validator_moniker: string | null
+	creation_height: string
+	completion_time: string
+	balance: string
+}
+
+type RedelegationRow = {
+	src_address: string
+	src_moniker: string | null
+	dst_address: string
+	dst_moniker: string | null
+	creation_height: string
+	completion_time: string
+	balance: string
+}
+
+type StakingModal =
+	| { kind: "delegate" | "undelegate" | "redelegate"; validator: DelegationRow }
+	| { kind: "claim" }
+	| { kind: "cancelUnbonding"; entryKey?: string }
+	| null
+
+/**
+ * Converts a base-unit integer or chain Dec string to display units for modal inputs
+ */
+function toDisplayUnits(amount: string, decimals: number): string {
+	const whole = amount.split(".")[0] || "0"
+	try {
+		return formatUnits(BigInt(whole), decimals)
+	} catch {
+		return "0"
+	}
+}
+
+/**
+ * Returns a badge for a delegation event type
+ */
+function eventTypeBadge(eventType: string) {
+	switch (eventType) {
+		case "DELEGATE":
+			return <Badge variant="success">Delegate</Badge>
+		case "UNDELEGATE":
+			return <Badge variant="outline">Undelegate</Badge>
+		case "REDELEGATE":
+			return <Badge variant="outline">Redelegate</Badge>
+		default:
+			return <Badge variant="outline">{eventType}</Badge>
+	}
+}
+
+/**
+ * Formats a commission rate string (0-1 decimal) as a percentage
+ */
+function formatCommission(rate: string | null): string {
+	if (!rate) return "-"
+	const value = Number(rate)
+	if (Number.isNaN(value)) return "-"
+	return `${(value > 1 ? value : value * 100).toFixed(2)}%`
+}
+
+const delegationHelper = createColumnHelper<DelegationRow>()
+const unbondingHelper = createColumnHelper<UnbondingRow>()
+const redelegationHelper = createColumnHelper<RedelegationRow>()
+const historyHelper = createColumnHelper<DelegationEvent>()
+
+export default function StakingPage() {
+	const { isConnected, cosmosAddress } = useWallet()
+	const queryClient = useQueryClient()
+	const [modal, setModal] = useState<StakingModal>(null)
+	const [historyValidator, setHistoryValidator] = useState<string>("")
+	const [historyPage, setHistoryPage] = useState(0)
+	const [historyPageSize, setHistoryPageSize] = useState(20)
+	const [now, setNow] = useState(Date.now())
+	const address = cosmosAddress || ""
+
+	// Keep unbonding/redelegation countdowns ticking
+	useEffect(() => {
+		const interval = setInterval(() => setNow(Date.now()), 1000)
+		return () => clearInterval(interval)
+	}, [])
+
+	const { data: chainInfo } = useQuery({
+		queryKey: ["chain-info"],
+		queryFn: () => getChainInfo(api),
+		staleTime: Infinity,
+	})
+
+	const baseDenom = chainInfo?.baseDenom || "unknown"
+	const displayDenom = chainInfo?.displayDenom || "UNKNOWN"
+	const decimals = chainInfo?.decimals ?? 18
+
+	const { data: delegationsData, isLoading: delegationsLoading } = useQuery({
+		queryKey: ["my-staking", "delegations", address],
+		queryFn: () => api.getDelegatorDelegations(address),
+		enabled: !!address,
+		staleTime: 15000,
+	})
+
+	const { data: stats } = useQuery({
+		queryKey: ["my-staking", "stats", address],
+		queryFn: () => api.getDelegatorStats(address),
+		enabled: !!address,
+		staleTime: 30000,
+	})
+
+	const { data: rewards, isLoading: rewardsLoading, error: rewardsError } = useQuery({
+		queryKey: ["my-staking", "rewards", address],
+		queryFn: () => getDelegatorRewardsLive(address),
+		enabled: !!address,
+		refetchInterval: 30000,
+	})
+
+	const { data: unbondings, isLoading: unbondingsLoading, error: unbondingsError } = useQuery({
+		queryKey: ["my-staking", "unbondings", address],
+		queryFn: () => getDelegatorUnbondingsLive(address),
+		enabled: !!address,
+		staleTime: 30000,
+	})
+
+	const { data: redelegations, isLoading: redelegationsLoading, error: redelegationsError } = useQuery({
+		queryKey: ["my-staking", "redelegations", address],
+		queryFn: () => getDelegatorRedelegationsLive(address),
+		enabled: !!address,
+		staleTime: 30000,
+	})
+
+	const { data: historyData, isLoading: historyLoading } = useQuery({
+		queryKey: ["my-staking", "history", address, historyValidator, historyPage, historyPageSize],
+		queryFn: () =>
+			historyValidator
+				? api.getDelegatorValidatorHistory(address, historyValidator, historyPageSize, historyPage * historyPageSize)
+				: api.getDelegatorHistory(address, historyPageSize, historyPage * historyPageSize),
+		enabled: !!address,
+		staleTime: 15000,
+	})
+
+	const { data: validatorsData } = useQuery({
+		queryKey: ["validators-all", ""],
+		queryFn: () => api.getValidatorsPaginated(500, 0, { sortBy: "moniker", sortDir: "asc" }),
+		staleTime: 60000,
+	})
+
+	const monikerByAddress = useMemo(() => {
+		const map = new Map<string, string | null>()
+		for (const v of validatorsData?.data ?? []) map.set(v.operator_address, v.moniker)
+		for (const d of delegationsData?.delegations ?? []) map.set(d.validator_address, d.validator_moniker)
+		return map
+	}, [validatorsData, delegationsData])
+
+	const rewardByValidator = useMemo(() => {
+		const map = new Map<string, string>()
+		for (const r of rewards?.rewards ?? []) {
+			map.set(r.validator_address, r.reward.find((c) => c.denom === baseDenom)?.amount || "0")
+		}
+		return map
+	}, [rewards, baseDenom])
+
+	const delegationRows: DelegationRow[] = useMemo(
+		() =>
+			(delegationsData?.delegations ?? []).map((d) => ({
+				...d,
+				pending_rewards: rewardByValidator.get(d.validator_address) || "0",
+			})),
+		[delegationsData, rewardByValidator]
+	)
+
+	const unbondingRows: UnbondingRow[] = useMemo(
+		() =>
+			(unbondings ?? []).flatMap((u) =>
+				u.entries.map((e) => ({
+					validator_address: u.validator_address,
+					validator_moniker: monikerByAddress.get(u.validator_address) ?? null,
+					creation_height: e.creation_height,
+					completion_time: e.completion_time,
+					balance: e.balance,
+				}))
+			),
+		[unbondings, monikerByAddress]
+	)
+
+	const redelegationRows: RedelegationRow[] = useMemo(
+		() =>
+			(redelegations ?? []).flatMap((r) =>
+				r.entries.map((e) => ({
+					src_address: r.redelegation.validator_src_address,
+					src_moniker: monikerByAddress.get(r.redelegation.validator_src_address) ?? null,
+					dst_address: r.redelegation.validator_dst_address,
+					dst_moniker: monikerByAddress.get(r.redelegation.validator_dst_address) ?? null,
+					creation_height: e.redelegation_entry.creation_height,
+					completion_time: e.redelegation_entry.completion_time,
+					balance: e.balance,
+				}))
+			),
+		[redelegations, monikerByAddress]
+	)
+
+	const cancelUnbondingEntries = useMemo(
+		() =>
+			unbondingRows.map((u) => ({
+				validatorAddress: u.validator_address,
+				validatorMoniker: u.validator_moniker || undefined,
+				creationHeight: u.creation_height,
+				completionTime: u.completion_time,
+				balance: toDisplayUnits(u.balance, decimals),
+			})),
+		[unbondingRows, decimals]
+	)
+
+	const totalRewards = rewards?.total?.find((c) => c.denom === baseDenom)?.amount || "0"
+	const totalUnbonding = unbondingRows.reduce((sum, u) => sum + parseFloat(u.balance || "0"), 0)
+
+	const formatAmount = useCallback(
+		(amount: string | number) =>
+			`${formatDenomAmount(amount, baseDenom, { maxDecimals: 4 })} ${displayDenom}`,
+		[baseDenom, displayDenom]
+	)
+
+	const delegationColumns: ColumnDef<DelegationRow, any>[] = useMemo(
+		() => [
+			delegationHelper.accessor("validator_address", {
+				header: "Validator",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<div className={css(styles.cellStack)}>
+						<Link to={`/validators/${row.original.validator_address}`} className={css(styles.validatorLink)}>
+							{row.original.validator_moniker || formatAddress(row.original.validator_address, 8)}
+						</Link>
+						{row.original.validator_jailed && <Badge variant="destructive">Jailed</Badge>}
+					</div>
+				),
+			}),
+			delegationHelper.accessor("commission_rate", {
+				header: "Commission",
+				enableSorting: false,
+				cell: ({ getValue }) => <span className={css(styles.monoText)}>{formatCommission(getValue())}</span>,
+			}),
+			delegationHelper.accessor("total_delegated", {
+				header: "Delegated",
+				enableSorting: false,
+				cell: ({ getValue }) => <span className={css(styles.monoText)}>{formatAmount(getValue())}</span>,
+			}),
+			delegationHelper.accessor("pending_rewards", {
+				header: "Pending Rewards",
+				enableSorting: false,
+				cell: ({ getValue }) => <span className={css(styles.rewardText)}>{formatAmount(getValue())}</span>,
+			}),
+			delegationHelper.display({
+				id: "actions",
+				header: "",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<div className={css(styles.actionRow)}>
+						<Button size="sm" onClick={() => setModal({ kind: "delegate", validator: row.original })}>
+							Delegate
+						</Button>
+						<Button size="sm" variant="outline" onClick={() => setModal({ kind: "undelegate", validator: row.original })}>
+							Undelegate
+						</Button>
+						<Button size="sm" variant="outline" onClick={() => setModal({ kind: "redelegate", validator: row.original })}>
+							Redelegate
+						</Button>
+						<Button
+							size="sm"
+							variant="ghost"
+							onClick={() => {
+								setHistoryValidator(row.original.validator_address)
+								setHistoryPage(0)
+							}}
+						>
+							History
+						</Button>
+					</div>
+				),
+			}),
+		],
+		[formatAmount],
+	)
+
+	const unbondingColumns: ColumnDef<UnbondingRow, any>[] = useMemo(
+		() => [
+			unbondingHelper.accessor("validator_address", {
+				header: "Validator",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<Link to={`/validators/${row.original.validator_address}`} className={css(styles.validatorLink)}>
+						{row.original.validator_moniker || formatAddress(row.original.validator_address, 8)}
+					</Link>
+				),
+			}),
+			unbondingHelper.accessor("balance", {
+				header: "Amount",
+				enableSorting: false,
+				cell: ({ getValue }) => <span className={css(styles.monoText)}>{formatAmount(getValue())}</span>,
+			}),
+			unbondingHelper.accessor("creation_height", {
+				header: "Created At",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<Link to={`/blocks/${getValue()}`} className={css(styles.txLink)}>
+						#{Number(getValue()).toLocaleString()}
+					</Link>
+				),
+			}),
+			unbondingHelper.accessor("completion_time", {
+				header: "Completes",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<div className={css(styles.cellStack)}>
+						<span className={css(styles.countdown)}>{formatTimeUntil(getValue(), now) ?? "Complete"}</span>
+						<span className={css(styles.mutedSmall)}>{formatTimestamp(getValue())}</span>
+					</div>
+				),
+			}),
+			unbondingHelper.display({
+				id: "actions",
+				header: "",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<Button
+						size="sm"
+						variant="outline"
+						onClick={() =>
+							setModal({
+								kind: "cancelUnbonding",
+								entryKey: `${row.original.validator_address}-${row.original.creation_height}`,
+							})
+						}
+					>
+						Cancel
+					</Button>
+				),
+			}),
+		],
+		[formatAmount, now],
+	)
+
+	const redelegationColumns: ColumnDef<RedelegationRow, any>[] = useMemo(
+		() => [
+			redelegationHelper.display({
+				id: "route",
+				header: "From / To",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<div className={css(styles.routeCell)}>
+						<Link to={`/validators/${row.original.src_address}`} className={css(styles.validatorLink)}>
+							{row.original.src_moniker || formatAddress(row.original.src_address, 6)}
+						</Link>
+						<ArrowRightLeft className={css(styles.routeIcon)} />
+						<Link to={`/validators/${row.original.dst_address}`} className={css(styles.validatorLink)}>
+							{row.original.dst_moniker || formatAddress(row.original.dst_address, 6)}
+						</Link>
+					</div>
+				),
+			}),
+			redelegationHelper.accessor("balance", {
+				header: "Amount",
+				enableSorting: false,
+				cell: ({ getValue }) => <span className={css(styles.monoText)}>{formatAmount(getValue())}</span>,
+			}),
+			redelegationHelper.accessor("completion_time", {
+				header: "Locked Until",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<div className={css(styles.cellStack)}>
+						<span className={css(styles.countdown)}>{formatTimeUntil(getValue(), now) ?? "Complete"}</span>
+						<span className={css(styles.mutedSmall)}>{formatTimestamp(getValue())}</span>
+					</div>
+				),
+			}),
+		],
+		[formatAmount, now],
+	)
+
+	const historyColumns: ColumnDef<DelegationEvent, any>[] = useMemo(
+		() => [
+			historyHelper.accessor("event_type", {
+				header: "Type",
+				enableSorting: false,
+				cell: ({ getValue }) => eventTypeBadge(getValue()),
+			}),
+			historyHelper.accessor("validator_address", {
+				header: "Validator",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<div className={css(styles.cellStack)}>
+						<Link to={`/validators/${row.original.validator_address}`} className={css(styles.validatorLink)}>
+							{row.original.validator_moniker ||
+								monikerByAddress.get(row.original.validator_address) ||
+								formatAddress(row.original.validator_address, 8)}
+						</Link>
+						{row.original.src_validator_address && (
+							<span className={css(styles.mutedSmall)}>
+								from {monikerByAddress.get(row.original.src_validator_address) || formatAddress(row.original.src_validator_address, 6)}
+							</span>
+						)}
+					</div>
+				),
+			}),
+			historyHelper.accessor("amount", {
+				header: "Amount",
+				enableSorting: false,
+				cell: ({ row }) => (
+					<span className={css(styles.monoText)}>
+						{row.original.amount
+							? `${formatDenomAmount(row.original.amount, row.original.denom || baseDenom, { maxDecimals: 4 })} ${displayDenom}`
+							: "-"}
+					</span>
+				),
+			}),
+			historyHelper.accessor("tx_hash", {
+				header: "Tx Hash",
+				enableSorting: false,
+				cell: ({ getValue }) => (
+					<Link to={`/tx/${getValue()}`} className={css(styles.txLink)}>
+						{formatAddress(getValue(), 6)}
+					</Link>
+				),
+			}),
+			historyHelper.accessor("timestamp", {
+				header: "Time",
+				enableSorting: false,
+				cell: ({ getValue }) => {
+					const value = getValue()
+					return <span className={css(styles.mutedText)}>{value ? formatTimeAgo(value) : "-"}</span>
+				},
+			}),
+		],
+		[baseDenom, displayDenom, monikerByAddress],
+	)
+
+	/** Refresh wallet staking state once a modal closes (a tx may have been broadcast) */
+	const closeModal = (open: boolean) => {
+		if (open) return
+		setModal(null)
+		queryClient.invalidateQueries({ queryKey: ["my-staking"] })
+		queryClient.invalidateQueries({ queryKey: ["wallet-delegations"] })
+	}
+
+	if (!isConnected || !address) {
+		return (
+			<div className={css(styles.container)}>
+				<div>
+					<h1 className={css(styles.title)}>My Staking</h1>
+					<p className={css(styles.subtitle)}>Delegations, rewards and unbondings for your wallet</p>
+				</div>
+				<Card>
+					<CardContent className={css(styles.emptyState)}>
+						<Wallet className={css(styles.emptyIcon)} />
+						<h3 className={css(styles.emptyTitle)}>Wallet Not Connected</h3>
+						<p className={css(styles.emptyText)}>
+							Connect a Keplr or EVM wallet to view and manage your delegations.
+						</p>
+					</CardContent>
+				</Card>
+			</div>
+		)
+	}
+
+	const activeValidator = modal && modal.kind !== "claim" && modal.kind !== "cancelUnbonding" ? modal.validator : null
+
+	return (
+		<div className={css(styles.container)}>
+			{/* Header */}
+			<div className={css(styles.header)}>
+				<div>
+					<h1 className={css(styles.title)}>My Staking</h1>
+					<p className={css(styles.subtitle)}>{address}</p>
+				</div>
+				<Button
+					onClick={() => setModal({ kind: "claim" })}
+					disabled={!rewards?.rewards?.length}
+				>
+					<Gift className={css(styles.buttonIcon)} />
+					Claim Rewards
+				</Button>
+			</div>
+
+			{/* Stats */}
+			<div className={css(styles.statsGrid)}>
+				<Card>
+					<CardContent className={css(styles.statCard)}>
+						<span className={css(styles.statLabel)}>Total Staked</span>
+						{delegationsLoading ? (
+							<Skeleton className={css(styles.statSkeleton)} />
+						) : (
+							<span className={css(styles.statValue)}>
+								{formatAmount(delegationsData?.total_staked || "0")}
+							</span>
+						)}
+					</CardContent>
+				</Card>
+				<Card>
+					<CardContent className={css(styles.statCard)}>
+						<span className={css(styles.statLabel)}>Pending Rewards</span>
+						{rewardsLoading ? (
+							<Skeleton className={css(styles.statSkeleton)} />
+						) : rewardsError ? (
+							<span className={css(styles.mutedSmall)}>Unavailable</span>
+						) : (
+							<span className={css(styles.statValueSuccess)}>{formatAmount(totalRewards)}</span>
+						)}
+					</CardContent>
+				</Card>
+				<Card>
+					<CardContent className={css(styles.statCard)}>
+						<span className={css(styles.statLabel)}>Unbonding</span>
+						{unbondingsLoading ? (
+							<Skeleton className={css(styles.statSkeleton)} />
+						) : unbondingsError ? (
+							<span className={css(styles.mutedSmall)}>Unavailable</span>
+						) : (
+							<span className={css(styles.statValue)}>{formatAmount(totalUnbonding)}</span>
+						)}
+					</CardContent>
+				</Card>
+				<Card>
+					<CardContent className={css(styles.statCard)}>
+						<span className={css(styles.statLabel)}>Validators</span>
+						<span className={css(styles.statValue)}>{delegationsData?.validator_count ?? 0}</span>
+						{stats?.first_delegation && (
+							<span className={css(styles.mutedSmall)}>
+								Staking since {formatTimeAgo(stats.first_delegation)}
+							</span>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+
+			{/* Delegations */}
+			<Card>
+				<CardHeader>
+					<CardTitle className={css(styles.cardTitle)}>
+						<Coins className={css(styles.cardIcon)} />
+						Delegations
+					</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<DataTable
+						columns={delegationColumns}
+						data={delegationRows}
+						isLoading={delegationsLoading}
+						getRowId={(row) => row.validator_address}
+						emptyState={
+							<span>
+								No active delegations. <Link to="/validators" className={css(styles.txLink)}>Browse validators</Link>
+							</span>
+						}
+						maxHeight="none"
+						hidePagination
+					/>
+				</CardContent>
+			</Card>
+
+			<div className={css(styles.twoColumn)}>
+				{/* Unbonding */}
+				<Card>
+					<CardHeader>
+						<CardTitle className={css(styles.cardTitle)}>
+							<Clock className={css(styles.cardIcon)} />
+							Unbonding
+						</CardTitle>
+						<CardDescription>Tokens become liquid when the unbonding period completes</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<DataTable
+							columns={unbondingColumns}
+							data={unbondingRows}
+							isLoading={unbondingsLoading}
+							getRowId={(row) => `${row.validator_address}-${row.creation_height}`}
+							emptyState={
+								unbondingsError
+									? `Failed to load unbonding delegations: ${unbondingsError.message}`
+									: "No unbonding delegations."
+							}
+							maxHeight="none"
+							hidePagination
+						/>
+					</CardContent>
+				</Card>
+
+				{/* Redelegations */}
+				<Card>
+					<CardHeader>
+						<CardTitle className={css(styles.cardTitle)}>
+							<ArrowRightLeft className={css(styles.cardIcon)} />
+							Redelegations
+						</CardTitle>
+						<CardDescription>Redelegated stake cannot be redelegated again until it matures</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<DataTable
+							columns={redelegationColumns}
+							data={redelegationRows}
+							isLoading={redelegationsLoading}
+							getRowId={(row) => `${row.src_address}-${row.dst_address}-${row.creation_height}`}
+							emptyState={
+								redelegationsError
+									? `Failed to load redelegations: ${redelegationsError.message}`
+									: "No active redelegations."
+							}
+							maxHeight="none"
+							hidePagination
+						/>
+					</CardContent>
+				</Card>
+			</div>
+
+			{/* History */}
+			<Card>
+				<CardHeader>
+					<div className={css(styles.eventsHeader)}>
+						<div>
+							<CardTitle>History</CardTitle>
+							{stats && (
+								<CardDescription>
+									{stats.total_delegations} delegations, {stats.total_undelegations} undelegations,{" "}
+									{stats.total_redelegations} redelegations across {stats.unique_validators} validators
+								</CardDescription>
+							)}
+						</div>
+						<select
+							value={historyValidator}
+							onChange={(e) => {
+								setHistoryValidator(e.target.value)
+								setHistoryPage(0)
+							}}
+							className={css(styles.filterSelect)}
+						>
+							<option value="">All Validators</option>
+							{delegationRows.map((d) => (
+								<option key={d.validator_address} value={d.validator_address}>
+									{d.validator_moniker || formatAddress(d.validator_address, 8)}
+								</option>
+							))}
+						</select>
+					</div>
+				</CardHeader>
+				<CardContent>
+					<DataTable
+						columns={historyColumns}
+						data={historyData?.data ?? []}
+						isLoading={historyLoading}
+						getRowId={(row) => String(row.id)}
+						emptyState="No staking activity found."
+						maxHeight="none"
+						totalRows={historyData?.pagination?.total}
+						currentPage={historyPage}
+						onPageChange={setHistoryPage}
+						pageSize={historyPageSize}
+						onPageSizeChange={(size) => {
+							setHistoryPageSize(size)
+							setHistoryPage(0)
+						}}
+					/>
+				</CardContent>
+			</Card>
+
+			{/* Staking Modals */}
+			<DelegateModal
+				open={modal?.kind === "delegate"}
+				onOpenChange={closeModal}
+				validatorAddress={activeValidator?.validator_address || ""}
+				validatorMoniker={activeValidator?.validator_moniker || undefined}
+			/>
+			<UndelegateModal
+				open={modal?.kind === "undelegate"}
+				onOpenChange={closeModal}
+				validatorAddress={activeValidator?.validator_address || ""}
+				validatorMoniker={activeValidator?.validator_moniker || undefined}
+				currentDelegation={activeValidator ? toDisplayUnits(activeValidator.total_delegated, decimals) : undefined}
+			/>
+			<RedelegateModal
+				open={modal?.kind === "redelegate"}
+				onOpenChange={closeModal}
+				srcValidatorAddress={activeValidator?.validator_address || ""}
+				srcValidatorMoniker={activeValidator?.validator_moniker || undefined}
+				validatorOptions={(validatorsData?.data ?? [])
+					.filter((v) => !v.jailed)
+					.map((v) => ({ address: v.operator_address, moniker: v.moniker || undefined }))}
+				currentDelegation={activeValidator ? toDisplayUnits(activeValidator.total_delegated, decimals) : undefined}
+			/>
+			<CancelUnbondingModal
+				open={modal?.kind === "cancelUnbonding"}
+				onOpenChange={closeModal}
+				entries={cancelUnbondingEntries}
+				initialEntryKey={modal?.kind === "cancelUnbonding" ? modal.entryKey : undefined}
+			/>
+			<ClaimRewardsModal
+				open={modal?.kind === "claim"}
+				onOpenChange={closeModal}
+				rewards={delegationRows
+					.filter((d) => parseFloat(d.pending_rewards) > 0)
+					.map((d) => ({
+						validatorAddress: d.validator_address,
+						validatorMoniker: d.validator_moniker || undefined,
+						rewardAmount: formatDenomAmount(d.pending_rewards, baseDenom, { maxDecimals: 6 }),
+					}))}
+				totalRewards={formatDenomAmount(totalRewards, baseDenom, { maxDecimals: 6 })}
+			/>
+		</div>
+	)
+}
+
+const styles = {
+	container: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		w: "full",
+	},
+	header: {
+		display: "flex",
+		alignItems: "center",
+		justifyContent: "space-between",
+		gap: "4",
+		flexWrap: "wrap",
+	},
+	title: {
+		fontSize: "3xl",
+		fontWeight: "bold",
+	},
+	subtitle: {
+		color: "fg.muted",
+		marginTop: "1",
+		fontFamily: "mono",
+		fontSize: "sm",
+		wordBreak: "break-all",
+	},
+	buttonIcon: {
+		h: "4",
+		w: "4",
+		mr: "2",
+	},
+	statsGrid: {
+		display: "grid",
+		gridTemplateColumns: {
+			base: "repeat(2, 1fr)",
+			md: "repeat(4, 1fr)",
+		},
+		gap: "4",
+	},
+	statSkeleton: {
+		height: "8",
+		width: "32",
+	},
+	statCard: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "1",
+		py: "4",
+	},
+	statLabel: {
+		fontSize: "xs",
+		fontWeight: "medium",
+		color: "fg.muted",
+		textTransform: "uppercase",
+		letterSpacing: "wider",
+	},
+	statValue: {
+		fontSize: "xl",
+		fontWeight: "bold",
+	},
+	statValueSuccess: {
+		fontSize: "xl",
+		fontWeight: "bold",
+		color: "republicGreen.default",
+	},
+	cardTitle: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+	},
+	cardIcon: {
+		h: "4",
+		w: "4",
+		color: "accent.default",
+	},
+	twoColumn: {
+		display: "grid",
+		gap: "6",
+		gridTemplateColumns: { base: "1fr", lg: "1fr 1fr" },
+	},
+	cellStack: {
+		display: "flex",
+		flexDirection: "column",
+		alignItems: "flex-start",
+		gap: "1",
+	},
+	routeCell: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+	},
+	routeIcon: {
+		h: "3",
+		w: "3",
+		color: "fg.muted",
+	},
+	actionRow: {
+		display: "flex",
+		justifyContent: "flex-end",
+		gap: "2",
+		flexWrap: "wrap",
+	},
+	validatorLink: {
+		fontSize: "sm",
+		fontWeight: "semibold",
+		_hover: { color: "accent.default" },
+	},
+	txLink: {
+		fontFamily: "mono",
+		fontSize: "sm",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	monoText: {
+		fontFamily: "mono",
+		fontSize: "sm",
+	},
+	rewardText: {
+		fontFamily: "mono",
+		fontSize: "sm",
+		color: "republicGreen.default",
+	},
+	countdown: {
+		fontFamily: "mono",
+		fontSize: "sm",
+		fontWeight: "semibold",
+	},
+	mutedText: {
+		color: "fg.muted",
+		fontSize: "sm",
+	},
+	mutedSmall: {
+		color: "fg.muted",
+		fontSize: "xs",
+	},
+	eventsHeader: {
+		display: "flex",
+		alignItems: "center",
+		justifyContent: "space-between",
+		gap: "4",
+	},
+	filterSelect: {
+		fontSize: "sm",
+		bg: "bg.muted",
+		border: "1px solid",
+		borderColor: "border.default",
+		rounded: "md",
+		px: "3",
+		py: "1.5",
+		color: "fg.default",
+	},
+	emptyState: {
+		textAlign: "center",
+		py: "12",
+		color: "fg.muted",
+	},
+	emptyIcon: {
+		height: "12",
+		width: "12",
+		margin: "0 auto",
+		marginBottom: "4",
+		opacity: "0.5",
+	},
+	emptyTitle: {
+		fontSize: "lg",
+		fontWeight: "semibold",
+		color: "fg.default",
+		marginBottom: "2",
+	},
+	emptyText: {
+		maxWidth: "md",
+		margin: "0 auto",
+	},
+}
@@ -178,7 +178,7 @@ export default function TransactionDetailPage() {
     }))
   }
 
-  if (mounted && error) {
+  if (mounted && error && !transaction) {
     return (
       <div className={css(styles.pageContainer)}>
         <Link to="/tx" className={css(styles.backLink)}>
@@ -296,6 +296,7 @@ export default function TransactionDetailPage() {
             evmData={transaction.evm_data}
             blockHeight={transaction.height}
             timestamp={transaction.timestamp}
+            error={transaction.error}
           />
           {transaction.evm_logs && transaction.evm_logs.length > 0 && (
             <EVMLogsCard logs={transaction.evm_logs} />
@@ -660,6 +661,7 @@ export default function TransactionDetailPage() {
               evmData={transaction.evm_data}
               blockHeight={transaction.height}
               timestamp={transaction.timestamp}
+              error={transaction.error}
             />
           )}
         </div>
@@ -936,7 +938,7 @@ const styles = {
     borderColor: 'border.default',
     borderRadius: 'lg',
     overflow: 'hidden',
-    background: 'linear-gradient(135deg, rgba(48, 255, 110, 0.02) 0%, rgba(0, 0, 0, 0.3) 100%)'
+    background: 'linear-gradient(135deg, color-mix(in srgb, var(--colors-accent-default) 2%, transparent) 0%, rgba(0, 0, 0, 0.3) 100%)'
   },
   collapsibleTrigger: {
     width: '100%',
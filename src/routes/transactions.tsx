@@ -1,6 +1,6 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
-import { Link } from 'react-router'
+import { Link, useSearchParams } from 'react-router'
 import { Activity, Filter, Check, X } from 'lucide-react'
 import { type ColumnDef, createColumnHelper } from '@tanstack/react-table'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -13,6 +13,18 @@ import { Label } from '@/components/ui/label'
 import { DataTable } from '@/components/ui/data-table'
 import { api, type Transaction } from '@/lib/api'
 import { formatHash, formatTimeAgo, getTransactionStatus, getMessageTypeLabel, isEVMTransaction, formatNativeFee, getMessageActionSummary } from '@/lib/utils'
+import {
+	type AddressRole,
+	countActiveFilters,
+	EMPTY_TX_FILTERS,
+	fetchFilteredTransactions,
+	hasClientFilters,
+	MAX_SCAN,
+	parseTxFilters,
+	serializeTxFilters,
+	type TxFilters,
+	type TxKind,
+} from '@/lib/tx-filters'
 import { Separator } from '@/components/ui/separator'
 import { css } from '@/styled-system/css'
 
@@ -131,19 +143,97 @@ const txColumns: ColumnDef<Transaction, any>[] = [
 	}),
 ]
 
+interface FilterChip {
+	key: string
+	label: string
+	clear: (filters: TxFilters) => TxFilters
+}
+
+function filterChips(filters: TxFilters): FilterChip[] {
+	const chips: FilterChip[] = []
+	if (filters.status) {
+		chips.push({ key: 'status', label: filters.status === 'success' ? 'Success' : 'Failed', clear: (f) => ({ ...f, status: null }) })
+	}
+	if (filters.kind !== 'all') {
+		chips.push({ key: 'kind', label: filters.kind === 'evm' ? 'EVM only' : 'Cosmos only', clear: (f) => ({ ...f, kind: 'all' }) })
+	}
+	for (const type of filters.messageTypes) {
+		chips.push({
+			key: `type-${type}`,
+			label: getMessageTypeLabel(type),
+			clear: (f) => ({ ...f, messageTypes: f.messageTypes.filter((t) => t !== type) }),
+		})
+	}
+	if (filters.address) {
+		const role = filters.addressRole === 'any' ? 'Involves' : filters.addressRole === 'sender' ? 'From' : 'To'
+		chips.push({ key: 'address', label: `${role} ${formatHash(filters.address, 8)}`, clear: (f) => ({ ...f, address: '', addressRole: 'any' }) })
+	}
+	if (filters.block) {
+		chips.push({ key: 'block', label: `Block ${filters.block}`, clear: (f) => ({ ...f, block: '' }) })
+	} else if (filters.blockMin || filters.blockMax) {
+		chips.push({
+			key: 'blocks',
+			label: `Blocks ${filters.blockMin || '0'} - ${filters.blockMax || 'latest'}`,
+			clear: (f) => ({ ...f, blockMin: '', blockMax: '' }),
+		})
+	}
+	if (filters.timeMin || filters.timeMax) {
+		const format = (value: string) => (value ? new Date(value).toLocaleString() : '')
+		chips.push({
+			key: 'time',
+			label: filters.timeMin && filters.timeMax
+				? `${format(filters.timeMin)} - ${format(filters.timeMax)}`
+				: filters.timeMin ? `After ${format(filters.timeMin)}` : `Before ${format(filters.timeMax)}`,
+			clear: (f) => ({ ...f, timeMin: '', timeMax: '' }),
+		})
+	}
+	if (filters.feeMin || filters.feeMax) {
+		chips.push({
+			key: 'fee',
+			label: `Fee ${filters.feeMin || '0'} - ${filters.feeMax || 'any'}`,
+			clear: (f) => ({ ...f, feeMin: '', feeMax: '' }),
+		})
+	}
+	if (filters.gasMin || filters.gasMax) {
+		chips.push({
+			key: 'gas',
+			label: `Gas ${filters.gasMin || '0'} - ${filters.gasMax || 'any'}`,
+			clear: (f) => ({ ...f, gasMin: '', gasMax: '' }),
+		})
+	}
+	if (filters.memo) {
+		chips.push({ key: 'memo', label: `Memo "${filters.memo}"`, clear: (f) => ({ ...f, memo: '' }) })
+	}
+	return chips
+}
+
+const KIND_OPTIONS: Array<{ value: TxKind; label: string }> = [
+	{ value: 'all', label: 'All' },
+	{ value: 'evm', label: 'EVM' },
+	{ value: 'cosmos', label: 'Cosmos' },
+]
+
+const ROLE_OPTIONS: Array<{ value: AddressRole; label: string }> = [
+	{ value: 'any', label: 'Any' },
+	{ value: 'sender', label: 'Sender' },
+	{ value: 'recipient', label: 'Recipient' },
+]
+
 export default function TransactionsPage() {
-	const [page, setPage] = useState(0)
+	const [searchParams, setSearchParams] = useSearchParams()
+	const [pageState, setPageState] = useState({ filterKey: '', page: 0 })
 	const [pageSize, setPageSize] = useState(20)
 	const [filterOpen, setFilterOpen] = useState(false)
 
-	// Filter state
-	const [statusFilters, setStatusFilters] = useState<Set<string>>(new Set())
-	const [messageTypeFilters, setMessageTypeFilters] = useState<Set<string>>(new Set())
-	const [blockFilter, setBlockFilter] = useState('')
-	const [blockRangeMin, setBlockRangeMin] = useState('')
-	const [blockRangeMax, setBlockRangeMax] = useState('')
-	const [timeRangeMin, setTimeRangeMin] = useState('')
-	const [timeRangeMax, setTimeRangeMax] = useState('')
+	// Applied filters live in the URL so filtered views can be bookmarked and shared
+	const filterKey = searchParams.toString()
+	const filters = useMemo(() => parseTxFilters(new URLSearchParams(filterKey)), [filterKey])
+	// Draft edited in the dialog until applied
+	const [draft, setDraft] = useState<TxFilters>(filters)
+
+	// Back/forward navigation changes the filters too, so a page only applies to the filters it was chosen under
+	const page = pageState.filterKey === filterKey ? pageState.page : 0
+	const setPage = (next: number) => setPageState({ filterKey, page: next })
 
 	// Fetch distinct message types dynamically
 	const { data: messageTypes = [] } = useQuery({
@@ -152,99 +242,53 @@ export default function TransactionsPage() {
 		staleTime: 60000, // Cache for 1 minute
 	})
 
-	// Build filters object
-	const buildFilters = () => {
-		const filters: any = {}
-
-		// Status filter
-		if (statusFilters.has('success') && !statusFilters.has('failed')) {
-			filters.status = 'success'
-		} else if (statusFilters.has('failed') && !statusFilters.has('success')) {
-			filters.status = 'failed'
-		}
-
-		// Block filters
-		if (blockFilter) {
-			const parsed = parseInt(blockFilter, 10)
-			if (!Number.isNaN(parsed)) {
-				filters.block_height = parsed
-			}
-		} else {
-			if (blockRangeMin) {
-				const parsed = parseInt(blockRangeMin, 10)
-				if (!Number.isNaN(parsed)) {
-					filters.block_height_min = parsed
-				}
-			}
-			if (blockRangeMax) {
-				const parsed = parseInt(blockRangeMax, 10)
-				if (!Number.isNaN(parsed)) {
-					filters.block_height_max = parsed
-				}
-			}
-		}
-
-		// Time range filters
-		if (timeRangeMin) {
-			filters.timestamp_min = new Date(timeRangeMin).toISOString()
-		}
-		if (timeRangeMax) {
-			filters.timestamp_max = new Date(timeRangeMax).toISOString()
-		}
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['transactions', page, pageSize, filterKey],
+		queryFn: () => fetchFilteredTransactions(filters, pageSize, page * pageSize),
+	})
 
-		// Message type filter - only use if exactly one is selected
-		if (messageTypeFilters.size === 1) {
-			filters.message_type = Array.from(messageTypeFilters)[0]
-		}
+	const applyFilters = (next: TxFilters) => {
+		setSearchParams(serializeTxFilters(next))
+	}
 
-		return filters
+	const handleOpenChange = (open: boolean) => {
+		if (open) setDraft(filters)
+		setFilterOpen(open)
 	}
 
-	const { data, isLoading, error } = useQuery({
-		queryKey: ['transactions', page, pageSize, Array.from(statusFilters), Array.from(messageTypeFilters), blockFilter, blockRangeMin, blockRangeMax, timeRangeMin, timeRangeMax],
-		queryFn: () => api.getTransactions(pageSize, page * pageSize, buildFilters()),
-	})
+	const updateDraft = (patch: Partial<TxFilters>) => setDraft((prev) => ({ ...prev, ...patch }))
 
-	const handleClearFilters = () => {
-		setStatusFilters(new Set())
-		setMessageTypeFilters(new Set())
-		setBlockFilter('')
-		setBlockRangeMin('')
-		setBlockRangeMax('')
-		setTimeRangeMin('')
-		setTimeRangeMax('')
-		setPage(0)
+	const handleStatusToggle = (status: 'success' | 'failed') => {
+		updateDraft({ status: draft.status === status ? null : status })
 	}
 
-	const handleStatusToggle = (status: string) => {
-		const newFilters = new Set(statusFilters)
-		if (newFilters.has(status)) {
-			newFilters.delete(status)
-		} else {
-			newFilters.add(status)
-		}
-		setStatusFilters(newFilters)
+	const handleMessageTypeToggle = (type: string) => {
+		updateDraft({
+			messageTypes: draft.messageTypes.includes(type)
+				? draft.messageTypes.filter((t) => t !== type)
+				: [...draft.messageTypes, type],
+		})
 	}
 
-	const handleMessageTypeToggle = (type: string) => {
-		const newFilters = new Set(messageTypeFilters)
-		if (newFilters.has(type)) {
-			newFilters.delete(type)
-		} else {
-			newFilters.add(type)
+	const activeFilterCount = countActiveFilters(filters)
+	const chips = filterChips(filters)
+
+	const describeResults = () => {
+		if (!data) return 'Loading...'
+		if (data.scanned === null) {
+			return `Showing ${data.data.length} of ${data.pagination.total.toLocaleString()} transactions`
 		}
-		setMessageTypeFilters(newFilters)
+		const total = `${data.truncated ? 'at least ' : ''}${data.pagination.total.toLocaleString()}`
+		return `Showing ${data.data.length} of ${total} matches from ${data.scanned.toLocaleString()} scanned transactions`
 	}
 
-	const activeFilterCount = statusFilters.size + messageTypeFilters.size + (blockFilter ? 1 : 0) + (blockRangeMin || blockRangeMax ? 1 : 0) + (timeRangeMin || timeRangeMax ? 1 : 0)
-
 	return (
 		<div className={css(styles.container)}>
 			<div className={css(styles.header)}>
 				<div>
 					<h1 className={css(styles.title)}>Transactions</h1>
 				</div>
-				<Dialog open={filterOpen} onOpenChange={setFilterOpen}>
+				<Dialog open={filterOpen} onOpenChange={handleOpenChange}>
 					<DialogTrigger asChild>
 						<Button variant="outline" className={css(styles.filterButton)}>
 							<Filter className={css(styles.filterIcon)} />
@@ -260,7 +304,7 @@ export default function TransactionsPage() {
 						<DialogHeader>
 							<DialogTitle>Filter Transactions</DialogTitle>
 							<DialogDescription>
-								Select filter criteria to narrow down the transaction list
+								Combine criteria to narrow down the transaction list. Applied filters are saved in the page URL.
 							</DialogDescription>
 						</DialogHeader>
 
@@ -272,7 +316,7 @@ export default function TransactionsPage() {
 									<div className={css(styles.checkboxItem)}>
 										<Checkbox
 											id="status-success"
-											checked={statusFilters.has('success')}
+											checked={draft.status === 'success'}
 											onCheckedChange={() => handleStatusToggle('success')}
 										/>
 										<label
@@ -285,7 +329,7 @@ export default function TransactionsPage() {
 									<div className={css(styles.checkboxItem)}>
 										<Checkbox
 											id="status-failed"
-											checked={statusFilters.has('failed')}
+											checked={draft.status === 'failed'}
 											onCheckedChange={() => handleStatusToggle('failed')}
 										/>
 										<label
@@ -300,6 +344,51 @@ export default function TransactionsPage() {
 
 							<Separator />
 
+							{/* Transaction Kind Filter */}
+							<div className={css(styles.filterSection)}>
+								<Label className={css(styles.filterLabel)}>Transaction Kind</Label>
+								<div className={css(styles.optionGroup)}>
+									{KIND_OPTIONS.map((option) => (
+										<Button
+											key={option.value}
+											size="sm"
+											variant={draft.kind === option.value ? 'default' : 'outline'}
+											onClick={() => updateDraft({ kind: option.value })}
+										>
+											{option.label}
+										</Button>
+									))}
+								</div>
+							</div>
+
+							<Separator />
+
+							{/* Address Filter */}
+							<div className={css(styles.filterSection)}>
+								<Label className={css(styles.filterLabel)}>Address</Label>
+								<Input
+									id="address"
+									placeholder="Cosmos (bech32) or EVM (0x) address"
+									value={draft.address}
+									onChange={(e) => updateDraft({ address: e.target.value })}
+								/>
+								<div className={css(styles.optionGroup)}>
+									{ROLE_OPTIONS.map((option) => (
+										<Button
+											key={option.value}
+											size="sm"
+											variant={draft.addressRole === option.value ? 'default' : 'outline'}
+											onClick={() => updateDraft({ addressRole: option.value })}
+											disabled={!draft.address.trim()}
+										>
+											{option.label}
+										</Button>
+									))}
+								</div>
+							</div>
+
+							<Separator />
+
 							{/* Message Type Filter */}
 							<div className={css(styles.filterSection)}>
 								<Label className={css(styles.filterLabel)}>Message Type</Label>
@@ -311,7 +400,7 @@ export default function TransactionsPage() {
 											<div key={type} className={css(styles.checkboxItem)}>
 												<Checkbox
 													id={`type-${type}`}
-													checked={messageTypeFilters.has(type)}
+													checked={draft.messageTypes.includes(type)}
 													onCheckedChange={() => handleMessageTypeToggle(type)}
 												/>
 												<label
@@ -338,13 +427,11 @@ export default function TransactionsPage() {
 											id="block-single"
 											type="number"
 											placeholder="Enter block number"
-											value={blockFilter}
+											value={draft.block}
 											onChange={(e) => {
-												setBlockFilter(e.target.value)
-												if (e.target.value) {
-													setBlockRangeMin('')
-													setBlockRangeMax('')
-												}
+												updateDraft(e.target.value
+													? { block: e.target.value, blockMin: '', blockMax: '' }
+													: { block: '' })
 											}}
 										/>
 									</div>
@@ -355,12 +442,9 @@ export default function TransactionsPage() {
 												id="block-min"
 												type="number"
 												placeholder="Min"
-												value={blockRangeMin}
-												onChange={(e) => {
-													setBlockRangeMin(e.target.value)
-													if (e.target.value) setBlockFilter('')
-												}}
-												disabled={!!blockFilter}
+												value={draft.blockMin}
+												onChange={(e) => updateDraft({ blockMin: e.target.value })}
+												disabled={!!draft.block}
 											/>
 										</div>
 										<div>
@@ -369,12 +453,9 @@ export default function TransactionsPage() {
 												id="block-max"
 												type="number"
 												placeholder="Max"
-												value={blockRangeMax}
-												onChange={(e) => {
-													setBlockRangeMax(e.target.value)
-													if (e.target.value) setBlockFilter('')
-												}}
-												disabled={!!blockFilter}
+												value={draft.blockMax}
+												onChange={(e) => updateDraft({ blockMax: e.target.value })}
+												disabled={!!draft.block}
 											/>
 										</div>
 									</div>
@@ -392,8 +473,8 @@ export default function TransactionsPage() {
 										<Input
 											id="time-min"
 											type="datetime-local"
-											value={timeRangeMin}
-											onChange={(e) => setTimeRangeMin(e.target.value)}
+											value={draft.timeMin}
+											onChange={(e) => updateDraft({ timeMin: e.target.value })}
 										/>
 									</div>
 									<div>
@@ -401,19 +482,95 @@ export default function TransactionsPage() {
 										<Input
 											id="time-max"
 											type="datetime-local"
-											value={timeRangeMax}
-											onChange={(e) => setTimeRangeMax(e.target.value)}
+											value={draft.timeMax}
+											onChange={(e) => updateDraft({ timeMax: e.target.value })}
 										/>
 									</div>
 								</div>
 							</div>
+
+							<Separator />
+
+							{/* Fee and Gas Filters */}
+							<div className={css(styles.filterSection)}>
+								<Label className={css(styles.filterLabel)}>Fee and Gas</Label>
+								<div className={css(styles.blockRangeGrid)}>
+									<div>
+										<Label htmlFor="fee-min" className={css(styles.inputLabel)}>Min Fee</Label>
+										<Input
+											id="fee-min"
+											type="number"
+											min="0"
+											step="any"
+											placeholder="Min"
+											value={draft.feeMin}
+											onChange={(e) => updateDraft({ feeMin: e.target.value })}
+										/>
+									</div>
+									<div>
+										<Label htmlFor="fee-max" className={css(styles.inputLabel)}>Max Fee</Label>
+										<Input
+											id="fee-max"
+											type="number"
+											min="0"
+											step="any"
+											placeholder="Max"
+											value={draft.feeMax}
+											onChange={(e) => updateDraft({ feeMax: e.target.value })}
+										/>
+									</div>
+									<div>
+										<Label htmlFor="gas-min" className={css(styles.inputLabel)}>Min Gas Limit</Label>
+										<Input
+											id="gas-min"
+											type="number"
+											min="0"
+											placeholder="Min"
+											value={draft.gasMin}
+											onChange={(e) => updateDraft({ gasMin: e.target.value })}
+										/>
+									</div>
+									<div>
+										<Label htmlFor="gas-max" className={css(styles.inputLabel)}>Max Gas Limit</Label>
+										<Input
+											id="gas-max"
+											type="number"
+											min="0"
+											placeholder="Max"
+											value={draft.gasMax}
+											onChange={(e) => updateDraft({ gasMax: e.target.value })}
+										/>
+									</div>
+								</div>
+								<p className={css(styles.hintText)}>Fees are in display units of the fee token</p>
+							</div>
+
+							<Separator />
+
+							{/* Memo Filter */}
+							<div className={css(styles.filterSection)}>
+								<Label htmlFor="memo" className={css(styles.filterLabel)}>Memo Contains</Label>
+								<Input
+									id="memo"
+									placeholder="Text in the transaction memo"
+									value={draft.memo}
+									onChange={(e) => updateDraft({ memo: e.target.value })}
+								/>
+							</div>
+
+							{hasClientFilters(draft) && (
+								<p className={css(styles.hintText)}>
+									Address, fee, gas, memo, kind and multi-type filters are matched against the latest {MAX_SCAN.toLocaleString()} transactions
+									{draft.address.trim() ? ' of the address' : ''}.
+								</p>
+							)}
 						</div>
 
 						<DialogFooter>
-							<Button variant="outline" onClick={handleClearFilters}>
+							<Button variant="outline" onClick={() => setDraft(EMPTY_TX_FILTERS)}>
 								Clear All
 							</Button>
-							<Button onClick={() => { setFilterOpen(false); setPage(0) }}>
+							<Button onClick={() => { applyFilters(draft); setFilterOpen(false) }}>
 								Apply Filters
 							</Button>
 						</DialogFooter>
@@ -421,15 +578,34 @@ export default function TransactionsPage() {
 				</Dialog>
 			</div>
 
+			{chips.length > 0 && (
+				<div className={css(styles.chipRow)}>
+					{chips.map((chip) => (
+						<Badge key={chip.key} variant="outline" className={css(styles.chip)}>
+							{chip.label}
+							<button
+								type="button"
+								className={css(styles.chipRemove)}
+								onClick={() => applyFilters(chip.clear(filters))}
+								aria-label={`Remove ${chip.label} filter`}
+							>
+								<X className={css(styles.chipIcon)} />
+							</button>
+						</Badge>
+					))}
+					<Button variant="ghost" size="sm" onClick={() => applyFilters(EMPTY_TX_FILTERS)}>
+						Clear all
+					</Button>
+				</div>
+			)}
+
 			<Card>
 				<CardHeader>
 					<CardTitle>Transactions</CardTitle>
-					<CardDescription>
-						{data ? `Showing ${data.data.length} of ${data.pagination.total.toLocaleString()} transactions` : 'Loading...'}
-					</CardDescription>
+					<CardDescription>{describeResults()}</CardDescription>
 				</CardHeader>
 				<CardContent>
-					{error ? (
+					{error && !data ? (
 						<DataTable
 							columns={txColumns}
 							data={[]}
@@ -556,6 +732,38 @@ const styles = {
 		gridTemplateColumns: 'repeat(2, 1fr)',
 		gap: '0.5rem'
 	},
+	optionGroup: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		gap: '0.5rem'
+	},
+	hintText: {
+		fontSize: '0.75rem',
+		color: 'fg.muted'
+	},
+	chipRow: {
+		display: 'flex',
+		flexWrap: 'wrap',
+		alignItems: 'center',
+		gap: '0.5rem'
+	},
+	chip: {
+		display: 'flex',
+		alignItems: 'center',
+		gap: '0.25rem'
+	},
+	chipRemove: {
+		display: 'flex',
+		cursor: 'pointer',
+		color: 'fg.muted',
+		_hover: {
+			color: 'fg.default'
+		}
+	},
+	chipIcon: {
+		height: '0.75rem',
+		width: '0.75rem'
+	},
 	txLink: {
 		display: 'flex',
 		alignItems: 'center',
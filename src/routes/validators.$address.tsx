@@ -4,7 +4,7 @@ import { Link, useParams } from "react-router"
 import { ArrowLeft, Shield, Coins, Award, Activity } from "lucide-react"
 import { type ColumnDef, createColumnHelper } from "@tanstack/react-table"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { DelegateModal, UndelegateModal } from "@/components/staking"
+import { DelegateModal, StakingYieldCard, UndelegateModal } from "@/components/staking"
 import { useWallet } from "@/contexts/WalletContext"
 import { DataTable } from "@/components/ui/data-table"
 import { Badge } from "@/components/ui/badge"
@@ -18,6 +18,9 @@ import { formatDenomAmount } from "@/lib/denom"
 import { validatorToCosmosAddress } from "@/lib/address"
 import { getChainInfo } from "@/lib/chain-info"
 import { ValidatorSigningChart } from "@/components/analytics/ValidatorSigningChart"
+import { ValidatorUptimeHeatmap } from "@/components/analytics/ValidatorUptimeHeatmap"
+import { ValidatorComputeProfile } from "@/components/ValidatorComputeProfile"
+import { WatchlistButton } from "@/components/WatchlistButton"
 import { css } from "@/styled-system/css"
 
 /**
@@ -73,6 +76,8 @@ function formatCommission(rate: number | null): string {
 
 const delegationColumnHelper = createColumnHelper<DelegationEvent>()
 
+type TabId = "overview" | "compute"
+
 export default function ValidatorDetailPage() {
 	const params = useParams()
 	const address = params.address || ""
@@ -81,6 +86,7 @@ export default function ValidatorDetailPage() {
 	const [eventPageSize, setEventPageSize] = useState(20)
 	const [showDelegateModal, setShowDelegateModal] = useState(false)
 	const [showUndelegateModal, setShowUndelegateModal] = useState(false)
+	const [activeTab, setActiveTab] = useState<TabId>("overview")
 	const { isConnected } = useWallet()
 
 	// Load chain info for proper denom display
@@ -234,7 +240,7 @@ export default function ValidatorDetailPage() {
 		}
 	}, [validator?.operator_address])
 
-	if (error) {
+	if (error && !validator) {
 		return (
 			<div className={css(styles.container)}>
 				<Link to="/validators" className={css(styles.backLink)}>
@@ -276,408 +282,449 @@ export default function ValidatorDetailPage() {
 						{validator.moniker || "Unknown Validator"}
 					</h1>
 					{validatorStatusBadge(validator.status, validator.jailed)}
+					<div className={css(styles.titleActions)}>
+						<WatchlistButton
+							address={validator.operator_address}
+							altAddress={walletAddr}
+							kind="validator"
+							label={validator.moniker}
+						/>
+					</div>
 				</div>
 			</div>
 
-			<div className={css(styles.grid)}>
-				{/* Main column */}
-				<div className={css(styles.mainColumn)}>
-					{/* Validator Info */}
-					<Card>
-						<CardHeader>
-							<CardTitle>Validator Info</CardTitle>
-						</CardHeader>
-						<CardContent>
-							<div className={css(styles.infoGrid)}>
-								<div className={css(styles.detailsGrid)}>
-									<div className={css(styles.field)}>
-										<label className={css(styles.fieldLabel)}>Moniker</label>
-										<p className={css(styles.fieldValue)}>
-											{validator.moniker || "-"}
-										</p>
-									</div>
-									{validator.identity && (
-										<div className={css(styles.field)}>
-											<label className={css(styles.fieldLabel)}>Identity</label>
-											<p className={css(styles.monoValue)}>{validator.identity}</p>
-										</div>
-									)}
-									{validator.website && (
-										<div className={css(styles.field)}>
-											<label className={css(styles.fieldLabel)}>Website</label>
-											<a
-												href={
-													validator.website.startsWith("http")
-														? validator.website
-														: `https://${validator.website}`
-												}
-												target="_blank"
-												rel="noopener noreferrer"
-												className={css(styles.websiteLink)}
-											>
-												{validator.website}
-											</a>
-										</div>
-									)}
-									{validator.details && (
+			{/* Tabs */}
+			<div className={css(styles.tabContainer)}>
+				<button
+					type="button"
+					className={css(activeTab === "overview" ? styles.tabActive : styles.tabInactive)}
+					onClick={() => setActiveTab("overview")}
+				>
+					Overview
+				</button>
+				<button
+					type="button"
+					className={css(activeTab === "compute" ? styles.tabActive : styles.tabInactive)}
+					onClick={() => setActiveTab("compute")}
+				>
+					Compute
+				</button>
+			</div>
+
+			{activeTab === "compute" && (
+				<ValidatorComputeProfile
+					operatorAddress={validator.operator_address}
+					accountAddress={walletAddr}
+				/>
+			)}
+
+			{activeTab === "overview" && (
+				<div className={css(styles.grid)}>
+					{/* Main column */}
+					<div className={css(styles.mainColumn)}>
+						{/* Validator Info */}
+						<Card>
+							<CardHeader>
+								<CardTitle>Validator Info</CardTitle>
+							</CardHeader>
+							<CardContent>
+								<div className={css(styles.infoGrid)}>
+									<div className={css(styles.detailsGrid)}>
 										<div className={css(styles.field)}>
-											<label className={css(styles.fieldLabel)}>Details</label>
-											<p className={css(styles.fieldValue)}>{validator.details}</p>
+											<label className={css(styles.fieldLabel)}>Moniker</label>
+											<p className={css(styles.fieldValue)}>
+												{validator.moniker || "-"}
+											</p>
 										</div>
-									)}
-								</div>
-								<div className={css(styles.addressesColumn)}>
-									<div className={css(styles.addressRow)}>
-										<label className={css(styles.fieldLabel)}>Operator</label>
-										<AddressChip address={validator.operator_address} link={false} />
+										{validator.identity && (
+											<div className={css(styles.field)}>
+												<label className={css(styles.fieldLabel)}>Identity</label>
+												<p className={css(styles.monoValue)}>{validator.identity}</p>
+											</div>
+										)}
+										{validator.website && (
+											<div className={css(styles.field)}>
+												<label className={css(styles.fieldLabel)}>Website</label>
+												<a
+													href={
+														validator.website.startsWith("http")
+															? validator.website
+															: `https://${validator.website}`
+													}
+													target="_blank"
+													rel="noopener noreferrer"
+													className={css(styles.websiteLink)}
+												>
+													{validator.website}
+												</a>
+											</div>
+										)}
+										{validator.details && (
+											<div className={css(styles.field)}>
+												<label className={css(styles.fieldLabel)}>Details</label>
+												<p className={css(styles.fieldValue)}>{validator.details}</p>
+											</div>
+										)}
 									</div>
-									{walletAddr && (
+									<div className={css(styles.addressesColumn)}>
 										<div className={css(styles.addressRow)}>
-											<label className={css(styles.fieldLabel)}>Wallet</label>
-											<AddressChip address={walletAddr} />
+											<label className={css(styles.fieldLabel)}>Operator</label>
+											<AddressChip address={validator.operator_address} link={false} />
 										</div>
-									)}
-									{validator.consensus_address && (
-										<div className={css(styles.addressRow)}>
-											<label className={css(styles.fieldLabel)}>Consensus</label>
-											<AddressChip address={validator.consensus_address} link={false} />
-										</div>
-									)}
-								</div>
-							</div>
-						</CardContent>
-					</Card>
-
-					{/* Commission */}
-					<Card>
-						<CardHeader>
-							<CardTitle>Commission</CardTitle>
-						</CardHeader>
-						<CardContent>
-							<div className={css(styles.commissionGrid)}>
-								<div className={css(styles.field)}>
-									<label className={css(styles.fieldLabel)}>Rate</label>
-									<p className={css(styles.fieldValueLarge)}>
-										{formatCommission(validator.commission_rate)}
-									</p>
-								</div>
-								<div className={css(styles.field)}>
-									<label className={css(styles.fieldLabel)}>Max Rate</label>
-									<p className={css(styles.fieldValue)}>
-										{formatCommission(validator.commission_max_rate)}
-									</p>
-								</div>
-								<div className={css(styles.field)}>
-									<label className={css(styles.fieldLabel)}>Max Change</label>
-									<p className={css(styles.fieldValue)}>
-										{formatCommission(validator.commission_max_change_rate)}
-									</p>
+										{walletAddr && (
+											<div className={css(styles.addressRow)}>
+												<label className={css(styles.fieldLabel)}>Wallet</label>
+												<AddressChip address={walletAddr} />
+											</div>
+										)}
+										{validator.consensus_address && (
+											<div className={css(styles.addressRow)}>
+												<label className={css(styles.fieldLabel)}>Consensus</label>
+												<AddressChip address={validator.consensus_address} link={false} />
+											</div>
+										)}
+									</div>
 								</div>
-							</div>
-						</CardContent>
-					</Card>
-
-					{/* Signing History Chart */}
-					<ValidatorSigningChart consensusAddress={validator.consensus_address} limit={200} />
-
-					{/* Delegation Events */}
-					<Card>
-						<CardHeader>
-							<div className={css(styles.eventsHeader)}>
-								<CardTitle>Delegation Events</CardTitle>
-								<select
-									value={eventTypeFilter || ""}
-									onChange={(e) => {
-										setEventTypeFilter(e.target.value || undefined)
-										setEventPage(0)
-									}}
-									className={css(styles.filterSelect)}
-								>
-									<option value="">All Types</option>
-									<option value="DELEGATE">Delegate</option>
-									<option value="UNDELEGATE">Undelegate</option>
-									<option value="REDELEGATE">Redelegate</option>
-									<option value="CREATE_VALIDATOR">Create Validator</option>
-									<option value="EDIT_VALIDATOR">Edit Validator</option>
-								</select>
-							</div>
-						</CardHeader>
-						<CardContent>
-							<DataTable
-								columns={delegationColumns}
-								data={eventsData?.data ?? []}
-								isLoading={eventsLoading}
-								getRowId={(row) => String(row.id)}
-								emptyState="No delegation events found."
-								maxHeight="none"
-								totalRows={eventsData?.pagination?.total}
-								currentPage={eventPage}
-								onPageChange={setEventPage}
-								pageSize={eventPageSize}
-								onPageSizeChange={setEventPageSize}
-							/>
-						</CardContent>
-					</Card>
-				</div>
+							</CardContent>
+						</Card>
 
-				{/* Sidebar */}
-				<div className={css(styles.sidebar)}>
-					{/* Staking Actions */}
-					<Card>
-						<CardHeader>
-							<CardTitle className={css(styles.stakingTitle)}>
-								<Coins className={css(styles.stakingIcon)} />
-								Stake with this Validator
-							</CardTitle>
-						</CardHeader>
-						<CardContent>
-							<div className={css(styles.stakingActions)}>
-								<Button
-									onClick={() => setShowDelegateModal(true)}
-									className={css(styles.stakingButton)}
-								>
-									Delegate
-								</Button>
-								<Button
-									variant="outline"
-									onClick={() => setShowUndelegateModal(true)}
-									className={css(styles.stakingButton)}
-								>
-									Undelegate
-								</Button>
-							</div>
-							{!isConnected && (
-								<p className={css(styles.connectHint)}>
-									Connect your wallet to stake
-								</p>
-							)}
-						</CardContent>
-					</Card>
-
-					{/* Delegation Stats */}
-					<Card>
-						<CardHeader>
-							<CardTitle>Delegation</CardTitle>
-						</CardHeader>
-						<CardContent>
-							<div className={css(styles.sidebarFields)}>
-								<div className={css(styles.sidebarRow)}>
-									<span className={css(styles.sidebarLabel)}>Tokens</span>
-									<span className={css(styles.sidebarValue)}>
-										{validator.tokens !== null
-											? `${formatDenomAmount(validator.tokens, baseDenom, { maxDecimals: 0 })} ${displayDenom}`
-											: "-"}
-									</span>
+						{/* Commission */}
+						<Card>
+							<CardHeader>
+								<CardTitle>Commission</CardTitle>
+							</CardHeader>
+							<CardContent>
+								<div className={css(styles.commissionGrid)}>
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>Rate</label>
+										<p className={css(styles.fieldValueLarge)}>
+											{formatCommission(validator.commission_rate)}
+										</p>
+									</div>
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>Max Rate</label>
+										<p className={css(styles.fieldValue)}>
+											{formatCommission(validator.commission_max_rate)}
+										</p>
+									</div>
+									<div className={css(styles.field)}>
+										<label className={css(styles.fieldLabel)}>Max Change</label>
+										<p className={css(styles.fieldValue)}>
+											{formatCommission(validator.commission_max_change_rate)}
+										</p>
+									</div>
 								</div>
-								<div className={css(styles.sidebarRow)}>
-									<span className={css(styles.sidebarLabel)}>Voting Power</span>
-									<span className={css(styles.sidebarValue)}>
-										{validator.voting_power_pct?.toFixed(2)}%
-									</span>
+							</CardContent>
+						</Card>
+
+						{/* Signing History Chart */}
+						<ValidatorSigningChart consensusAddress={validator.consensus_address} limit={200} />
+
+						{/* Slashing Window Heatmap */}
+						<ValidatorUptimeHeatmap consensusAddress={validator.consensus_address} />
+
+						{/* Delegation Events */}
+						<Card>
+							<CardHeader>
+								<div className={css(styles.eventsHeader)}>
+									<CardTitle>Delegation Events</CardTitle>
+									<select
+										value={eventTypeFilter || ""}
+										onChange={(e) => {
+											setEventTypeFilter(e.target.value || undefined)
+											setEventPage(0)
+										}}
+										className={css(styles.filterSelect)}
+									>
+										<option value="">All Types</option>
+										<option value="DELEGATE">Delegate</option>
+										<option value="UNDELEGATE">Undelegate</option>
+										<option value="REDELEGATE">Redelegate</option>
+										<option value="CREATE_VALIDATOR">Create Validator</option>
+										<option value="EDIT_VALIDATOR">Edit Validator</option>
+									</select>
 								</div>
-								<div className={css(styles.sidebarRow)}>
-									<span className={css(styles.sidebarLabel)}>Delegators</span>
-									<span className={css(styles.sidebarValue)}>
-										{validator.delegator_count}
-									</span>
+							</CardHeader>
+							<CardContent>
+								<DataTable
+									columns={delegationColumns}
+									data={eventsData?.data ?? []}
+									isLoading={eventsLoading}
+									getRowId={(row) => String(row.id)}
+									emptyState="No delegation events found."
+									maxHeight="none"
+									totalRows={eventsData?.pagination?.total}
+									currentPage={eventPage}
+									onPageChange={setEventPage}
+									pageSize={eventPageSize}
+									onPageSizeChange={setEventPageSize}
+								/>
+							</CardContent>
+						</Card>
+					</div>
+
+					{/* Sidebar */}
+					<div className={css(styles.sidebar)}>
+						{/* Staking Actions */}
+						<Card>
+							<CardHeader>
+								<CardTitle className={css(styles.stakingTitle)}>
+									<Coins className={css(styles.stakingIcon)} />
+									Stake with this Validator
+								</CardTitle>
+							</CardHeader>
+							<CardContent>
+								<div className={css(styles.stakingActions)}>
+									<Button
+										onClick={() => setShowDelegateModal(true)}
+										className={css(styles.stakingButton)}
+									>
+										Delegate
+									</Button>
+									<Button
+										variant="outline"
+										onClick={() => setShowUndelegateModal(true)}
+										className={css(styles.stakingButton)}
+									>
+										Undelegate
+									</Button>
 								</div>
-								{validator.min_self_delegation !== null && (
-									<div className={css(styles.sidebarRow)}>
-										<span className={css(styles.sidebarLabel)}>
-											Min Self-Delegation
-										</span>
-										<span className={css(styles.sidebarValue)}>
-											{formatDenomAmount(validator.min_self_delegation, baseDenom, { maxDecimals: 0 })} {displayDenom}
-										</span>
-									</div>
+								{!isConnected && (
+									<p className={css(styles.connectHint)}>
+										Connect your wallet to stake
+									</p>
 								)}
-							</div>
-						</CardContent>
-					</Card>
-
-					{/* Performance Metrics */}
-					<Card>
-						<CardHeader>
-							<CardTitle className={css(styles.stakingTitle)}>
-								<Activity className={css(styles.stakingIcon)} />
-								Performance
-							</CardTitle>
-						</CardHeader>
-						<CardContent>
-							{performanceLoading ? (
-								<div className={css(styles.loadingContainer)}>
-									<Skeleton className={css(styles.skeleton)} />
-								</div>
-							) : performance ? (
+							</CardContent>
+						</Card>
+
+						{/* Expected Yield */}
+						<StakingYieldCard validatorAddress={validator.operator_address} />
+
+						{/* Delegation Stats */}
+						<Card>
+							<CardHeader>
+								<CardTitle>Delegation</CardTitle>
+							</CardHeader>
+							<CardContent>
 								<div className={css(styles.sidebarFields)}>
 									<div className={css(styles.sidebarRow)}>
-										<span className={css(styles.sidebarLabel)}>Uptime</span>
-										<span className={css(styles.sidebarValue)} style={{
-											color: performance.uptime_percentage >= 95 ? 'var(--colors-green-500)' :
-												performance.uptime_percentage >= 80 ? 'var(--colors-yellow-500)' : 'var(--colors-red-500)'
-										}}>
-											{performance.uptime_percentage.toFixed(1)}%
+										<span className={css(styles.sidebarLabel)}>Tokens</span>
+										<span className={css(styles.sidebarValue)}>
+											{validator.tokens !== null
+												? `${formatDenomAmount(validator.tokens, baseDenom, { maxDecimals: 0 })} ${displayDenom}`
+												: "-"}
 										</span>
 									</div>
 									<div className={css(styles.sidebarRow)}>
-										<span className={css(styles.sidebarLabel)}>Blocks Signed</span>
+										<span className={css(styles.sidebarLabel)}>Voting Power</span>
 										<span className={css(styles.sidebarValue)}>
-											{performance.blocks_signed.toLocaleString()}
+											{validator.voting_power_pct?.toFixed(2)}%
 										</span>
 									</div>
 									<div className={css(styles.sidebarRow)}>
-										<span className={css(styles.sidebarLabel)}>Blocks Missed</span>
-										<span className={css(styles.sidebarValue)} style={{
-											color: performance.blocks_missed > 0 ? "var(--colors-yellow-500)" : "var(--colors-green-500)"
-										}}>
-											{performance.blocks_missed.toLocaleString()}
+										<span className={css(styles.sidebarLabel)}>Delegators</span>
+										<span className={css(styles.sidebarValue)}>
+											{validator.delegator_count}
 										</span>
 									</div>
-									{performance.total_jailing_events > 0 && (
+									{validator.min_self_delegation !== null && (
 										<div className={css(styles.sidebarRow)}>
-											<span className={css(styles.sidebarLabel)}>Jailing Events</span>
-											<span className={css(styles.sidebarValue)} style={{ color: "var(--colors-red-500)" }}>
-												{performance.total_jailing_events}
+											<span className={css(styles.sidebarLabel)}>
+												Min Self-Delegation
+											</span>
+											<span className={css(styles.sidebarValue)}>
+												{formatDenomAmount(validator.min_self_delegation, baseDenom, { maxDecimals: 0 })} {displayDenom}
 											</span>
 										</div>
 									)}
-									{performance.rewards_rank && (
+								</div>
+							</CardContent>
+						</Card>
+
+						{/* Performance Metrics */}
+						<Card>
+							<CardHeader>
+								<CardTitle className={css(styles.stakingTitle)}>
+									<Activity className={css(styles.stakingIcon)} />
+									Performance
+								</CardTitle>
+							</CardHeader>
+							<CardContent>
+								{performanceLoading ? (
+									<div className={css(styles.loadingContainer)}>
+										<Skeleton className={css(styles.skeleton)} />
+									</div>
+								) : performance ? (
+									<div className={css(styles.sidebarFields)}>
 										<div className={css(styles.sidebarRow)}>
-											<span className={css(styles.sidebarLabel)}>Rewards Rank</span>
-											<span className={css(styles.sidebarValue)}>
-												#{performance.rewards_rank}
+											<span className={css(styles.sidebarLabel)}>Uptime</span>
+											<span className={css(styles.sidebarValue)} style={{
+												color: performance.uptime_percentage >= 95 ? 'var(--colors-green-500)' :
+													performance.uptime_percentage >= 80 ? 'var(--colors-yellow-500)' : 'var(--colors-red-500)'
+											}}>
+												{performance.uptime_percentage.toFixed(1)}%
 											</span>
 										</div>
-									)}
-									{performance.delegation_rank && (
 										<div className={css(styles.sidebarRow)}>
-											<span className={css(styles.sidebarLabel)}>Delegation Rank</span>
+											<span className={css(styles.sidebarLabel)}>Blocks Signed</span>
 											<span className={css(styles.sidebarValue)}>
-												#{performance.delegation_rank}
+												{performance.blocks_signed.toLocaleString()}
 											</span>
 										</div>
-									)}
-								</div>
-							) : (
-								<p className={css(styles.mutedText)}>Performance data not available</p>
-							)}
-						</CardContent>
-					</Card>
-
-					{/* Lifetime Rewards */}
-					<Card>
-						<CardHeader>
-							<CardTitle className={css(styles.stakingTitle)}>
-								<Award className={css(styles.stakingIcon)} />
-								Lifetime Earnings
-							</CardTitle>
-						</CardHeader>
-						<CardContent>
-							{rewardsLoading ? (
-								<div className={css(styles.loadingContainer)}>
-									<Skeleton className={css(styles.skeleton)} />
-								</div>
-							) : totalRewards ? (
-								<div className={css(styles.sidebarFields)}>
-									<div className={css(styles.sidebarRow)}>
-										<span className={css(styles.sidebarLabel)}>Total Rewards</span>
-										<span className={css(styles.sidebarValue)}>
-											{formatDenomAmount(totalRewards.total_rewards, baseDenom, { maxDecimals: 2 })} {displayDenom}
-										</span>
-									</div>
-									<div className={css(styles.sidebarRow)}>
-										<span className={css(styles.sidebarLabel)}>Total Commission</span>
-										<span className={css(styles.sidebarValue)}>
-											{formatDenomAmount(totalRewards.total_commission, baseDenom, { maxDecimals: 2 })} {displayDenom}
-										</span>
-									</div>
-									<div className={css(styles.sidebarRow)}>
-										<span className={css(styles.sidebarLabel)}>Active Blocks</span>
-										<span className={css(styles.sidebarValue)}>
-											{totalRewards.blocks_with_rewards.toLocaleString()}
-										</span>
+										<div className={css(styles.sidebarRow)}>
+											<span className={css(styles.sidebarLabel)}>Blocks Missed</span>
+											<span className={css(styles.sidebarValue)} style={{
+												color: performance.blocks_missed > 0 ? "var(--colors-yellow-500)" : "var(--colors-green-500)"
+											}}>
+												{performance.blocks_missed.toLocaleString()}
+											</span>
+										</div>
+										{performance.total_jailing_events > 0 && (
+											<div className={css(styles.sidebarRow)}>
+												<span className={css(styles.sidebarLabel)}>Jailing Events</span>
+												<span className={css(styles.sidebarValue)} style={{ color: "var(--colors-red-500)" }}>
+													{performance.total_jailing_events}
+												</span>
+											</div>
+										)}
+										{performance.rewards_rank && (
+											<div className={css(styles.sidebarRow)}>
+												<span className={css(styles.sidebarLabel)}>Rewards Rank</span>
+												<span className={css(styles.sidebarValue)}>
+													#{performance.rewards_rank}
+												</span>
+											</div>
+										)}
+										{performance.delegation_rank && (
+											<div className={css(styles.sidebarRow)}>
+												<span className={css(styles.sidebarLabel)}>Delegation Rank</span>
+												<span className={css(styles.sidebarValue)}>
+													#{performance.delegation_rank}
+												</span>
+											</div>
+										)}
 									</div>
-								</div>
-							) : (
-								<p className={css(styles.mutedText)}>Rewards data not available</p>
-							)}
-						</CardContent>
-					</Card>
-
-					{/* Validator History - only show if there's data */}
-					{(validator.creation_height || validator.first_seen_tx) && (
+								) : (
+									<p className={css(styles.mutedText)}>Performance data not available</p>
+								)}
+							</CardContent>
+						</Card>
+
+						{/* Lifetime Rewards */}
 						<Card>
 							<CardHeader>
-								<CardTitle>Validator History</CardTitle>
+								<CardTitle className={css(styles.stakingTitle)}>
+									<Award className={css(styles.stakingIcon)} />
+									Lifetime Earnings
+								</CardTitle>
 							</CardHeader>
 							<CardContent>
-								<div className={css(styles.sidebarFields)}>
-									{validator.creation_height && (
+								{rewardsLoading ? (
+									<div className={css(styles.loadingContainer)}>
+										<Skeleton className={css(styles.skeleton)} />
+									</div>
+								) : totalRewards ? (
+									<div className={css(styles.sidebarFields)}>
 										<div className={css(styles.sidebarRow)}>
-											<span className={css(styles.sidebarLabel)}>
-												Creation Height
+											<span className={css(styles.sidebarLabel)}>Total Rewards</span>
+											<span className={css(styles.sidebarValue)}>
+												{formatDenomAmount(totalRewards.total_rewards, baseDenom, { maxDecimals: 2 })} {displayDenom}
 											</span>
-											<Link
-												to={`/blocks/${validator.creation_height}`}
-												className={css(styles.txLink)}
-											>
-												#{validator.creation_height.toLocaleString()}
-											</Link>
 										</div>
-									)}
-									{validator.first_seen_tx && (
 										<div className={css(styles.sidebarRow)}>
-											<span className={css(styles.sidebarLabel)}>
-												First Seen Tx
+											<span className={css(styles.sidebarLabel)}>Total Commission</span>
+											<span className={css(styles.sidebarValue)}>
+												{formatDenomAmount(totalRewards.total_commission, baseDenom, { maxDecimals: 2 })} {displayDenom}
 											</span>
-											<Link
-												to={`/tx/${validator.first_seen_tx}`}
-												className={css(styles.txLink)}
-											>
-												{formatAddress(validator.first_seen_tx, 6)}
-											</Link>
 										</div>
-									)}
-								</div>
+										<div className={css(styles.sidebarRow)}>
+											<span className={css(styles.sidebarLabel)}>Active Blocks</span>
+											<span className={css(styles.sidebarValue)}>
+												{totalRewards.blocks_with_rewards.toLocaleString()}
+											</span>
+										</div>
+									</div>
+								) : (
+									<p className={css(styles.mutedText)}>Rewards data not available</p>
+								)}
 							</CardContent>
 						</Card>
-					)}
 
-					{/* IPFS Info */}
-					{validator.ipfs_peer_id && (
-						<Card>
-							<CardHeader>
-								<CardTitle>IPFS</CardTitle>
-							</CardHeader>
-							<CardContent>
-								<div className={css(styles.sidebarFields)}>
-									<div className={css(styles.field)}>
-										<label className={css(styles.fieldLabel)}>
-											Peer ID
-										</label>
-										<p className={css(styles.monoValueSmall)}>
-											{validator.ipfs_peer_id}
-										</p>
+						{/* Validator History - only show if there's data */}
+						{(validator.creation_height || validator.first_seen_tx) && (
+							<Card>
+								<CardHeader>
+									<CardTitle>Validator History</CardTitle>
+								</CardHeader>
+								<CardContent>
+									<div className={css(styles.sidebarFields)}>
+										{validator.creation_height && (
+											<div className={css(styles.sidebarRow)}>
+												<span className={css(styles.sidebarLabel)}>
+													Creation Height
+												</span>
+												<Link
+													to={`/blocks/${validator.creation_height}`}
+													className={css(styles.txLink)}
+												>
+													#{validator.creation_height.toLocaleString()}
+												</Link>
+											</div>
+										)}
+										{validator.first_seen_tx && (
+											<div className={css(styles.sidebarRow)}>
+												<span className={css(styles.sidebarLabel)}>
+													First Seen Tx
+												</span>
+												<Link
+													to={`/tx/${validator.first_seen_tx}`}
+													className={css(styles.txLink)}
+												>
+													{formatAddress(validator.first_seen_tx, 6)}
+												</Link>
+											</div>
+										)}
 									</div>
-									{validator.ipfs_multiaddrs && validator.ipfs_multiaddrs.length > 0 && (
+								</CardContent>
+							</Card>
+						)}
+
+						{/* IPFS Info */}
+						{validator.ipfs_peer_id && (
+							<Card>
+								<CardHeader>
+									<CardTitle>IPFS</CardTitle>
+								</CardHeader>
+								<CardContent>
+									<div className={css(styles.sidebarFields)}>
 										<div className={css(styles.field)}>
 											<label className={css(styles.fieldLabel)}>
-												Multiaddrs ({validator.ipfs_multiaddrs.length})
+												Peer ID
 											</label>
-											{validator.ipfs_multiaddrs.map((addr, i) => (
-												<p key={i} className={css(styles.monoValueSmall)}>
-													{addr}
-												</p>
-											))}
+											<p className={css(styles.monoValueSmall)}>
+												{validator.ipfs_peer_id}
+											</p>
 										</div>
-									)}
-								</div>
-							</CardContent>
-						</Card>
-					)}
+										{validator.ipfs_multiaddrs && validator.ipfs_multiaddrs.length > 0 && (
+											<div className={css(styles.field)}>
+												<label className={css(styles.fieldLabel)}>
+													Multiaddrs ({validator.ipfs_multiaddrs.length})
+												</label>
+												{validator.ipfs_multiaddrs.map((addr, i) => (
+													<p key={i} className={css(styles.monoValueSmall)}>
+														{addr}
+													</p>
+												))}
+											</div>
+										)}
+									</div>
+								</CardContent>
+							</Card>
+						)}
 
+					</div>
 				</div>
-			</div>
+			)}
 
 			{/* Staking Modals */}
 			<DelegateModal
@@ -703,6 +750,38 @@ const styles = {
 		gap: "6",
 		w: "full",
 	},
+	tabContainer: {
+		display: "flex",
+		alignItems: "center",
+		gap: "4",
+		borderBottom: "1px solid",
+		borderColor: "border.default",
+		pb: "2",
+	},
+	tabActive: {
+		fontSize: "sm",
+		fontWeight: "semibold",
+		color: "fg.default",
+		pb: "2",
+		cursor: "pointer",
+		bg: "transparent",
+		border: "none",
+		borderBottomWidth: "2px",
+		borderBottomStyle: "solid",
+		borderBottomColor: "accent.default",
+	},
+	tabInactive: {
+		fontSize: "sm",
+		fontWeight: "medium",
+		color: "fg.muted",
+		pb: "2",
+		cursor: "pointer",
+		bg: "transparent",
+		border: "none",
+		borderBottom: "2px solid transparent",
+		_hover: { color: "fg.default" },
+	},
+
 	backLink: {
 		display: "flex",
 		alignItems: "center",
@@ -721,6 +800,10 @@ const styles = {
 		alignItems: "center",
 		gap: "3",
 	},
+	titleActions: {
+		ml: "auto",
+	},
+
 	titleIcon: {
 		h: "6",
 		w: "6",
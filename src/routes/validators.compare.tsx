@@ -0,0 +1,699 @@
+import { useMemo, useState } from "react"
+import { useQueries, useQuery } from "@tanstack/react-query"
+import { Link, useSearchParams } from "react-router"
+import { formatUnits } from "viem"
+import { Activity, ArrowLeft, Award, Cpu, Plus, Shield, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ValidatorAvatar } from "@/components/ValidatorAvatar"
+import { type OverlaySeries, ValidatorOverlayChart } from "@/components/analytics/ValidatorOverlayChart"
+import { api, getValidatorSelfDelegationLive } from "@/lib/api"
+import { validatorToCosmosAddress } from "@/lib/address"
+import { getChainInfo } from "@/lib/chain-info"
+import { getChartTheme } from "@/lib/chart-theme"
+import { getDenomMetadata } from "@/lib/denom"
+import { formatAddress, formatTimeAgo } from "@/lib/utils"
+import { css, cx } from "@/styled-system/css"
+
+const MIN_COMPARE = 2
+const MAX_COMPARE = 5
+
+/** Blocks per point on the rolling uptime chart */
+const UPTIME_WINDOW = 20
+
+/**
+ * Normalizes a commission rate (stored as 0-1 decimal) to a percentage.
+ * Defensively handles leftover Cosmos SDK Dec format (10^18) values.
+ */
+function commissionPct(rate: number | null | undefined): number | null {
+	if (rate === null || rate === undefined) return null
+	let normalized = rate
+	if (normalized > 1e6) normalized = normalized / 1e18
+	return normalized > 1 ? normalized : normalized * 100
+}
+
+/** Parses the comma separated addrs param, keeping order and dropping duplicates */
+function parseAddrs(value: string | null): string[] {
+	if (!value) return []
+	return Array.from(new Set(value.split(",").map((a) => a.trim()).filter(Boolean))).slice(0, MAX_COMPARE)
+}
+
+function toDisplayAmount(amount: string | number | null | undefined, denom: string): number | null {
+	if (amount === null || amount === undefined) return null
+	try {
+		return Number(formatUnits(BigInt(String(amount).split(".")[0] || "0"), getDenomMetadata(denom).decimals))
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Everything fetched per compared validator
+ */
+async function loadValidator(operatorAddress: string) {
+	const detail = await api.getValidatorDetail(operatorAddress)
+	let accountAddress: string | null = null
+	try {
+		accountAddress = validatorToCosmosAddress(operatorAddress)
+	} catch {
+		// Leave self-delegation and compute account matching empty
+	}
+
+	const [selfDelegation, jailing, compute, rewards, signatures] = await Promise.all([
+		accountAddress ? getValidatorSelfDelegationLive(operatorAddress, accountAddress).catch(() => null) : null,
+		api.getValidatorJailingEvents(operatorAddress, 20).catch(() => []),
+		api.getValidatorComputeProfile(operatorAddress, accountAddress, 200).catch(() => null),
+		api.getValidatorRewardsHistory(operatorAddress, 100).catch(() => []),
+		detail?.consensus_address
+			? api.getValidatorBlockSignatures(detail.consensus_address, 200).catch(() => [])
+			: [],
+	])
+
+	return { detail, selfDelegation, jailing, compute, rewards, signatures }
+}
+
+type BetterWhen = "high" | "low" | null
+
+interface MetricRow {
+	label: string
+	values: Array<number | null>
+	format: (value: number, index: number) => string
+	better: BetterWhen
+}
+
+/** Index of the best value in a row, or -1 when there is no clear winner */
+function bestIndex(values: Array<number | null>, better: BetterWhen): number {
+	if (!better) return -1
+	let best = -1
+	for (let i = 0; i < values.length; i++) {
+		const value = values[i]
+		if (value === null) continue
+		const current = best === -1 ? null : values[best]
+		if (current === null || (better === "high" ? value > current : value < current)) best = i
+	}
+	const winners = values.filter((v) => v !== null && best !== -1 && v === values[best]).length
+	return winners === 1 ? best : -1
+}
+
+export default function ValidatorComparePage() {
+	const [searchParams, setSearchParams] = useSearchParams()
+	const addrs = useMemo(() => parseAddrs(searchParams.get("addrs")), [searchParams])
+	const [search, setSearch] = useState("")
+
+	const setAddrs = (next: string[]) => {
+		setSearchParams(next.length > 0 ? { addrs: next.join(",") } : {})
+	}
+
+	const { data: chainInfo } = useQuery({
+		queryKey: ["chain-info"],
+		queryFn: () => getChainInfo(api),
+		staleTime: Infinity,
+	})
+	const baseDenom = chainInfo?.baseDenom || "unknown"
+	const displayDenom = chainInfo?.displayDenom || "UNKNOWN"
+
+	const { data: signingStats = [] } = useQuery({
+		queryKey: ["validators-signing-stats"],
+		queryFn: () => api.getValidatorsWithSigningStats(500),
+		staleTime: 60000,
+	})
+
+	const { data: leaderboard = [] } = useQuery({
+		queryKey: ["validator-leaderboard"],
+		queryFn: () => api.getValidatorLeaderboard(),
+		staleTime: 60000,
+	})
+
+	const validatorQueries = useQueries({
+		queries: addrs.map((address) => ({
+			queryKey: ["validator-compare", address],
+			queryFn: () => loadValidator(address),
+			staleTime: 60000,
+		})),
+	})
+
+	const suggestions = useMemo(() => {
+		const term = search.trim().toLowerCase()
+		if (!term) return []
+		return signingStats
+			.filter((v) => !addrs.includes(v.operator_address))
+			.filter((v) => v.moniker?.toLowerCase().includes(term) || v.operator_address.toLowerCase().includes(term))
+			.slice(0, 8)
+	}, [search, signingStats, addrs])
+
+	// Series colors from the chart palette, one per compared validator
+	const compareColors = getChartTheme().series
+	const columns = addrs.map((address, i) => {
+		const loaded = validatorQueries[i]?.data
+		const stats = signingStats.find((v) => v.operator_address === address)
+		const board = leaderboard.find((v) => v.operator_address === address)
+		return {
+			address,
+			color: compareColors[i % compareColors.length],
+			name: loaded?.detail?.moniker || stats?.moniker || board?.moniker || formatAddress(address, 8),
+			isLoading: validatorQueries[i]?.isLoading ?? true,
+			loaded,
+			stats,
+			board,
+		}
+	})
+
+	const rows: MetricRow[] = [
+		{
+			label: "Commission",
+			values: columns.map((c) => commissionPct(c.loaded?.detail?.commission_rate ?? c.stats?.commission_rate)),
+			format: (v) => `${v.toFixed(2)}%`,
+			better: "low",
+		},
+		{
+			label: "Max Commission",
+			values: columns.map((c) => commissionPct(c.loaded?.detail?.commission_max_rate)),
+			format: (v) => `${v.toFixed(2)}%`,
+			better: "low",
+		},
+		{
+			label: "Max Change Rate",
+			values: columns.map((c) => commissionPct(c.loaded?.detail?.commission_max_change_rate)),
+			format: (v) => `${v.toFixed(2)}%`,
+			better: "low",
+		},
+		{
+			label: "Voting Power",
+			values: columns.map((c) => c.stats?.voting_power_pct ?? c.loaded?.detail?.voting_power_pct ?? null),
+			format: (v) => `${v.toFixed(2)}%`,
+			better: null,
+		},
+		{
+			label: "Uptime",
+			values: columns.map((c) => c.stats?.signing_percentage ?? c.loaded?.detail?.signing_percentage ?? null),
+			format: (v) => `${v.toFixed(2)}%`,
+			better: "high",
+		},
+		{
+			label: "Blocks Missed",
+			values: columns.map((c) => c.stats?.blocks_missed ?? c.loaded?.detail?.blocks_missed ?? null),
+			format: (v) => v.toLocaleString(),
+			better: "low",
+		},
+		{
+			label: "Lifetime Rewards",
+			values: columns.map((c) => toDisplayAmount(c.board?.lifetime_rewards, baseDenom)),
+			format: (v) => `${v.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${displayDenom}`,
+			better: "high",
+		},
+		{
+			label: "Lifetime Commission",
+			values: columns.map((c) => toDisplayAmount(c.board?.lifetime_commission, baseDenom)),
+			format: (v) => `${v.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${displayDenom}`,
+			better: null,
+		},
+		{
+			label: "Self-Delegation",
+			values: columns.map((c) => (c.loaded?.selfDelegation ? toDisplayAmount(c.loaded.selfDelegation.amount, c.loaded.selfDelegation.denom) : null)),
+			format: (v) => `${v.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${displayDenom}`,
+			better: "high",
+		},
+		{
+			label: "Delegators",
+			values: columns.map((c) => c.loaded?.detail?.delegator_count ?? c.board?.delegator_count ?? null),
+			format: (v) => v.toLocaleString(),
+			better: "high",
+		},
+		{
+			label: "Times Jailed",
+			values: columns.map((c) => c.board?.jail_count ?? c.loaded?.jailing.length ?? null),
+			format: (v) => v.toLocaleString(),
+			better: "low",
+		},
+		{
+			label: "Compute Success",
+			values: columns.map((c) => c.loaded?.compute?.success_rate ?? null),
+			format: (v, i) => `${v.toFixed(1)}% of ${(columns[i].loaded?.compute?.completed_jobs ?? 0) + (columns[i].loaded?.compute?.failed_jobs ?? 0)}`,
+			better: "high",
+		},
+	]
+
+	const uptimeSeries: OverlaySeries[] = columns.map((c) => {
+		const sigs = [...(c.loaded?.signatures ?? [])].sort((a, b) => a.height - b.height)
+		const data: Array<[number, number]> = []
+		for (let end = UPTIME_WINDOW; end <= sigs.length; end++) {
+			const window = sigs.slice(end - UPTIME_WINDOW, end)
+			data.push([sigs[end - 1].height, (window.filter((s) => s.signed).length / UPTIME_WINDOW) * 100])
+		}
+		return { name: c.name, color: c.color, data }
+	})
+
+	const rewardsSeries: OverlaySeries[] = columns.map((c) => ({
+		name: c.name,
+		color: c.color,
+		data: [...(c.loaded?.rewards ?? [])]
+			.filter((r) => r.block_time)
+			.sort((a, b) => a.height - b.height)
+			.map((r) => [r.block_time as string, toDisplayAmount(r.rewards, baseDenom)]),
+	}))
+
+	const computeSeries: OverlaySeries[] = columns.map((c) => ({
+		name: c.name,
+		color: c.color,
+		data: (c.loaded?.compute?.daily ?? []).map((d) => [d.date, d.success_rate]),
+	}))
+
+	return (
+		<div className={css(styles.container)}>
+			<Link to="/validators" className={css(styles.backLink)}>
+				<ArrowLeft className={css(styles.backIcon)} />
+				Back to Validators
+			</Link>
+
+			<div>
+				<h1 className={css(styles.title)}>Compare Validators</h1>
+				<p className={css(styles.subtitle)}>
+					Pick {MIN_COMPARE} to {MAX_COMPARE} validators to compare side by side. The selection is saved in the page URL.
+				</p>
+			</div>
+
+			{/* Selection */}
+			<Card>
+				<CardContent className={css(styles.selectionContent)}>
+					<div className={css(styles.selectedList)}>
+						{columns.map((c) => (
+							<Badge key={c.address} variant="outline" className={css(styles.selectedChip)}>
+								<span className={css(styles.colorDot)} style={{ background: c.color }} />
+								{c.name}
+								<button
+									type="button"
+									className={css(styles.chipRemove)}
+									onClick={() => setAddrs(addrs.filter((a) => a !== c.address))}
+									aria-label={`Remove ${c.name}`}
+								>
+									<X className={css(styles.chipIcon)} />
+								</button>
+							</Badge>
+						))}
+						{addrs.length === 0 && <span className={css(styles.mutedText)}>No validators selected</span>}
+					</div>
+					{addrs.length < MAX_COMPARE && (
+						<div className={css(styles.searchWrapper)}>
+							<input
+								type="text"
+								placeholder="Add a validator by moniker or operator address..."
+								value={search}
+								onChange={(e) => setSearch(e.target.value)}
+								className={css(styles.searchInput)}
+							/>
+							{suggestions.length > 0 && (
+								<div className={css(styles.suggestions)}>
+									{suggestions.map((v) => (
+										<button
+											key={v.operator_address}
+											type="button"
+											className={css(styles.suggestion)}
+											onClick={() => {
+												setAddrs([...addrs, v.operator_address])
+												setSearch("")
+											}}
+										>
+											<Plus className={css(styles.chipIcon)} />
+											<span className={css(styles.suggestionName)}>{v.moniker || "Unknown"}</span>
+											<span className={css(styles.suggestionAddress)}>{formatAddress(v.operator_address, 8)}</span>
+										</button>
+									))}
+								</div>
+							)}
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			{addrs.length < MIN_COMPARE ? (
+				<Card>
+					<CardContent>
+						<div className={css(styles.emptyState)}>
+							<Shield className={css(styles.emptyIcon)} />
+							<h3 className={css(styles.emptyTitle)}>Select Validators</h3>
+							<p className={css(styles.emptyText)}>
+								Add at least {MIN_COMPARE} validators above, or pick them from the validator list.
+							</p>
+						</div>
+					</CardContent>
+				</Card>
+			) : (
+				<>
+					{/* Metrics table */}
+					<Card>
+						<CardHeader>
+							<CardTitle>Side by Side</CardTitle>
+							<CardDescription>Best value in each row is highlighted</CardDescription>
+						</CardHeader>
+						<CardContent className={css(styles.tableWrapper)}>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead className={css(styles.metricHead)}>Metric</TableHead>
+										{columns.map((c) => (
+											<TableHead key={c.address}>
+												<Link to={`/validators/${c.address}`} className={css(styles.validatorHead)}>
+													<ValidatorAvatar identity={c.loaded?.detail?.identity ?? null} moniker={c.name} />
+													<span className={css(styles.validatorName)}>{c.name}</span>
+												</Link>
+											</TableHead>
+										))}
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									<TableRow>
+										<TableCell className={css(styles.metricLabel)}>Status</TableCell>
+										{columns.map((c) => (
+											<TableCell key={c.address}>
+												{c.isLoading ? (
+													<Skeleton className={css(styles.cellSkeleton)} />
+												) : c.loaded?.detail?.jailed || c.stats?.jailed ? (
+													<Badge variant="destructive">Jailed</Badge>
+												) : (c.loaded?.detail?.status ?? c.stats?.status) === "BOND_STATUS_BONDED" ? (
+													<Badge variant="success">Active</Badge>
+												) : (
+													<Badge variant="outline">Inactive</Badge>
+												)}
+											</TableCell>
+										))}
+									</TableRow>
+									{rows.map((row) => {
+										const best = bestIndex(row.values, row.better)
+										return (
+											<TableRow key={row.label}>
+												<TableCell className={css(styles.metricLabel)}>{row.label}</TableCell>
+												{row.values.map((value, i) => (
+													<TableCell
+														key={columns[i].address}
+														className={cx(css(styles.metricValue), i === best && css(styles.metricBest))}
+													>
+														{columns[i].isLoading && value === null ? (
+															<Skeleton className={css(styles.cellSkeleton)} />
+														) : value === null ? (
+															"-"
+														) : (
+															row.format(value, i)
+														)}
+													</TableCell>
+												))}
+											</TableRow>
+										)
+									})}
+								</TableBody>
+							</Table>
+						</CardContent>
+					</Card>
+
+					{/* Overlaid charts */}
+					<div className={css(styles.chartsGrid)}>
+						<ValidatorOverlayChart
+							title="Recent Uptime"
+							description={`Share of blocks signed, rolling over ${UPTIME_WINDOW} blocks`}
+							icon={<Activity className={css(styles.cardIcon)} />}
+							series={uptimeSeries}
+							xType="value"
+							xName="Height"
+							percent
+							emptyText="No indexed block signatures"
+						/>
+						<ValidatorOverlayChart
+							title="Rewards History"
+							description={`Rewards recorded per snapshot, in ${displayDenom}`}
+							icon={<Award className={css(styles.cardIcon)} />}
+							series={rewardsSeries}
+							xType="time"
+							yName={displayDenom}
+							emptyText="No reward history indexed"
+						/>
+						<ValidatorOverlayChart
+							title="Compute Success Rate"
+							description="Daily share of resolved compute jobs that completed"
+							icon={<Cpu className={css(styles.cardIcon)} />}
+							series={computeSeries}
+							xType="time"
+							percent
+							emptyText="No resolved compute jobs"
+						/>
+					</div>
+
+					{/* Jailing history */}
+					<Card>
+						<CardHeader>
+							<CardTitle>Jailing History</CardTitle>
+							<CardDescription>Most recent slashing and jailing events</CardDescription>
+						</CardHeader>
+						<CardContent>
+							<div className={css(styles.jailGrid)}>
+								{columns.map((c) => (
+									<div key={c.address} className={css(styles.jailColumn)}>
+										<div className={css(styles.jailHeader)}>
+											<span className={css(styles.colorDot)} style={{ background: c.color }} />
+											{c.name}
+										</div>
+										{c.isLoading ? (
+											<Skeleton className={css(styles.cellSkeleton)} />
+										) : (c.loaded?.jailing.length ?? 0) === 0 ? (
+											<span className={css(styles.mutedText)}>Never jailed</span>
+										) : (
+											c.loaded?.jailing.map((ev) => (
+												<div key={`${ev.height}-${ev.event_type}`} className={css(styles.jailEvent)}>
+													<Link to={`/blocks/${ev.height}`} className={css(styles.jailHeight)}>
+														#{ev.height.toLocaleString()}
+													</Link>
+													<span className={css(styles.jailReason)}>{ev.reason || ev.event_type}</span>
+													<span className={css(styles.mutedText)}>{formatTimeAgo(ev.detected_at)}</span>
+												</div>
+											))
+										)}
+									</div>
+								))}
+							</div>
+						</CardContent>
+					</Card>
+
+				</>
+			)}
+		</div>
+	)
+}
+
+const styles = {
+	container: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		w: "full",
+	},
+	backLink: {
+		display: "inline-flex",
+		alignItems: "center",
+		gap: "2",
+		fontSize: "sm",
+		color: "fg.muted",
+		_hover: { color: "fg.default" },
+	},
+	backIcon: {
+		h: "4",
+		w: "4",
+	},
+	title: {
+		fontSize: "3xl",
+		fontWeight: "bold",
+	},
+	subtitle: {
+		color: "fg.muted",
+		marginTop: "1",
+	},
+	selectionContent: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "4",
+		py: "4",
+	},
+	selectedList: {
+		display: "flex",
+		flexWrap: "wrap",
+		alignItems: "center",
+		gap: "2",
+	},
+	selectedChip: {
+		display: "flex",
+		alignItems: "center",
+		gap: "1.5",
+	},
+	colorDot: {
+		display: "inline-block",
+		w: "2.5",
+		h: "2.5",
+		rounded: "full",
+		flexShrink: 0,
+	},
+	chipRemove: {
+		display: "flex",
+		cursor: "pointer",
+		color: "fg.muted",
+		_hover: { color: "fg.default" },
+	},
+	chipIcon: {
+		h: "3",
+		w: "3",
+	},
+	searchWrapper: {
+		position: "relative",
+		maxWidth: "500px",
+	},
+	searchInput: {
+		fontSize: "sm",
+		bg: "bg.muted",
+		border: "1px solid",
+		borderColor: "border.default",
+		rounded: "md",
+		px: "3",
+		py: "1.5",
+		color: "fg.default",
+		w: "full",
+		outline: "none",
+		_focus: { borderColor: "accent.default" },
+		_placeholder: { color: "fg.muted" },
+	},
+	suggestions: {
+		position: "absolute",
+		top: "full",
+		left: "0",
+		right: "0",
+		mt: "1",
+		zIndex: "10",
+		display: "flex",
+		flexDirection: "column",
+		bg: "bg.default",
+		border: "1px solid",
+		borderColor: "border.default",
+		rounded: "md",
+		shadow: "lg",
+		overflow: "hidden",
+	},
+	suggestion: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+		px: "3",
+		py: "2",
+		fontSize: "sm",
+		textAlign: "left",
+		cursor: "pointer",
+		_hover: { bg: "bg.muted" },
+	},
+	suggestionName: {
+		fontWeight: "medium",
+	},
+	suggestionAddress: {
+		fontFamily: "mono",
+		fontSize: "xs",
+		color: "fg.muted",
+		ml: "auto",
+	},
+	tableWrapper: {
+		overflowX: "auto",
+	},
+	metricHead: {
+		minW: "160px",
+	},
+	validatorHead: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+		_hover: { color: "accent.default" },
+	},
+	validatorName: {
+		fontWeight: "semibold",
+		whiteSpace: "nowrap",
+	},
+	metricLabel: {
+		fontSize: "sm",
+		color: "fg.muted",
+		fontWeight: "medium",
+	},
+	metricValue: {
+		fontFamily: "mono",
+		fontSize: "sm",
+	},
+	metricBest: {
+		color: "republicGreen.default",
+		fontWeight: "bold",
+	},
+	cellSkeleton: {
+		h: "5",
+		w: "20",
+	},
+	chartsGrid: {
+		display: "grid",
+		gridTemplateColumns: { base: "1fr", lg: "repeat(2, 1fr)" },
+		gap: "4",
+	},
+	cardIcon: {
+		h: "5",
+		w: "5",
+	},
+	jailGrid: {
+		display: "grid",
+		gridTemplateColumns: { base: "1fr", md: "repeat(auto-fit, minmax(200px, 1fr))" },
+		gap: "4",
+	},
+	jailColumn: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "2",
+	},
+	jailHeader: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+		fontWeight: "semibold",
+		fontSize: "sm",
+		pb: "2",
+		borderBottom: "1px solid",
+		borderColor: "border.default",
+	},
+	jailEvent: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "0.5",
+		fontSize: "sm",
+	},
+	jailHeight: {
+		fontFamily: "mono",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	jailReason: {
+		fontSize: "xs",
+	},
+	mutedText: {
+		fontSize: "sm",
+		color: "fg.muted",
+	},
+	emptyState: {
+		textAlign: "center",
+		py: "12",
+		color: "fg.muted",
+	},
+	emptyIcon: {
+		height: "12",
+		width: "12",
+		margin: "0 auto",
+		marginBottom: "4",
+		opacity: "0.5",
+	},
+	emptyTitle: {
+		fontSize: "lg",
+		fontWeight: "semibold",
+		color: "fg.default",
+		marginBottom: "2",
+	},
+	emptyText: {
+		maxWidth: "md",
+		margin: "0 auto",
+	},
+}
@@ -1,7 +1,7 @@
 import { useState, useMemo } from "react"
 import { useQuery } from "@tanstack/react-query"
 import { Link } from "react-router"
-import { Shield } from "lucide-react"
+import { Clock, GitCompare, Shield } from "lucide-react"
 import { type ColumnDef, createColumnHelper, type SortingState } from "@tanstack/react-table"
 import {
 	Card,
@@ -11,15 +11,22 @@ import {
 	CardTitle,
 } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Skeleton } from "@/components/ui/skeleton"
 import { DataTable } from "@/components/ui/data-table"
 import { ValidatorAvatar } from "@/components/ValidatorAvatar"
 import { api, type Validator } from "@/lib/api"
 import { formatAddress } from "@/lib/utils"
 import { formatDenomAmount } from "@/lib/denom"
+import { estimateValidatorYield, formatYield } from "@/lib/staking-yield"
+import { useStakingYieldParams } from "@/hooks/useStakingYield"
 import { getChainInfo } from "@/lib/chain-info"
 import { css } from "@/styled-system/css"
 
+/** Most validators the compare page accepts */
+const MAX_COMPARE = 5
+
 /** Checks if validator is active (bonded and not jailed) */
 function isActiveValidator(v: Validator): boolean {
 	return v.status === "BOND_STATUS_BONDED" && !v.jailed
@@ -157,6 +164,53 @@ export default function ValidatorsPage() {
 		{ id: "_activeRank", desc: false },
 		{ id: "moniker", desc: true },
 	])
+	const [compareSelection, setCompareSelection] = useState<string[]>([])
+
+	const { data: yieldParams } = useStakingYieldParams()
+
+	const columns = useMemo<ColumnDef<Validator, any>[]>(() => {
+		const toggleCompare = (address: string) => {
+			setCompareSelection((prev) =>
+				prev.includes(address)
+					? prev.filter((a) => a !== address)
+					: prev.length < MAX_COMPARE ? [...prev, address] : prev
+			)
+		}
+		const base: ColumnDef<Validator, any>[] = [
+			columnHelper.display({
+				id: "compare",
+				header: "",
+				size: 32,
+				enableSorting: false,
+				cell: ({ row }) => {
+					const selected = compareSelection.includes(row.original.operator_address)
+					return (
+						<Checkbox
+							checked={selected}
+							disabled={!selected && compareSelection.length >= MAX_COMPARE}
+							onCheckedChange={() => toggleCompare(row.original.operator_address)}
+							aria-label={`Compare ${row.original.moniker || row.original.operator_address}`}
+						/>
+					)
+				},
+			}),
+			...validatorColumns,
+		]
+		if (!yieldParams) return base
+		// Estimated APR slots in right after the commission column
+		const aprColumn = columnHelper.accessor(
+			(row) => estimateValidatorYield(yieldParams, row.commission_rate, row.signing_percentage).apr,
+			{
+				id: "apr",
+				header: "Est. APR",
+				cell: ({ getValue }) => <span className={css(styles.monoText)}>{formatYield(getValue())}</span>,
+			}
+		)
+		const commissionIndex = base.findIndex((c) => "accessorKey" in c && c.accessorKey === "commission_rate")
+		return commissionIndex === -1
+			? [...base, aprColumn]
+			: [...base.slice(0, commissionIndex + 1), aprColumn, ...base.slice(commissionIndex + 1)]
+	}, [compareSelection, yieldParams])
 
 	const { data: stats, isLoading: statsLoading } = useQuery({
 		queryKey: ["validator-stats"],
@@ -205,6 +259,27 @@ export default function ValidatorsPage() {
 						Network validator set and delegation activity
 					</p>
 				</div>
+				<div className={css(styles.headerActions)}>
+					<Button asChild variant="outline">
+						<Link to="/validators/unbonding">
+							<Clock className={css(styles.buttonIcon)} />
+							Unbonding Queue
+						</Link>
+					</Button>
+					{compareSelection.length >= 2 ? (
+						<Button asChild variant="outline">
+							<Link to={`/validators/compare?addrs=${compareSelection.join(",")}`}>
+								<GitCompare className={css(styles.buttonIcon)} />
+								Compare ({compareSelection.length})
+							</Link>
+						</Button>
+					) : (
+						<Button variant="outline" disabled title={`Tick 2 to ${MAX_COMPARE} validators to compare`}>
+							<GitCompare className={css(styles.buttonIcon)} />
+							Compare{compareSelection.length > 0 ? ` (${compareSelection.length})` : ""}
+						</Button>
+					)}
+				</div>
 			</div>
 
 			{/* Stats */}
@@ -282,7 +357,7 @@ export default function ValidatorsPage() {
 				</CardHeader>
 				<CardContent>
 					<DataTable
-						columns={validatorColumns}
+						columns={columns}
 						data={validators}
 						sorting={sorting}
 						onSortingChange={handleSortingChange}
@@ -328,6 +403,16 @@ const styles = {
 		color: "fg.muted",
 		marginTop: "1",
 	},
+	headerActions: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+	},
+	buttonIcon: {
+		h: "4",
+		w: "4",
+		mr: "1",
+	},
 	statsGrid: {
 		display: "grid",
 		gridTemplateColumns: {
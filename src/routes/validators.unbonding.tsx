@@ -0,0 +1,385 @@
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Link } from "react-router"
+import { formatUnits } from "viem"
+import { ArrowLeft, ArrowRight, Clock } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { UnbondingScheduleChart } from "@/components/analytics/UnbondingScheduleChart"
+import { api } from "@/lib/api"
+import { getChainInfo } from "@/lib/chain-info"
+import { getDenomMetadata } from "@/lib/denom"
+import { buildUnbondingQueue } from "@/lib/unbonding-queue"
+import { formatAddress, formatTimeUntil } from "@/lib/utils"
+import { css } from "@/styled-system/css"
+
+/** Rows shown per page in the upcoming entries table */
+const ENTRIES_PAGE_SIZE = 50
+
+export default function UnbondingQueuePage() {
+	const [entriesShown, setEntriesShown] = useState(ENTRIES_PAGE_SIZE)
+
+	const { data: chainInfo } = useQuery({
+		queryKey: ["chain-info"],
+		queryFn: () => getChainInfo(api),
+		staleTime: Infinity,
+	})
+	const baseDenom = chainInfo?.baseDenom || "arai"
+	const displayDenom = chainInfo?.displayDenom || "RAI"
+	const { decimals } = getDenomMetadata(baseDenom)
+
+	const { data: stats } = useQuery({
+		queryKey: ["validator-stats"],
+		queryFn: () => api.getValidatorStats(),
+		staleTime: 10_000,
+	})
+
+	const { data: queue, isLoading, error } = useQuery({
+		queryKey: ["unbonding-queue"],
+		queryFn: () => buildUnbondingQueue(),
+		staleTime: 300_000,
+	})
+
+	const formatStake = (value: bigint) =>
+		`${Number(formatUnits(value, decimals)).toLocaleString(undefined, { maximumFractionDigits: 2 })} ${displayDenom}`
+
+	const bondedShare = (value: bigint) => {
+		if (!stats?.total_bonded_tokens) return null
+		const bonded = Number(stats.total_bonded_tokens)
+		return bonded > 0 ? `${((Number(value) / bonded) * 100).toFixed(2)}% of bonded stake` : null
+	}
+
+	const nextUnlock = queue?.entries.find((e) => e.kind === "unbonding")
+
+	return (
+		<div className={css(styles.container)}>
+			<Link to="/validators" className={css(styles.backLink)}>
+				<ArrowLeft className={css(styles.backIcon)} />
+				Back to Validators
+			</Link>
+
+			<div>
+				<h1 className={css(styles.title)}>Unbonding Queue</h1>
+				<p className={css(styles.subtitle)}>
+					Network-wide unbondings and redelegations still in their
+					{queue ? ` ${Math.round(queue.unbondingSeconds / 86_400)} day` : ""} unbonding period, rebuilt from indexed delegation events.
+					Cancelled unbondings are netted out, and stake leaving validators that are already unbonded is
+					excluded because the chain releases it immediately.
+				</p>
+			</div>
+
+			{error ? (
+				<Card>
+					<CardContent>
+						<div className={css(styles.emptyState)}>
+							<Clock className={css(styles.emptyIcon)} />
+							<h3 className={css(styles.emptyTitle)}>Queue Unavailable</h3>
+							<p className={css(styles.emptyText)}>
+								{error instanceof Error ? error.message : "Failed to load delegation events"}
+							</p>
+						</div>
+					</CardContent>
+				</Card>
+			) : isLoading || !queue ? (
+				<>
+					<div className={css(styles.statsGrid)}>
+						{Array.from({ length: 4 }).map((_, i) => (
+							<Skeleton key={i} className={css(styles.statSkeleton)} />
+						))}
+					</div>
+					<Skeleton className={css(styles.chartSkeleton)} />
+				</>
+			) : (
+				<>
+					{/* Summary */}
+					<div className={css(styles.statsGrid)}>
+						<Card>
+							<CardContent className={css(styles.statCard)}>
+								<span className={css(styles.statLabel)}>Unbonding</span>
+								<span className={css(styles.statValue)}>{formatStake(queue.totalUnbonding)}</span>
+								<span className={css(styles.statHint)}>{bondedShare(queue.totalUnbonding) ?? " "}</span>
+							</CardContent>
+						</Card>
+						<Card>
+							<CardContent className={css(styles.statCard)}>
+								<span className={css(styles.statLabel)}>Unlocking in 7 Days</span>
+								<span className={css(styles.statValue)}>{formatStake(queue.unbondingNextWeek)}</span>
+								<span className={css(styles.statHint)}>
+									{nextUnlock ? `Next in ${formatTimeUntil(nextUnlock.completes_at) ?? "moments"}` : "No unlocks scheduled"}
+								</span>
+							</CardContent>
+						</Card>
+						<Card>
+							<CardContent className={css(styles.statCard)}>
+								<span className={css(styles.statLabel)}>Redelegating</span>
+								<span className={css(styles.statValue)}>{formatStake(queue.totalRedelegating)}</span>
+								<span className={css(styles.statHint)}>Stays bonded while moving</span>
+							</CardContent>
+						</Card>
+						<Card>
+							<CardContent className={css(styles.statCard)}>
+								<span className={css(styles.statLabel)}>Queue Entries</span>
+								<span className={css(styles.statValue)}>{queue.entryCount.toLocaleString()}</span>
+								<span className={css(styles.statHint)}>Across {queue.byValidator.length} validators</span>
+							</CardContent>
+						</Card>
+					</div>
+
+					<UnbondingScheduleChart daily={queue.daily} decimals={decimals} symbol={displayDenom} />
+
+					{/* By validator */}
+					<Card>
+						<CardHeader>
+							<CardTitle>By Validator</CardTitle>
+							<CardDescription>Stake leaving and arriving at each validator</CardDescription>
+						</CardHeader>
+						<CardContent className={css(styles.tableWrapper)}>
+							{queue.byValidator.length === 0 ? (
+								<p className={css(styles.mutedText)}>No validators have queued stake</p>
+							) : (
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Validator</TableHead>
+											<TableHead>Unbonding</TableHead>
+											<TableHead>Redelegating Out</TableHead>
+											<TableHead>Redelegating In</TableHead>
+											<TableHead>Entries</TableHead>
+											<TableHead>Next Completion</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{queue.byValidator.map((v) => (
+											<TableRow key={v.validator}>
+												<TableCell>
+													<Link to={`/validators/${v.validator}`} className={css(styles.link)}>
+														{v.moniker || formatAddress(v.validator, 10)}
+													</Link>
+												</TableCell>
+												<TableCell className={css(styles.monoText)}>{formatStake(v.unbonding)}</TableCell>
+												<TableCell className={css(styles.monoText)}>{formatStake(v.redelegating_out)}</TableCell>
+												<TableCell className={css(styles.monoText)}>{formatStake(v.redelegating_in)}</TableCell>
+												<TableCell className={css(styles.monoText)}>{v.entries}</TableCell>
+												<TableCell className={css(styles.monoText)}>
+													{v.next_completion ? (formatTimeUntil(v.next_completion) ?? "-") : "-"}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							)}
+						</CardContent>
+					</Card>
+
+					{/* Upcoming entries */}
+					<Card>
+						<CardHeader>
+							<CardTitle>Upcoming Completions</CardTitle>
+							<CardDescription>
+								{queue.entryCount > queue.entries.length
+									? `Soonest ${queue.entries.length.toLocaleString()} of ${queue.entryCount.toLocaleString()}; totals above cover every entry`
+									: "Soonest first"}
+							</CardDescription>
+						</CardHeader>
+						<CardContent className={css(styles.tableWrapper)}>
+							{queue.entries.length === 0 ? (
+								<p className={css(styles.mutedText)}>Nothing is unbonding or redelegating right now</p>
+							) : (
+								<>
+									<Table>
+										<TableHeader>
+											<TableRow>
+												<TableHead>Type</TableHead>
+												<TableHead>Delegator</TableHead>
+												<TableHead>Validator</TableHead>
+												<TableHead>Amount</TableHead>
+												<TableHead>Completes</TableHead>
+												<TableHead>Tx</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{queue.entries.slice(0, entriesShown).map((e) => (
+												<TableRow key={e.id}>
+													<TableCell>
+														<Badge variant={e.kind === "unbonding" ? "warning" : "outline"}>
+															{e.kind === "unbonding" ? "Unbonding" : "Redelegation"}
+														</Badge>
+													</TableCell>
+													<TableCell>
+														{e.delegator ? (
+															<Link to={`/addr/${e.delegator}`} className={css(styles.link)}>
+																{formatAddress(e.delegator, 8)}
+															</Link>
+														) : (
+															"-"
+														)}
+													</TableCell>
+													<TableCell>
+														<span className={css(styles.validatorCell)}>
+															<Link to={`/validators/${e.validator}`} className={css(styles.link)}>
+																{formatAddress(e.validator, 8)}
+															</Link>
+															{e.dst_validator && (
+																<>
+																	<ArrowRight className={css(styles.arrowIcon)} />
+																	<Link to={`/validators/${e.dst_validator}`} className={css(styles.link)}>
+																		{formatAddress(e.dst_validator, 8)}
+																	</Link>
+																</>
+															)}
+														</span>
+													</TableCell>
+													<TableCell className={css(styles.monoText)}>{formatStake(e.amount)}</TableCell>
+													<TableCell>
+														<span className={css(styles.monoText)} title={new Date(e.completes_at).toLocaleString()}>
+															{formatTimeUntil(e.completes_at) ?? "-"}
+														</span>
+													</TableCell>
+													<TableCell>
+														<Link to={`/tx/${e.tx_hash}`} className={css(styles.link)}>
+															{formatAddress(e.tx_hash, 6)}
+														</Link>
+													</TableCell>
+												</TableRow>
+											))}
+										</TableBody>
+									</Table>
+									{entriesShown < queue.entries.length && (
+										<div className={css(styles.showMore)}>
+											<Button variant="outline" onClick={() => setEntriesShown((n) => n + ENTRIES_PAGE_SIZE)}>
+												Show more ({queue.entries.length - entriesShown} remaining)
+											</Button>
+										</div>
+									)}
+								</>
+							)}
+						</CardContent>
+					</Card>
+				</>
+			)}
+		</div>
+	)
+}
+
+const styles = {
+	container: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		w: "full",
+	},
+	backLink: {
+		display: "inline-flex",
+		alignItems: "center",
+		gap: "2",
+		fontSize: "sm",
+		color: "fg.muted",
+		_hover: { color: "fg.default" },
+	},
+	backIcon: {
+		h: "4",
+		w: "4",
+	},
+	title: {
+		fontSize: "3xl",
+		fontWeight: "bold",
+	},
+	subtitle: {
+		color: "fg.muted",
+		marginTop: "1",
+	},
+	statsGrid: {
+		display: "grid",
+		gridTemplateColumns: {
+			base: "repeat(2, 1fr)",
+			md: "repeat(4, 1fr)",
+		},
+		gap: "4",
+	},
+	statSkeleton: {
+		h: "24",
+		w: "full",
+	},
+	chartSkeleton: {
+		h: "320px",
+		w: "full",
+	},
+	statCard: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "1",
+		py: "4",
+	},
+	statLabel: {
+		fontSize: "xs",
+		fontWeight: "medium",
+		color: "fg.muted",
+		textTransform: "uppercase",
+		letterSpacing: "wider",
+	},
+	statValue: {
+		fontSize: "2xl",
+		fontWeight: "bold",
+	},
+	statHint: {
+		fontSize: "xs",
+		color: "fg.muted",
+	},
+	tableWrapper: {
+		overflowX: "auto",
+	},
+	link: {
+		fontFamily: "mono",
+		fontSize: "sm",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	monoText: {
+		fontFamily: "mono",
+		fontSize: "sm",
+	},
+	validatorCell: {
+		display: "flex",
+		alignItems: "center",
+		gap: "1.5",
+	},
+	arrowIcon: {
+		h: "3",
+		w: "3",
+		color: "fg.muted",
+	},
+	showMore: {
+		display: "flex",
+		justifyContent: "center",
+		pt: "4",
+	},
+	mutedText: {
+		fontSize: "sm",
+		color: "fg.muted",
+	},
+	emptyState: {
+		textAlign: "center",
+		py: "12",
+		color: "fg.muted",
+	},
+	emptyIcon: {
+		height: "12",
+		width: "12",
+		margin: "0 auto",
+		marginBottom: "4",
+		opacity: "0.5",
+	},
+	emptyTitle: {
+		fontSize: "lg",
+		fontWeight: "semibold",
+		color: "fg.default",
+		marginBottom: "2",
+	},
+	emptyText: {
+		maxWidth: "md",
+		margin: "0 auto",
+	},
+}
@@ -0,0 +1,388 @@
+import { useQuery } from "@tanstack/react-query"
+import { Link } from "react-router"
+import { Bell, BellOff, RefreshCw, Star, Trash2 } from "lucide-react"
+import { type ColumnDef, createColumnHelper } from "@tanstack/react-table"
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { DataTable } from "@/components/ui/data-table"
+import { useDenom } from "@/contexts/DenomContext"
+import { useWatchlist } from "@/contexts/WatchlistContext"
+import { api, getAccountBalances } from "@/lib/api"
+import { isCosmosAddress } from "@/lib/address"
+import { formatDenomAmount } from "@/lib/denom"
+import { formatTimeAgo } from "@/lib/utils"
+import { type WatchKind, type WatchlistEntry, watchlistHref, watchlistLabel } from "@/lib/watchlist"
+import { css, cx } from "@/styled-system/css"
+
+const KIND_LABELS: Record<WatchKind, string> = {
+	address: "Account",
+	validator: "Validator",
+	contract: "Contract",
+}
+
+/** Bech32 account holding the entry's balance (validators hold it on their account address) */
+function balanceAddress(entry: WatchlistEntry): string | null {
+	if (entry.kind === "validator") return entry.altAddress
+	if (isCosmosAddress(entry.address)) return entry.address
+	return entry.altAddress && isCosmosAddress(entry.altAddress) ? entry.altAddress : null
+}
+
+function EntryBalance({ entry }: { entry: WatchlistEntry }) {
+	const { getDenomDisplay } = useDenom()
+	const address = balanceAddress(entry)
+	const { data: balances, isLoading } = useQuery({
+		queryKey: ["account-balances", address],
+		queryFn: () => getAccountBalances(address as string),
+		enabled: !!address,
+		staleTime: 30000,
+	})
+
+	if (!address) return <span className={css(styles.mutedText)}>-</span>
+	if (isLoading) return <span className={css(styles.mutedText)}>Loading...</span>
+	if (!balances?.length) return <span className={css(styles.mutedText)}>0</span>
+
+	return (
+		<div className={css(styles.balanceList)}>
+			{balances.slice(0, 2).map((b) => (
+				<span key={b.denom} className={css(styles.monoText)}>
+					{formatDenomAmount(b.amount, b.denom, { maxDecimals: 4 })} {getDenomDisplay(b.denom)}
+				</span>
+			))}
+			{balances.length > 2 && (
+				<span className={css(styles.mutedText)}>+{balances.length - 2} more</span>
+			)}
+		</div>
+	)
+}
+
+function EntryActivity({ entry }: { entry: WatchlistEntry }) {
+	const address = entry.kind === "validator" ? entry.altAddress : entry.address
+	const { data: stats } = useQuery({
+		queryKey: ["address-stats", address, entry.kind === "validator" ? null : entry.altAddress],
+		queryFn: () =>
+			api.getAddressStats(address as string, entry.kind === "validator" ? undefined : entry.altAddress || undefined),
+		enabled: !!address,
+		staleTime: 30000,
+	})
+
+	return (
+		<span className={css(styles.mutedText)}>
+			{stats?.last_seen ? formatTimeAgo(stats.last_seen) : "-"}
+		</span>
+	)
+}
+
+const entryHelper = createColumnHelper<WatchlistEntry>()
+
+export default function WatchlistPage() {
+	const {
+		entries,
+		alerts,
+		unreadCount,
+		remove,
+		markAllRead,
+		clearAlerts,
+		notificationPermission,
+		requestNotifications,
+		checkNow,
+		isChecking,
+	} = useWatchlist()
+
+	const columns: ColumnDef<WatchlistEntry, any>[] = [
+		entryHelper.accessor("address", {
+			header: "Name",
+			enableSorting: false,
+			cell: ({ row }) => (
+				<div className={css(styles.nameCell)}>
+					<Link to={watchlistHref(row.original)} className={css(styles.nameLink)}>
+						{watchlistLabel(row.original)}
+					</Link>
+					{row.original.label && (
+						<span className={css(styles.addressText)}>{row.original.address}</span>
+					)}
+				</div>
+			),
+		}),
+		entryHelper.accessor("kind", {
+			header: "Type",
+			enableSorting: false,
+			cell: ({ row }) => <Badge variant="outline">{KIND_LABELS[row.original.kind]}</Badge>,
+		}),
+		entryHelper.display({
+			id: "balance",
+			header: "Balance",
+			cell: ({ row }) => <EntryBalance entry={row.original} />,
+		}),
+		entryHelper.accessor("txCount", {
+			header: "Transactions",
+			enableSorting: false,
+			cell: ({ row }) => row.original.txCount?.toLocaleString() ?? "-",
+		}),
+		entryHelper.display({
+			id: "lastActivity",
+			header: "Last Activity",
+			cell: ({ row }) => <EntryActivity entry={row.original} />,
+		}),
+		entryHelper.display({
+			id: "actions",
+			header: "",
+			cell: ({ row }) => (
+				<Button
+					variant="ghost"
+					size="sm"
+					onClick={() => remove(row.original.address)}
+					title="Remove from watchlist"
+				>
+					<Trash2 className={css(styles.actionIcon)} />
+				</Button>
+			),
+		}),
+	]
+
+	return (
+		<div className={css(styles.container)}>
+			{/* Header */}
+			<div className={css(styles.header)}>
+				<div>
+					<h1 className={css(styles.title)}>Watchlist</h1>
+					<p className={css(styles.subtitle)}>
+						Starred addresses, validators and contracts, saved in this browser
+					</p>
+				</div>
+				<div className={css(styles.headerActions)}>
+					{notificationPermission === "default" && (
+						<Button variant="outline" size="sm" onClick={requestNotifications}>
+							<Bell className={css(styles.buttonIcon)} />
+							Enable Notifications
+						</Button>
+					)}
+					{notificationPermission === "denied" && (
+						<span className={css(styles.mutedText)}>
+							<BellOff className={css(styles.inlineIcon)} />
+							Browser notifications blocked
+						</span>
+					)}
+					<Button variant="outline" size="sm" onClick={checkNow} disabled={isChecking || entries.length === 0}>
+						<RefreshCw className={css(styles.buttonIcon)} />
+						{isChecking ? "Checking..." : "Check Now"}
+					</Button>
+				</div>
+			</div>
+
+			{/* Alerts */}
+			<Card>
+				<CardHeader>
+					<div className={css(styles.cardHeaderRow)}>
+						<div>
+							<CardTitle>Alerts</CardTitle>
+							<CardDescription>
+								{unreadCount > 0 ? `${unreadCount} unread` : "New transactions and jailing events for watched entries"}
+							</CardDescription>
+						</div>
+						{alerts.length > 0 && (
+							<div className={css(styles.headerActions)}>
+								<Button variant="outline" size="sm" onClick={markAllRead} disabled={unreadCount === 0}>
+									Mark all read
+								</Button>
+								<Button variant="ghost" size="sm" onClick={clearAlerts}>
+									Clear
+								</Button>
+							</div>
+						)}
+					</div>
+				</CardHeader>
+				<CardContent>
+					{alerts.length === 0 ? (
+						<p className={css(styles.mutedText)}>No alerts yet.</p>
+					) : (
+						<div className={css(styles.alertList)}>
+							{alerts.map((alert) => (
+								<Link
+									key={alert.id}
+									to={alert.href}
+									className={cx(css(styles.alertItem), !alert.read && css(styles.alertUnread))}
+								>
+									<div className={css(styles.alertText)}>
+										<span className={css(styles.alertTitle)}>{alert.title}</span>
+										<span className={css(styles.mutedText)}>{alert.message}</span>
+									</div>
+									<span className={css(styles.alertTime)}>{formatTimeAgo(alert.createdAt)}</span>
+								</Link>
+							))}
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			{/* Entries */}
+			<Card>
+				<CardHeader>
+					<CardTitle>Watched</CardTitle>
+					<CardDescription>{entries.length} entries, checked every minute while the explorer is open</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{entries.length === 0 ? (
+						<div className={css(styles.emptyState)}>
+							<Star className={css(styles.emptyIcon)} />
+							<h3 className={css(styles.emptyTitle)}>Nothing Watched Yet</h3>
+							<p className={css(styles.emptyText)}>
+								Use the Watch button on an address, contract or validator page to add it here.
+							</p>
+						</div>
+					) : (
+						<DataTable
+							columns={columns}
+							data={entries}
+							getRowId={(row) => row.address}
+							maxHeight="none"
+						/>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
+
+const styles = {
+	container: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "6",
+		w: "full",
+	},
+	header: {
+		display: "flex",
+		alignItems: "center",
+		justifyContent: "space-between",
+		flexWrap: "wrap",
+		gap: "4",
+		w: "full",
+	},
+	title: {
+		fontSize: "3xl",
+		fontWeight: "bold",
+	},
+	subtitle: {
+		color: "fg.muted",
+		marginTop: "1",
+	},
+	headerActions: {
+		display: "flex",
+		alignItems: "center",
+		gap: "2",
+	},
+	buttonIcon: {
+		h: "4",
+		w: "4",
+		mr: "1",
+	},
+	inlineIcon: {
+		display: "inline",
+		h: "4",
+		w: "4",
+		mr: "1",
+		verticalAlign: "text-bottom",
+	},
+	cardHeaderRow: {
+		display: "flex",
+		alignItems: "center",
+		justifyContent: "space-between",
+		gap: "4",
+	},
+	alertList: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "2",
+		maxH: "96",
+		overflowY: "auto",
+	},
+	alertItem: {
+		display: "flex",
+		alignItems: "center",
+		justifyContent: "space-between",
+		gap: "4",
+		p: "3",
+		rounded: "lg",
+		border: "1px solid",
+		borderColor: "border.default",
+		_hover: { bg: "bg.muted" },
+	},
+	alertUnread: {
+		borderColor: "border.accent",
+		bg: "bg.accentSubtle",
+	},
+	alertText: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "0.5",
+		minW: "0",
+	},
+	alertTitle: {
+		fontSize: "sm",
+		fontWeight: "semibold",
+	},
+	alertTime: {
+		fontSize: "xs",
+		color: "fg.muted",
+		whiteSpace: "nowrap",
+	},
+	nameCell: {
+		display: "flex",
+		flexDirection: "column",
+		gap: "0.5",
+	},
+	nameLink: {
+		fontWeight: "semibold",
+		color: "accent.default",
+		_hover: { textDecoration: "underline" },
+	},
+	addressText: {
+		fontFamily: "mono",
+		fontSize: "xs",
+		color: "fg.muted",
+		wordBreak: "break-all",
+	},
+	balanceList: {
+		display: "flex",
+		flexDirection: "column",
+	},
+	monoText: {
+		fontFamily: "mono",
+		fontSize: "sm",
+	},
+	mutedText: {
+		fontSize: "sm",
+		color: "fg.muted",
+	},
+	actionIcon: {
+		h: "4",
+		w: "4",
+	},
+	emptyState: {
+		textAlign: "center",
+		py: "12",
+		color: "fg.muted",
+	},
+	emptyIcon: {
+		height: "12",
+		width: "12",
+		margin: "0 auto",
+		marginBottom: "4",
+		opacity: "0.5",
+	},
+	emptyTitle: {
+		fontSize: "lg",
+		fontWeight: "semibold",
+		mb: "2",
+	},
+	emptyText: {
+		fontSize: "sm",
+	},
+}